@@ -5,20 +5,34 @@ import bcrypt from "bcryptjs";
 const prisma = new PrismaClient();
 
 async function main() {
-  const [email, pass] = process.argv.slice(2);
-  if (!email || !pass) {
-    console.error("Usage: tsx prisma/create-user.ts <email> <password>");
+  const [emailArg, pass, roleArg = "OWNER"] = process.argv.slice(2);
+  const email = emailArg?.trim().toLowerCase();  // stored in lower case, as login looks it up
+  const role = roleArg.toUpperCase() as Role;
+  if (!email || !pass || !Object.values(Role).includes(role)) {
+    console.error(`Usage: tsx prisma/create-user.ts <email> <password> [${Object.values(Role).join("|")}]`);
     process.exit(1);
   }
   const hash = await bcrypt.hash(pass, 10);
 
   const user = await prisma.user.upsert({
     where: { email },
-    update: { password: hash, role: Role.ADMIN },
-    create: { email, password: hash, role: Role.ADMIN },
+    // Resetting an account also switches off 2FA, for an owner who lost their phone and recovery codes,
+    // and signs it out of every device (its calendar feed key is deleted below)
+    update: {
+      password: hash,
+      role,
+      active: true,
+      totpSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      recoveryCodes: { deleteMany: {} },
+      sessions: { deleteMany: {} },
+    },
+    create: { email, password: hash, role },
   });
+  await prisma.feedToken.deleteMany({ where: { userId: user.id } });
 
-  console.log("✅ Upserted admin:", user.email);
+  console.log(`✅ Upserted ${user.role.toLowerCase()}:`, user.email);
 }
 
 main()
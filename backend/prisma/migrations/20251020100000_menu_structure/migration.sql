@@ -0,0 +1,63 @@
+-- CreateTable
+CREATE TABLE "public"."MenuSection" (
+    "id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "titleEn" TEXT,
+    "titleNl" TEXT,
+    "description" TEXT,
+    "descriptionEn" TEXT,
+    "descriptionNl" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "published" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MenuSection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Dish" (
+    "id" TEXT NOT NULL,
+    "sectionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "nameEn" TEXT,
+    "nameNl" TEXT,
+    "description" TEXT,
+    "descriptionEn" TEXT,
+    "descriptionNl" TEXT,
+    "priceCents" INTEGER,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "published" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dish_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DishVariant" (
+    "id" TEXT NOT NULL,
+    "dishId" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "labelEn" TEXT,
+    "labelNl" TEXT,
+    "priceCents" INTEGER NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DishVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MenuSection_sortOrder_idx" ON "public"."MenuSection"("sortOrder");
+
+-- CreateIndex
+CREATE INDEX "Dish_sectionId_sortOrder_idx" ON "public"."Dish"("sectionId", "sortOrder");
+
+-- CreateIndex
+CREATE INDEX "DishVariant_dishId_sortOrder_idx" ON "public"."DishVariant"("dishId", "sortOrder");
+
+-- AddForeignKey
+ALTER TABLE "public"."Dish" ADD CONSTRAINT "Dish_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "public"."MenuSection"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DishVariant" ADD CONSTRAINT "DishVariant_dishId_fkey" FOREIGN KEY ("dishId") REFERENCES "public"."Dish"("id") ON DELETE CASCADE ON UPDATE CASCADE;
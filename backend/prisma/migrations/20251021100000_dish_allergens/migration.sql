@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "public"."Allergen" AS ENUM ('GLUTEN', 'CRUSTACEANS', 'EGGS', 'FISH', 'PEANUTS', 'SOYBEANS', 'MILK', 'NUTS', 'CELERY', 'MUSTARD', 'SESAME', 'SULPHITES', 'LUPIN', 'MOLLUSCS');
+
+-- AlterTable
+ALTER TABLE "public"."Dish" ADD COLUMN     "allergens" "public"."Allergen"[] DEFAULT ARRAY[]::"public"."Allergen"[],
+ADD COLUMN     "halal" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "spicyLevel" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "vegan" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "vegetarian" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Announcement" ADD COLUMN     "descEn" TEXT,
+ADD COLUMN     "descNl" TEXT,
+ADD COLUMN     "titleEn" TEXT,
+ADD COLUMN     "titleNl" TEXT;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."ReservationStatus" AS ENUM ('PENDING', 'CONFIRMED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."Reservation" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "slot" "public"."Slot" NOT NULL,
+    "timeMin" INTEGER NOT NULL,
+    "covers" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT,
+    "note" TEXT,
+    "status" "public"."ReservationStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Reservation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."SlotCapacity" (
+    "slot" "public"."Slot" NOT NULL,
+    "covers" INTEGER NOT NULL,
+
+    CONSTRAINT "SlotCapacity_pkey" PRIMARY KEY ("slot")
+);
+
+-- CreateIndex
+CREATE INDEX "Reservation_date_slot_idx" ON "public"."Reservation"("date", "slot");
+
+-- CreateIndex
+CREATE INDEX "Reservation_status_idx" ON "public"."Reservation"("status");
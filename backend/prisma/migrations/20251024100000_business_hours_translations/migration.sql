@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."BusinessHours" ADD COLUMN     "displayTextEn" TEXT,
+ADD COLUMN     "displayTextNl" TEXT;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."ClosurePeriod" (
+    "id" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "slot" "public"."Slot" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClosurePeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClosurePeriod_startDate_endDate_idx" ON "public"."ClosurePeriod"("startDate", "endDate");
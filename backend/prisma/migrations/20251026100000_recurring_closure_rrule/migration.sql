@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."RecurringClosure" ADD COLUMN "rrule" TEXT,
+ADD COLUMN "exdates" TIMESTAMP(3)[];
+
+-- Convert the weekly rules ("every N weeks on weekday", Monday=0) to RRULEs
+UPDATE "public"."RecurringClosure"
+SET "rrule" = 'FREQ=WEEKLY;INTERVAL=' || "interval" || ';BYDAY=' || (ARRAY['MO','TU','WE','TH','FR','SA','SU'])["weekday" + 1],
+    "startsOn" = COALESCE("startsOn", CURRENT_DATE::timestamp);
+
+-- AlterTable
+ALTER TABLE "public"."RecurringClosure" ALTER COLUMN "rrule" SET NOT NULL,
+ALTER COLUMN "startsOn" SET NOT NULL,
+ALTER COLUMN "startsOn" SET DEFAULT CURRENT_TIMESTAMP,
+DROP COLUMN "weekday",
+DROP COLUMN "interval";
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."ClosureOverride" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "slot" "public"."Slot" NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ClosureOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClosureOverride_date_idx" ON "public"."ClosureOverride"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClosureOverride_date_slot_key" ON "public"."ClosureOverride"("date", "slot");
@@ -0,0 +1,53 @@
+-- Calendar days become DATE columns. Existing values are instants (local noon or UTC midnight,
+-- depending on the client that wrote them): keep their day in the restaurant's time zone.
+
+-- Two rows of the same day/slot would collide once the time of day is dropped: keep one
+DELETE FROM "public"."Closure" a USING "public"."Closure" b
+WHERE a."slot" = b."slot" AND a."id" > b."id"
+  AND ((a."date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date
+    = ((b."date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+DELETE FROM "public"."ClosureOverride" a USING "public"."ClosureOverride" b
+WHERE a."slot" = b."slot" AND a."id" > b."id"
+  AND ((a."date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date
+    = ((b."date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+-- AlterTable
+ALTER TABLE "public"."Announcement" ALTER COLUMN "date" SET DATA TYPE DATE
+  USING (("date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+-- AlterTable
+ALTER TABLE "public"."Closure" ALTER COLUMN "date" SET DATA TYPE DATE
+  USING (("date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+-- AlterTable
+ALTER TABLE "public"."ClosurePeriod" ALTER COLUMN "startDate" SET DATA TYPE DATE
+  USING (("startDate" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date,
+ALTER COLUMN "endDate" SET DATA TYPE DATE
+  USING (("endDate" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+-- AlterTable
+ALTER TABLE "public"."ClosureOverride" ALTER COLUMN "date" SET DATA TYPE DATE
+  USING (("date" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+-- AlterTable (EXDATE arrays are converted through a new column: no subquery in USING)
+ALTER TABLE "public"."RecurringClosure" ADD COLUMN "exdates_day" DATE[];
+
+UPDATE "public"."RecurringClosure"
+SET "exdates_day" = ARRAY(
+  SELECT ((x AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date FROM unnest("exdates") AS x
+);
+
+ALTER TABLE "public"."RecurringClosure" DROP COLUMN "exdates";
+ALTER TABLE "public"."RecurringClosure" RENAME COLUMN "exdates_day" TO "exdates";
+
+ALTER TABLE "public"."RecurringClosure" ALTER COLUMN "startsOn" SET DATA TYPE DATE
+  USING (("startsOn" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date,
+ALTER COLUMN "endsOn" SET DATA TYPE DATE
+  USING (("endsOn" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
+
+-- AlterTable
+ALTER TABLE "public"."BusinessHours" ALTER COLUMN "effectiveFrom" SET DATA TYPE DATE
+  USING (("effectiveFrom" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date,
+ALTER COLUMN "effectiveTo" SET DATA TYPE DATE
+  USING (("effectiveTo" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Brussels')::date;
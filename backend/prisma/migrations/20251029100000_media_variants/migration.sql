@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."MediaAsset" ADD COLUMN "placeholder" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."MediaVariant" (
+    "id" TEXT NOT NULL,
+    "mediaAssetId" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+
+    CONSTRAINT "MediaVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MediaVariant_mediaAssetId_format_width_key" ON "public"."MediaVariant"("mediaAssetId", "format", "width");
+
+-- AddForeignKey
+ALTER TABLE "public"."MediaVariant" ADD CONSTRAINT "MediaVariant_mediaAssetId_fkey" FOREIGN KEY ("mediaAssetId") REFERENCES "public"."MediaAsset"("id") ON DELETE CASCADE ON UPDATE CASCADE;
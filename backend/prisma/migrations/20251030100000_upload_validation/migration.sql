@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "public"."MediaType" ADD VALUE 'GALLERY';
+
+-- AlterTable
+ALTER TABLE "public"."MediaAsset" ADD COLUMN "mimeType" TEXT,
+ADD COLUMN "size" INTEGER;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "public"."MediaAsset" ADD COLUMN "filename" TEXT,
+ADD COLUMN "folder" TEXT,
+ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Existing uploads: the original name is the storage key without its timestamp prefix
+UPDATE "public"."MediaAsset" SET "filename" = regexp_replace("key", '^[0-9]+_', '') WHERE "key" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "MediaAsset_folder_idx" ON "public"."MediaAsset"("folder");
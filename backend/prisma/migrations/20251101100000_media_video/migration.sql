@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."MediaAsset" ADD COLUMN "posterUrl" TEXT,
+ADD COLUMN "posterKey" TEXT,
+ADD COLUMN "duration" DOUBLE PRECISION,
+ADD COLUMN "muted" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "loop" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "public"."GalleryAlbum" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "titleEn" TEXT,
+    "titleNl" TEXT,
+    "coverId" TEXT,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "published" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GalleryAlbum_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GalleryAlbum_slug_key" ON "public"."GalleryAlbum"("slug");
+
+-- CreateIndex
+CREATE INDEX "GalleryAlbum_sortOrder_idx" ON "public"."GalleryAlbum"("sortOrder");
+
+-- Existing gallery items move to a default album
+INSERT INTO "public"."GalleryAlbum" ("id", "slug", "title", "titleEn", "titleNl", "updatedAt")
+SELECT 'general', 'general', 'Galerie', 'Gallery', 'Galerij', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "public"."GalleryItem");
+
+-- AlterTable
+ALTER TABLE "public"."GalleryItem" ADD COLUMN "albumId" TEXT;
+UPDATE "public"."GalleryItem" SET "albumId" = 'general';
+ALTER TABLE "public"."GalleryItem" ALTER COLUMN "albumId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "public"."GalleryItem_sortOrder_idx";
+
+-- CreateIndex
+CREATE INDEX "GalleryItem_albumId_sortOrder_idx" ON "public"."GalleryItem"("albumId", "sortOrder");
+
+-- AddForeignKey
+ALTER TABLE "public"."GalleryItem" ADD CONSTRAINT "GalleryItem_albumId_fkey" FOREIGN KEY ("albumId") REFERENCES "public"."GalleryAlbum"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GalleryAlbum" ADD CONSTRAINT "GalleryAlbum_coverId_fkey" FOREIGN KEY ("coverId") REFERENCES "public"."MediaAsset"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Existing administrators become owners
+ALTER TYPE "public"."Role" RENAME VALUE 'ADMIN' TO 'OWNER';
+
+-- AlterEnum
+ALTER TYPE "public"."Role" ADD VALUE 'EDITOR';
+ALTER TYPE "public"."Role" ADD VALUE 'VIEWER';
+
+-- AlterTable
+ALTER TABLE "public"."User" ALTER COLUMN "role" DROP DEFAULT,
+ADD COLUMN "active" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "lastLoginAt" TIMESTAMP(3);
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."TokenPurpose" AS ENUM ('RESET', 'INVITE');
+
+-- CreateTable
+CREATE TABLE "public"."PasswordToken" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "purpose" "public"."TokenPurpose" NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PasswordToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PasswordToken_tokenHash_key" ON "public"."PasswordToken"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "PasswordToken_userId_idx" ON "public"."PasswordToken"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PasswordToken" ADD CONSTRAINT "PasswordToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN "totpSecret" TEXT,
+ADD COLUMN "totpEnabledAt" TIMESTAMP(3),
+ADD COLUMN "totpLastStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."RecoveryCode" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RecoveryCode_userId_idx" ON "public"."RecoveryCode"("userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."RecoveryCode" ADD CONSTRAINT "RecoveryCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
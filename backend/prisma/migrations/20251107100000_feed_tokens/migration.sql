@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."FeedToken" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeedToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedToken_userId_key" ON "public"."FeedToken"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedToken_tokenHash_key" ON "public"."FeedToken"("tokenHash");
+
+-- AddForeignKey
+ALTER TABLE "public"."FeedToken" ADD CONSTRAINT "FeedToken_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- Sign-in emails are stored in lower case, as login, password reset and account creation look them up.
+-- Fails on the unique index if two accounts differ only by case: merge or rename one of them first.
+UPDATE "public"."User" SET "email" = lower(trim("email")) WHERE "email" <> lower(trim("email"));
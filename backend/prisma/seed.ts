@@ -12,10 +12,10 @@ async function main() {
   await prisma.user.upsert({
     where: { email },
     update: {},
-    create: { email, password: hash, role: Role.ADMIN },
+    create: { email, password: hash, role: Role.OWNER },
   });
 
-  console.log("Seeded admin:", email, "password:", pass);
+  console.log("Seeded owner:", email, "password:", pass);
 }
 
 main()
@@ -4,7 +4,7 @@
  * @details
  * - Loads environment variables and configures the Express app.
  * - Applies middleware including cookie handling, CORS, JSON parsing, and rate limiting.
- * - Mounts public and admin API routes for authentication, announcements, closures, media, gallery, business hours, analytics, and uploads.
+ * - Mounts public and admin API routes for authentication, announcements, closures, media, gallery, menu, reservations, availability, opening status, business hours, analytics, and uploads.
  * - Exposes health and debug endpoints.
  * - Starts the HTTP server.
  * 
@@ -24,22 +24,37 @@ import path from "path";
 import fs from "fs";
 
 import authRouter from "./routes/auth";
+import twoFactor from "./routes/twoFactor";
+import sessions from "./routes/sessions";
 import announcementsPublic from "./routes/announcements";
 import closuresPublic from "./routes/closures";
+import closuresIcs from "./routes/closuresIcs";
 import mediaPublic from "./routes/media";
 import adminAnnouncements from "./routes/admin/announcements";
 import adminClosures from "./routes/admin/closures";
 import adminMedia from "./routes/admin/media";
 import { requireAdmin } from "./middleware/requireAdmin";
+import { requirePermission } from "./middleware/requirePermission";
 import galleryPublic from "./routes/galleryPublic";
 import adminGallery from "./routes/admin/gallery";
 import recurringClosures from "./routes/admin/recurringClosures";
+import closurePeriods from "./routes/admin/closurePeriods";
+import closureOverrides from "./routes/admin/closureOverrides";
+import adminClosuresIcs from "./routes/admin/closuresIcs";
 import hours from "./routes/hours";
 import adminHours from "./routes/admin/hours"
 import { trackHit } from "./analytics";   
 import rateLimit from "express-rate-limit";
 import adminAnalytics from "./routes/admin/analytics";
+import menuPublic from "./routes/menu";
+import adminMenu from "./routes/admin/menu";
+import reservationsPublic from "./routes/reservations";
+import adminReservations from "./routes/admin/reservations";
+import adminUsers from "./routes/admin/users";
+import availability from "./routes/availability";
+import status from "./routes/status";
 import prisma from "./lib/prisma"
+import { storage, UPLOADS_DIR } from "./lib/storage";
 // @ts-ignore
 import swaggerJsdoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
@@ -55,6 +70,25 @@ import { Express } from "express";
  */
 const trackLimiter = rateLimit({ windowMs: 60_000, limit: 120, standardHeaders: true, legacyHeaders: false });
 
+/**
+ * @brief Express rate limiter for online reservations.
+ * @details Limits POST /api/reservations to 10 requests per IP per 10 minutes.
+ */
+const reservationLimiter = rateLimit({ windowMs: 10 * 60_000, limit: 10, standardHeaders: true, legacyHeaders: false });
+
+/**
+ * @brief Express rate limiter for password reset links.
+ * @details Limits /api/auth/forgot and /api/auth/reset to 10 requests per IP per 15 minutes.
+ */
+const passwordLimiter = rateLimit({ windowMs: 15 * 60_000, limit: 10, standardHeaders: true, legacyHeaders: false });
+
+/**
+ * @brief Express rate limiter for two-factor codes.
+ * @details Limits the routes checking a code (POST /api/auth/login/2fa, and /api/auth/2fa/recovery-codes
+ * and /api/auth/2fa/disable for a signed-in user) to 10 requests per IP per 5 minutes, so codes cannot be guessed.
+ */
+const twoFactorLimiter = rateLimit({ windowMs: 5 * 60_000, limit: 10, standardHeaders: true, legacyHeaders: false });
+
 /**
  * @brief Instance of the Express application.
  */
@@ -83,14 +117,15 @@ app.use(cors({
 }));
 
 /**
- * @brief Ensures the uploads directory exists for hosting static uploaded files.
+ * @brief Serves uploaded files when media are stored on local disk.
  * @details
- *   - Creates the "uploads" directory if it does not exist, supporting local/dev disk storage.
- *   - Serves files under /uploads.
+ *   - With the local storage driver, creates the "uploads" directory if needed and serves it under /uploads.
+ *   - With the S3 driver, files are read from the bucket (or its CDN) and nothing is served here.
  */
-const uploadsDir = path.resolve(process.cwd(), "uploads");
-if (!fs.existsSync(uploadsDir)) fs.mkdirSync(uploadsDir, { recursive: true });
-app.use("/uploads", express.static(uploadsDir));
+if (storage.name === "local") {
+  if (!fs.existsSync(UPLOADS_DIR)) fs.mkdirSync(UPLOADS_DIR, { recursive: true });
+  app.use("/uploads", express.static(UPLOADS_DIR));
+}
 
 /**
  * @brief Health check endpoint.
@@ -103,28 +138,45 @@ app.get("/health", (_req, res) => res.json({ ok: true }));
  * @name Public API Endpoints
  * @brief Mounts routers for public-facing APIs.
  */
+app.use(["/api/auth/forgot", "/api/auth/reset"], passwordLimiter);
+app.use(["/api/auth/login/2fa", "/api/auth/2fa/recovery-codes", "/api/auth/2fa/disable"], twoFactorLimiter);
+app.use("/api/auth/2fa", requireAdmin, twoFactor);
+app.use("/api/auth/sessions", requireAdmin, sessions);
 app.use("/api/auth", authRouter);
 app.use("/api/announcements", announcementsPublic);
 app.use("/api/closures", closuresPublic);
+app.use("/api/closures.ics", closuresIcs);
 app.use("/api/media", mediaPublic);
 app.use("/api/gallery", galleryPublic);
 app.use("/api/hours", hours);
+app.use("/api/availability", availability);
+app.use("/api/status", status);
+app.use("/api/menu", menuPublic);
+app.use("/api/reservations", reservationLimiter, reservationsPublic);
 
 /**
  * @name Admin API Endpoints
  * @brief Mounts routers for admin (protected) APIs.
  * @details
- *   - requireAdmin middleware restricts access to authenticated admin users.
- *   - Includes CRUD endpoints for announcements, closures, media, gallery, recurring closures, business hours, and analytics.
+ *   - requireAdmin middleware restricts access to authenticated, active dashboard users.
+ *   - requirePermission then checks that the user's role grants the area's permission (see lib/permissions.ts).
+ *   - Includes CRUD endpoints for announcements, closures, media, gallery, recurring closures, closure periods, exceptional openings, business hours, analytics, the structured menu, reservations, and dashboard users.
  */
-app.use("/api/admin/announcements", requireAdmin, adminAnnouncements);
-app.use("/api/admin/closures", requireAdmin, adminClosures);
-app.use("/api/admin/media", requireAdmin, adminMedia);
-app.use("/api/admin/gallery", requireAdmin, adminGallery);
-app.use("/api/admin/recurring-closures", requireAdmin, recurringClosures);
-app.use("/api/admin/hours", adminHours)
+const content = [requireAdmin, requirePermission("content")];
+app.use("/api/admin/announcements", content, adminAnnouncements);
+app.use("/api/admin/closures", content, adminClosures);
+app.use("/api/admin/closures.ics", adminClosuresIcs); // authorized by its feed key, not the cookie
+app.use("/api/admin/media", content, adminMedia);
+app.use("/api/admin/gallery", content, adminGallery);
+app.use("/api/admin/recurring-closures", content, recurringClosures);
+app.use("/api/admin/closure-periods", content, closurePeriods);
+app.use("/api/admin/closure-overrides", content, closureOverrides);
+app.use("/api/admin/hours", content, adminHours);
 app.post("/api/track", trackLimiter, trackHit);
-app.use("/api/admin/analytics", requireAdmin, adminAnalytics);
+app.use("/api/admin/analytics", requireAdmin, requirePermission("analytics"), adminAnalytics);
+app.use("/api/admin/menu", content, adminMenu);
+app.use("/api/admin/reservations", requireAdmin, requirePermission("reservations"), adminReservations);
+app.use("/api/admin/users", requireAdmin, requirePermission("users"), adminUsers);
 
 /**
  * @brief Swagger OpenAPI Documentation
@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Regulated allergens and dietary tags carried by dishes
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+/**
+ * The 14 allergens that must be disclosed to customers (EU Regulation 1169/2011, Annex II).
+ * Mirrors the Prisma `Allergen` enum.
+ * @constant
+ */
+export const ALLERGENS = [
+  "GLUTEN",
+  "CRUSTACEANS",
+  "EGGS",
+  "FISH",
+  "PEANUTS",
+  "SOYBEANS",
+  "MILK",
+  "NUTS",
+  "CELERY",
+  "MUSTARD",
+  "SESAME",
+  "SULPHITES",
+  "LUPIN",
+  "MOLLUSCS",
+] as const;
+
+/**
+ * Dietary tags a visitor can filter the menu on.
+ * A vegan dish also counts as vegetarian.
+ * @constant
+ */
+export const DIETS = ["VEGETARIAN", "VEGAN", "HALAL"] as const;
+
+export type AllergenCode = (typeof ALLERGENS)[number];
+export type Diet = (typeof DIETS)[number];
+
+/**
+ * Parses a comma-separated query value against a list of allowed codes (case-insensitive, unknown codes ignored)
+ *
+ * @param {unknown} q - Raw query value, e.g. `"gluten,milk"`
+ * @param {readonly T[]} allowed - Allowed codes
+ * @returns {T[]} The recognised codes
+ *
+ * @example
+ * ```typescript
+ * parseCodes("gluten,MILK,foo", ALLERGENS); // ["GLUTEN", "MILK"]
+ * ```
+ */
+export function parseCodes<T extends string>(q: unknown, allowed: readonly T[]): T[] {
+  if (typeof q !== "string") return [];
+  const wanted = q.split(",").map(s => s.trim().toUpperCase());
+  return allowed.filter(a => wanted.includes(a));
+}
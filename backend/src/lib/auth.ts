@@ -17,25 +17,28 @@ const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-me";
  * JWT payload structure containing user identification
  * @typedef {Object} JWTPayload
  * @property {string} uid - Unique user identifier
+ * @property {string} sid - Server-side session the token belongs to (see lib/sessions.ts)
  */
-export type JWTPayload = { uid: string };
+export type JWTPayload = { uid: string; sid: string };
 
 /**
- * Creates a signed JWT token for the given user ID
+ * Creates a signed JWT token for a session of the given user
  * 
  * @param {string} uid - The unique user identifier to include in the token
- * @returns {string} A signed JWT token that expires in 7 days
+ * @param {string} sid - The session identifier to include in the token
+ * @param {Date} expiresAt - End of the session; the token expires with it
+ * @returns {string} A signed JWT token
  * 
  * @example
  * ```typescript
- * const token = signToken("user123");
+ * const token = signToken("user123", session.id, session.expiresAt);
  * console.log(token); // "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
  * ```
  * 
  * @throws {Error} Throws an error if JWT signing fails
  */
-export function signToken(uid: string): string {
-  return jwt.sign({ uid }, JWT_SECRET, { expiresIn: "7d" });
+export function signToken(uid: string, sid: string, expiresAt: Date): string {
+  return jwt.sign({ uid, sid, exp: Math.floor(expiresAt.getTime() / 1000) }, JWT_SECRET);
 }
 
 /**
@@ -63,3 +66,36 @@ export function verifyToken(token: string): JWTPayload | null {
     return null;
   }
 }
+
+/**
+ * Key of login challenges. It differs from `JWT_SECRET` so that a challenge can never be used as the
+ * `token` cookie.
+ * @private
+ * @constant {string}
+ */
+const CHALLENGE_SECRET = `${JWT_SECRET}:login-challenge`;
+
+/**
+ * Creates the challenge returned by the first login step of an account with two-factor
+ * authentication: it proves the password was right and is exchanged, with a code, for the session cookie.
+ *
+ * @param {string} uid - The user who gave the right password
+ * @returns {string} A signed challenge that expires in 5 minutes
+ */
+export function signLoginChallenge(uid: string): string {
+  return jwt.sign({ uid }, CHALLENGE_SECRET, { expiresIn: "5m" });
+}
+
+/**
+ * Checks a challenge created by {@link signLoginChallenge}
+ *
+ * @param {string} challenge - Challenge sent with the code
+ * @returns {string | null} The user id, or null when the challenge is invalid or expired
+ */
+export function verifyLoginChallenge(challenge: string): string | null {
+  try {
+    return (jwt.verify(challenge, CHALLENGE_SECRET) as { uid: string }).uid;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Per-day opening intervals computed from business hours and closures
+ * @description Single source of truth for "is the restaurant open on this day/service":
+ * used by the public availability endpoint (Contact calendar, booking form) and by the
+ * reservation checks.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { Slot } from "@prisma/client";
+import { prisma } from "./prisma";
+import { closuresBetween, overridesBetween, type ClosureOccurrence } from "./closures";
+import { effectiveHours, minToHHMM, serviceIntervals } from "./hours";
+import { dateToYMD, nowInZone, weekdayMon0, ymdToDate } from "./time";
+
+/**
+ * An open service on a given day
+ * @typedef {Object} OpenInterval
+ */
+export type OpenInterval = {
+  slot: Extract<Slot, "LUNCH" | "DINNER">;
+  start: string;     // "HH:MM"
+  end: string;       // "HH:MM"
+  startMin: number;  // minutes since midnight
+  endMin: number;
+};
+
+/**
+ * Availability of one calendar day
+ * @typedef {Object} DayAvailability
+ */
+export type DayAvailability = {
+  date: string;      // "YYYY-MM-DD"
+  weekday: number;   // Monday=0 … Sunday=6
+  open: boolean;     // at least one service open
+  intervals: OpenInterval[];
+  closures: Array<Pick<ClosureOccurrence, "slot" | "note" | "kind">>;
+  openings: Array<{ slot: Slot; note: string | null }>;  // opening overrides of recurring closures
+};
+
+/**
+ * Live opening status, in the business time zone
+ * @typedef {Object} OpeningStatus
+ */
+export type OpeningStatus = {
+  open: boolean;
+  date: string;                  // today, "YYYY-MM-DD"
+  time: string;                  // now, "HH:MM"
+  service: OpenInterval | null;  // service in progress, if any
+  nextOpening: {
+    date: string;
+    inDays: number;              // 0 = later today, 1 = tomorrow, …
+    slot: OpenInterval["slot"];
+    time: string;                // "HH:MM"
+  } | null;
+};
+
+/**
+ * How many days ahead {@link openingStatus} looks for the next opening
+ * @constant {number}
+ */
+export const STATUS_LOOKAHEAD_DAYS = 14;
+
+/**
+ * Longest range accepted by {@link availabilityBetween}, in days
+ * @constant {number}
+ */
+export const MAX_RANGE_DAYS = 366;
+
+/**
+ * Lists every day of a range with its open intervals: the weekday's lunch/dinner hours
+ * (from the schedule version in force that day), minus the services blocked by one-off or
+ * recurring closures
+ *
+ * @param {string} from - First day "YYYY-MM-DD" (inclusive)
+ * @param {string} to - Last day "YYYY-MM-DD" (inclusive)
+ * @returns {Promise<DayAvailability[]>} One entry per day, in order
+ */
+export async function availabilityBetween(from: string, to: string): Promise<DayAvailability[]> {
+  const start = ymdToDate(from);
+  const end = new Date(ymdToDate(to).getTime() + 86_400_000 - 1);
+
+  const [hours, closures, overrides] = await Promise.all([
+    prisma.businessHours.findMany(),
+    closuresBetween(start, end),
+    overridesBetween(start, end),
+  ]);
+
+  const closuresByDay = new Map<string, ClosureOccurrence[]>();
+  for (const c of closures) {
+    const k = dateToYMD(c.date);
+    closuresByDay.set(k, [...(closuresByDay.get(k) ?? []), c]);
+  }
+
+  const out: DayAvailability[] = [];
+  for (let t = start.getTime(); t <= end.getTime(); t += 86_400_000) {
+    const date = dateToYMD(new Date(t));
+    const weekday = weekdayMon0(date);
+    const dayClosures = closuresByDay.get(date) ?? [];
+    const closed = (slot: Slot) => dayClosures.some(c => c.slot === "ALL" || c.slot === slot);
+
+    const { lunch, dinner } = serviceIntervals(effectiveHours(hours, weekday, new Date(t)));
+    const intervals: OpenInterval[] = [];
+    for (const [slot, i] of [["LUNCH", lunch], ["DINNER", dinner]] as const) {
+      if (!i || closed(slot)) continue;
+      intervals.push({ slot, start: minToHHMM(i.start), end: minToHHMM(i.end), startMin: i.start, endMin: i.end });
+    }
+
+    out.push({
+      date,
+      weekday,
+      open: intervals.length > 0,
+      intervals,
+      closures: dayClosures.map(c => ({ slot: c.slot, note: c.note, kind: c.kind })),
+      openings: overrides.filter(o => dateToYMD(o.date) === date).map(o => ({ slot: o.slot, note: o.note })),
+    });
+  }
+
+  return out;
+}
+
+/**
+ * Tells whether the restaurant is open at a given instant, which service is running and when
+ * the next service starts (null when nothing opens within {@link STATUS_LOOKAHEAD_DAYS} days)
+ *
+ * @param {Date} [at=new Date()] - Instant to evaluate
+ * @returns {Promise<OpeningStatus>} Status in the business time zone
+ */
+export async function openingStatus(at: Date = new Date()): Promise<OpeningStatus> {
+  const { ymd, min } = nowInZone(at);
+  const last = dateToYMD(new Date(ymdToDate(ymd).getTime() + (STATUS_LOOKAHEAD_DAYS - 1) * 86_400_000));
+  const days = await availabilityBetween(ymd, last);
+
+  const service = days[0].intervals.find(i => min >= i.startMin && min < i.endMin) ?? null;
+
+  let nextOpening: OpeningStatus["nextOpening"] = null;
+  for (const [inDays, day] of days.entries()) {
+    const next = day.intervals.find(i => inDays > 0 || i.startMin > min);
+    if (next) {
+      nextOpening = { date: day.date, inDays, slot: next.slot, time: next.start };
+      break;
+    }
+  }
+
+  return { open: service !== null, date: ymd, time: minToHHMM(min), service, nextOpening };
+}
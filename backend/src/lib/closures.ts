@@ -0,0 +1,271 @@
+/**
+ * @fileoverview Closure helpers shared by the public closures feed and the reservation checks.
+ * Three sources are merged: one-off `Closure` days, multi-day `ClosurePeriod` entries and
+ * `RecurringClosure` rules (RFC 5545 RRULEs with EXDATE exceptions), minus the recurring
+ * occurrences cancelled by a `ClosureOverride` (exceptional opening).
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { ClosureOverride, ClosurePeriod, RecurringClosure, Slot } from "@prisma/client";
+import { RRule, type Options } from "rrule";
+import { prisma } from "./prisma";
+import { dateToYMD, ymdToDate } from "./time";
+
+/**
+ * A closure occurrence: a one-off `Closure` row, or one day expanded from a `ClosurePeriod`
+ * (which carries the whole `period`) or from a `RecurringClosure` rule
+ * @typedef {Object} ClosureOccurrence
+ */
+export type ClosureOccurrence = {
+  id: string;
+  date: Date;
+  slot: Slot;
+  note: string | null;
+  kind: "EXCEPTIONAL" | "RECURRING";
+  period?: { id: string; start: Date; end: Date };
+};
+
+/**
+ * Longest closure period accepted by the admin API, in days
+ * @constant {number}
+ */
+export const MAX_PERIOD_DAYS = 366;
+
+/**
+ * Longest range of the public closures listing, in days (5 years, its default range)
+ * @constant {number}
+ */
+export const MAX_CLOSURES_RANGE_DAYS = 5 * 366;
+
+/**
+ * Most occurrences one recurring rule expands to in a range; a daily rule over
+ * {@link MAX_CLOSURES_RANGE_DAYS} stays below it
+ * @constant {number}
+ */
+export const MAX_OCCURRENCES_PER_RULE = 2000;
+
+/**
+ * Expands closure periods into one occurrence per day within a range
+ *
+ * @param {ClosurePeriod[]} periods - Periods (start and end days inclusive)
+ * @param {Date} start - Range start (inclusive)
+ * @param {Date} end - Range end (inclusive)
+ * @returns {ClosureOccurrence[]} One EXCEPTIONAL entry per day, ids formatted as `per_<periodId>_<YYYY-MM-DD>`
+ */
+export function expandPeriods(periods: ClosurePeriod[], start: Date, end: Date): ClosureOccurrence[] {
+  const expanded: ClosureOccurrence[] = [];
+
+  const first = ymdToDate(dateToYMD(start)).getTime();
+
+  for (const p of periods) {
+    const last = Math.min(p.endDate.getTime(), end.getTime());
+    for (let t = Math.max(p.startDate.getTime(), first); t <= last; t += 86_400_000) {
+      const d = new Date(t);
+      expanded.push({
+        id: `per_${p.id}_${dateToYMD(d)}`,
+        date: d,
+        slot: p.slot,
+        note: p.note ?? null,
+        kind: "EXCEPTIONAL",
+        period: { id: p.id, start: p.startDate, end: p.endDate },
+      });
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * RRULE parts accepted for closures: day-level recurrences only (no BYHOUR…, no DTSTART, which
+ * comes from `startsOn`)
+ * @private
+ * @constant {Set<string>}
+ */
+const ALLOWED_RULE_OPTIONS = new Set<keyof Options>([
+  "freq", "interval", "count", "until", "wkst",
+  "byweekday", "bymonth", "bymonthday", "byyearday", "byweekno", "bysetpos",
+]);
+
+/**
+ * Frequencies accepted for closures
+ * @private
+ */
+const ALLOWED_FREQS = [RRule.YEARLY, RRule.MONTHLY, RRule.WEEKLY, RRule.DAILY];
+
+/**
+ * Parses and validates a recurrence rule ("FREQ=MONTHLY;BYDAY=1MO", an optional "RRULE:" prefix
+ * is accepted)
+ *
+ * @param {string} input - RRULE value
+ * @returns {{ rrule: string; options: Partial<Options> } | { error: string }} The normalized rule
+ * and its options, or an error message for the admin
+ */
+export function parseClosureRule(input: string): { rrule: string; options: Partial<Options> } | { error: string } {
+  const rrule = input.trim().replace(/^RRULE:/i, "").toUpperCase();
+  const byday = /(?:^|;)BYDAY=([^;]*)/.exec(rrule)?.[1];
+  if (byday !== undefined && !byday.split(",").every(d => /^[+-]?\d{0,2}(MO|TU|WE|TH|FR|SA|SU)$/.test(d))) {
+    return { error: "BYDAY must list days such as MO, 1MO or -1SU" };
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(rrule);
+  } catch (e) {
+    return { error: `Invalid RRULE: ${(e as Error).message}` };
+  }
+
+  const unsupported = Object.keys(options).filter(k => !ALLOWED_RULE_OPTIONS.has(k as keyof Options));
+  if (unsupported.length) return { error: `Unsupported RRULE part(s): ${unsupported.join(", ").toUpperCase()}` };
+  if (options.freq === undefined || !ALLOWED_FREQS.includes(options.freq)) {
+    return { error: "FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY" };
+  }
+  if (options.interval !== undefined && !(options.interval >= 1)) return { error: "INTERVAL must be at least 1" };
+
+  try {
+    new RRule({ ...options, dtstart: ymdToDate("2000-01-01") });
+  } catch (e) {
+    return { error: `Invalid RRULE: ${(e as Error).message}` };
+  }
+  return { rrule, options };
+}
+
+/**
+ * Builds the recurrence of a closure rule, anchored on its first day and capped by its last day
+ *
+ * @param {Pick<RecurringClosure, "rrule" | "startsOn" | "endsOn">} r - Rule
+ * @returns {RRule | null} The recurrence, or null when the stored rule is no longer valid
+ */
+export function closureRule(r: Pick<RecurringClosure, "rrule" | "startsOn" | "endsOn">): RRule | null {
+  const parsed = parseClosureRule(r.rrule);
+  if ("error" in parsed) return null;
+
+  const dtstart = ymdToDate(dateToYMD(r.startsOn));
+  const endsOn = r.endsOn ? ymdToDate(dateToYMD(r.endsOn)) : null;
+  const until = [parsed.options.until, endsOn].filter((d): d is Date => !!d);
+  return new RRule({
+    ...parsed.options,
+    dtstart,
+    until: until.length ? new Date(Math.min(...until.map(d => d.getTime()))) : null,
+  });
+}
+
+/**
+ * Expands recurring closure rules into dated occurrences within a range, skipping their EXDATEs
+ *
+ * @param {RecurringClosure[]} rules - Recurring rules
+ * @param {Date} start - Range start (inclusive, whole day)
+ * @param {Date} end - Range end (inclusive)
+ * @returns {ClosureOccurrence[]} One entry per matching day, ids formatted as `rec_<ruleId>_<YYYY-MM-DD>`,
+ * at most {@link MAX_OCCURRENCES_PER_RULE} per rule
+ */
+export function expandRecurring(rules: RecurringClosure[], start: Date, end: Date): ClosureOccurrence[] {
+  const expanded: ClosureOccurrence[] = [];
+  const from = ymdToDate(dateToYMD(start));
+
+  for (const r of rules) {
+    const rule = closureRule(r);
+    if (!rule) continue;
+    const skipped = new Set(r.exdates.map(dateToYMD));
+
+    for (const d of rule.between(from, end, true, (_d, n) => n < MAX_OCCURRENCES_PER_RULE)) {
+      const iso = dateToYMD(d);
+      if (skipped.has(iso)) continue;
+      expanded.push({
+        id: `rec_${r.id}_${iso}`,
+        date: d,
+        slot: r.slot,
+        note: r.note ?? null,
+        kind: "RECURRING",
+      });
+    }
+  }
+
+  return expanded;
+}
+
+/**
+ * Removes the recurring occurrences cancelled by opening overrides. An override of one service
+ * turns a whole-day recurring closure into a closure of the other service.
+ *
+ * @param {ClosureOccurrence[]} occurrences - Recurring occurrences
+ * @param {Pick<ClosureOverride, "date" | "slot">[]} overrides - Opening overrides
+ * @returns {ClosureOccurrence[]} Occurrences still in force
+ */
+export function applyOverrides(
+  occurrences: ClosureOccurrence[],
+  overrides: Pick<ClosureOverride, "date" | "slot">[],
+): ClosureOccurrence[] {
+  const opened = new Map<string, Set<Slot>>();
+  for (const o of overrides) {
+    const k = dateToYMD(o.date);
+    opened.set(k, (opened.get(k) ?? new Set<Slot>()).add(o.slot));
+  }
+
+  const out: ClosureOccurrence[] = [];
+  for (const occ of occurrences) {
+    const slots = opened.get(dateToYMD(occ.date));
+    if (!slots) {
+      out.push(occ);
+      continue;
+    }
+    if (slots.has("ALL")) continue;
+    if (occ.slot !== "ALL") {
+      if (!slots.has(occ.slot)) out.push(occ);
+      continue;
+    }
+    const remaining = (["LUNCH", "DINNER"] as const).filter(s => !slots.has(s));
+    if (remaining.length === 1) out.push({ ...occ, slot: remaining[0] });
+    else if (remaining.length === 2) out.push(occ);
+  }
+  return out;
+}
+
+/**
+ * Lists the opening overrides of a range
+ *
+ * @param {Date} start - Range start (inclusive, whole day)
+ * @param {Date} end - Range end (inclusive)
+ * @returns {Promise<ClosureOverride[]>} Overrides, sorted by date
+ */
+export function overridesBetween(start: Date, end: Date): Promise<ClosureOverride[]> {
+  return prisma.closureOverride.findMany({
+    where: { date: { gte: ymdToDate(dateToYMD(start)), lte: end } },
+    orderBy: [{ date: "asc" }, { slot: "asc" }],
+  });
+}
+
+/**
+ * Lists one-off closures, expanded closure periods and expanded recurring closures (minus the
+ * occurrences cancelled by opening overrides) within a range, sorted by date
+ *
+ * @param {Date} start - Range start (inclusive, whole day)
+ * @param {Date} end - Range end (inclusive)
+ * @returns {Promise<ClosureOccurrence[]>} Closure occurrences
+ */
+export async function closuresBetween(start: Date, end: Date): Promise<ClosureOccurrence[]> {
+  const day = ymdToDate(dateToYMD(start));
+  const [oneOffs, periods, rules, overrides] = await Promise.all([
+    prisma.closure.findMany({
+      orderBy: { date: "asc" },
+      where: { date: { gte: day, lte: end } },
+    }),
+    prisma.closurePeriod.findMany({
+      where: { startDate: { lte: end }, endDate: { gte: day } },
+    }),
+    prisma.recurringClosure.findMany(),
+    overridesBetween(start, end),
+  ]);
+
+  return [
+    ...oneOffs.map(o => ({
+      id: o.id,
+      date: o.date,
+      slot: o.slot,
+      note: o.note ?? null,
+      kind: "EXCEPTIONAL" as const,
+    })),
+    ...expandPeriods(periods, start, end),
+    ...applyOverrides(expandRecurring(rules, start, end), overrides),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,71 @@
+/**
+ * @fileoverview Keys of the private closures calendar feed
+ * @description Calendar apps cannot send the session cookie, so the admin feed (closures with their
+ * notes) is authorized by a key in its URL. Each user has their own random key; only its SHA-256 hash
+ * is stored (`FeedToken`), so the URL is shown once, when the key is created. Creating a new key
+ * replaces the previous one.
+ *
+ * A key works only while its user is active and their role grants the `content` permission. It is
+ * deleted when the user revokes it or logs out everywhere, when an owner revokes it, when the
+ * password is reset and when the account is deactivated.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import crypto from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+import { can } from "./permissions";
+
+/**
+ * Hashes a key for storage and lookup
+ * @private
+ * @param {string} token - Key from a feed URL
+ * @returns {string} Hex SHA-256
+ */
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Creates the feed key of a user, replacing their previous one
+ *
+ * @param {string} userId - Account the key is for
+ * @returns {Promise<{ token: string; createdAt: Date }>} Key to put in the feed URL (never stored as is)
+ */
+export async function issueFeedToken(userId: string): Promise<{ token: string; createdAt: Date }> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const tokenHash = hashToken(token);
+  const createdAt = new Date();
+  await prisma.feedToken.upsert({
+    where: { userId },
+    create: { userId, tokenHash, createdAt },
+    update: { tokenHash, createdAt },
+  });
+  return { token, createdAt };
+}
+
+/**
+ * Checks a feed key
+ *
+ * @param {string} token - Key from the feed URL
+ * @returns {Promise<boolean>} True when the key exists and its user may still read the closures
+ */
+export async function verifyFeedToken(token: string): Promise<boolean> {
+  if (!token) return false;
+  const row = await prisma.feedToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    select: { user: { select: { active: true, role: true } } },
+  });
+  return !!row && row.user.active && can(row.user.role, "content");
+}
+
+/**
+ * Deletes the feed key of a user, if any
+ *
+ * @param {Prisma.TransactionClient} db - Client or transaction to write with
+ * @param {string} userId - Account
+ * @returns {Promise<boolean>} false when the user had no key
+ */
+export async function revokeFeedToken(db: Prisma.TransactionClient, userId: string): Promise<boolean> {
+  const deleted = await db.feedToken.deleteMany({ where: { userId } });
+  return deleted.count > 0;
+}
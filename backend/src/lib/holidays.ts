@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Belgian public holidays (the ten legal holidays), computed for any year
+ * @description Fixed-date holidays plus the movable feasts derived from Easter Sunday
+ * (Easter Monday, Ascension, Whit Monday). Used to import a year of holiday closures.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import { dateToYMD, ymdToDate } from "./time";
+
+/**
+ * A public holiday
+ * @typedef {Object} Holiday
+ */
+export type Holiday = {
+  date: string;  // "YYYY-MM-DD"
+  name: string;  // French name, used as the closure note
+};
+
+/**
+ * Years accepted by {@link belgianHolidays}
+ * @constant {{ min: number, max: number }}
+ */
+export const HOLIDAY_YEARS = { min: 2000, max: 2100 };
+
+/**
+ * Easter Sunday of a year (Gregorian calendar, anonymous "Meeus/Jones/Butcher" algorithm)
+ *
+ * @param {number} year - Year
+ * @returns {string} Easter Sunday as "YYYY-MM-DD"
+ */
+export function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Lists the Belgian public holidays of a year, in date order
+ *
+ * @param {number} year - Year
+ * @returns {Holiday[]} The ten legal holidays
+ */
+export function belgianHolidays(year: number): Holiday[] {
+  const easter = ymdToDate(easterSunday(year)).getTime();
+  const afterEaster = (days: number) => dateToYMD(new Date(easter + days * 86_400_000));
+  const fixed = (month: number, day: number) =>
+    `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+
+  return [
+    { date: fixed(1, 1), name: "Jour de l'an" },
+    { date: afterEaster(1), name: "Lundi de Pâques" },
+    { date: fixed(5, 1), name: "Fête du Travail" },
+    { date: afterEaster(39), name: "Ascension" },
+    { date: afterEaster(50), name: "Lundi de Pentecôte" },
+    { date: fixed(7, 21), name: "Fête nationale" },
+    { date: fixed(8, 15), name: "Assomption" },
+    { date: fixed(11, 1), name: "Toussaint" },
+    { date: fixed(11, 11), name: "Armistice" },
+    { date: fixed(12, 25), name: "Noël" },
+  ].sort((x, y) => x.date.localeCompare(y.date));
+}
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Business hours helpers: "HH:MM" parsing and per-service opening intervals
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { BusinessHours } from "@prisma/client";
+import type { Lang } from "./i18n";
+
+/**
+ * Opening interval of one service, in minutes since midnight (`end` exclusive)
+ * @typedef {Object} Interval
+ */
+export type Interval = { start: number; end: number };
+
+/**
+ * Strict "HH:MM" (24h) time of day; "24:00" is accepted as the end of the day
+ * @constant {RegExp}
+ */
+export const HHMM_RE = /^(?:([01]?\d|2[0-3]):[0-5]\d|24:00)$/;
+
+/**
+ * Converts a time string in "HH:MM" format to total minutes
+ *
+ * @param {string | null | undefined} s - Time string ("HH:MM")
+ * @returns {number | null} Total minutes since 00:00, or null if invalid
+ */
+export function hhmmToMin(s?: string | null): number | null {
+  if (!s) return null;
+  const [h, m] = s.split(":").map(Number);
+  if (Number.isNaN(h) || Number.isNaN(m)) return null;
+  return h * 60 + m;
+}
+
+/**
+ * Formats minutes since midnight as "HH:MM"
+ *
+ * @param {number} min - Minutes since 00:00
+ * @returns {string} Zero-padded 24h time
+ */
+export function minToHHMM(min: number): string {
+  return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Parses a formatted text string into lunch/dinner intervals
+ * Only parses up to 2 time ranges. Each must be "HH:MM-HH:MM" (24h).
+ *
+ * @param {string} [text] - Formatted business hours string (e.g. "12:00-14:30, 18:00-22:00")
+ * @returns {{ lunch: [string, string] | null, dinner: [string, string] | null }} Parsed time ranges (if any)
+ */
+export function parseTextToRanges(
+  text?: string
+): { lunch: [string, string] | null; dinner: [string, string] | null } {
+  if (!text) return { lunch: null as [string,string] | null, dinner: null as [string,string] | null };
+  const parts = text
+    .split(",")
+    .map(s => s.trim())
+    .filter(Boolean)
+    .slice(0, 2);
+  const ranges: [string, string][] = [];
+  for (const p of parts) {
+    const [a, b] = p.split(/[-–]/).map(s => s?.trim());
+    if (!a || !b) continue;
+    if (!/^\d{1,2}:\d{2}$/.test(a) || !/^\d{1,2}:\d{2}$/.test(b)) continue;
+    ranges.push([a, b]);
+  }
+  return {
+    lunch: ranges[0] ?? null,
+    dinner: ranges[1] ?? null,
+  };
+}
+
+/**
+ * Lunch and dinner opening intervals of a weekday
+ * Uses the minute columns; rows that only carry a `displayText` are parsed as a fallback.
+ *
+ * @param {BusinessHours | null} row - Business hours of the weekday (null when not configured)
+ * @returns {{ lunch: Interval | null, dinner: Interval | null }} Intervals, null for a closed service
+ */
+export function serviceIntervals(
+  row: Pick<BusinessHours, "closedAllDay" | "displayText" | "lunchStartMin" | "lunchEndMin" | "dinnerStartMin" | "dinnerEndMin"> | null
+): { lunch: Interval | null; dinner: Interval | null } {
+  if (!row || row.closedAllDay) return { lunch: null, dinner: null };
+
+  const interval = (start: number | null, end: number | null): Interval | null =>
+    start != null && end != null && start < end ? { start, end } : null;
+
+  let lunch = interval(row.lunchStartMin, row.lunchEndMin);
+  let dinner = interval(row.dinnerStartMin, row.dinnerEndMin);
+
+  if (!lunch && !dinner && row.displayText) {
+    const r = parseTextToRanges(row.displayText);
+    lunch = r.lunch ? interval(hhmmToMin(r.lunch[0]), hhmmToMin(r.lunch[1])) : null;
+    dinner = r.dinner ? interval(hhmmToMin(r.dinner[0]), hhmmToMin(r.dinner[1])) : null;
+  }
+
+  return { lunch, dinner };
+}
+
+/**
+ * Time of day as written in each language ("12h30" in French, "12:30" in English, "12u30" in Dutch)
+ * @constant {Record<Lang, (min: number) => string>}
+ */
+const TIME_FORMAT: Record<Lang, (min: number) => string> = {
+  fr: min => minToHHMM(min).replace(":", "h"),
+  en: min => minToHHMM(min),
+  nl: min => minToHHMM(min).replace(":", "u"),
+};
+
+/**
+ * Builds the public text of a weekday from its intervals, e.g. "12h00–14h30, 18h30–22h00"
+ *
+ * @param {{ lunch: Interval | null, dinner: Interval | null }} services - Open intervals of the day
+ * @param {Lang} lang - Language of the text
+ * @returns {string} Formatted hours, empty when both services are closed
+ */
+export function formatHoursText(services: { lunch: Interval | null; dinner: Interval | null }, lang: Lang): string {
+  const fmt = TIME_FORMAT[lang];
+  return [services.lunch, services.dinner]
+    .filter((i): i is Interval => i !== null)
+    .map(i => `${fmt(i.start)}–${fmt(i.end)}`)
+    .join(", ");
+}
+
+/**
+ * Display text columns (`displayText`, `displayTextEn`, `displayTextNl`) generated for every language
+ *
+ * @param {{ lunch: Interval | null, dinner: Interval | null }} services - Open intervals of the day
+ * @returns {{ displayText: string, displayTextEn: string, displayTextNl: string }} Column values
+ */
+export function displayTexts(services: { lunch: Interval | null; dinner: Interval | null }) {
+  return {
+    displayText: formatHoursText(services, "fr"),
+    displayTextEn: formatHoursText(services, "en"),
+    displayTextNl: formatHoursText(services, "nl"),
+  };
+}
+
+/**
+ * Picks the business hours version in force for a weekday on a given day.
+ * A version applies from `effectiveFrom` (null = always) through `effectiveTo` (inclusive, null = open-ended);
+ * when several apply, the most recently starting one wins, so a dated schedule (e.g. summer hours)
+ * overrides the base one for its period only.
+ *
+ * @param {T[]} rows - All business hours rows
+ * @param {number} weekday - Monday=0 … Sunday=6
+ * @param {Date} on - Day to resolve (UTC midnight, see `ymdToDate`)
+ * @returns {T | null} Row in force, or null when the weekday is not configured
+ */
+export function effectiveHours<T extends Pick<BusinessHours, "weekday" | "effectiveFrom" | "effectiveTo">>(
+  rows: T[],
+  weekday: number,
+  on: Date
+): T | null {
+  const t = on.getTime();
+  let best: T | null = null;
+  for (const r of rows) {
+    if (r.weekday !== weekday) continue;
+    if (r.effectiveFrom && r.effectiveFrom.getTime() > t) continue;
+    if (r.effectiveTo && r.effectiveTo.getTime() < t) continue;
+    if (!best || (r.effectiveFrom?.getTime() ?? -Infinity) > (best.effectiveFrom?.getTime() ?? -Infinity)) best = r;
+  }
+  return best;
+}
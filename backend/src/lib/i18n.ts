@@ -0,0 +1,65 @@
+/**
+ * @fileoverview Helpers for serving translated content to the public site
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+/**
+ * Languages supported by the public website (mirrors the frontend I18nProvider)
+ * @typedef {"fr" | "en" | "nl"} Lang
+ */
+export type Lang = "fr" | "en" | "nl";
+
+/**
+ * Supported languages, in fallback order.
+ * The base (untranslated) columns hold French, the restaurant's primary language.
+ * @constant {Lang[]}
+ */
+export const LANGS: Lang[] = ["fr", "en", "nl"];
+
+/**
+ * Reads a `lang` query parameter, defaulting to French when missing or unknown
+ *
+ * @param {unknown} q - Raw query value (e.g. `req.query.lang`)
+ * @returns {Lang} A supported language code
+ */
+export function parseLang(q: unknown): Lang {
+  const s = typeof q === "string" ? q.toLowerCase().slice(0, 2) : "";
+  return (LANGS as string[]).includes(s) ? (s as Lang) : "fr";
+}
+
+/**
+ * Resolves a translated field stored as `<field>` (French) plus `<field>En` / `<field>Nl` columns.
+ * Fallback order: the requested language first, then French, English and Dutch (see {@link LANGS});
+ * empty values are skipped.
+ *
+ * @param {Record<string, any>} row - Database row carrying the columns
+ * @param {string} field - Base column name, e.g. "title"
+ * @param {Lang} lang - Requested language
+ * @returns {string | null} The best available translation, or null when every column is empty
+ *
+ * @example
+ * ```typescript
+ * pick({ title: "Fermé", titleNl: "Gesloten" }, "title", "nl");     // "Gesloten"
+ * pick({ title: "Fermé", titleNl: null }, "title", "nl");           // "Fermé"
+ * pick({ desc: null, descEn: "Closed", descNl: null }, "desc", "nl"); // "Closed"
+ * ```
+ */
+export function pick(row: Record<string, any>, field: string, lang: Lang): string | null {
+  for (const l of [lang, ...LANGS]) {
+    const v = row[column(field, l)];
+    if (typeof v === "string" && v.trim()) return v;
+  }
+  return null;
+}
+
+/**
+ * Column holding a field in a given language ("title" + "nl" -> "titleNl"; French is the base column)
+ *
+ * @param {string} field - Base column name
+ * @param {Lang} lang - Language
+ * @returns {string} Column name
+ */
+function column(field: string, lang: Lang): string {
+  return lang === "fr" ? field : field + lang.charAt(0).toUpperCase() + lang.slice(1);
+}
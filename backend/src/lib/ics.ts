@@ -0,0 +1,280 @@
+/**
+ * @fileoverview Minimal iCalendar (RFC 5545) writer and the closures calendar built with it
+ * @description Produces VCALENDAR text with all-day events (whole-day closures) and timed events in
+ * the restaurant's time zone (lunch/dinner closures, using the business hours of that day). Timed
+ * events use local times with a TZID for Europe/Brussels, whose VTIMEZONE is included; in any other
+ * zone they are written in UTC, since no definition of that zone is embedded.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { Slot } from "@prisma/client";
+import { prisma } from "./prisma";
+import { closuresBetween } from "./closures";
+import { effectiveHours, serviceIntervals, type Interval } from "./hours";
+import type { Lang } from "./i18n";
+import { BUSINESS_TZ, dateToYMD, nowInZone, weekdayMon0, ymdToDate } from "./time";
+
+/**
+ * One calendar event: all-day when `startMin` is omitted, otherwise timed in {@link BUSINESS_TZ}
+ * @typedef {Object} IcsEvent
+ */
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  date: string;       // first day "YYYY-MM-DD"
+  lastDate?: string;  // last day of a multi-day all-day event (inclusive)
+  startMin?: number;  // minutes since midnight, local time
+  endMin?: number;
+};
+
+/**
+ * VTIMEZONE definition for Europe/Brussels (CET/CEST, EU daylight-saving rules)
+ * @private
+ * @constant {string[]}
+ */
+const BRUSSELS_VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  "TZID:Europe/Brussels",
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:+0100",
+  "TZOFFSETTO:+0200",
+  "TZNAME:CEST",
+  "DTSTART:19700329T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:+0200",
+  "TZOFFSETTO:+0100",
+  "TZNAME:CET",
+  "DTSTART:19701025T030000",
+  "RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+/**
+ * Escapes a TEXT value (backslash, semicolon, comma and newlines)
+ *
+ * @param {string} s - Raw text
+ * @returns {string} Escaped text
+ */
+export function escapeText(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Folds a content line to 75 octets, continuation lines starting with a space (RFC 5545 §3.1)
+ *
+ * @param {string} line - Unfolded content line
+ * @returns {string} Folded line, CRLF-separated
+ */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let limit = 75;
+  for (const ch of line) {
+    if (Buffer.byteLength(current + ch, "utf8") > limit) {
+      parts.push(current);
+      current = "";
+      limit = 74; // the leading space counts
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * "YYYY-MM-DD" → "YYYYMMDD"
+ * @private
+ */
+const icsDate = (ymd: string) => ymd.replace(/-/g, "");
+
+/**
+ * Local date-time value "YYYYMMDDTHHMMSS"; 24:00 (a service ending at midnight) is written as 00:00
+ * of the next day, since RFC 5545 has no hour 24
+ * @private
+ */
+const icsLocal = (ymd: string, min: number): string =>
+  min >= 24 * 60
+    ? icsLocal(nextDay(ymd), min - 24 * 60)
+    : `${icsDate(ymd)}T${String(Math.floor(min / 60)).padStart(2, "0")}${String(min % 60).padStart(2, "0")}00`;
+
+/**
+ * UTC date-time value "YYYYMMDDTHHMMSSZ"
+ * @private
+ */
+const icsUtc = (d: Date) => d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+/**
+ * Instant of a wall-clock time in {@link BUSINESS_TZ}
+ * @private
+ * @param {string} ymd - Day as "YYYY-MM-DD"
+ * @param {number} min - Minutes since local midnight
+ * @returns {Date} The instant; corrected twice for the zone offset, which may differ on either side
+ * of a daylight-saving change
+ */
+function zonedInstant(ymd: string, min: number): Date {
+  const wall = ymdToDate(ymd).getTime() + min * 60_000;
+  let t = wall;
+  for (let i = 0; i < 2; i++) {
+    const local = nowInZone(new Date(t));
+    t += wall - (ymdToDate(local.ymd).getTime() + local.min * 60_000);
+  }
+  return new Date(t);
+}
+
+/**
+ * DTSTART/DTEND property of a timed event: local time with its TZID when the zone is defined in the
+ * calendar, UTC otherwise
+ * @private
+ */
+const icsDateTime = (name: "DTSTART" | "DTEND", ymd: string, min: number) =>
+  BUSINESS_TZ === "Europe/Brussels"
+    ? `${name};TZID=${BUSINESS_TZ}:${icsLocal(ymd, min)}`
+    : `${name}:${icsUtc(zonedInstant(ymd, min))}`;
+
+/**
+ * Day after a "YYYY-MM-DD" day
+ * @private
+ */
+const nextDay = (ymd: string) => dateToYMD(new Date(ymdToDate(ymd).getTime() + 86_400_000));
+
+/**
+ * Serializes events into a VCALENDAR document
+ *
+ * @param {string} name - Calendar name shown by clients (X-WR-CALNAME)
+ * @param {IcsEvent[]} events - Events to include
+ * @returns {string} iCalendar text with CRLF line endings
+ */
+export function buildCalendar(name: string, events: IcsEvent[]): string {
+  const stamp = icsUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//L'Orange Rose//Closures//FR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${BUSINESS_TZ}`,
+    ...(BUSINESS_TZ === "Europe/Brussels" ? BRUSSELS_VTIMEZONE : []),
+  ];
+
+  for (const e of events) {
+    lines.push("BEGIN:VEVENT", `UID:${e.uid}`, `DTSTAMP:${stamp}`);
+    if (e.startMin === undefined || e.endMin === undefined) {
+      lines.push(
+        `DTSTART;VALUE=DATE:${icsDate(e.date)}`,
+        `DTEND;VALUE=DATE:${icsDate(nextDay(e.lastDate ?? e.date))}`,
+        "TRANSP:TRANSPARENT",
+      );
+    } else {
+      lines.push(icsDateTime("DTSTART", e.date, e.startMin), icsDateTime("DTEND", e.date, e.endMin));
+    }
+    lines.push(`SUMMARY:${escapeText(e.summary)}`);
+    if (e.description) lines.push(`DESCRIPTION:${escapeText(e.description)}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Event titles per language and slot
+ * @private
+ * @constant {Record<Lang, Record<Slot, string>>}
+ */
+const SUMMARY: Record<Lang, Record<Slot, string>> = {
+  fr: { ALL: "L'Orange Rose fermé", LUNCH: "L'Orange Rose fermé le midi", DINNER: "L'Orange Rose fermé le soir" },
+  en: { ALL: "L'Orange Rose closed", LUNCH: "L'Orange Rose closed for lunch", DINNER: "L'Orange Rose closed for dinner" },
+  nl: { ALL: "L'Orange Rose gesloten", LUNCH: "L'Orange Rose 's middags gesloten", DINNER: "L'Orange Rose 's avonds gesloten" },
+};
+
+/**
+ * Calendar names per language
+ * @private
+ * @constant {Record<Lang, string>}
+ */
+const CALENDAR_NAME: Record<Lang, string> = {
+  fr: "L'Orange Rose – fermetures",
+  en: "L'Orange Rose – closures",
+  nl: "L'Orange Rose – sluitingen",
+};
+
+/**
+ * Service times used for a lunch/dinner closure when the day has no hours configured
+ * @private
+ */
+const FALLBACK_SERVICE: Record<"LUNCH" | "DINNER", Interval> = {
+  LUNCH: { start: 12 * 60, end: 14 * 60 + 30 },
+  DINNER: { start: 18 * 60, end: 22 * 60 },
+};
+
+/**
+ * Days of history kept in the feeds (past closures stay visible for a month)
+ * @constant {number}
+ */
+export const FEED_PAST_DAYS = 30;
+
+/**
+ * Days ahead covered by the feeds
+ * @constant {number}
+ */
+export const FEED_FUTURE_DAYS = 366;
+
+/**
+ * Builds the closures calendar: one-off closures, closure periods and expanded recurring closures.
+ * Whole-day closures are all-day events (a closure period becomes one multi-day event); lunch or
+ * dinner closures are timed events covering that service's hours.
+ *
+ * @param {Object} opts
+ * @param {Lang} opts.lang - Language of titles and calendar name
+ * @param {boolean} opts.includeNotes - Add the internal notes as event descriptions (admin feed)
+ * @returns {Promise<string>} iCalendar text
+ */
+export async function closuresCalendar(opts: { lang: Lang; includeNotes: boolean }): Promise<string> {
+  const today = ymdToDate(nowInZone().ymd).getTime();
+  const start = new Date(today - FEED_PAST_DAYS * 86_400_000);
+  const end = new Date(today + FEED_FUTURE_DAYS * 86_400_000);
+
+  const [occurrences, hours] = await Promise.all([
+    closuresBetween(start, end),
+    prisma.businessHours.findMany(),
+  ]);
+
+  const events: IcsEvent[] = [];
+  const seenPeriods = new Set<string>();
+
+  for (const o of occurrences) {
+    const date = dateToYMD(o.date);
+    const base = {
+      summary: SUMMARY[opts.lang][o.slot],
+      description: opts.includeNotes ? o.note : null,
+    };
+
+    if (o.slot === "ALL") {
+      if (o.period) {
+        if (seenPeriods.has(o.period.id)) continue;
+        seenPeriods.add(o.period.id);
+        events.push({
+          ...base,
+          uid: `per_${o.period.id}@lorangerose`,
+          date: dateToYMD(o.period.start),
+          lastDate: dateToYMD(o.period.end),
+        });
+      } else {
+        events.push({ ...base, uid: `${o.id}@lorangerose`, date });
+      }
+      continue;
+    }
+
+    const intervals = serviceIntervals(effectiveHours(hours, weekdayMon0(date), ymdToDate(date)));
+    const service = (o.slot === "LUNCH" ? intervals.lunch : intervals.dinner) ?? FALLBACK_SERVICE[o.slot];
+    events.push({ ...base, uid: `${o.id}@lorangerose`, date, startMin: service.start, endMin: service.end });
+  }
+
+  return buildCalendar(CALENDAR_NAME[opts.lang], events);
+}
@@ -0,0 +1,198 @@
+/**
+ * @fileoverview Server-side processing of uploaded images
+ * @description Normalizes an uploaded image (auto-rotated from its EXIF orientation, metadata such as
+ * GPS position stripped) and generates resized AVIF/WebP variants plus a blurred placeholder, all
+ * written through the configured storage driver (see storage.ts).
+ * Public endpoints expose the variants as `srcset` strings so browsers pick the lightest suitable file.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import path from "path";
+import sharp from "sharp";
+import type { MediaVariant } from "@prisma/client";
+import { mediaUrl, storage, withMediaUrls } from "./storage";
+
+/**
+ * Widths of the generated variants, in pixels (only those narrower than the original are produced)
+ * @constant {number[]}
+ */
+export const VARIANT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+/**
+ * Formats of the generated variants, best compression first
+ * @constant
+ */
+export const VARIANT_FORMATS = ["avif", "webp"] as const;
+
+export type VariantFormat = (typeof VARIANT_FORMATS)[number];
+
+/**
+ * Input formats that are processed; anything else (PDF, SVG, GIF…) is stored untouched
+ * @private
+ * @constant
+ */
+const PROCESSED_FORMATS = new Set(["jpeg", "png", "webp", "avif", "tiff", "heif"]);
+
+/**
+ * Width of the blurred placeholder, in pixels
+ * @private
+ * @constant {number}
+ */
+const PLACEHOLDER_WIDTH = 16;
+
+/**
+ * Result of {@link storeUpload}: dimensions, placeholder and variants are only set for images
+ * @typedef {Object} StoredUpload
+ */
+export type StoredUpload = {
+  key: string;
+  url: string;
+  size: number;                // bytes of the stored original
+  width: number | null;
+  height: number | null;
+  placeholder: string | null;  // data URI
+  variants: Array<Pick<MediaVariant, "format" | "width" | "height" | "url" | "key" | "size">>;
+};
+
+/**
+ * `srcset` strings per format, e.g. `{ webp: "/uploads/a_320.webp 320w, /uploads/a_640.webp 640w" }`
+ * @typedef {Object} SrcSet
+ */
+export type SrcSet = Partial<Record<VariantFormat, string>>;
+
+/**
+ * Storage key of a new upload: a timestamp followed by the sanitized original file name, with the
+ * extension of the detected type (the client's extension is not trusted)
+ *
+ * @param {string} originalName - File name sent by the client
+ * @param {string} extension - Extension of the detected type, e.g. ".jpg"
+ * @returns {string} Key such as "1730000000000_terrace.jpg"
+ */
+export function uploadKey(originalName: string, extension: string): string {
+  const base = path.parse(originalName).name.replace(/[^\w-]/g, "_").slice(0, 64);
+  return `${Date.now()}_${base}${extension}`;
+}
+
+/**
+ * Stores an uploaded file. Images are first rewritten auto-rotated and without metadata, and their
+ * variants (`<name>_<width>.<format>`) are stored next to them; other files are stored untouched.
+ *
+ * @param {string} key - Storage key of the original (see {@link uploadKey})
+ * @param {Buffer} input - Uploaded bytes
+ * @param {string} contentType - MIME type of the upload
+ * @returns {Promise<StoredUpload | { error: string }>} What was stored, or an error when the file
+ * claims an image format but cannot be decoded (nothing is stored then)
+ * @throws {Error} When the storage driver fails (files written so far are removed)
+ */
+export async function storeUpload(
+  key: string,
+  input: Buffer,
+  contentType: string,
+): Promise<StoredUpload | { error: string }> {
+  let format: string | undefined;
+  try {
+    format = (await sharp(input).metadata()).format;
+  } catch {
+    format = undefined;
+  }
+  if (!format || !PROCESSED_FORMATS.has(format)) {
+    await storage.put(key, input, contentType);
+    return { key, url: storage.url(key), size: input.length, width: null, height: null, placeholder: null, variants: [] };
+  }
+
+  // rotate() applies the EXIF orientation; sharp drops all metadata unless asked to keep it
+  let normalized: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    normalized = await sharp(input).rotate().toFormat(format as keyof sharp.FormatEnum)
+      .toBuffer({ resolveWithObject: true });
+  } catch {
+    return { error: "The image could not be read" };
+  }
+  const { data: image, info } = normalized;
+
+  const widths = VARIANT_WIDTHS.filter(w => w < info.width);
+  if (info.width <= VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]) widths.push(info.width);
+
+  const base = path.parse(key).name;
+  const variants: StoredUpload["variants"] = [];
+  const written: string[] = [];
+  let blurred: Buffer;
+  try {
+    await storage.put(key, image, contentType);
+    written.push(key);
+    for (const variantFormat of VARIANT_FORMATS) {
+      for (const width of widths) {
+        const variantKey = `${base}_${width}.${variantFormat}`;
+        const resized = sharp(image).resize({ width });
+        const { data, info: out } = await (variantFormat === "avif" ? resized.avif({ quality: 50 }) : resized.webp({ quality: 75 }))
+          .toBuffer({ resolveWithObject: true });
+        await storage.put(variantKey, data, `image/${variantFormat}`);
+        written.push(variantKey);
+        variants.push({
+          format: variantFormat,
+          width: out.width,
+          height: out.height,
+          url: storage.url(variantKey),
+          key: variantKey,
+          size: out.size,
+        });
+      }
+    }
+    blurred = await sharp(image).resize({ width: PLACEHOLDER_WIDTH }).blur().webp({ quality: 40 }).toBuffer();
+  } catch (e) {
+    // Nothing is kept when any step fails, so a failed upload leaves no orphaned files
+    await removeUploads(written);
+    throw e;
+  }
+
+  return {
+    key,
+    url: storage.url(key),
+    size: image.length,
+    width: info.width,
+    height: info.height,
+    placeholder: `data:image/webp;base64,${blurred.toString("base64")}`,
+    variants,
+  };
+}
+
+/**
+ * Deletes stored files, ignoring the ones already gone
+ *
+ * @param {string[]} keys - Storage keys
+ * @returns {Promise<void>}
+ */
+export async function removeUploads(keys: string[]): Promise<void> {
+  await Promise.all(keys.map(k => storage.delete(k).catch(() => void 0)));
+}
+
+/**
+ * Builds the `srcset` strings of an asset from its variants
+ *
+ * @param {Array} variants - Variants of one asset
+ * @returns {SrcSet | null} One `srcset` per format, or null when the asset has no variants
+ */
+export function buildSrcSet(variants: Array<Pick<MediaVariant, "format" | "width" | "url" | "key">>): SrcSet | null {
+  if (variants.length === 0) return null;
+  const out: SrcSet = {};
+  for (const format of VARIANT_FORMATS) {
+    const list = variants.filter(v => v.format === format).sort((a, b) => a.width - b.width);
+    if (list.length) out[format] = list.map(v => `${mediaUrl(v)} ${v.width}w`).join(", ");
+  }
+  return out;
+}
+
+/**
+ * Prepares an asset for API responses: `url` (and a video's `posterUrl`) resolved by the storage
+ * driver and the `variants` relation replaced by its `srcset`
+ *
+ * @param {Object} asset - Asset loaded with `include: { variants: true }`
+ * @returns {Object} The asset without `variants`, with `srcset`
+ */
+export function withSrcSet<T extends { url: string; key: string | null; variants: MediaVariant[] }>(
+  asset: T,
+): Omit<T, "variants"> & { srcset: SrcSet | null } {
+  const { variants, ...rest } = asset;
+  return { ...withMediaUrls(rest), srcset: buildSrcSet(variants) };
+}
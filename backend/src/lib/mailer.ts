@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Outgoing email, behind a driver chosen by configuration
+ * @description `MAIL_DRIVER=console` (default) prints messages to the server log; `MAIL_DRIVER=file`
+ * writes each message as an `.eml` file in `MAIL_DIR` (default "./mail"), to open in a mail client;
+ * `MAIL_DRIVER=smtp` sends them through an SMTP server. Messages are sent from `MAIL_FROM`.
+ *
+ * SMTP settings: `SMTP_HOST` (required), `SMTP_PORT` (default 587), `SMTP_SECURE=true` (TLS from
+ * the start, usually port 465; otherwise STARTTLS when offered) and `SMTP_USER`/`SMTP_PASS`.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import nodemailer from "nodemailer";
+
+/**
+ * An email to send
+ * @typedef {Object} MailMessage
+ */
+export type MailMessage = {
+  to: string;
+  subject: string;
+  /** Plain-text body */
+  text: string;
+  /** HTML body (optional) */
+  html?: string;
+};
+
+/**
+ * A way of delivering emails
+ * @typedef {Object} Mailer
+ */
+export type Mailer = {
+  name: "console" | "file" | "smtp";
+  /** Delivers a message; rejects when it could not be handed over */
+  send(message: MailMessage): Promise<void>;
+};
+
+/**
+ * Sender of every message
+ * @constant {string}
+ */
+export const MAIL_FROM = process.env.MAIL_FROM || "L'Orange Rose <no-reply@lorangerose.be>";
+
+/**
+ * Driver printing messages to the server log
+ *
+ * @returns {Mailer} Console driver
+ */
+export function consoleDriver(): Mailer {
+  return {
+    name: "console",
+    async send({ to, subject, text }) {
+      console.log(`[mail] To: ${to}\n[mail] Subject: ${subject}\n${text}`);
+    },
+  };
+}
+
+/**
+ * Driver writing each message as an `.eml` file
+ *
+ * @param {string} dir - Directory holding the messages
+ * @returns {Mailer} File driver; files are named after the send time and the recipient
+ */
+export function fileDriver(dir: string): Mailer {
+  const transport = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+  return {
+    name: "file",
+    async send(message) {
+      const info = await transport.sendMail({ from: MAIL_FROM, ...message });
+      const name = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`;
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(path.join(dir, name), info.message as Buffer);
+    },
+  };
+}
+
+/**
+ * Driver sending through an SMTP server
+ *
+ * @param {Object} opts
+ * @param {string} opts.host - Server host name
+ * @param {number} opts.port - Server port
+ * @param {boolean} opts.secure - Use TLS from the start (port 465)
+ * @param {{ user: string; pass: string }} [opts.auth] - Credentials
+ * @returns {Mailer} SMTP driver
+ */
+export function smtpDriver(opts: {
+  host: string;
+  port: number;
+  secure: boolean;
+  auth?: { user: string; pass: string };
+}): Mailer {
+  const transport = nodemailer.createTransport(opts);
+  return {
+    name: "smtp",
+    async send(message) {
+      await transport.sendMail({ from: MAIL_FROM, ...message });
+    },
+  };
+}
+
+/**
+ * Builds the driver selected by the environment
+ * @private
+ * @returns {Mailer}
+ * @throws {Error} When `MAIL_DRIVER` is unknown or `SMTP_HOST` is missing
+ */
+function fromEnv(): Mailer {
+  const driver = process.env.MAIL_DRIVER || "console";
+  if (driver === "console") return consoleDriver();
+  if (driver === "file") return fileDriver(path.resolve(process.cwd(), process.env.MAIL_DIR || "mail"));
+  if (driver !== "smtp") throw new Error(`Unknown MAIL_DRIVER "${driver}" (expected "console", "file" or "smtp")`);
+
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("SMTP_HOST is required when MAIL_DRIVER=smtp");
+  const { SMTP_USER: user, SMTP_PASS: pass } = process.env;
+
+  return smtpDriver({
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: user && pass ? { user, pass } : undefined,
+  });
+}
+
+/**
+ * The configured mailer
+ * @constant {Mailer}
+ */
+export const mailer: Mailer = fromEnv();
@@ -0,0 +1,165 @@
+/**
+ * @fileoverview Emailed links to choose a password: forgotten passwords and invitations
+ * @description A link carries a random token; only its SHA-256 hash is stored (`PasswordToken`), so
+ * the database alone cannot be used to take over an account. A token works once and expires after
+ * {@link TOKEN_TTL_MS}; issuing a new link for the same purpose cancels the previous one.
+ *
+ * Links point to the dashboard's `/admin/reset` page on `APP_URL` (default `CORS_ORIGIN`, then
+ * "http://localhost:5173").
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import type { TokenPurpose } from "@prisma/client";
+import { prisma } from "./prisma";
+import { mailer } from "./mailer";
+import { revokeUserSessions } from "./sessions";
+import { revokeFeedToken } from "./feedTokens";
+
+/**
+ * Validity of a link, per purpose
+ * @constant {Record<TokenPurpose, number>}
+ */
+export const TOKEN_TTL_MS: Record<TokenPurpose, number> = {
+  RESET: 60 * 60_000,              // 1 hour
+  INVITE: 7 * 24 * 60 * 60_000,    // 7 days
+};
+
+/**
+ * Rules for a password chosen through a link
+ * @constant
+ */
+export const NewPassword = z.string().min(10, "At least 10 characters").max(72, "At most 72 characters");
+
+/**
+ * Base URL of the dashboard, used in links
+ * @private
+ * @constant {string}
+ */
+const APP_URL = (process.env.APP_URL || process.env.CORS_ORIGIN || "http://localhost:5173").replace(/\/+$/, "");
+
+/**
+ * Hashes a token for storage and lookup
+ * @private
+ * @param {string} token - Token from a link
+ * @returns {string} Hex SHA-256
+ */
+const hashToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Creates a link token, cancelling the user's previous token for the same purpose
+ *
+ * @param {string} userId - Account the link is for
+ * @param {TokenPurpose} purpose - Forgotten password or invitation
+ * @returns {Promise<string>} Token to put in the link (never stored as is)
+ */
+export async function issuePasswordToken(userId: string, purpose: TokenPurpose): Promise<string> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.passwordToken.deleteMany({ where: { userId, OR: [{ purpose }, { expiresAt: { lte: now } }] } }),
+    prisma.passwordToken.create({
+      data: {
+        userId,
+        purpose,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(now.getTime() + TOKEN_TTL_MS[purpose]),
+      },
+    }),
+  ]);
+  return token;
+}
+
+/**
+ * Builds the email carrying a link
+ * @private
+ * @param {TokenPurpose} purpose - Forgotten password or invitation
+ * @param {string} url - Link to the reset page
+ * @returns {{ subject: string; text: string }}
+ */
+function linkEmail(purpose: TokenPurpose, url: string): { subject: string; text: string } {
+  if (purpose === "INVITE") {
+    return {
+      subject: "Invitation au tableau de bord L'Orange Rose",
+      text: [
+        "Bonjour,",
+        "",
+        "Un compte a été créé pour vous sur le tableau de bord de L'Orange Rose.",
+        "Choisissez votre mot de passe avec ce lien, valable 7 jours :",
+        "",
+        url,
+        "",
+        "Si vous n'attendiez pas cette invitation, ignorez ce message.",
+      ].join("\n"),
+    };
+  }
+  return {
+    subject: "Réinitialisation de votre mot de passe",
+    text: [
+      "Bonjour,",
+      "",
+      "Une réinitialisation du mot de passe de votre compte a été demandée.",
+      "Choisissez un nouveau mot de passe avec ce lien, valable 1 heure et utilisable une seule fois :",
+      "",
+      url,
+      "",
+      "Si vous n'êtes pas à l'origine de cette demande, ignorez ce message : votre mot de passe reste inchangé.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Issues a link and emails it to the user
+ *
+ * @param {{ id: string; email: string }} user - Recipient
+ * @param {TokenPurpose} purpose - Forgotten password or invitation
+ * @returns {Promise<void>}
+ * @throws {Error} When the mailer could not send the message
+ */
+export async function sendPasswordLink(user: { id: string; email: string }, purpose: TokenPurpose): Promise<void> {
+  const token = await issuePasswordToken(user.id, purpose);
+  const url = `${APP_URL}/admin/reset?token=${encodeURIComponent(token)}`;
+  await mailer.send({ to: user.email, ...linkEmail(purpose, url) });
+}
+
+/**
+ * Sets a password from a link: the token is used up, the user's other links are cancelled, their
+ * sessions ended on every device and their calendar feed key deleted
+ *
+ * @param {string} token - Token from the link
+ * @param {string} password - New password (already validated with {@link NewPassword})
+ * @returns {Promise<{ userId: string; purpose: TokenPurpose } | null>} The account updated, or null
+ * when the token is unknown, used, expired or its account deactivated
+ */
+export async function resetPassword(
+  token: string,
+  password: string,
+): Promise<{ userId: string; purpose: TokenPurpose } | null> {
+  const tokenHash = hashToken(token);
+  const hash = await bcrypt.hash(password, 10);
+
+  return prisma.$transaction(async (tx) => {
+    const now = new Date();
+    // Marking the token used is the check itself, so two concurrent requests cannot both succeed
+    const used = await tx.passwordToken.updateMany({
+      where: { tokenHash, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+    if (used.count === 0) return null;
+
+    const row = await tx.passwordToken.findUniqueOrThrow({
+      where: { tokenHash },
+      select: { userId: true, purpose: true, user: { select: { active: true } } },
+    });
+    if (!row.user.active) return null;
+
+    await tx.user.update({ where: { id: row.userId }, data: { password: hash } });
+    await tx.passwordToken.deleteMany({ where: { userId: row.userId, usedAt: null } });
+    await revokeUserSessions(tx, row.userId);
+    await revokeFeedToken(tx, row.userId);
+    return { userId: row.userId, purpose: row.purpose };
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview Dashboard roles and the permissions they grant
+ * @description Every dashboard account has one role. Admin routers are mounted behind
+ * `requirePermission(...)` (see middleware/requirePermission.ts) with the permission of their area:
+ *
+ * | Permission     | Areas                                                              | Roles          |
+ * |----------------|--------------------------------------------------------------------|----------------|
+ * | `content`      | announcements, carousel/media, gallery, menu, hours and closures   | OWNER, EDITOR  |
+ * | `reservations` | table reservations                                                 | OWNER          |
+ * | `analytics`    | visit statistics                                                   | OWNER, VIEWER  |
+ * | `users`        | dashboard accounts and roles                                       | OWNER          |
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { Role } from "@prisma/client";
+
+/**
+ * Permissions checked by the admin API
+ * @constant
+ */
+export const PERMISSIONS = ["content", "reservations", "analytics", "users"] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+/**
+ * Permissions granted by each role
+ * @constant {Record<Role, Permission[]>}
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  OWNER: ["content", "reservations", "analytics", "users"],
+  EDITOR: ["content"],
+  VIEWER: ["analytics"],
+};
+
+/**
+ * Tells whether a role grants a permission
+ *
+ * @param {Role} role - Role of the account
+ * @param {Permission} permission - Permission required
+ * @returns {boolean}
+ *
+ * @example
+ * ```typescript
+ * can("EDITOR", "content");   // true
+ * can("EDITOR", "analytics"); // false
+ * ```
+ */
+export function can(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
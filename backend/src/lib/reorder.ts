@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Bulk reordering of sortable admin lists
+ * @description A list (carousel images, gallery items, menu sections…) is reordered by sending all of
+ * its ids in the new order. Positions are rewritten as 0, 1, 2… in a single transaction, so a list
+ * never ends up with duplicate or gapped `sortOrder` values. The ids must match the current list
+ * exactly; otherwise (an item was added or removed meanwhile) nothing is written.
+ *
+ * Positions are only written by the server: a new item is appended after the last one
+ * ({@link appendPosition}), the list an item was deleted from or moved out of is compacted
+ * ({@link compactOrder}), and otherwise only the bulk order endpoints change them.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./prisma";
+
+/**
+ * Ids of a list in their new order (no duplicates)
+ * @constant
+ */
+export const OrderIds = z
+  .array(z.string().min(1))
+  .max(1000)
+  .refine(ids => new Set(ids).size === ids.length, { message: "Duplicate ids" });
+
+/**
+ * A reorder refused because the ids do not match the current list
+ * @typedef {Object} OrderError
+ */
+export type OrderError = {
+  status: 409;
+  body: { error: string; missing: string[]; unknown: string[] };
+};
+
+/**
+ * Rewrites the positions of a list in one transaction
+ *
+ * @param {string[]} ids - Every id of the list, in the new order
+ * @param {Function} list - Loads the current list (`id` and `sortOrder` of each item) within the transaction
+ * @param {Function} write - Stores the position of one item within the transaction
+ * @returns {Promise<{ updated: number } | { error: OrderError }>} Number of items whose position
+ * changed, or why the order was refused
+ *
+ * @example
+ * ```typescript
+ * await applyOrder(ids,
+ *   tx => tx.menuSection.findMany({ select: { id: true, sortOrder: true } }),
+ *   (tx, id, sortOrder) => tx.menuSection.update({ where: { id }, data: { sortOrder } }));
+ * ```
+ */
+export async function applyOrder(
+  ids: string[],
+  list: (tx: Prisma.TransactionClient) => Promise<Array<{ id: string; sortOrder: number }>>,
+  write: (tx: Prisma.TransactionClient, id: string, sortOrder: number) => Promise<unknown>,
+): Promise<{ updated: number } | { error: OrderError }> {
+  return prisma.$transaction(async (tx) => {
+    const current = await list(tx);
+    const known = new Set(current.map(r => r.id));
+    const sent = new Set(ids);
+    const missing = current.filter(r => !sent.has(r.id)).map(r => r.id);
+    const unknown = ids.filter(id => !known.has(id));
+    if (missing.length || unknown.length) {
+      return {
+        error: {
+          status: 409 as const,
+          body: { error: "The list has changed, reload it and try again", missing, unknown },
+        },
+      };
+    }
+
+    // Rows are written in id order so that concurrent reorders lock them in the same order
+    const position = new Map(ids.map((id, i) => [id, i]));
+    const changed = current
+      .filter(r => r.sortOrder !== position.get(r.id))
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    for (const r of changed) await write(tx, r.id, position.get(r.id)!);
+    return { updated: changed.length };
+  });
+}
+
+/**
+ * Position of an item appended to a list
+ *
+ * @param {{ _max: { sortOrder: number | null } }} agg - `aggregate({ _max: { sortOrder: true } })` of
+ * the list, read within the transaction that creates the item
+ * @returns {number} One past the last position, 0 for an empty list
+ *
+ * @example
+ * ```typescript
+ * const sortOrder = appendPosition(await tx.menuSection.aggregate({ _max: { sortOrder: true } }));
+ * ```
+ */
+export function appendPosition(agg: { _max: { sortOrder: number | null } }): number {
+  return (agg._max.sortOrder ?? -1) + 1;
+}
+
+/**
+ * Renumbers a list as 0, 1, 2… in its current order, after an item left it
+ *
+ * @param {Prisma.TransactionClient} tx - Transaction the item was removed in
+ * @param {Function} list - Loads the list (`id` and `sortOrder` of each item) in display order
+ * @param {Function} write - Stores the position of one item
+ * @returns {Promise<number>} Number of items whose position changed
+ */
+export async function compactOrder(
+  tx: Prisma.TransactionClient,
+  list: (tx: Prisma.TransactionClient) => Promise<Array<{ id: string; sortOrder: number }>>,
+  write: (tx: Prisma.TransactionClient, id: string, sortOrder: number) => Promise<unknown>,
+): Promise<number> {
+  const current = await list(tx);
+  // Written in id order, like applyOrder, so that both lock rows in the same order
+  const changed = current
+    .map((r, i) => ({ id: r.id, from: r.sortOrder, to: i }))
+    .filter(r => r.from !== r.to)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  for (const r of changed) await write(tx, r.id, r.to);
+  return changed.length;
+}
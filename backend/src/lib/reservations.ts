@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Booking rules shared by the public reservation form and the admin screen
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { Prisma, Slot } from "@prisma/client";
+import { prisma } from "./prisma";
+import { availabilityBetween } from "./availability";
+import { nowInZone, ymdToDate } from "./time";
+
+/**
+ * Covers per service when no `SlotCapacity` row has been saved
+ * @constant {number}
+ */
+export const DEFAULT_CAPACITY = 40;
+
+/**
+ * Largest party that can book online; bigger groups are asked to call
+ * @constant {number}
+ */
+export const MAX_PARTY = 12;
+
+/**
+ * Last arrival is this many minutes before the end of a service
+ * @constant {number}
+ */
+export const LAST_SEATING_MIN = 30;
+
+/**
+ * Reservation statuses that hold covers
+ * @constant
+ */
+export const ACTIVE_STATUSES = ["PENDING", "CONFIRMED"] as const;
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Result of {@link checkBookable}
+ * @typedef {Object} Bookable
+ */
+export type Bookable =
+  | { ok: true; slot: Extract<Slot, "LUNCH" | "DINNER"> }
+  | { ok: false; error: string };
+
+/**
+ * Checks that a day/time can be booked: not in the past, and inside one of the day's open
+ * intervals (business hours minus closures, see {@link availabilityBetween})
+ *
+ * @param {string} ymd - Day as "YYYY-MM-DD"
+ * @param {number} timeMin - Arrival time in minutes since midnight
+ * @returns {Promise<Bookable>} The service the time falls in, or the reason it is refused
+ */
+export async function checkBookable(ymd: string, timeMin: number): Promise<Bookable> {
+  const now = nowInZone();
+  if (ymd < now.ymd || (ymd === now.ymd && timeMin <= now.min)) {
+    return { ok: false, error: "This date is in the past" };
+  }
+
+  const [day] = await availabilityBetween(ymd, ymd);
+  if (!day.open) return { ok: false, error: "The restaurant is closed on this date" };
+
+  const service = day.intervals.find(i => timeMin >= i.startMin && timeMin <= i.endMin - LAST_SEATING_MIN);
+  if (!service) return { ok: false, error: "The restaurant is not open at this time" };
+
+  return { ok: true, slot: service.slot };
+}
+
+/**
+ * Maximum covers of a service
+ *
+ * @param {Db} db - Prisma client or transaction
+ * @param {Slot} slot - LUNCH or DINNER
+ * @returns {Promise<number>} Configured capacity, or {@link DEFAULT_CAPACITY}
+ */
+export async function capacityFor(db: Db, slot: Slot): Promise<number> {
+  const row = await db.slotCapacity.findUnique({ where: { slot } });
+  return row?.covers ?? DEFAULT_CAPACITY;
+}
+
+/**
+ * Covers already held (pending or confirmed) for a day and service
+ *
+ * @param {Db} db - Prisma client or transaction
+ * @param {string} ymd - Day as "YYYY-MM-DD"
+ * @param {Slot} slot - LUNCH or DINNER
+ * @returns {Promise<number>} Sum of covers
+ */
+export async function bookedCovers(db: Db, ymd: string, slot: Slot): Promise<number> {
+  const agg = await db.reservation.aggregate({
+    _sum: { covers: true },
+    where: { date: ymdToDate(ymd), slot, status: { in: [...ACTIVE_STATUSES] } },
+  });
+  return agg._sum.covers ?? 0;
+}
@@ -0,0 +1,175 @@
+/**
+ * @fileoverview Server-side sessions of dashboard accounts
+ * @description Signing in creates a `Session` row, and the session cookie (a JWT, see lib/auth.ts)
+ * names it. Every authenticated request checks that the session is still active, so it can be ended
+ * before the cookie expires: by logging out, from the list of signed-in devices, when the password is
+ * reset or when the account is deactivated.
+ *
+ * A session ends after {@link SESSION_IDLE_MS} without requests (sliding: each request pushes it back)
+ * and, in any case, {@link SESSION_MAX_MS} after signing in. Both can be set with
+ * `SESSION_IDLE_MINUTES` (default 720, 12 hours) and `SESSION_MAX_DAYS` (default 7).
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { Prisma } from "@prisma/client";
+import { UAParser } from "ua-parser-js";
+import { prisma } from "./prisma";
+import { signToken, verifyToken } from "./auth";
+
+/**
+ * Time without requests after which a session ends
+ * @constant {number}
+ */
+export const SESSION_IDLE_MS = (Number(process.env.SESSION_IDLE_MINUTES) || 12 * 60) * 60_000;
+
+/**
+ * Time after signing in at which a session ends, however active
+ * @constant {number}
+ */
+export const SESSION_MAX_MS = (Number(process.env.SESSION_MAX_DAYS) || 7) * 24 * 60 * 60_000;
+
+/**
+ * Minimum time between two writes of `lastSeenAt`, so that a burst of requests writes it once
+ * @private
+ * @constant {number}
+ */
+const TOUCH_INTERVAL_MS = 60_000;
+
+/**
+ * Filter matching the sessions still active at an instant
+ *
+ * @param {Date} [now=new Date()]
+ * @returns {Prisma.SessionWhereInput}
+ */
+export function activeSessionWhere(now = new Date()): Prisma.SessionWhereInput {
+  return {
+    revokedAt: null,
+    expiresAt: { gt: now },
+    lastSeenAt: { gt: new Date(now.getTime() - SESSION_IDLE_MS) },
+  };
+}
+
+/**
+ * Instant an active session ends if it is not used again
+ *
+ * @param {{ lastSeenAt: Date; expiresAt: Date }} session
+ * @returns {Date} The idle timeout, or the absolute one when it comes first
+ */
+export function sessionEndsAt(session: { lastSeenAt: Date; expiresAt: Date }): Date {
+  const idle = session.lastSeenAt.getTime() + SESSION_IDLE_MS;
+  return new Date(Math.min(idle, session.expiresAt.getTime()));
+}
+
+/**
+ * Starts a session, and deletes the user's sessions that have ended
+ *
+ * @param {string} userId - User who passed every login step
+ * @param {{ userAgent?: string | null; ip?: string | null }} client - Device signing in
+ * @returns {Promise<{ token: string; expiresAt: Date }>} Value of the session cookie, and its expiry
+ */
+export async function createSession(
+  userId: string,
+  client: { userAgent?: string | null; ip?: string | null },
+): Promise<{ token: string; expiresAt: Date }> {
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + SESSION_MAX_MS);
+  const [, session] = await prisma.$transaction([
+    prisma.session.deleteMany({ where: { userId, NOT: activeSessionWhere(now) } }),
+    prisma.session.create({
+      data: {
+        userId,
+        userAgent: client.userAgent?.slice(0, 500) || null,
+        ip: client.ip || null,
+        lastSeenAt: now,
+        expiresAt,
+      },
+      select: { id: true },
+    }),
+  ]);
+  return { token: signToken(userId, session.id, expiresAt), expiresAt };
+}
+
+/**
+ * Checks a session cookie, and records the request as activity of its session
+ *
+ * @param {string} token - Value of the session cookie
+ * @returns {Promise<{ sessionId: string; userId: string } | null>} The session, or null when the
+ * cookie is invalid or its session revoked, idle for too long or expired
+ *
+ * @example
+ * ```typescript
+ * const session = await resolveSession(req.cookies.token);
+ * if (!session) return res.status(401).json({ error: "Not authenticated" });
+ * ```
+ */
+export async function resolveSession(token: string): Promise<{ sessionId: string; userId: string } | null> {
+  const payload = verifyToken(token);
+  // Cookies issued before sessions existed carry no session id and are refused
+  if (!payload?.sid) return null;
+
+  const now = new Date();
+  const session = await prisma.session.findFirst({
+    where: { id: payload.sid, userId: payload.uid, ...activeSessionWhere(now) },
+    select: { id: true, userId: true, lastSeenAt: true },
+  });
+  if (!session) return null;
+
+  if (now.getTime() - session.lastSeenAt.getTime() >= TOUCH_INTERVAL_MS) {
+    await prisma.session.updateMany({ where: { id: session.id, revokedAt: null }, data: { lastSeenAt: now } });
+  }
+  return { sessionId: session.id, userId: session.userId };
+}
+
+/**
+ * Ends one session of a user
+ *
+ * @param {string} userId - Owner of the session
+ * @param {string} sessionId - Session to end
+ * @returns {Promise<boolean>} false when the user has no such active session
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const revoked = await prisma.session.updateMany({
+    where: { id: sessionId, userId, ...activeSessionWhere() },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count > 0;
+}
+
+/**
+ * Ends every session of a user ("log out everywhere")
+ *
+ * @param {Prisma.TransactionClient} db - Client or transaction to write with
+ * @param {string} userId - Account
+ * @param {string} [exceptId] - Session to keep, usually the current one
+ * @returns {Promise<number>} Number of sessions ended
+ */
+export async function revokeUserSessions(
+  db: Prisma.TransactionClient,
+  userId: string,
+  exceptId?: string,
+): Promise<number> {
+  const revoked = await db.session.updateMany({
+    where: { userId, revokedAt: null, ...(exceptId ? { NOT: { id: exceptId } } : {}) },
+    data: { revokedAt: new Date() },
+  });
+  return revoked.count;
+}
+
+/**
+ * Describes the device of a session from its user agent
+ *
+ * @param {string | null} userAgent - User-Agent header sent when signing in
+ * @returns {{ browser: string | null; os: string | null; device: string | null }} e.g. "Firefox 131",
+ * "Windows 10" and "desktop" (or "mobile", "tablet"...); null when unknown
+ */
+export function describeDevice(userAgent: string | null) {
+  const ua = new UAParser(userAgent || "");
+  const label = (o: { name?: string; version?: string }) =>
+    o.name ? [o.name, o.version?.split(".")[0]].filter(Boolean).join(" ") : null;
+  return {
+    browser: label(ua.getBrowser()),
+    os: label(ua.getOS()),
+    device: userAgent ? ua.getDevice().type || "desktop" : null,
+  };
+}
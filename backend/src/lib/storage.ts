@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Storage of uploaded media files, behind a driver chosen by configuration
+ * @description `STORAGE_DRIVER=local` (default) writes to the `uploads` directory served by the API
+ * under `/uploads`; `STORAGE_DRIVER=s3` writes to an S3-compatible bucket (AWS S3, MinIO, R2…).
+ * `MediaAsset.key` and `MediaVariant.key` are object keys of the configured driver, and public URLs
+ * are always derived from them with {@link StorageDriver.url}.
+ *
+ * S3 settings: `S3_BUCKET` (required), `S3_REGION` (default "us-east-1"), `S3_ENDPOINT` (for
+ * non-AWS services), `S3_ACCESS_KEY_ID`/`S3_SECRET_ACCESS_KEY` (default AWS credential chain),
+ * `S3_FORCE_PATH_STYLE=true` (MinIO) and `S3_PUBLIC_URL` (public base URL of the bucket or its CDN).
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import fs from "fs";
+import path from "path";
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
+
+/**
+ * A place where media files are kept
+ * @typedef {Object} StorageDriver
+ */
+export type StorageDriver = {
+  name: "local" | "s3";
+  /** Writes (or overwrites) an object */
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Reads an object */
+  get(key: string): Promise<Buffer>;
+  /** Deletes an object; deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+  /** Public URL of an object */
+  url(key: string): string;
+};
+
+/**
+ * Directory of the local driver, served under `/uploads`
+ * @constant {string}
+ */
+export const UPLOADS_DIR = path.resolve(process.cwd(), "uploads");
+
+/**
+ * Driver writing to a local directory
+ *
+ * @param {string} dir - Directory holding the files
+ * @returns {StorageDriver} Local driver; URLs are `/uploads/<key>`
+ */
+export function localDriver(dir: string): StorageDriver {
+  const file = (key: string) => path.join(dir, path.basename(key));
+  return {
+    name: "local",
+    async put(key, body) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(file(key), body);
+    },
+    get: key => fs.promises.readFile(file(key)),
+    async delete(key) {
+      await fs.promises.unlink(file(key)).catch((e: NodeJS.ErrnoException) => {
+        if (e.code !== "ENOENT") throw e;
+      });
+    },
+    url: key => `/uploads/${encodeURIComponent(key)}`,
+  };
+}
+
+/**
+ * Driver writing to an S3-compatible bucket
+ *
+ * @param {Object} opts
+ * @param {string} opts.bucket - Bucket name
+ * @param {string} opts.region - Region
+ * @param {string} [opts.endpoint] - Endpoint of a non-AWS service, e.g. "http://minio:9000"
+ * @param {boolean} [opts.forcePathStyle] - Use `<endpoint>/<bucket>/<key>` addressing (MinIO)
+ * @param {{ accessKeyId: string; secretAccessKey: string }} [opts.credentials] - Static credentials
+ * @param {string} [opts.publicUrl] - Base URL objects are read from (bucket website, CDN…)
+ * @returns {StorageDriver} S3 driver; objects are written with a one-year immutable cache policy
+ */
+export function s3Driver(opts: {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+  publicUrl?: string;
+}): StorageDriver {
+  const client = new S3Client({
+    region: opts.region,
+    endpoint: opts.endpoint,
+    forcePathStyle: opts.forcePathStyle,
+    credentials: opts.credentials,
+  });
+
+  const base = (opts.publicUrl
+    ?? (opts.endpoint
+      ? `${opts.endpoint.replace(/\/+$/, "")}/${opts.bucket}`
+      : `https://${opts.bucket}.s3.${opts.region}.amazonaws.com`)
+  ).replace(/\/+$/, "");
+
+  return {
+    name: "s3",
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: opts.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        CacheControl: "public, max-age=31536000, immutable",
+      }));
+    },
+    async get(key) {
+      const out = await client.send(new GetObjectCommand({ Bucket: opts.bucket, Key: key }));
+      return Buffer.from(await out.Body!.transformToByteArray());
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: opts.bucket, Key: key }));
+    },
+    url: key => `${base}/${key.split("/").map(encodeURIComponent).join("/")}`,
+  };
+}
+
+/**
+ * Builds the driver selected by the environment
+ * @private
+ * @returns {StorageDriver}
+ * @throws {Error} When `STORAGE_DRIVER` is unknown or `S3_BUCKET` is missing
+ */
+function fromEnv(): StorageDriver {
+  const driver = process.env.STORAGE_DRIVER || "local";
+  if (driver === "local") return localDriver(UPLOADS_DIR);
+  if (driver !== "s3") throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "local" or "s3")`);
+
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) throw new Error("S3_BUCKET is required when STORAGE_DRIVER=s3");
+  const { S3_ACCESS_KEY_ID: accessKeyId, S3_SECRET_ACCESS_KEY: secretAccessKey } = process.env;
+
+  return s3Driver({
+    bucket,
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+    credentials: accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    publicUrl: process.env.S3_PUBLIC_URL || undefined,
+  });
+}
+
+/**
+ * The configured storage driver
+ * @constant {StorageDriver}
+ */
+export const storage: StorageDriver = fromEnv();
+
+/**
+ * Public URL of a stored media file: derived from its key by the configured driver, or the URL
+ * recorded at upload time for files without a key
+ *
+ * @param {{ url: string; key: string | null }} media - Media asset or variant
+ * @returns {string} URL to serve to clients
+ */
+export function mediaUrl(media: { url: string; key: string | null }): string {
+  return media.key ? storage.url(media.key) : media.url;
+}
+
+/**
+ * Resolves the public URLs of a media asset: the file and, for videos, the poster frame
+ *
+ * @param {Object} asset - Media asset (`posterUrl`/`posterKey` are optional)
+ * @returns {Object} The asset with `url` and `posterUrl` served to clients
+ */
+export function withMediaUrls<T extends { url: string; key: string | null; posterUrl?: string | null; posterKey?: string | null }>(
+  asset: T,
+): T {
+  const posterUrl = asset.posterUrl ? mediaUrl({ url: asset.posterUrl, key: asset.posterKey ?? null }) : asset.posterUrl;
+  return { ...asset, url: mediaUrl(asset), posterUrl };
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Calendar-day and wall-clock helpers for the restaurant's time zone
+ * @description Calendar days (closures, announcements, schedules, bookings) are time-zone-free:
+ * stored in `DATE` columns, exchanged as "YYYY-MM-DD" and held in memory as midnight UTC, so
+ * their day never depends on the server's or the browser's time zone. Only "now" is read in
+ * {@link BUSINESS_TZ}.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import { z } from "zod";
+
+/**
+ * Time zone of the restaurant; "today" and opening times are always evaluated here
+ * @constant {string}
+ */
+export const BUSINESS_TZ = process.env.BUSINESS_TZ || "Europe/Brussels";
+
+/**
+ * Current calendar day and wall-clock time in {@link BUSINESS_TZ}
+ *
+ * @param {Date} [at=new Date()] - Instant to convert
+ * @returns {{ ymd: string, min: number }} Day as "YYYY-MM-DD" and minutes since local midnight
+ */
+export function nowInZone(at: Date = new Date()): { ymd: string; min: number } {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: BUSINESS_TZ,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const get = (t: string) => parts.find(p => p.type === t)?.value ?? "00";
+  return {
+    ymd: `${get("year")}-${get("month")}-${get("day")}`,
+    min: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+/**
+ * Checks a "YYYY-MM-DD" string and that it names a real day
+ *
+ * @param {string} s - Candidate value
+ * @returns {boolean} True for a valid calendar date
+ */
+export function isYMD(s: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s)) return false;
+  return ymdToDate(s).toISOString().slice(0, 10) === s;
+}
+
+/**
+ * Converts a calendar day to the Date Prisma uses for `@db.Date` columns (UTC midnight)
+ *
+ * @param {string} ymd - Day as "YYYY-MM-DD"
+ * @returns {Date} UTC midnight of that day
+ */
+export function ymdToDate(ymd: string): Date {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+}
+
+/**
+ * Calendar day of a Date, read in UTC (inverse of {@link ymdToDate})
+ *
+ * @param {Date} d - Date value
+ * @returns {string} Day as "YYYY-MM-DD"
+ */
+export function dateToYMD(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Weekday of a calendar day, Monday=0 … Sunday=6 (the convention of BusinessHours)
+ *
+ * @param {string} ymd - Day as "YYYY-MM-DD"
+ * @returns {number} 0..6
+ */
+export function weekdayMon0(ymd: string): number {
+  return (ymdToDate(ymd).getUTCDay() + 6) % 7;
+}
+
+
+/**
+ * Calendar day of an API value: "YYYY-MM-DD" as is, or the day in {@link BUSINESS_TZ} of an ISO
+ * date-time (accepted from older clients, which sent days as local noon)
+ *
+ * @param {string | Date} value - Day or instant
+ * @returns {string | null} Day as "YYYY-MM-DD", or null when the value is not a date
+ */
+export function toBusinessDay(value: string | Date): string | null {
+  if (typeof value === "string" && isYMD(value)) return value;
+  const d = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(d.getTime()) ? null : nowInZone(d).ymd;
+}
+
+/**
+ * Zod schema of a calendar day field: accepts "YYYY-MM-DD" (or an ISO date-time, see
+ * {@link toBusinessDay}) and yields that day at midnight UTC, as stored in `DATE` columns
+ * @constant
+ */
+export const CalendarDay = z.union([z.string(), z.date()]).transform((value, ctx) => {
+  const ymd = toBusinessDay(value);
+  if (!ymd) {
+    ctx.addIssue({ code: "custom", message: "Expected YYYY-MM-DD" });
+    return z.NEVER;
+  }
+  return ymdToDate(ymd);
+});
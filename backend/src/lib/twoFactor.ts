@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Two-factor authentication of dashboard accounts
+ * @description Accounts may protect their sign-in with a TOTP authenticator app (see lib/totp.ts);
+ * roles in {@link TWO_FACTOR_ROLES} must. Enrolment stores a new secret, shown as a QR code, and 2FA
+ * is switched on once a first code from the app has been checked. Recovery codes, given once at that
+ * moment, let the user sign in without the app; only their bcrypt hashes are kept and each works once.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import QRCode from "qrcode";
+import type { Prisma, Role } from "@prisma/client";
+import { prisma } from "./prisma";
+import { base32Encode, generateSecret, otpauthUrl, verifyTotp } from "./totp";
+
+/**
+ * Roles that cannot use the dashboard until 2FA is enabled
+ * @constant {Role[]}
+ */
+export const TWO_FACTOR_ROLES: Role[] = ["OWNER"];
+
+/**
+ * Number of recovery codes given at a time
+ * @constant {number}
+ */
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Service name shown in authenticator apps
+ * @private
+ * @constant {string}
+ */
+const ISSUER = "L'Orange Rose";
+
+/**
+ * Tells whether an account must enable 2FA before using the dashboard
+ *
+ * @param {{ role: Role; twoFactorEnabled: boolean }} user - Signed-in user
+ * @returns {boolean}
+ */
+export function mustEnableTwoFactor(user: { role: Role; twoFactorEnabled: boolean }): boolean {
+  return TWO_FACTOR_ROLES.includes(user.role) && !user.twoFactorEnabled;
+}
+
+/**
+ * Normalizes a recovery code as typed (case, spaces and dashes do not matter)
+ * @private
+ * @param {string} code
+ * @returns {string}
+ */
+const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Replaces the recovery codes of an account
+ *
+ * @param {Prisma.TransactionClient} tx - Transaction the codes are written in
+ * @param {string} userId - Account
+ * @returns {Promise<string[]>} The new codes, as "xxxxx-xxxxx" (never stored as is)
+ */
+export async function replaceRecoveryCodes(tx: Prisma.TransactionClient, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+    base32Encode(crypto.randomBytes(7)).slice(0, 10).toLowerCase().replace(/^(.{5})/, "$1-"));
+  const hashes = await Promise.all(codes.map(c => bcrypt.hash(normalizeRecoveryCode(c), 10)));
+  await tx.recoveryCode.deleteMany({ where: { userId } });
+  await tx.recoveryCode.createMany({ data: hashes.map(codeHash => ({ userId, codeHash })) });
+  return codes;
+}
+
+/**
+ * Starts enrolment: stores a new secret, replacing any unconfirmed one
+ *
+ * @param {{ id: string; email: string }} user - Account enrolling (2FA must be off)
+ * @returns {Promise<{ secret: string; otpauthUrl: string; qrCode: string }>} The secret (for manual
+ * entry), its `otpauth://` URI and that URI as a PNG data URL QR code
+ */
+export async function startEnrolment(user: { id: string; email: string }) {
+  const secret = generateSecret();
+  await prisma.user.update({ where: { id: user.id }, data: { totpSecret: secret, totpLastStep: null } });
+  const url = otpauthUrl({ secret, account: user.email, issuer: ISSUER });
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url, { margin: 1, width: 240 }) };
+}
+
+/**
+ * Finishes enrolment with a first code from the app: enables 2FA and creates the recovery codes
+ *
+ * @param {string} userId - Account enrolling
+ * @param {string} code - Code shown by the app
+ * @returns {Promise<string[] | null>} Recovery codes, or null when enrolment was not started, 2FA is
+ * already on or the code is wrong
+ */
+export async function confirmEnrolment(userId: string, code: string): Promise<string[] | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true },
+  });
+  if (!user?.totpSecret || user.totpEnabledAt) return null;
+  const step = verifyTotp(user.totpSecret, code);
+  if (step === null) return null;
+
+  return prisma.$transaction(async (tx) => {
+    await tx.user.update({ where: { id: userId }, data: { totpEnabledAt: new Date(), totpLastStep: step } });
+    return replaceRecoveryCodes(tx, userId);
+  });
+}
+
+/**
+ * Checks the second factor of an account: a code from the app, or an unused recovery code, which
+ * is then used up. A code from the app is not accepted twice either.
+ *
+ * @param {string} userId - Account signing in (2FA must be on)
+ * @param {{ code?: string; recoveryCode?: string }} input - What the user typed
+ * @returns {Promise<"code" | "recovery" | null>} What was accepted, or null
+ */
+export async function verifySecondFactor(
+  userId: string,
+  input: { code?: string; recoveryCode?: string },
+): Promise<"code" | "recovery" | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpEnabledAt: true, totpLastStep: true },
+  });
+  if (!user?.totpSecret || !user.totpEnabledAt) return null;
+
+  if (input.code) {
+    const step = verifyTotp(user.totpSecret, input.code, { after: user.totpLastStep });
+    if (step === null) return null;
+    // Conditional update, so that two requests with the same code cannot both succeed
+    const saved = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    });
+    return saved.count ? "code" : null;
+  }
+
+  if (input.recoveryCode) {
+    const typed = normalizeRecoveryCode(input.recoveryCode);
+    const codes = await prisma.recoveryCode.findMany({ where: { userId, usedAt: null }, select: { id: true, codeHash: true } });
+    for (const c of codes) {
+      if (!(await bcrypt.compare(typed, c.codeHash))) continue;
+      const used = await prisma.recoveryCode.updateMany({ where: { id: c.id, usedAt: null }, data: { usedAt: new Date() } });
+      return used.count ? "recovery" : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Switches 2FA off and deletes the secret and recovery codes
+ *
+ * @param {string} userId - Account
+ * @returns {Promise<void>}
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null },
+    }),
+  ]);
+}
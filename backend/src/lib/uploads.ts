@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Validation of uploaded media files
+ * @description The file type is sniffed from its first bytes (the client's MIME type and file name
+ * are not trusted), checked against the allow-list and size limit of the target `MediaType`, and
+ * SVG documents are rejected when they could run scripts. Short videos (MP4/WebM) are accepted for
+ * the carousel and announcements, with their own size limit.
+ * @author 0isoft
+ * @version 1.0.0
+ */
+
+import type { MediaType } from "@prisma/client";
+
+/**
+ * File extension stored for each accepted MIME type
+ * @constant {Record<string, string>}
+ */
+export const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/avif": ".avif",
+  "image/gif": ".gif",
+  "image/svg+xml": ".svg",
+  "application/pdf": ".pdf",
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+};
+
+/**
+ * Image types accepted for display on the site
+ * @private
+ * @constant {string[]}
+ */
+const IMAGES = ["image/jpeg", "image/png", "image/webp", "image/avif", "image/gif", "image/svg+xml"];
+
+/**
+ * Video types accepted for the carousel and announcements
+ * @private
+ * @constant {string[]}
+ */
+const VIDEOS = ["video/mp4", "video/webm"];
+
+/**
+ * ISO base media brands (bytes 8-11) identifying an MP4 video
+ * @private
+ * @constant {string[]}
+ */
+const MP4_BRANDS = ["isom", "iso2", "iso4", "iso5", "iso6", "mp41", "mp42", "avc1", "M4V ", "dash", "mmp4", "MSNV"];
+
+const MB = 1024 * 1024;
+
+/**
+ * Accepted MIME types and size limits per media type (`maxVideoBytes` applies to videos)
+ * @typedef {Object} UploadPolicy
+ */
+export type UploadPolicy = { mimeTypes: string[]; maxBytes: number; maxVideoBytes?: number };
+
+/**
+ * Upload policy of each media type
+ * @constant {Record<MediaType, UploadPolicy>}
+ */
+export const UPLOAD_POLICY: Record<MediaType, UploadPolicy> = {
+  HERO: { mimeTypes: [...IMAGES, ...VIDEOS], maxBytes: 10 * MB, maxVideoBytes: 50 * MB },
+  GALLERY: { mimeTypes: IMAGES, maxBytes: 10 * MB },
+  ANNOUNCEMENT: { mimeTypes: [...IMAGES, ...VIDEOS], maxBytes: 8 * MB, maxVideoBytes: 50 * MB },
+  MENU: { mimeTypes: [...IMAGES, "application/pdf"], maxBytes: 20 * MB },
+};
+
+/**
+ * Largest upload accepted for any media type, used as the multipart limit
+ * @constant {number}
+ */
+export const MAX_UPLOAD_BYTES = Math.max(
+  ...Object.values(UPLOAD_POLICY).map(p => Math.max(p.maxBytes, p.maxVideoBytes ?? 0)),
+);
+
+/**
+ * Tells whether a MIME type is a video
+ *
+ * @param {string | null | undefined} mimeType - MIME type, e.g. "video/mp4"
+ * @returns {boolean}
+ */
+export const isVideo = (mimeType: string | null | undefined): boolean => !!mimeType?.startsWith("video/");
+
+/**
+ * Machine-readable reason of a rejected upload
+ * @typedef {string} UploadErrorCode
+ */
+export type UploadErrorCode = "FILE_REQUIRED" | "FILE_TOO_LARGE" | "UNSUPPORTED_TYPE" | "UNSAFE_SVG" | "UNREADABLE_IMAGE";
+
+/**
+ * A rejected upload: HTTP status and JSON body sent to the client
+ * @typedef {Object} UploadError
+ */
+export type UploadError = {
+  status: 400 | 413 | 415;
+  body: { error: string; code: UploadErrorCode; allowed?: string[]; maxBytes?: number };
+};
+
+/**
+ * Tells whether a buffer starts with the given bytes, at an optional offset
+ * @private
+ */
+const startsWith = (buf: Buffer, bytes: number[] | string, offset = 0) => {
+  const sig = typeof bytes === "string" ? Buffer.from(bytes, "latin1") : Buffer.from(bytes);
+  return buf.length >= offset + sig.length && buf.subarray(offset, offset + sig.length).equals(sig);
+};
+
+/**
+ * Detects the type of a file from its content
+ *
+ * @param {Buffer} buf - File content
+ * @returns {string | null} MIME type (JPEG, PNG, WebP, AVIF, GIF, SVG, PDF, MP4 or WebM), or null when unknown
+ */
+export function sniffMimeType(buf: Buffer): string | null {
+  if (startsWith(buf, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(buf, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(buf, "GIF87a") || startsWith(buf, "GIF89a")) return "image/gif";
+  if (startsWith(buf, "RIFF") && startsWith(buf, "WEBP", 8)) return "image/webp";
+  if (startsWith(buf, "ftyp", 4) && (startsWith(buf, "avif", 8) || startsWith(buf, "avis", 8))) return "image/avif";
+  if (startsWith(buf, "%PDF-")) return "application/pdf";
+  if (startsWith(buf, "ftyp", 4) && MP4_BRANDS.some(b => startsWith(buf, b, 8))) return "video/mp4";
+  // EBML header; the document type ("webm", not "matroska") follows within the first bytes
+  if (startsWith(buf, [0x1a, 0x45, 0xdf, 0xa3]) && buf.subarray(0, 64).includes("webm", 0, "latin1")) return "video/webm";
+
+  // SVG is text: skip a BOM, whitespace, the XML declaration, comments and the doctype
+  const head = buf.subarray(0, 4096).toString("utf8");
+  if (head.includes("\u0000")) return null;
+  const rest = head
+    .replace(/^\uFEFF/, "")
+    .replace(/^\s*(<\?xml[\s\S]*?\?>)?(\s*<!--[\s\S]*?-->)*\s*(<!DOCTYPE[^>]*>)?(\s*<!--[\s\S]*?-->)*\s*/i, "");
+  return /^<svg[\s>]/i.test(rest) ? "image/svg+xml" : null;
+}
+
+/**
+ * Tells whether an SVG document could run scripts or load active content when opened directly:
+ * `<script>`, event handler attributes, `javascript:` URLs, embedded HTML or entity declarations
+ *
+ * @param {Buffer} buf - SVG content
+ * @returns {boolean} True when the document must be rejected
+ */
+export function isUnsafeSvg(buf: Buffer): boolean {
+  const svg = buf.toString("utf8");
+  return (
+    /<script[\s>/]/i.test(svg) ||
+    /\son[a-z]+\s*=/i.test(svg) ||
+    /(?:href|src)\s*=\s*["']?\s*(?:javascript|data:text\/html)/i.test(svg) ||
+    /<(?:foreignObject|iframe|embed|object)[\s>/]/i.test(svg) ||
+    /<!ENTITY/i.test(svg)
+  );
+}
+
+/**
+ * Image types accepted as the poster frame of a video
+ * @private
+ * @constant {string[]}
+ */
+const POSTERS = ["image/jpeg", "image/png", "image/webp"];
+
+/**
+ * Size limit of a poster frame
+ * @private
+ * @constant {number}
+ */
+const MAX_POSTER_BYTES = 5 * MB;
+
+/**
+ * Checks the poster frame sent with a video: a JPEG, PNG or WebP image of at most 5 MB
+ *
+ * @param {Buffer} buf - Poster content
+ * @returns {{ mimeType: string; extension: string } | { error: UploadError }} Detected type and
+ * extension, or why the poster is rejected
+ */
+export function validatePoster(buf: Buffer): { mimeType: string; extension: string } | { error: UploadError } {
+  const mimeType = sniffMimeType(buf);
+  if (!mimeType || !POSTERS.includes(mimeType)) {
+    return {
+      error: {
+        status: 415,
+        body: { error: "The poster must be a JPEG, PNG or WebP image", code: "UNSUPPORTED_TYPE", allowed: POSTERS },
+      },
+    };
+  }
+  if (buf.length > MAX_POSTER_BYTES) {
+    return {
+      error: {
+        status: 413,
+        body: { error: `Poster too large: limited to ${MAX_POSTER_BYTES / MB} MB`, code: "FILE_TOO_LARGE", maxBytes: MAX_POSTER_BYTES },
+      },
+    };
+  }
+  return { mimeType, extension: EXTENSIONS[mimeType] };
+}
+
+/**
+ * Checks a file type and size against the policy of a media type
+ *
+ * Applies to uploads, and to stored assets given another media type, so that a file cannot be moved
+ * to a type that would have refused it.
+ *
+ * @param {MediaType} type - Target media type
+ * @param {string | null} mimeType - Type detected from the file content (null when unknown)
+ * @param {number | null} size - File size in bytes (null when unknown: not checked)
+ * @returns {{ mimeType: string } | { error: UploadError }} The accepted type, or why the file is rejected
+ */
+export function checkPolicy(
+  type: MediaType,
+  mimeType: string | null,
+  size: number | null,
+): { mimeType: string } | { error: UploadError } {
+  const policy = UPLOAD_POLICY[type];
+  if (!mimeType || !policy.mimeTypes.includes(mimeType)) {
+    return {
+      error: {
+        status: 415,
+        body: {
+          error: mimeType
+            ? `${mimeType} files are not accepted for ${type}`
+            : "Unrecognized file type",
+          code: "UNSUPPORTED_TYPE",
+          allowed: policy.mimeTypes,
+        },
+      },
+    };
+  }
+
+  const maxBytes = isVideo(mimeType) ? policy.maxVideoBytes ?? policy.maxBytes : policy.maxBytes;
+  if (size !== null && size > maxBytes) {
+    return {
+      error: {
+        status: 413,
+        body: {
+          error: `File too large: ${type} ${isVideo(mimeType) ? "videos" : "uploads"} are limited to ${maxBytes / MB} MB`,
+          code: "FILE_TOO_LARGE",
+          maxBytes,
+        },
+      },
+    };
+  }
+  return { mimeType };
+}
+
+/**
+ * Checks an uploaded file against the policy of its media type
+ *
+ * @param {MediaType} type - Target media type
+ * @param {Buffer} buf - File content
+ * @returns {{ mimeType: string; extension: string } | { error: UploadError }} Detected type and the
+ * extension to store it with, or why the file is rejected
+ */
+export function validateUpload(
+  type: MediaType,
+  buf: Buffer,
+): { mimeType: string; extension: string } | { error: UploadError } {
+  const checked = checkPolicy(type, sniffMimeType(buf), buf.length);
+  if ("error" in checked) return checked;
+  const { mimeType } = checked;
+
+  if (mimeType === "image/svg+xml" && isUnsafeSvg(buf)) {
+    return {
+      error: {
+        status: 400,
+        body: { error: "SVG files containing scripts or active content are not accepted", code: "UNSAFE_SVG" },
+      },
+    };
+  }
+
+  return { mimeType, extension: EXTENSIONS[mimeType] };
+}
@@ -1,8 +1,7 @@
 import { Request, Response, NextFunction } from "express";
-import jwt from "jsonwebtoken";
 import { prisma } from "../lib/prisma";
-
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-me";
+import { resolveSession } from "../lib/sessions";
+import type { Role } from "@prisma/client";
 
 /**
  * @interface AuthedRequest
@@ -11,15 +10,18 @@ const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-me";
  * @property {Object} [user] - Optional user object containing authentication details
  * @property {string} user.id - Unique identifier for the user
  * @property {string} user.email - User's email address
- * @property {"ADMIN"} user.role - User's role, specifically ADMIN for this interface
+ * @property {Role} user.role - User's role (OWNER, EDITOR or VIEWER), checked by requirePermission
+ * @property {boolean} user.twoFactorEnabled - Whether the user has enabled two-factor authentication
+ * @property {string} [sessionId] - Server-side session of the request (see lib/sessions.ts)
  */
 export interface AuthedRequest extends Request {
-  user?: { id: string; email: string; role: "ADMIN" };
+  user?: { id: string; email: string; role: Role; twoFactorEnabled: boolean };
+  sessionId?: string;
 }
 
 /**
  * @function requireAdmin
- * @description Express middleware that validates JWT token and ensures user has ADMIN role
+ * @description Express middleware that validates the session cookie and ensures it belongs to an active dashboard account
  * @param {AuthedRequest} req - Express request object with potential user authentication
  * @param {Response} res - Express response object for sending HTTP responses
  * @param {NextFunction} next - Express next function to continue middleware chain
@@ -27,20 +29,24 @@ export interface AuthedRequest extends Request {
  * 
  * @description This middleware performs the following operations:
  * 1. Extracts JWT token from request cookies
- * 2. Verifies the token using the configured JWT secret
+ * 2. Verifies the token and checks that its server-side session is still active (not revoked, idle
+ *    or expired), recording the request as activity of the session
  * 3. Queries the database to fetch user details by ID
- * 4. Validates that the user exists and has ADMIN role
+ * 4. Validates that the user exists and has not been deactivated
  * 5. Attaches user information to the request object for downstream handlers
  * 6. Calls next() to continue processing or returns appropriate error responses
+ *
+ * What the user may do depends on their role and is checked by `requirePermission`, mounted after
+ * this middleware.
  * 
  * @throws {401} Returns 401 Unauthorized if no token is provided
- * @throws {401} Returns 401 Unauthorized if token is invalid or user not found
- * @throws {403} Returns 403 Forbidden if user exists but doesn't have ADMIN role
+ * @throws {401} Returns 401 Unauthorized if token is invalid, its session has ended or user not found
+ * @throws {403} Returns 403 Forbidden if the account has been deactivated
  * 
  * @example
  * ```typescript
- * app.get('/admin/users', requireAdmin, (req: AuthedRequest, res) => {
- *   // req.user is guaranteed to contain admin user data
+ * app.get('/admin/users', requireAdmin, requirePermission("users"), (req: AuthedRequest, res) => {
+ *   // req.user is guaranteed to contain the signed-in user
  *   res.json({ users: await getUsers() });
  * });
  * ```
@@ -49,14 +55,16 @@ export async function requireAdmin(req: AuthedRequest, res: Response, next: Next
   const token = req.cookies?.token;
   if (!token) return res.status(401).json({ error: "Not authenticated" });
   try {
-    const { uid } = jwt.verify(token, JWT_SECRET) as { uid: string };
+    const session = await resolveSession(token);
+    if (!session) return res.status(401).json({ error: "Session expired" });
     const user = await prisma.user.findUnique({
-      where: { id: uid },
-      select: { id: true, email: true, role: true },
+      where: { id: session.userId },
+      select: { id: true, email: true, role: true, active: true, totpEnabledAt: true },
     });
     if (!user) return res.status(401).json({ error: "Not authenticated" });
-    if (user.role !== "ADMIN") return res.status(403).json({ error: "Forbidden" });
-    req.user = user;
+    if (!user.active) return res.status(403).json({ error: "Account deactivated" });
+    req.user = { id: user.id, email: user.email, role: user.role, twoFactorEnabled: !!user.totpEnabledAt };
+    req.sessionId = session.sessionId;
     next();
   } catch {
     return res.status(401).json({ error: "Invalid token" });
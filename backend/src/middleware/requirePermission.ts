@@ -0,0 +1,33 @@
+import { Response, NextFunction } from "express";
+import type { AuthedRequest } from "./requireAdmin";
+import { can } from "../lib/permissions";
+import type { Permission } from "../lib/permissions";
+import { mustEnableTwoFactor } from "../lib/twoFactor";
+
+/**
+ * @function requirePermission
+ * @description Builds an Express middleware that lets the request through only when the signed-in
+ * user's role grants the given permission (see lib/permissions.ts). Users whose role requires
+ * two-factor authentication are refused until they have enabled it.
+ * @param {Permission} permission - Permission required by the routes behind the middleware
+ * @returns {Function} Middleware to mount after {@link requireAdmin}, which sets `req.user`
+ *
+ * @throws {401} Returns 401 Unauthorized if no user was authenticated
+ * @throws {403} Returns 403 Forbidden with code TWO_FACTOR_REQUIRED if the user must enable 2FA first
+ * @throws {403} Returns 403 Forbidden if the user's role does not grant the permission
+ *
+ * @example
+ * ```typescript
+ * app.use("/api/admin/menu", requireAdmin, requirePermission("content"), adminMenu);
+ * ```
+ */
+export function requirePermission(permission: Permission) {
+  return (req: AuthedRequest, res: Response, next: NextFunction) => {
+    if (!req.user) return res.status(401).json({ error: "Not authenticated" });
+    if (mustEnableTwoFactor(req.user)) {
+      return res.status(403).json({ error: "Two-factor authentication required", code: "TWO_FACTOR_REQUIRED" });
+    }
+    if (!can(req.user.role, permission)) return res.status(403).json({ error: "Forbidden", permission });
+    next();
+  };
+}
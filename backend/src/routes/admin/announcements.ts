@@ -128,11 +128,27 @@
  *           description: Announcement date (ISO 8601)
  *         title:
  *           type: string
- *           description: Title of the announcement
+ *           description: Title of the announcement (French)
+ *           maxLength: 160
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 160
+ *         titleNl:
+ *           type: string
+ *           nullable: true
  *           maxLength: 160
  *         desc:
  *           type: string
- *           description: Optional description
+ *           description: Optional description (French)
+ *           nullable: true
+ *           maxLength: 1000
+ *         descEn:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 1000
+ *         descNl:
+ *           type: string
  *           nullable: true
  *           maxLength: 1000
  *         published:
@@ -169,9 +185,21 @@
  *           format: date
  *         title:
  *           type: string
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
  *         desc:
  *           type: string
  *           nullable: true
+ *         descEn:
+ *           type: string
+ *           nullable: true
+ *         descNl:
+ *           type: string
+ *           nullable: true
  *         published:
  *           type: boolean
  *         mediaAssets:
@@ -189,6 +217,8 @@
 import { Router } from "express";
 import { prisma } from "../../lib/prisma";
 import { z } from "zod";
+import { withMediaUrls } from "../../lib/storage";
+import { CalendarDay } from "../../lib/time";
 
 const router = Router();
 
@@ -208,9 +238,13 @@ const MediaLink = z.object({
  * and an array of associated media links.
  */
 const AnnouncementCreate = z.object({
-  date: z.coerce.date(),                             /**< Announcement date (ISO 8601 or Date object) */
-  title: z.string().min(1).max(160),                 /**< Title of the announcement (required, max 160 chars) */
-  desc: z.string().max(1000).optional().nullable(),  /**< Optional description (nullable, max 1000 chars) */
+  date: CalendarDay,                                 /**< Announcement day "YYYY-MM-DD" (a date-time is taken in Europe/Brussels) */
+  title: z.string().min(1).max(160),                 /**< Title of the announcement in French (required, max 160 chars) */
+  titleEn: z.string().max(160).optional().nullable(), /**< Optional English title */
+  titleNl: z.string().max(160).optional().nullable(), /**< Optional Dutch title */
+  desc: z.string().max(1000).optional().nullable(),  /**< Optional description in French (nullable, max 1000 chars) */
+  descEn: z.string().max(1000).optional().nullable(), /**< Optional English description */
+  descNl: z.string().max(1000).optional().nullable(), /**< Optional Dutch description */
   published: z.coerce.boolean().optional().default(true), /**< Published flag (default true) */
   media: z.array(MediaLink).optional().default([]),  /**< Optional array of media links */
 });
@@ -241,7 +275,7 @@ router.get("/", async (_req, res) => {
   });
   const payload = rows.map(r => ({
     ...r,
-    mediaAssets: r.media.map(m => ({ ...m.asset, _linkSortOrder: m.sortOrder })),
+    mediaAssets: r.media.map(m => ({ ...withMediaUrls(m.asset), _linkSortOrder: m.sortOrder })),
   }));
   res.json(payload);
 });
@@ -251,7 +285,16 @@ router.post("/", async (req, res) => {
 
   const created = await prisma.$transaction(async (tx) => {
     const a = await tx.announcement.create({
-      data: { date: data.date, title: data.title, desc: data.desc ?? null, published: data.published ?? true },
+      data: {
+        date: data.date,
+        title: data.title,
+        titleEn: data.titleEn || null,
+        titleNl: data.titleNl || null,
+        desc: data.desc ?? null,
+        descEn: data.descEn || null,
+        descNl: data.descNl || null,
+        published: data.published ?? true,
+      },
     });
     if (data.media?.length) {
       await tx.announcementMedia.createMany({
@@ -264,7 +307,7 @@ router.post("/", async (req, res) => {
 
   res.status(201).json({
     ...created,
-    mediaAssets: created.media.map(m => ({ ...m.asset, _linkSortOrder: m.sortOrder })),
+    mediaAssets: created.media.map(m => ({ ...withMediaUrls(m.asset), _linkSortOrder: m.sortOrder })),
   });
 });
 
@@ -275,7 +318,16 @@ router.patch("/:id", async (req, res) => {
   const updated = await prisma.$transaction(async (tx) => {
     await tx.announcement.update({
       where: { id },
-      data: { date: data.date, title: data.title, desc: data.desc, published: data.published },
+      data: {
+        date: data.date,
+        title: data.title,
+        titleEn: data.titleEn === undefined ? undefined : data.titleEn || null,
+        titleNl: data.titleNl === undefined ? undefined : data.titleNl || null,
+        desc: data.desc,
+        descEn: data.descEn === undefined ? undefined : data.descEn || null,
+        descNl: data.descNl === undefined ? undefined : data.descNl || null,
+        published: data.published,
+      },
     });
 
     if (data.media) {
@@ -294,7 +346,7 @@ router.patch("/:id", async (req, res) => {
 
   res.json({
     ...updated,
-    mediaAssets: updated.media.map(m => ({ ...m.asset, _linkSortOrder: m.sortOrder })),
+    mediaAssets: updated.media.map(m => ({ ...withMediaUrls(m.asset), _linkSortOrder: m.sortOrder })),
   });
 });
 
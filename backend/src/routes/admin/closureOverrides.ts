@@ -0,0 +1,199 @@
+/**
+ * @file closureOverrides.ts
+ * @brief Admin API routes for exceptional openings (overrides of recurring closures).
+ * @details
+ * An override opens one day (or one service of that day) that a recurring closure would
+ * otherwise close, e.g. opening on a Monday that is normally closed. One-off closures and
+ * closure periods are not affected.
+ * All endpoints require admin authentication.
+ */
+
+import { Router } from "express";
+import { prisma } from "../../lib/prisma";
+import { z } from "zod";
+import { CalendarDay, isYMD, ymdToDate } from "../../lib/time";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin Closure Overrides
+ *   description: Endpoints for exceptional openings on recurring closure days (admin only)
+ */
+
+/**
+ * @brief Zod enum for allowed closure slots.
+ * @details Restricts values to "ALL", "LUNCH", or "DINNER" (case-insensitive supported).
+ */
+const SlotEnum = z.enum(["ALL", "LUNCH", "DINNER"]);
+
+const OverrideCreate = z.object({
+  date: CalendarDay,                                /**< Day to open "YYYY-MM-DD" */
+  slot: z.union([
+    SlotEnum,
+    z.enum(["all", "lunch", "dinner"]).transform(s => s.toUpperCase() as any),
+  ]),                                               /**< Service opened ("ALL" opens the whole day) */
+  note: z.string().max(500).optional().nullable(),  /**< Optional note shown publicly (max 500 chars) */
+});
+
+/**
+ * @swagger
+ * /api/admin/closure-overrides:
+ *   get:
+ *     summary: Get exceptional openings
+ *     description: Returns the overrides, ordered by date, optionally limited to a range of days.
+ *     tags: [Admin Closure Overrides]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: List of overrides
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ClosureOverride'
+ *       400:
+ *         description: Invalid start or end
+ */
+router.get("/", async (req, res) => {
+  const { start, end } = req.query as { start?: string; end?: string };
+  if ((start && !isYMD(start)) || (end && !isYMD(end))) {
+    return res.status(400).json({ error: "start and end must be YYYY-MM-DD" });
+  }
+
+  const rows = await prisma.closureOverride.findMany({
+    where: {
+      date: {
+        gte: start ? ymdToDate(start) : undefined,
+        lte: end ? ymdToDate(end) : undefined,
+      },
+    },
+    orderBy: [{ date: "asc" }, { slot: "asc" }],
+  });
+  res.json(rows);
+});
+
+/**
+ * @swagger
+ * /api/admin/closure-overrides:
+ *   post:
+ *     summary: Create an exceptional opening
+ *     description: >
+ *       Cancels the recurring closure occurrences of a day for the given slot.
+ *       Returns 409 Conflict if an override for the same date/slot already exists.
+ *     tags: [Admin Closure Overrides]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClosureOverrideCreate'
+ *     responses:
+ *       201:
+ *         description: Created override
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClosureOverride'
+ *       400:
+ *         description: Invalid request payload
+ *       409:
+ *         description: Override for this date/slot already exists
+ */
+router.post("/", async (req, res) => {
+  const parsed = OverrideCreate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const data = parsed.data;
+  try {
+    const created = await prisma.closureOverride.create({ data: { ...data, slot: data.slot as any } });
+    res.status(201).json(created);
+  } catch (e: any) {
+    if (e.code === "P2002") {
+      // unique(date, slot)
+      return res.status(409).json({ error: "Override for this date/slot already exists" });
+    }
+    throw e;
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/closure-overrides/{id}:
+ *   delete:
+ *     summary: Delete an exceptional opening
+ *     description: The recurring closure applies again on that day.
+ *     tags: [Admin Closure Overrides]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Successfully deleted (no content)
+ */
+router.delete("/:id", async (req, res) => {
+  const { id } = req.params;
+  await prisma.closureOverride.delete({ where: { id } });
+  res.status(204).end();
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ClosureOverride:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date-time
+ *         slot:
+ *           type: string
+ *           enum: [ALL, LUNCH, DINNER]
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ClosureOverrideCreate:
+ *       type: object
+ *       required: [date, slot]
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *           example: "2025-12-22"
+ *         slot:
+ *           type: string
+ *           enum: [ALL, LUNCH, DINNER]
+ *         note:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *           example: "Ouvert pour les fêtes"
+ */
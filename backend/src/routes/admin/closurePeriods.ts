@@ -0,0 +1,238 @@
+/**
+ * @file closurePeriods.ts
+ * @brief Admin API routes for managing multi-day closures (holidays, works…).
+ * @details
+ * A closure period is stored once (start day, end day, slot, note) and expanded day by day in the
+ * public closures feed and availability, instead of one `Closure` row per day.
+ * All endpoints require admin authentication.
+ */
+
+import { Router } from "express";
+import { prisma } from "../../lib/prisma";
+import { z } from "zod";
+import { MAX_PERIOD_DAYS } from "../../lib/closures";
+import { CalendarDay } from "../../lib/time";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Admin Closure Periods
+ *   description: Endpoints for managing multi-day closures (admin only)
+ */
+
+/**
+ * @brief Zod enum for allowed closure slots.
+ * @details Restricts values to "ALL", "LUNCH", or "DINNER" (case-insensitive supported).
+ */
+const SlotEnum = z.enum(["ALL", "LUNCH", "DINNER"]);
+
+const PeriodFields = z.object({
+  startDate: CalendarDay,                           /**< First closed day "YYYY-MM-DD" (inclusive) */
+  endDate: CalendarDay,                             /**< Last closed day "YYYY-MM-DD" (inclusive) */
+  slot: z.union([
+    SlotEnum,
+    z.enum(["all", "lunch", "dinner"]).transform(s => s.toUpperCase() as any),
+  ]),                                               /**< Service slot ("ALL", "LUNCH", "DINNER") */
+  note: z.string().max(500).optional().nullable(),  /**< Optional note shown publicly (max 500 chars) */
+});
+
+const PeriodUpdate = PeriodFields.partial();
+
+/**
+ * @brief Checks the order and length of a period.
+ * @param startDate First day
+ * @param endDate Last day
+ * @returns An error message, or null when the period is valid
+ */
+function checkPeriod(startDate: Date, endDate: Date): string | null {
+  if (endDate < startDate) return "endDate must not be before startDate";
+  if ((endDate.getTime() - startDate.getTime()) / 86_400_000 >= MAX_PERIOD_DAYS) {
+    return `A closure period cannot exceed ${MAX_PERIOD_DAYS} days`;
+  }
+  return null;
+}
+
+/**
+ * @swagger
+ * /api/admin/closure-periods:
+ *   get:
+ *     summary: Get all closure periods
+ *     description: Returns all closure periods, ordered by start day.
+ *     tags: [Admin Closure Periods]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: List of closure periods
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ClosurePeriod'
+ */
+router.get("/", async (_req, res) => {
+  const rows = await prisma.closurePeriod.findMany({ orderBy: { startDate: "asc" } });
+  res.json(rows);
+});
+
+/**
+ * @swagger
+ * /api/admin/closure-periods:
+ *   post:
+ *     summary: Create a closure period
+ *     description: Creates a closure covering every day from `startDate` to `endDate` (inclusive), at most 366 days.
+ *     tags: [Admin Closure Periods]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClosurePeriodCreate'
+ *     responses:
+ *       201:
+ *         description: Created closure period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClosurePeriod'
+ *       400:
+ *         description: Invalid payload, end before start, or period too long
+ */
+router.post("/", async (req, res) => {
+  const parsed = PeriodFields.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const data = parsed.data;
+  const error = checkPeriod(data.startDate, data.endDate);
+  if (error) return res.status(400).json({ error });
+
+  const created = await prisma.closurePeriod.create({ data: { ...data, slot: data.slot as any } });
+  res.status(201).json(created);
+});
+
+/**
+ * @swagger
+ * /api/admin/closure-periods/{id}:
+ *   patch:
+ *     summary: Update a closure period
+ *     description: Updates an existing closure period by ID. Only fields present are updated.
+ *     tags: [Admin Closure Periods]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ClosurePeriodCreate'
+ *     responses:
+ *       200:
+ *         description: Updated closure period
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ClosurePeriod'
+ *       400:
+ *         description: Invalid payload, end before start, or period too long
+ *       404:
+ *         description: Closure period not found
+ */
+router.patch("/:id", async (req, res) => {
+  const { id } = req.params;
+  const parsed = PeriodUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const data = parsed.data;
+
+  const existing = await prisma.closurePeriod.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ error: "Closure period not found" });
+  const error = checkPeriod(data.startDate ?? existing.startDate, data.endDate ?? existing.endDate);
+  if (error) return res.status(400).json({ error });
+
+  const updated = await prisma.closurePeriod.update({
+    where: { id },
+    data: { ...data, slot: (data.slot as any) ?? undefined },
+  });
+  res.json(updated);
+});
+
+/**
+ * @swagger
+ * /api/admin/closure-periods/{id}:
+ *   delete:
+ *     summary: Delete a closure period
+ *     tags: [Admin Closure Periods]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Successfully deleted (no content)
+ */
+router.delete("/:id", async (req, res) => {
+  const { id } = req.params;
+  await prisma.closurePeriod.delete({ where: { id } });
+  res.status(204).end();
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ClosurePeriod:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         startDate:
+ *           type: string
+ *           format: date-time
+ *         endDate:
+ *           type: string
+ *           format: date-time
+ *         slot:
+ *           type: string
+ *           enum: [ALL, LUNCH, DINNER]
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ClosurePeriodCreate:
+ *       type: object
+ *       required: [startDate, endDate, slot]
+ *       properties:
+ *         startDate:
+ *           type: string
+ *           format: date
+ *           example: "2026-07-14"
+ *         endDate:
+ *           type: string
+ *           format: date
+ *           example: "2026-07-28"
+ *         slot:
+ *           type: string
+ *           enum: [ALL, LUNCH, DINNER]
+ *         note:
+ *           type: string
+ *           nullable: true
+ *           maxLength: 500
+ *           example: "Congés d'été"
+ */
@@ -63,6 +63,146 @@
  *                   type: string
  *                   example: Closure for this date/slot already exists
  *
+ * /api/admin/closures/feed:
+ *   get:
+ *     summary: Get the status of the signed-in user's calendar feed key
+ *     description: >
+ *       Tells whether the user has a key for the iCalendar feed including notes
+ *       (`/api/admin/closures.ics`). The key itself is only returned when it is created.
+ *     tags: [AdminClosures]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Key status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 active:
+ *                   type: boolean
+ *                 createdAt:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
+ *   post:
+ *     summary: Create the signed-in user's calendar feed URL
+ *     description: >
+ *       Creates a random key for the user, replacing their previous one, and returns the subscription
+ *       URL once. Anyone holding the URL can read the feed until the key is replaced or revoked; it also
+ *       stops working when the user is deactivated or loses the `content` permission.
+ *     tags: [AdminClosures]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       201:
+ *         description: Feed URL (relative to the API host)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 url:
+ *                   type: string
+ *                   example: /api/admin/closures.ics?key=Xq3v...
+ *                 createdAt:
+ *                   type: string
+ *                   format: date-time
+ *   delete:
+ *     summary: Revoke the signed-in user's calendar feed URL
+ *     tags: [AdminClosures]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       204:
+ *         description: No Content (the URL no longer works)
+ *
+ * /api/admin/closures/import-holidays:
+ *   post:
+ *     summary: Import Belgian public holidays as closures
+ *     description: >
+ *       Generates the ten Belgian public holidays of `year` (fixed dates plus Easter Monday, Ascension
+ *       and Whit Monday). With `preview=true` nothing is written: each holiday is returned with `exists`
+ *       when a closure already covers that date/slot. Otherwise creates one closure per holiday (the
+ *       `dates` of the body when given), skipping existing ones. Returns 409 Conflict when every selected
+ *       holiday already exists.
+ *     tags: [AdminClosures]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: year
+ *         schema:
+ *           type: integer
+ *           example: 2026
+ *         description: Defaults to the current year
+ *       - in: query
+ *         name: preview
+ *         schema:
+ *           type: boolean
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               slot:
+ *                 type: string
+ *                 enum: [ALL, LUNCH, DINNER]
+ *                 default: ALL
+ *               dates:
+ *                 type: array
+ *                 description: Holidays to import (YYYY-MM-DD); all when omitted
+ *                 items:
+ *                   type: string
+ *                   format: date
+ *     responses:
+ *       200:
+ *         description: Preview of the holidays
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 year:
+ *                   type: integer
+ *                 slot:
+ *                   type: string
+ *                 holidays:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       date:
+ *                         type: string
+ *                         format: date
+ *                       name:
+ *                         type: string
+ *                         example: Lundi de Pâques
+ *                       exists:
+ *                         type: boolean
+ *       201:
+ *         description: Closures created; holidays already closed are listed in `skipped`
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 created:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Closure'
+ *                 skipped:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *       400:
+ *         description: Invalid year or payload, or no holiday selected
+ *       409:
+ *         description: All selected holidays already exist
+ *
  * /api/admin/closures/{id}:
  *   patch:
  *     summary: Update a closure
@@ -139,7 +279,7 @@
  *         date:
  *           type: string
  *           format: date
- *           description: Closure date (ISO 8601)
+ *           description: Closure day (YYYY-MM-DD)
  *         slot:
  *           type: string
  *           description: Service slot ("ALL", "LUNCH", or "DINNER")
@@ -158,6 +298,10 @@
 import { Router } from "express";
 import { prisma } from "../../lib/prisma";
 import { z } from "zod";
+import { issueFeedToken, revokeFeedToken } from "../../lib/feedTokens";
+import type { AuthedRequest } from "../../middleware/requireAdmin";
+import { belgianHolidays, HOLIDAY_YEARS } from "../../lib/holidays";
+import { CalendarDay, dateToYMD, isYMD, nowInZone, ymdToDate } from "../../lib/time";
 
 const router = Router();
 
@@ -174,7 +318,7 @@ const SlotEnum = z.enum(["ALL", "LUNCH", "DINNER"]);
  * and allows an optional note.
  */
 const ClosureCreate = z.object({
-  date: z.coerce.date(),    /**< Closure date (ISO 8601 or Date object) */
+  date: CalendarDay,        /**< Closure day "YYYY-MM-DD" (a date-time is taken in Europe/Brussels) */
   slot: z.union([SlotEnum, z.enum(["all", "lunch", "dinner"]).transform(s => s.toUpperCase() as any)]), /**< Service slot ("ALL", "LUNCH", "DINNER") */
   note: z.string().max(500).optional().nullable(),   /**< Optional closure note (max 500 chars) */
 });
@@ -185,6 +329,15 @@ const ClosureCreate = z.object({
  */
 const ClosureUpdate = ClosureCreate.partial();
 
+/**
+ * @brief Zod schema for the holidays import.
+ * @details Both fields optional: all holidays of the year, closed all day.
+ */
+const HolidaysImport = z.object({
+  slot: ClosureCreate.shape.slot.optional(),               /**< Service slot, "ALL" by default */
+  dates: z.array(z.string().refine(isYMD)).optional(),     /**< Holidays to import (YYYY-MM-DD) */
+});
+
 /**
  * @brief GET /api/admin/closures
  * @route GET /
@@ -198,6 +351,90 @@ router.get("/", async (_req, res) => {
   res.json(rows);
 });
 
+/**
+ * @brief GET /api/admin/closures/feed
+ * @route GET /feed
+ * @returns {Object} `{ active, createdAt }`: whether the signed-in user has a feed key, and since when
+ * @details The key itself is only shown when it is created (POST).
+ */
+router.get("/feed", async (req: AuthedRequest, res) => {
+  const row = await prisma.feedToken.findUnique({ where: { userId: req.user!.id }, select: { createdAt: true } });
+  res.json({ active: !!row, createdAt: row?.createdAt ?? null });
+});
+
+/**
+ * @brief POST /api/admin/closures/feed
+ * @route POST /feed
+ * @returns {Object} `{ url, createdAt }` of the admin iCalendar feed, key included
+ * @details Creates the signed-in user's feed key; a previous key stops working.
+ */
+router.post("/feed", async (req: AuthedRequest, res) => {
+  const { token, createdAt } = await issueFeedToken(req.user!.id);
+  res.status(201).json({ url: `/api/admin/closures.ics?key=${encodeURIComponent(token)}`, createdAt });
+});
+
+/**
+ * @brief DELETE /api/admin/closures/feed
+ * @route DELETE /feed
+ * @returns 204 No Content; the signed-in user's feed URL stops working
+ */
+router.delete("/feed", async (req: AuthedRequest, res) => {
+  await revokeFeedToken(prisma, req.user!.id);
+  res.status(204).end();
+});
+
+/**
+ * @brief POST /api/admin/closures/import-holidays
+ * @route POST /import-holidays
+ * @param req.query.year Year of the holidays (defaults to the current year)
+ * @param req.query.preview "true" to only list the holidays and which ones already exist
+ * @param req.body HolidaysImport
+ * @returns {Object} `{ year, slot, holidays }` on preview, `{ year, slot, created, skipped }` otherwise
+ * @details
+ * Closures are created at noon local time, like the ones added from the dashboard. A holiday that
+ * already has a closure for the slot is skipped, and the request fails with 409 Conflict when every
+ * selected holiday is skipped.
+ */
+router.post("/import-holidays", async (req, res) => {
+  const year = req.query.year === undefined ? Number(nowInZone().ymd.slice(0, 4)) : Number(req.query.year);
+  if (!Number.isInteger(year) || year < HOLIDAY_YEARS.min || year > HOLIDAY_YEARS.max) {
+    return res.status(400).json({ error: `year must be between ${HOLIDAY_YEARS.min} and ${HOLIDAY_YEARS.max}` });
+  }
+  const parsed = HolidaysImport.safeParse(req.body ?? {});
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const slot = parsed.data.slot ?? "ALL";
+
+  const existing = await prisma.closure.findMany({
+    where: { slot, date: { gte: ymdToDate(`${year}-01-01`), lt: ymdToDate(`${year + 1}-01-01`) } },
+  });
+  const closed = new Set(existing.map(c => dateToYMD(c.date)));
+  const holidays = belgianHolidays(year).map(h => ({ ...h, exists: closed.has(h.date) }));
+
+  if (req.query.preview === "true" || req.query.preview === "1") {
+    return res.json({ year, slot, holidays });
+  }
+
+  const selected = parsed.data.dates ? holidays.filter(h => parsed.data.dates!.includes(h.date)) : holidays;
+  if (selected.length === 0) return res.status(400).json({ error: "No holiday selected" });
+
+  const created = [];
+  const skipped = selected.filter(h => h.exists);
+  for (const h of selected.filter(h => !h.exists)) {
+    try {
+      created.push(await prisma.closure.create({ data: { date: ymdToDate(h.date), slot, note: h.name } }));
+    } catch (e: any) {
+      if (e.code !== "P2002") throw e;
+      // unique(date, slot): created meanwhile
+      skipped.push(h);
+    }
+  }
+
+  if (created.length === 0) {
+    return res.status(409).json({ error: "Closures for these holidays already exist", skipped });
+  }
+  res.status(201).json({ year, slot, created, skipped });
+});
+
 /**
  * @brief POST /api/admin/closures
  * @route POST /
@@ -0,0 +1,56 @@
+/**
+ * @file closuresIcs.ts
+ * @brief Admin iCalendar feed of closures, including internal notes
+ * @details
+ * Calendar apps cannot send the admin cookie, so this feed is authorized by the `key` query
+ * parameter, a per-user key (see lib/feedTokens.ts). The subscription URL is handed out once by
+ * `POST /api/admin/closures/feed`.
+ */
+
+import { Router } from "express";
+import { closuresCalendar } from "../../lib/ics";
+import { parseLang } from "../../lib/i18n";
+import { verifyFeedToken } from "../../lib/feedTokens";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/admin/closures.ics:
+ *   get:
+ *     summary: Admin closures feed (iCalendar, with notes)
+ *     description: Same events as `/api/closures.ics`, with each closure's note as the event description.
+ *     tags: [AdminClosures]
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Feed key from `POST /api/admin/closures/feed`
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Missing, invalid or revoked key, or its user may no longer read the closures
+ */
+router.get("/", async (req, res) => {
+  const key = typeof req.query.key === "string" ? req.query.key : "";
+  if (!(await verifyFeedToken(key))) return res.status(401).json({ error: "Invalid feed key" });
+
+  const ics = await closuresCalendar({ lang: parseLang(req.query.lang), includeNotes: true });
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Cache-Control", "private, no-store");
+  res.send(ics);
+});
+
+export default router;
@@ -1,17 +1,20 @@
 /**
  * @file gallery.ts
- * @brief Admin API routes for managing the gallery collection.
+ * @brief Admin API routes for managing the gallery albums and their items.
  * @details
- * Provides CRUD endpoints to manage gallery items, allowing admins to
- * add, update, list, or remove media assets from the gallery. All endpoints
- * require admin authentication.
+ * Provides CRUD endpoints to manage gallery albums (translated title, URL slug, cover image,
+ * order and publish flag) and the media assets shown in each album. An asset belongs to at most
+ * one album; adding it to another album moves it. Deleting an album removes its items from the
+ * gallery, not the media assets. Albums, and the items of an album, are reordered in bulk (see
+ * lib/reorder.ts); new ones are added last, and removing or moving one renumbers the list it leaves.
+ * All endpoints require admin authentication.
  */
 
 /**
  * @swagger
  * tags:
  *   name: AdminGallery
- *   description: Admin API for managing gallery items (requires authentication)
+ *   description: Admin API for managing gallery albums and items (requires authentication)
  */
 
 /**
@@ -20,11 +23,17 @@
  *   get:
  *     summary: Get all gallery items
  *     description: >
- *       Retrieves all gallery items, each with the linked media asset info,
+ *       Retrieves all gallery items (or those of one album), each with the linked media asset info,
  *       sorted by gallery sortOrder ascending.
  *     tags: [AdminGallery]
  *     security:
  *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: albumId
+ *         schema:
+ *           type: string
+ *         description: Only return the items of this album
  *     responses:
  *       200:
  *         description: List of gallery items with asset data
@@ -58,14 +67,18 @@
  *                       published:
  *                         type: boolean
  *                         description: Gallery published flag
+ *                       albumId:
+ *                         type: string
+ *                         description: Album the item belongs to
  *                       _linkSortOrder:
  *                         type: integer
  *                         description: Alias for gallery sortOrder
  *   post:
  *     summary: Upsert a gallery item
  *     description: >
- *       Adds or updates a gallery item. If the `mediaAssetId` exists, updates the sortOrder and published fields.
- *       Otherwise, creates a new gallery item.
+ *       Adds or updates a gallery item. If the `mediaAssetId` exists, updates the album and published
+ *       fields (moving the asset to that album, after its last item). Otherwise, creates a new gallery
+ *       item after the last one of the album.
  *     tags: [AdminGallery]
  *     security:
  *       - cookieAuth: []
@@ -79,17 +92,16 @@
  *               mediaAssetId:
  *                 type: string
  *                 description: The CUID of the linked media asset
- *               sortOrder:
- *                 type: integer
- *                 minimum: 0
- *                 default: 0
- *                 description: Sort ordering for display
+ *               albumId:
+ *                 type: string
+ *                 description: The album to show the asset in
  *               published:
  *                 type: boolean
  *                 default: true
  *                 description: Whether the gallery item is published/visible
  *             required:
  *               - mediaAssetId
+ *               - albumId
  *     responses:
  *       201:
  *         description: The created or updated gallery item
@@ -100,33 +112,339 @@
  *               properties:
  *                 mediaAssetId:
  *                   type: string
+ *                 albumId:
+ *                   type: string
  *                 sortOrder:
  *                   type: integer
  *                 published:
  *                   type: boolean
+ *       404:
+ *         description: Album not found
  */
 
 import { Router } from "express";
 import { prisma } from "../../lib/prisma";
 import { z } from "zod";
+import type { Prisma } from "@prisma/client";
 import type { AuthedRequest } from "../../middleware/requireAdmin";
+import { mediaUrl } from "../../lib/storage";
+import { withSrcSet } from "../../lib/images";
+import { OrderIds, appendPosition, applyOrder, compactOrder } from "../../lib/reorder";
 
 const router = Router();
 
 /**
  * @brief Zod schema for upserting a gallery item.
  * @details
- * Used for create and update operations on gallery items.
  * - `mediaAssetId`: The CUID of the media asset.
- * - `sortOrder`: The integer sort ordering for display (default 0).
+ * - `albumId`: The album showing the asset.
  * - `published`: Whether the gallery item is published/visible (default true).
  */
 const UpsertSchema = z.object({
   mediaAssetId: z.string().cuid(),                         /**< CUID of the linked media asset */
-  sortOrder: z.coerce.number().int().min(0).default(0),    /**< Sort ordering for the gallery */
+  albumId: z.string().min(1),                              /**< Album showing the asset */
   published: z.coerce.boolean().default(true),             /**< Published flag for the gallery item */
 });
 
+/**
+ * @brief Zod schema for updating a gallery item.
+ * @details No defaults here so that PATCH only touches the fields it receives.
+ */
+const ItemUpdate = z.object({
+  albumId: z.string().min(1).optional(),                   /**< Moves the item to this album */
+  published: z.coerce.boolean().optional(),
+});
+
+/**
+ * @brief Optional translated text column (send null to clear it).
+ */
+const OptText = (max: number) => z.string().trim().max(max).optional().nullable();
+
+/**
+ * @brief URL segment of an album, e.g. "interieur" in /gallery/interieur.
+ */
+const Slug = z.string().trim().toLowerCase().max(60).regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+  message: "Lowercase letters, digits and single dashes only",
+});
+
+/**
+ * @brief Zod schema for gallery album fields.
+ * @details No defaults here so that PATCH only touches the fields it receives. Positions are not
+ * accepted: new albums are appended, and albums are reordered with PUT /albums/order.
+ */
+const AlbumFields = z.object({
+  title: z.string().trim().min(1).max(120),        /**< Album title (French) */
+  titleEn: OptText(120),                           /**< Optional English title */
+  titleNl: OptText(120),                           /**< Optional Dutch title */
+  slug: Slug.optional(),                           /**< URL segment; derived from the title when omitted */
+  coverId: z.string().cuid().optional().nullable(),/**< Cover image (null: first image of the album) */
+  published: z.coerce.boolean().optional(),
+});
+
+const AlbumCreate = AlbumFields.extend({
+  published: z.coerce.boolean().optional().default(true),
+});
+
+const AlbumUpdate = AlbumFields.partial();
+
+/**
+ * @brief Loads the albums in display order (for applyOrder / compactOrder).
+ */
+const albumOrder = (tx: Prisma.TransactionClient) =>
+  tx.galleryAlbum.findMany({ orderBy: [{ sortOrder: "asc" }, { id: "asc" }], select: { id: true, sortOrder: true } });
+
+/**
+ * @brief Loads the items of an album in display order, identified by their media asset.
+ */
+const itemOrder = (albumId: string) => async (tx: Prisma.TransactionClient) =>
+  (await tx.galleryItem.findMany({
+    where: { albumId },
+    orderBy: [{ sortOrder: "asc" }, { mediaAssetId: "asc" }],
+    select: { mediaAssetId: true, sortOrder: true },
+  })).map(g => ({ id: g.mediaAssetId, sortOrder: g.sortOrder }));
+
+const writeAlbumOrder = (tx: Prisma.TransactionClient, id: string, sortOrder: number) =>
+  tx.galleryAlbum.update({ where: { id }, data: { sortOrder } });
+
+const writeItemOrder = (tx: Prisma.TransactionClient, mediaAssetId: string, sortOrder: number) =>
+  tx.galleryItem.update({ where: { mediaAssetId }, data: { sortOrder } });
+
+/**
+ * @brief Position after the last item of an album, read within the transaction adding the item.
+ */
+const nextItemPosition = async (tx: Prisma.TransactionClient, albumId: string) =>
+  appendPosition(await tx.galleryItem.aggregate({ where: { albumId }, _max: { sortOrder: true } }));
+
+/**
+ * @brief Derives an album slug from its title ("Intérieur & Terrasse" -> "interieur-terrasse").
+ * @param {string} title - Album title
+ * @returns {string} Slug matching `Slug`
+ */
+function slugify(title: string): string {
+  const slug = title
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60)
+    .replace(/-+$/, "");
+  return slug || "album";
+}
+
+/**
+ * @brief Relations loaded with an album in admin responses.
+ */
+const albumInclude = {
+  cover: { include: { variants: true } },
+  _count: { select: { items: true } },
+} satisfies Prisma.GalleryAlbumInclude;
+
+type AlbumWithCover = Prisma.GalleryAlbumGetPayload<{ include: typeof albumInclude }>;
+
+/**
+ * @brief Checks that a cover is an image stored in the media library.
+ * @param {string} id - Media asset ID
+ * @returns {Promise<string | null>} An error message, or null when the asset can be a cover
+ */
+async function checkCover(id: string): Promise<string | null> {
+  const asset = await prisma.mediaAsset.findUnique({ where: { id }, select: { mimeType: true } });
+  if (!asset) return "Cover image not found";
+  if (asset.mimeType && !asset.mimeType.startsWith("image/")) return "The cover must be an image";
+  return null;
+}
+
+/**
+ * @brief Shapes an album for admin responses: cover with `srcset` and the number of items.
+ * @param {AlbumWithCover} row - Album loaded with `albumInclude`
+ * @returns {Object} Album with `cover` and `itemCount`
+ */
+function toAdminAlbum({ cover, _count, ...album }: AlbumWithCover) {
+  return { ...album, cover: cover ? withSrcSet(cover) : null, itemCount: _count.items };
+}
+
+/**
+ * @swagger
+ * /api/admin/gallery/albums:
+ *   get:
+ *     summary: List gallery albums
+ *     description: Returns every album (published or not) ordered by sortOrder, with its cover and number of items.
+ *     tags: [AdminGallery]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: List of albums
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AdminGalleryAlbum'
+ *   post:
+ *     summary: Create a gallery album
+ *     tags: [AdminGallery]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GalleryAlbumInput'
+ *     responses:
+ *       201:
+ *         description: Created album, added after the last one
+ *       400:
+ *         description: Invalid payload or cover
+ *       409:
+ *         description: An album with this slug already exists
+ *
+ * /api/admin/gallery/albums/{id}:
+ *   patch:
+ *     summary: Update a gallery album
+ *     description: Fields not supplied remain unchanged.
+ *     tags: [AdminGallery]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/GalleryAlbumInput'
+ *     responses:
+ *       200:
+ *         description: Updated album
+ *       400:
+ *         description: Invalid payload or cover
+ *       404:
+ *         description: Album not found
+ *       409:
+ *         description: An album with this slug already exists
+ *   delete:
+ *     summary: Delete a gallery album
+ *     description: Deletes the album and removes its items from the gallery; the media assets are kept.
+ *     tags: [AdminGallery]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: No Content (deletion successful)
+ *       404:
+ *         description: Album not found
+ */
+router.get("/albums", async (_req, res) => {
+  const albums = await prisma.galleryAlbum.findMany({
+    orderBy: { sortOrder: "asc" },
+    include: albumInclude,
+  });
+  res.json(albums.map(toAdminAlbum));
+});
+
+router.post("/albums", async (req, res) => {
+  const parsed = AlbumCreate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { slug, ...data } = parsed.data;
+
+  if (data.coverId) {
+    const error = await checkCover(data.coverId);
+    if (error) return res.status(400).json({ error });
+  }
+  try {
+    const created = await prisma.$transaction(async (tx) => {
+      const sortOrder = appendPosition(await tx.galleryAlbum.aggregate({ _max: { sortOrder: true } }));
+      return tx.galleryAlbum.create({
+        data: { ...data, slug: slug ?? slugify(data.title), sortOrder },
+        include: albumInclude,
+      });
+    });
+    res.status(201).json(toAdminAlbum(created));
+  } catch (e: any) {
+    if (e.code === "P2002") return res.status(409).json({ error: "An album with this slug already exists" });
+    throw e;
+  }
+});
+
+router.patch("/albums/:id", async (req, res) => {
+  const { id } = req.params;
+  const parsed = AlbumUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  if (parsed.data.coverId) {
+    const error = await checkCover(parsed.data.coverId);
+    if (error) return res.status(400).json({ error });
+  }
+  try {
+    const updated = await prisma.galleryAlbum.update({ where: { id }, data: parsed.data, include: albumInclude });
+    res.json(toAdminAlbum(updated));
+  } catch (e: any) {
+    if (e.code === "P2025") return res.status(404).json({ error: "Album not found" });
+    if (e.code === "P2002") return res.status(409).json({ error: "An album with this slug already exists" });
+    throw e;
+  }
+});
+
+router.delete("/albums/:id", async (req, res) => {
+  const { id } = req.params;
+  const count = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.galleryAlbum.deleteMany({ where: { id } });
+    if (count) await compactOrder(tx, albumOrder, writeAlbumOrder);
+    return count;
+  });
+  if (count === 0) return res.status(404).json({ error: "Album not found" });
+  res.status(204).end();
+});
+
+/**
+ * @swagger
+ * /api/admin/gallery/albums/order:
+ *   put:
+ *     summary: Reorder the gallery albums
+ *     description: >
+ *       Takes every album id in the new order and rewrites their sortOrder as 0, 1, 2… in one transaction.
+ *     tags: [AdminGallery]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderInput'
+ *     responses:
+ *       204:
+ *         description: No Content (order saved)
+ *       400:
+ *         description: Invalid ids
+ *       409:
+ *         description: The ids do not match the current albums
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrderConflict'
+ */
+router.put("/albums/order", async (req, res) => {
+  const parsed = z.object({ ids: OrderIds }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  const result = await applyOrder(parsed.data.ids, albumOrder, writeAlbumOrder);
+  if ("error" in result) return res.status(result.error.status).json(result.error.body);
+  res.status(204).end();
+});
+
 /**
  * @swagger
  * /api/admin/gallery:
@@ -153,17 +471,21 @@ const UpsertSchema = z.object({
  *         description: The created or updated gallery item
  */
 // GET /api/admin/gallery
-router.get("/", async (_req, res) => {
+router.get("/", async (req, res) => {
+  const albumId = typeof req.query.albumId === "string" ? req.query.albumId : undefined;
   const items = await prisma.galleryItem.findMany({
+    where: albumId ? { albumId } : undefined,
     orderBy: { sortOrder: "asc" },
     select: {
       mediaAssetId: true,
+      albumId: true,
       sortOrder: true,
       published: true,
       asset: {
         select: {
           id: true,
           url: true,
+          key: true,
           alt: true,
           width: true,
           height: true,
@@ -179,12 +501,13 @@ router.get("/", async (_req, res) => {
   const out = items.map((g) => ({
     id: g.asset.id,                        /**< MediaAsset ID */
     type: g.asset.type,                    /**< Media type */
-    url: g.asset.url,                      /**< Asset URL */
+    url: mediaUrl(g.asset),                /**< Asset URL (from the storage driver) */
     alt: g.asset.alt ?? null,              /**< Asset alt text */
     width: g.asset.width ?? null,          /**< Asset width */
     height: g.asset.height ?? null,        /**< Asset height */
     sortOrder: g.sortOrder,                /**< Gallery sort order */
     published: g.published,                /**< Gallery published flag */
+    albumId: g.albumId,                    /**< Album showing the asset */
     _linkSortOrder: g.sortOrder,           /**< Optional: duplicate sortOrder for distinguishing source */
   }));
   res.json(out);
@@ -192,22 +515,78 @@ router.get("/", async (_req, res) => {
 
 // POST /api/admin/gallery
 router.post("/", async (req: AuthedRequest, res) => {
-  const body = UpsertSchema.parse(req.body);
-  const item = await prisma.galleryItem.upsert({
-    where: { mediaAssetId: body.mediaAssetId },
-    update: { sortOrder: body.sortOrder, published: body.published },
-    create: body,
+  const parsed = UpsertSchema.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const body = parsed.data;
+
+  const album = await prisma.galleryAlbum.findUnique({ where: { id: body.albumId }, select: { id: true } });
+  if (!album) return res.status(404).json({ error: "Album not found" });
+
+  const item = await prisma.$transaction(async (tx) => {
+    const current = await tx.galleryItem.findUnique({ where: { mediaAssetId: body.mediaAssetId }, select: { albumId: true } });
+    if (!current) {
+      return tx.galleryItem.create({ data: { ...body, sortOrder: await nextItemPosition(tx, body.albumId) } });
+    }
+    return moveItem(tx, body.mediaAssetId, current.albumId, body);
   });
   res.status(201).json(item);
 });
 
+/**
+ * @swagger
+ * /api/admin/gallery/order:
+ *   put:
+ *     summary: Reorder the items of an album
+ *     description: >
+ *       Takes every media asset id of the album in the new order and rewrites their sortOrder as 0, 1, 2…
+ *       in one transaction.
+ *     tags: [AdminGallery]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/OrderInput'
+ *               - type: object
+ *                 required:
+ *                   - albumId
+ *                 properties:
+ *                   albumId:
+ *                     type: string
+ *     responses:
+ *       204:
+ *         description: No Content (order saved)
+ *       400:
+ *         description: Invalid ids
+ *       409:
+ *         description: The ids do not match the items of the album
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrderConflict'
+ */
+router.put("/order", async (req, res) => {
+  const parsed = z.object({ albumId: z.string().min(1), ids: OrderIds }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { albumId, ids } = parsed.data;
+
+  const result = await applyOrder(ids, itemOrder(albumId), writeItemOrder);
+  if ("error" in result) return res.status(result.error.status).json(result.error.body);
+  res.status(204).end();
+});
+
 
 /**
  * @swagger
  * /api/admin/gallery/{mediaAssetId}:
  *   patch:
  *     summary: Update a gallery item
- *     description: Updates sortOrder or published status for a gallery item by its media asset ID.
+ *     description: >
+ *       Updates the album or published status of a gallery item by its media asset ID. An item moved
+ *       to another album goes after its last item.
  *     tags: [AdminGallery]
  *     security:
  *       - cookieAuth: []
@@ -225,15 +604,17 @@ router.post("/", async (req: AuthedRequest, res) => {
  *           schema:
  *             type: object
  *             properties:
- *               sortOrder:
- *                 type: integer
- *                 description: Sort ordering for display
+ *               albumId:
+ *                 type: string
+ *                 description: Moves the item to this album
  *               published:
  *                 type: boolean
  *                 description: Published flag
  *     responses:
  *       200:
  *         description: The updated gallery item
+ *       404:
+ *         description: Album or gallery item not found
  *   delete:
  *     summary: Remove a gallery item
  *     description: Removes a gallery item for a given mediaAssetId. Does not delete the underlying MediaAsset record.
@@ -252,22 +633,117 @@ router.post("/", async (req: AuthedRequest, res) => {
  *         description: No Content on success
  */
 
+/**
+ * @brief Updates a gallery item; one moved to another album goes last there, and its former album
+ * is renumbered.
+ * @param {Prisma.TransactionClient} tx - Transaction to write in
+ * @param {string} mediaAssetId - Item to update
+ * @param {string} fromAlbumId - Album the item is in
+ * @param {Object} data - Album and published flag to set
+ * @returns {Promise<Object>} The updated gallery item
+ */
+async function moveItem(
+  tx: Prisma.TransactionClient,
+  mediaAssetId: string,
+  fromAlbumId: string,
+  data: { albumId?: string; published?: boolean },
+) {
+  const moved = data.albumId !== undefined && data.albumId !== fromAlbumId;
+  const sortOrder = moved ? await nextItemPosition(tx, data.albumId!) : undefined;
+  const item = await tx.galleryItem.update({ where: { mediaAssetId }, data: { ...data, sortOrder } });
+  if (moved) await compactOrder(tx, itemOrder(fromAlbumId), writeItemOrder);
+  return item;
+}
+
 // PATCH /api/admin/gallery/:mediaAssetId
 router.patch("/:mediaAssetId", async (req: AuthedRequest, res) => {
   const { mediaAssetId } = req.params;
-  const body = UpsertSchema.partial().parse(req.body);
-  const item = await prisma.galleryItem.update({
-    where: { mediaAssetId },
-    data: body,
+  const parsed = ItemUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const body = parsed.data;
+
+  if (body.albumId) {
+    const album = await prisma.galleryAlbum.findUnique({ where: { id: body.albumId }, select: { id: true } });
+    if (!album) return res.status(404).json({ error: "Album not found" });
+  }
+  const item = await prisma.$transaction(async (tx) => {
+    const current = await tx.galleryItem.findUnique({ where: { mediaAssetId }, select: { albumId: true } });
+    return current && moveItem(tx, mediaAssetId, current.albumId, body);
   });
+  if (!item) return res.status(404).json({ error: "Gallery item not found" });
   res.json(item);
 });
 
 // DELETE /api/admin/gallery/:mediaAssetId
 router.delete("/:mediaAssetId", async (req: AuthedRequest, res) => {
   const { mediaAssetId } = req.params;
-  await prisma.galleryItem.delete({ where: { mediaAssetId } });
+  await prisma.$transaction(async (tx) => {
+    const { albumId } = await tx.galleryItem.delete({ where: { mediaAssetId }, select: { albumId: true } });
+    await compactOrder(tx, itemOrder(albumId), writeItemOrder);
+  });
   res.status(204).end();
 });
 
 export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     GalleryAlbumInput:
+ *       type: object
+ *       properties:
+ *         title:
+ *           type: string
+ *           description: Album title (French); required on creation
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
+ *         slug:
+ *           type: string
+ *           description: URL segment (/gallery/{slug}); derived from the title when omitted
+ *           example: "interieur"
+ *         coverId:
+ *           type: string
+ *           nullable: true
+ *           description: Media asset shown as the album cover (defaults to the album's first image)
+ *         published:
+ *           type: boolean
+ *     AdminGalleryAlbum:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         title:
+ *           type: string
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
+ *         coverId:
+ *           type: string
+ *           nullable: true
+ *         cover:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/MediaAsset'
+ *         sortOrder:
+ *           type: integer
+ *         published:
+ *           type: boolean
+ *         itemCount:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *         updatedAt:
+ *           type: string
+ *           format: date-time
+ */
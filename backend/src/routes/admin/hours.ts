@@ -3,12 +3,18 @@
  * @brief Admin API routes for managing weekly business hours.
  * @details
  * Provides endpoints for updating and retrieving weekly business hours.
+ * Hours are versioned: the base schedule has no `effectiveFrom`, and dated schedules (e.g. summer
+ * hours, or a new timetable from a given day) can be planned ahead with `effectiveFrom`/`effectiveTo`.
+ * The lunch/dinner intervals are stored in minutes and are the source of truth; the public
+ * display text is generated from them in every language.
  * All endpoints require admin authentication.
  */
 
 import { Router } from "express";
 import { prisma } from "../../lib/prisma";
 import { z } from "zod";
+import { HHMM_RE, displayTexts, hhmmToMin, parseTextToRanges, type Interval } from "../../lib/hours";
+import { isYMD, nowInZone, ymdToDate } from "../../lib/time";
 
 const router = Router();
 
@@ -19,58 +25,91 @@ const router = Router();
  *   description: Endpoints for managing weekly business hours (admin only)
  */
 
-/**
- * @brief Converts a time string in "HH:MM" format to total minutes.
- * @param s Time string ("HH:MM") or null/undefined
- * @return {number|null} Total minutes since 00:00, or null if invalid
- */
-function hhmmToMin(s?: string | null): number | null {
-  if (!s) return null;
-  const [h, m] = s.split(":").map(Number);
-  if (Number.isNaN(h) || Number.isNaN(m)) return null;
-  return h * 60 + m;
-}
+const TimeRange = z.tuple([
+  z.string().regex(HHMM_RE, "Expected HH:MM"),
+  z.string().regex(HHMM_RE, "Expected HH:MM"),
+]);
 
 /**
  * @brief Zod schema for validating and typing weekly business hours form data.
  * @details
- * Allows specifying weekday, closedAllDay flag, lunch and dinner intervals, and arbitrary text.
+ * Allows specifying weekday, closedAllDay flag and lunch/dinner intervals (null = service closed).
+ * `text` is still accepted from older clients and parsed when no interval is given.
  */
 const HoursPayload = z.object({
-  weekday: z.number().int().min(0).max(6),                        /**< Day of the week (0=Sunday, 6=Saturday) */
-  closedAllDay: z.boolean().optional(),                           /**< Optional: is this day closed all day? */
-  lunch: z.tuple([z.string(), z.string()]).nullable().optional(), /**< Optional: lunch hours interval (["HH:MM", "HH:MM"]) */
-  dinner: z.tuple([z.string(), z.string()]).nullable().optional(),/**< Optional: dinner hours interval (["HH:MM", "HH:MM"]) */
-  text: z.string().trim().optional(),                             /**< Optional: freeform formatted hours string */
+  weekday: z.number().int().min(0).max(6),       /**< Day of the week (0=Monday, 6=Sunday) */
+  closedAllDay: z.boolean().optional(),          /**< Optional: is this day closed all day? */
+  lunch: TimeRange.nullable().optional(),        /**< Optional: lunch hours interval (["HH:MM", "HH:MM"]) */
+  dinner: TimeRange.nullable().optional(),       /**< Optional: dinner hours interval (["HH:MM", "HH:MM"]) */
+  text: z.string().trim().optional(),            /**< Optional: legacy "HH:MM-HH:MM, HH:MM-HH:MM" string */
+  effectiveFrom: z.string().refine(isYMD, "Expected YYYY-MM-DD").nullable().optional(), /**< Schedule version to edit (null/omitted = base schedule) */
 });
 
 /**
- * @brief Parses a formatted text string into lunch/dinner intervals.
- * @param text Formatted business hours string (e.g. "12:00-14:30, 18:00-22:00")
- * @return { lunch: [string, string] | null, dinner: [string, string] | null }
- *   Parsed time ranges (if any) for lunch and dinner.
- * @details
- * Only parses up to 2 time ranges. Each must be "HH:MM-HH:MM" (24h).
+ * @brief Zod schema for planning a whole dated schedule at once.
+ */
+const SchedulePayload = z.object({
+  effectiveFrom: z.string().refine(isYMD, "Expected YYYY-MM-DD"),          /**< First day the schedule applies */
+  effectiveTo: z.string().refine(isYMD, "Expected YYYY-MM-DD").nullable().optional(), /**< Last day (inclusive); null = until replaced */
+  days: z.array(HoursPayload.omit({ effectiveFrom: true })).length(7),     /**< One entry per weekday */
+}).refine(s => !s.effectiveTo || s.effectiveTo >= s.effectiveFrom, {
+  message: "effectiveTo must not be before effectiveFrom",
+  path: ["effectiveTo"],
+}).refine(s => new Set(s.days.map(d => d.weekday)).size === 7, {
+  message: "Each weekday must appear once",
+  path: ["days"],
+});
+
+/**
+ * @brief Checks that each service ends after it starts, that the services do not overlap and that
+ * lunch comes before dinner.
+ * @param lunch Lunch interval, or null when closed
+ * @param dinner Dinner interval, or null when closed
+ * @returns An error message, or null when the intervals are valid
  */
-function parseTextToRanges(
-  text?: string
-): { lunch: [string, string] | null; dinner: [string, string] | null } {
-  if (!text) return { lunch: null as [string,string] | null, dinner: null as [string,string] | null };
-  const parts = text
-    .split(",")
-    .map(s => s.trim())
-    .filter(Boolean)
-    .slice(0, 2);
-  const ranges: [string, string][] = [];
-  for (const p of parts) {
-    const [a, b] = p.split("-").map(s => s?.trim());
-    if (!a || !b) continue;
-    if (!/^\d{1,2}:\d{2}$/.test(a) || !/^\d{1,2}:\d{2}$/.test(b)) continue;
-    ranges.push([a, b]);
+function checkServices(lunch: Interval | null, dinner: Interval | null): string | null {
+  for (const [name, i] of [["Lunch", lunch], ["Dinner", dinner]] as const) {
+    if (!i) continue;
+    if (i.start < 0 || i.end > 24 * 60) return `${name} hours must be within the day`;
+    if (i.start >= i.end) return `${name} must end after it starts`;
   }
+  if (lunch && dinner) {
+    if (Math.max(lunch.start, dinner.start) < Math.min(lunch.end, dinner.end)) return "Lunch and dinner must not overlap";
+    if (dinner.start < lunch.start) return "Lunch must come before dinner";
+  }
+  return null;
+}
+
+/**
+ * @brief Converts a validated day payload into BusinessHours columns.
+ * @param body Parsed day payload
+ * @returns The row data (minutes + generated display texts), or an error message
+ */
+function toHoursData(body: z.infer<typeof HoursPayload>) {
+  // structured intervals win; the legacy text is only parsed when none is sent
+  const ranges = body.lunch === undefined && body.dinner === undefined && body.text !== undefined
+    ? parseTextToRanges(body.text)
+    : { lunch: body.lunch ?? null, dinner: body.dinner ?? null };
+  const toInterval = (r: [string, string] | null): Interval | null =>
+    r ? { start: hhmmToMin(r[0])!, end: hhmmToMin(r[1])! } : null;
+  const lunch = toInterval(ranges.lunch);
+  const dinner = toInterval(ranges.dinner);
+
+  const error = checkServices(lunch, dinner);
+  if (error) return { error };
+
+  const closedAllDay = body.closedAllDay ?? (!lunch && !dinner);
+  const open = closedAllDay ? { lunch: null, dinner: null } : { lunch, dinner };
   return {
-    lunch: ranges[0] ?? null,
-    dinner: ranges[1] ?? null,
+    data: {
+      weekday: body.weekday,
+      closedAllDay,
+      lunchStartMin:  open.lunch?.start ?? null,
+      lunchEndMin:    open.lunch?.end ?? null,
+      dinnerStartMin: open.dinner?.start ?? null,
+      dinnerEndMin:   open.dinner?.end ?? null,
+      ...displayTexts(open),
+    },
   };
 }
 
@@ -79,7 +118,9 @@ function parseTextToRanges(
  * /api/admin/hours:
  *   get:
  *     summary: Get all business hours
- *     description: Returns a list of all business hours records for all weekdays (sorted ascending).
+ *     description: >
+ *       Returns every business hours record: the base schedule (`effectiveFrom` null) first, then the
+ *       dated schedules by start date, each sorted by weekday.
  *     tags: [Admin Hours]
  *     security:
  *       - cookieAuth: []
@@ -94,7 +135,9 @@ function parseTextToRanges(
  *                 $ref: '#/components/schemas/BusinessHours'
  */
 router.get("/", async (_req, res) => {
-  const rows = await prisma.businessHours.findMany({ orderBy: { weekday: "asc" } });
+  const rows = await prisma.businessHours.findMany({
+    orderBy: [{ effectiveFrom: { sort: "asc", nulls: "first" } }, { weekday: "asc" }],
+  });
   res.json(rows);
 });
 
@@ -104,8 +147,11 @@ router.get("/", async (_req, res) => {
  *   put:
  *     summary: Update or create business hours for a specific weekday
  *     description: |
- *       Sets or updates business hours for a given weekday.  
- *       Accepts a `displayText` field and optional flags for `closedAllDay`, `lunch`, and `dinner`.
+ *       Sets or updates business hours for a given weekday of the base schedule, or of the dated
+ *       schedule starting on `effectiveFrom`.  
+ *       `lunch` and `dinner` are `["HH:MM", "HH:MM"]` intervals (null = service closed); each must end after
+ *       it starts and lunch must end before dinner starts. The display text is generated in FR/EN/NL.  
+ *       A legacy `text` ("12:00-14:30, 18:00-22:00") is parsed when no interval is sent.
  *     tags: [Admin Hours]
  *     security:
  *       - cookieAuth: []
@@ -117,7 +163,7 @@ router.get("/", async (_req, res) => {
  *           type: integer
  *           minimum: 0
  *           maximum: 6
- *         description: Weekday index (0 = Sunday, 6 = Saturday)
+ *         description: Weekday index (0 = Monday, 6 = Sunday)
  *     requestBody:
  *       required: true
  *       content:
@@ -132,31 +178,133 @@ router.get("/", async (_req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/BusinessHours'
  *       400:
- *         description: Validation error
+ *         description: Invalid time, interval ending before it starts, overlapping services, or dinner before lunch
+ *       404:
+ *         description: No dated schedule starts on `effectiveFrom`
  */
 router.put("/:weekday", async (req, res) => {
   const weekday = Number(req.params.weekday);
-  const parsed = HoursPayload.parse({ ...req.body, weekday });
-
-  const text = (parsed.text ?? "").trim();
-  const data = {
-    weekday,
-    displayText: text,
-    closedAllDay: parsed.closedAllDay ?? (text.length === 0),
-    lunchStartMin:  null,
-    lunchEndMin:    null,
-    dinnerStartMin: null,
-    dinnerEndMin:   null,
-  };
+  const parsed = HoursPayload.safeParse({ ...req.body, weekday });
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid hours", issues: parsed.error.issues });
+  }
+  const { effectiveFrom, ...day } = parsed.data;
+  const hours = toHoursData(day);
+  if ("error" in hours) return res.status(400).json({ error: hours.error });
 
-  const existing = await prisma.businessHours.findFirst({ where: { weekday } });
-  const saved = existing
-    ? await prisma.businessHours.update({ where: { id: existing.id }, data })
-    : await prisma.businessHours.create({ data });
+  const from = effectiveFrom ? ymdToDate(effectiveFrom) : null;
+  const existing = await prisma.businessHours.findFirst({ where: { weekday, effectiveFrom: from } });
+  if (existing) {
+    return res.json(await prisma.businessHours.update({ where: { id: existing.id }, data: hours.data }));
+  }
 
+  // a missing day of a dated schedule inherits the schedule's end date
+  const sibling = from ? await prisma.businessHours.findFirst({ where: { effectiveFrom: from } }) : null;
+  if (from && !sibling) return res.status(404).json({ error: "Schedule not found" });
+
+  const saved = await prisma.businessHours.create({
+    data: { ...hours.data, effectiveFrom: from, effectiveTo: sibling?.effectiveTo ?? null },
+  });
   res.json(saved);
 });
 
+/**
+ * @swagger
+ * /api/admin/hours/schedules:
+ *   post:
+ *     summary: Plan a dated schedule
+ *     description: >
+ *       Creates the seven weekdays of a schedule applying from `effectiveFrom` through `effectiveTo`
+ *       (inclusive; omit for a permanent change). During that period it replaces the base schedule;
+ *       the most recently starting schedule wins when several overlap.
+ *     tags: [Admin Hours]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/SchedulePayload'
+ *     responses:
+ *       201:
+ *         description: Created schedule rows
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/BusinessHours'
+ *       400:
+ *         description: Invalid payload, start date in the past, or invalid intervals
+ *       409:
+ *         description: A schedule already starts on that day
+ */
+router.post("/schedules", async (req, res) => {
+  const parsed = SchedulePayload.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid schedule", issues: parsed.error.issues });
+  }
+  const { effectiveFrom, effectiveTo, days } = parsed.data;
+  if (effectiveFrom < nowInZone().ymd) {
+    return res.status(400).json({ error: "A schedule cannot start in the past" });
+  }
+
+  const rows = [];
+  for (const d of days) {
+    const hours = toHoursData(d);
+    if ("error" in hours) return res.status(400).json({ error: `Weekday ${d.weekday}: ${hours.error}` });
+    rows.push({
+      ...hours.data,
+      effectiveFrom: ymdToDate(effectiveFrom),
+      effectiveTo: effectiveTo ? ymdToDate(effectiveTo) : null,
+    });
+  }
+
+  try {
+    const created = await prisma.$transaction(rows.map(data => prisma.businessHours.create({ data })));
+    res.status(201).json(created);
+  } catch (e: any) {
+    if (e.code === "P2002") {
+      return res.status(409).json({ error: "A schedule already starts on that day" });
+    }
+    throw e;
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/hours/schedules/{effectiveFrom}:
+ *   delete:
+ *     summary: Delete a dated schedule
+ *     description: Removes all weekdays of the schedule starting on that day. The base schedule cannot be deleted.
+ *     tags: [Admin Hours]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: effectiveFrom
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       204:
+ *         description: Deleted
+ *       400:
+ *         description: Invalid date
+ *       404:
+ *         description: Schedule not found
+ */
+router.delete("/schedules/:effectiveFrom", async (req, res) => {
+  const { effectiveFrom } = req.params;
+  if (!isYMD(effectiveFrom)) return res.status(400).json({ error: "Expected YYYY-MM-DD" });
+
+  const { count } = await prisma.businessHours.deleteMany({ where: { effectiveFrom: ymdToDate(effectiveFrom) } });
+  if (count === 0) return res.status(404).json({ error: "Schedule not found" });
+  res.status(204).end();
+});
+
 export default router;
 export {};
 
@@ -169,7 +317,7 @@ export {};
  *       properties:
  *         weekday:
  *           type: integer
- *           description: Day of the week (0=Sunday, 6=Saturday)
+ *           description: Day of the week (0=Monday, 6=Sunday)
  *         closedAllDay:
  *           type: boolean
  *           description: Whether the business is closed all day
@@ -185,7 +333,31 @@ export {};
  *           example: ["18:00", "22:00"]
  *         text:
  *           type: string
- *           description: Custom formatted hours string
+ *           description: Legacy formatted hours string, parsed when lunch/dinner are omitted
+ *         effectiveFrom:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: Start date of the dated schedule to edit (omit for the base schedule)
+ *     SchedulePayload:
+ *       type: object
+ *       required: [effectiveFrom, days]
+ *       properties:
+ *         effectiveFrom:
+ *           type: string
+ *           format: date
+ *           example: "2026-07-01"
+ *         effectiveTo:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           example: "2026-08-31"
+ *         days:
+ *           type: array
+ *           minItems: 7
+ *           maxItems: 7
+ *           items:
+ *             $ref: '#/components/schemas/HoursPayload'
  *     BusinessHours:
  *       type: object
  *       properties:
@@ -195,6 +367,13 @@ export {};
  *           type: integer
  *         displayText:
  *           type: string
+ *           description: Generated French text, e.g. "12h00–14h30, 18h30–22h00"
+ *         displayTextEn:
+ *           type: string
+ *           nullable: true
+ *         displayTextNl:
+ *           type: string
+ *           nullable: true
  *         closedAllDay:
  *           type: boolean
  *         lunchStartMin:
@@ -209,4 +388,14 @@ export {};
  *         dinnerEndMin:
  *           type: integer
  *           nullable: true
+ *         effectiveFrom:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: First day of the schedule (null = base schedule)
+ *         effectiveTo:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Last day of the schedule, inclusive (null = until replaced)
  */
\ No newline at end of file
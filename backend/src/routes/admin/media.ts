@@ -3,18 +3,32 @@
  * @brief Admin API routes for managing media assets (images, uploads).
  * @details
  * Provides endpoints for uploading, listing, updating, and deleting media assets.
+ * Uploaded images are processed on the server (see lib/images.ts): dimensions detected, EXIF/GPS
+ * stripped, auto-rotated, and resized AVIF/WebP variants plus a blurred placeholder generated.
+ * Files go through the configured storage driver (local disk or S3-compatible, see lib/storage.ts).
+ * Uploads are validated by content before being stored (see lib/uploads.ts): the type is sniffed
+ * from the file's first bytes and must be allowed for the media type, within its size limit.
+ * Short videos (MP4/WebM) are accepted for HERO and ANNOUNCEMENT, with a poster frame image whose
+ * dimensions, placeholder and variants are stored on the asset.
+ * The list is the media library: searchable, filterable by type/tag/folder and paginated; each asset
+ * tells where it is used, and assets still linked to the gallery or an announcement cannot be deleted.
+ * The assets of one type (carousel slides, printable menu pages) are reordered in bulk; a new asset
+ * is added last, and deleting an asset or changing its type renumbers the list it leaves.
  * All endpoints require admin authentication (to be mounted under an admin-protected route).
- * 
- * NOTE: Uses Multer disk storage for local/dev; should be replaced for production/CDN use.
  */
 
+import path from "path";
 import { Router } from "express";
+import type { RequestHandler } from "express";
 import { prisma } from "../../lib/prisma";
 import { z } from "zod";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
+import type { MediaType, Prisma } from "@prisma/client";
 import type { AuthedRequest } from "../../middleware/requireAdmin";
+import { removeUploads, storeUpload, uploadKey, withSrcSet } from "../../lib/images";
+import type { StoredUpload } from "../../lib/images";
+import { MAX_UPLOAD_BYTES, checkPolicy, isVideo, validatePoster, validateUpload } from "../../lib/uploads";
+import { OrderIds, appendPosition, applyOrder, compactOrder } from "../../lib/reorder";
 
 const router = Router();
 
@@ -26,56 +40,159 @@ const router = Router();
  */
 
 /**
- * @brief Multer disk storage configuration for local development.
+ * @brief Multer middleware for uploads: the `file` and, for videos, its `poster` frame.
  * @details
- * Stores uploads in ./uploads directory. Filenames are timestamped and sanitized.
- * @note Replace this for production/CDN storage (e.g., Supabase, S3).
+ * Files are kept in memory, validated, processed, then written by the storage driver.
+ * The multipart limit is the largest per-type limit; the limit of the media type is checked after.
  */
-const storage = multer.diskStorage({
-  destination: (_req, _file, cb) => cb(null, path.resolve(process.cwd(), "uploads")),
-  filename: (_req, file, cb) => {
-    const ts = Date.now();
-    const base = path.parse(file.originalname).name.replace(/[^\w.-]/g, "_").slice(0, 64);
-    const ext = path.extname(file.originalname) || ".bin";
-    cb(null, `${ts}_${base}${ext}`);
-  },
-});
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_UPLOAD_BYTES } });
 
 /**
- * @brief Multer middleware for single file uploads.
- * @details
- * File size limit: 10MB. Stores uploaded files using the above disk storage configuration.
+ * @brief Receives the `file` and `poster` fields, answering 413 instead of an unhandled error when one is too large.
  */
-const upload = multer({ storage, limits: { fileSize: 10 * 1024 * 1024 } }); // 10MB
+const receiveFile: RequestHandler = (req, res, next) => {
+  upload.fields([{ name: "file", maxCount: 1 }, { name: "poster", maxCount: 1 }])(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({
+        error: `File too large: uploads are limited to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`,
+        code: "FILE_TOO_LARGE",
+        maxBytes: MAX_UPLOAD_BYTES,
+      });
+    }
+    next(err);
+  });
+};
 
 // --- Validation Schemas ---
 
 /**
  * @brief Enum for supported media types.
- * @details Accepts "HERO", "MENU", "ANNOUNCEMENT".
+ * @details Accepts "HERO", "MENU", "ANNOUNCEMENT", "GALLERY".
  */
-const MediaTypeEnum = z.enum(["HERO", "MENU", "ANNOUNCEMENT"]);
+const MediaTypeEnum = z.enum(["HERO", "MENU", "ANNOUNCEMENT", "GALLERY"]);
 
-const LowerMediaType = z.enum(["hero", "menu", "announcement"])
-  .transform(s => s.toUpperCase() as "HERO" | "MENU" | "ANNOUNCEMENT");
+const LowerMediaType = z.enum(["hero", "menu", "announcement", "gallery"])
+  .transform(s => s.toUpperCase() as "HERO" | "MENU" | "ANNOUNCEMENT" | "GALLERY");
 
-const MediaCreate = z.object({
+/**
+ * @brief Tags, as an array or a comma-separated string (multipart forms).
+ * @details Trimmed, lowercased and deduplicated; empty entries are dropped.
+ */
+const Tags = z
+  .union([z.array(z.string()), z.string().transform(s => s.split(","))])
+  .transform(list => [...new Set(list.map(t => t.trim().toLowerCase()).filter(Boolean))])
+  .pipe(z.array(z.string().max(40)).max(20));
+
+/**
+ * @brief Library folder, e.g. "Terrasse/2025"; an empty string clears it.
+ */
+const Folder = z
+  .string()
+  .transform(s => s.split("/").map(p => p.trim()).filter(Boolean).join("/") || null)
+  .pipe(z.string().max(100).nullable());
+
+/**
+ * @brief Boolean sent as JSON or as a multipart field ("true"/"false").
+ */
+const FormBoolean = z.union([z.boolean(), z.enum(["true", "false"]).transform(v => v === "true")]);
+
+/**
+ * @brief Zod schema for media asset fields.
+ * @details No defaults here so that PATCH only touches the fields it receives.
+ */
+const MediaFields = z.object({
   type: z.union([MediaTypeEnum, LowerMediaType]),
   alt: z.string().max(200).optional().nullable(),
-  sortOrder: z.coerce.number().int().min(0).default(0),
-  published: z.coerce.boolean().optional().default(true),
+  published: FormBoolean.optional(),
   width: z.coerce.number().int().positive().optional(),
   height: z.coerce.number().int().positive().optional(),
+  folder: Folder.optional().nullable(),            /**< Library folder */
+  tags: Tags.optional(),                           /**< Library tags */
+  duration: z.coerce.number().positive().max(600).optional(),  /**< Video length in seconds */
+  muted: FormBoolean.optional(),                   /**< Video plays without sound (default true) */
+  loop: FormBoolean.optional(),                    /**< Video restarts when it ends (default true) */
+});
+
+const MediaCreate = MediaFields.extend({
+  published: FormBoolean.optional().default(true),
 });
 
-const MediaUpdate = MediaCreate.partial();
+const MediaUpdate = MediaFields.partial();
+
+/**
+ * @brief Loads the assets of a type in display order (for applyOrder / compactOrder).
+ */
+const typeOrder = (type: MediaType) => (tx: Prisma.TransactionClient) =>
+  tx.mediaAsset.findMany({ where: { type }, orderBy: [{ sortOrder: "asc" }, { id: "asc" }], select: { id: true, sortOrder: true } });
+
+const writeAssetOrder = (tx: Prisma.TransactionClient, id: string, sortOrder: number) =>
+  tx.mediaAsset.update({ where: { id }, data: { sortOrder } });
+
+/**
+ * @brief Position after the last asset of a type, read within the transaction adding the asset.
+ */
+const nextAssetPosition = async (tx: Prisma.TransactionClient, type: MediaType) =>
+  appendPosition(await tx.mediaAsset.aggregate({ where: { type }, _max: { sortOrder: true } }));
+
+/**
+ * @brief Query of the bulk reorder endpoint: the media type whose assets are reordered.
+ */
+const OrderQuery = z.object({
+  type: z.union([MediaTypeEnum, LowerMediaType]),
+});
+
+const ListQuery = z.object({
+  type: z.union([MediaTypeEnum, LowerMediaType]).optional(),
+  q: z.string().trim().max(100).optional(),         /**< Text searched in alt text and file name */
+  tag: z.string().trim().toLowerCase().optional(),  /**< Only assets with this tag */
+  folder: z.string().optional(),                    /**< Only assets of this folder ("" = no folder) */
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+/**
+ * @brief Relations loaded to tell where an asset is used.
+ */
+const usageInclude = {
+  galleryItem: { select: { published: true, album: { select: { id: true, title: true } } } },
+  albumCovers: { select: { id: true, title: true } },
+  announcementLinks: {
+    select: { announcement: { select: { id: true, title: true, date: true, published: true } } },
+  },
+} satisfies Prisma.MediaAssetInclude;
+
+type AssetWithUsage = Prisma.MediaAssetGetPayload<{ include: typeof usageInclude & { variants: true } }>;
+
+/**
+ * @brief Prepares an asset for the media library: `srcset` plus where it is used.
+ * @details `hero`/`menu` tell whether the asset is shown in the carousel or the printable menu
+ * (published assets of that type); `gallery`, `covers` and `announcements` list the records linking it.
+ * @param {AssetWithUsage} asset - Asset loaded with `usageInclude` and its variants
+ * @returns {Object} Asset with `srcset` and `usage`, without the raw relations
+ */
+function toLibraryItem(asset: AssetWithUsage) {
+  const { galleryItem, albumCovers, announcementLinks, ...rest } = asset;
+  return {
+    ...withSrcSet(rest),
+    usage: {
+      hero: asset.type === "HERO" && asset.published,
+      menu: asset.type === "MENU" && asset.published,
+      gallery: galleryItem,
+      covers: albumCovers,
+      announcements: announcementLinks.map(l => l.announcement),
+    },
+  };
+}
 
 /**
  * @swagger
  * /api/admin/media:
  *   get:
- *     summary: Get all media assets
- *     description: Returns a list of all media assets, optionally filtered by type. Includes unpublished assets.
+ *     summary: Search the media library
+ *     description: >
+ *       Returns one page of media assets, including unpublished ones, with their `srcset` and where
+ *       they are used. Filtered by type, tag, folder and a text searched in the alt text and the
+ *       original file name. Sorted by `sortOrder` when filtered by type, newest first otherwise.
  *     tags: [Admin Media]
  *     security:
  *       - cookieAuth: []
@@ -84,26 +201,132 @@ const MediaUpdate = MediaCreate.partial();
  *         name: type
  *         schema:
  *           type: string
- *           enum: [HERO, MENU, ANNOUNCEMENT]
+ *           enum: [HERO, MENU, ANNOUNCEMENT, GALLERY]
  *         description: Optional filter by media type
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Case-insensitive text searched in alt text and file name
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: folder
+ *         schema:
+ *           type: string
+ *         description: Exact folder; an empty value selects assets without folder
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: pageSize
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 24
  *     responses:
  *       200:
- *         description: List of media assets
+ *         description: One page of media assets
  *         content:
  *           application/json:
  *             schema:
- *               type: array
- *               items:
- *                 $ref: '#/components/schemas/MediaAsset'
+ *               $ref: '#/components/schemas/MediaPage'
+ *       400:
+ *         description: Invalid filters
  */
 router.get("/", async (req, res) => {
-  const type = req.query.type as string | undefined;
-  const where = type ? { type: (type.toUpperCase() as any) } : {};
-  const rows = await prisma.mediaAsset.findMany({
-    where,
-    orderBy: [{ type: "asc" }, { sortOrder: "asc" }],
+  const parsed = ListQuery.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid filters", issues: parsed.error.issues });
+  const { type, q, tag, folder, page, pageSize } = parsed.data;
+
+  const where: Prisma.MediaAssetWhereInput = {
+    ...(type ? { type } : {}),
+    ...(tag ? { tags: { has: tag } } : {}),
+    ...(folder !== undefined ? { folder: folder.trim() || null } : {}),
+    ...(q
+      ? {
+          OR: [
+            { alt: { contains: q, mode: "insensitive" } },
+            { filename: { contains: q, mode: "insensitive" } },
+          ],
+        }
+      : {}),
+  };
+
+  const [total, rows] = await prisma.$transaction([
+    prisma.mediaAsset.count({ where }),
+    prisma.mediaAsset.findMany({
+      where,
+      orderBy: type ? [{ sortOrder: "asc" }, { createdAt: "desc" }] : [{ createdAt: "desc" }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+      include: { ...usageInclude, variants: true },
+    }),
+  ]);
+  res.json({ items: rows.map(toLibraryItem), total, page, pageSize });
+});
+
+/**
+ * @swagger
+ * /api/admin/media/facets:
+ *   get:
+ *     summary: List the tags and folders of the media library
+ *     description: Every tag and folder in use, with the number of assets, sorted by name.
+ *     tags: [Admin Media]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Tags and folders
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 tags:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       tag:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ *                 folders:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       folder:
+ *                         type: string
+ *                       count:
+ *                         type: integer
+ */
+router.get("/facets", async (_req, res) => {
+  const [tags, folders] = await Promise.all([
+    prisma.$queryRaw<Array<{ tag: string; count: bigint }>>`
+      SELECT t AS tag, COUNT(*) AS count
+      FROM "MediaAsset", unnest("tags") AS t
+      GROUP BY t
+      ORDER BY t ASC
+    `,
+    prisma.mediaAsset.groupBy({
+      by: ["folder"],
+      where: { folder: { not: null } },
+      _count: { _all: true },
+      orderBy: { folder: "asc" },
+    }),
+  ]);
+  res.json({
+    tags: tags.map(t => ({ tag: t.tag, count: Number(t.count) })),
+    folders: folders.map(f => ({ folder: f.folder!, count: f._count._all })),
   });
-  res.json(rows);
 });
 
 /**
@@ -111,7 +334,18 @@ router.get("/", async (req, res) => {
  * /api/admin/media:
  *   post:
  *     summary: Upload a new media asset
- *     description: Uploads a file (multipart/form-data) and creates a corresponding media asset record.
+ *     description: >
+ *       Uploads a file (multipart/form-data) and creates a corresponding media asset record.
+ *       The file type is detected from its content and must be allowed for the media type:
+ *       images (JPEG, PNG, WebP, AVIF, GIF, SVG) for every type, and also PDF for MENU. SVG files
+ *       with scripts, event handlers or embedded HTML are refused. Size limits: HERO and GALLERY
+ *       10 MB, ANNOUNCEMENT 8 MB, MENU 20 MB. Rejections carry a machine-readable `code`.
+ *       Images (JPEG, PNG, WebP, AVIF, TIFF, HEIF) are auto-rotated and stripped of their metadata;
+ *       their dimensions are detected and AVIF/WebP variants (320 to 1920 px wide) and a blurred
+ *       placeholder are generated. `width`/`height` are only used for other files.
+ *       HERO and ANNOUNCEMENT also accept short MP4/WebM videos (up to 50 MB), sent with a `poster`
+ *       frame (JPEG, PNG or WebP) that is processed like an image: the asset's dimensions,
+ *       placeholder and `srcset` are the poster's.
  *     tags: [Admin Media]
  *     security:
  *       - cookieAuth: []
@@ -128,21 +362,40 @@ router.get("/", async (req, res) => {
  *               file:
  *                 type: string
  *                 format: binary
- *                 description: The uploaded file (image)
+ *                 description: The uploaded file (image, PDF for MENU, video for HERO and ANNOUNCEMENT)
  *               type:
  *                 type: string
- *                 description: Media type (HERO, MENU, ANNOUNCEMENT)
+ *                 description: Media type (HERO, MENU, ANNOUNCEMENT, GALLERY)
  *               alt:
  *                 type: string
  *                 description: Alternative text for accessibility
- *               sortOrder:
- *                 type: integer
  *               published:
  *                 type: boolean
  *               width:
  *                 type: integer
+ *                 description: Ignored for processed images (detected)
  *               height:
  *                 type: integer
+ *                 description: Ignored for processed images (detected)
+ *               folder:
+ *                 type: string
+ *                 description: Library folder, e.g. "Terrasse/2025"
+ *               tags:
+ *                 type: string
+ *                 description: Comma-separated tags
+ *               poster:
+ *                 type: string
+ *                 format: binary
+ *                 description: Poster frame of a video (ignored for other files)
+ *               duration:
+ *                 type: number
+ *                 description: Video length in seconds
+ *               muted:
+ *                 type: boolean
+ *                 default: true
+ *               loop:
+ *                 type: boolean
+ *                 default: true
  *     responses:
  *       201:
  *         description: Created media asset
@@ -151,30 +404,149 @@ router.get("/", async (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/MediaAsset'
  *       400:
- *         description: Missing file or invalid payload
+ *         description: Invalid payload, missing file (FILE_REQUIRED), SVG with scripts (UNSAFE_SVG) or unreadable image (UNREADABLE_IMAGE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UploadError'
+ *       413:
+ *         description: File larger than the limit of its media type (FILE_TOO_LARGE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UploadError'
+ *       415:
+ *         description: File type not allowed for the media type (UNSUPPORTED_TYPE)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UploadError'
  */
-router.post("/", upload.single("file"), async (req: AuthedRequest, res) => {
-  const parsed = MediaCreate.parse(req.body);
-  const file = req.file;
-  if (!file) return res.status(400).json({ error: "file is required" });
-
-  const url = `/uploads/${file.filename}`;
-  const key = file.filename;
-
-  const created = await prisma.mediaAsset.create({
-    data: {
-      type: parsed.type,
-      alt: parsed.alt ?? null,
-      sortOrder: parsed.sortOrder,
-      published: parsed.published,
-      width: parsed.width,
-      height: parsed.height,
-      url,
-      key,
-      createdById: req.user?.id,
-    },
-  });
-  res.status(201).json(created);
+router.post("/", receiveFile, async (req: AuthedRequest, res) => {
+  const parsed = MediaCreate.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  }
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  const file = files?.file?.[0];
+  if (!file) return res.status(400).json({ error: "file is required", code: "FILE_REQUIRED" });
+
+  const checked = validateUpload(parsed.data.type, file.buffer);
+  if ("error" in checked) return res.status(checked.error.status).json(checked.error.body);
+
+  // a video's poster frame is processed like an image upload
+  const video = isVideo(checked.mimeType);
+  const poster = video ? files?.poster?.[0] : undefined;
+  const posterChecked = poster ? validatePoster(poster.buffer) : undefined;
+  if (posterChecked && "error" in posterChecked) {
+    return res.status(posterChecked.error.status).json(posterChecked.error.body);
+  }
+
+  const stored = await storeUpload(uploadKey(file.originalname, checked.extension), file.buffer, checked.mimeType);
+  if ("error" in stored) return res.status(400).json({ error: stored.error, code: "UNREADABLE_IMAGE" });
+
+  let posterStored: StoredUpload | undefined;
+  if (poster && posterChecked) {
+    let result: StoredUpload | { error: string };
+    try {
+      const posterKey = uploadKey(`${path.parse(file.originalname).name}_poster`, posterChecked.extension);
+      result = await storeUpload(posterKey, poster.buffer, posterChecked.mimeType);
+    } catch (e) {
+      await removeUploads([stored.key]);
+      throw e;
+    }
+    if ("error" in result) {
+      await removeUploads([stored.key]);
+      return res.status(400).json({ error: "The poster could not be read", code: "UNREADABLE_IMAGE" });
+    }
+    posterStored = result;
+  }
+  const image = posterStored ?? stored;
+
+  try {
+    const created = await prisma.$transaction(async (tx) => tx.mediaAsset.create({
+      data: {
+        type: parsed.data.type,
+        alt: parsed.data.alt ?? null,
+        sortOrder: await nextAssetPosition(tx, parsed.data.type),
+        published: parsed.data.published,
+        width: image.width ?? parsed.data.width,
+        height: image.height ?? parsed.data.height,
+        placeholder: image.placeholder,
+        url: stored.url,
+        key: stored.key,
+        mimeType: checked.mimeType,
+        size: stored.size,
+        filename: file.originalname,
+        folder: parsed.data.folder ?? null,
+        tags: parsed.data.tags ?? [],
+        ...(video
+          ? {
+              posterUrl: posterStored?.url ?? null,
+              posterKey: posterStored?.key ?? null,
+              duration: parsed.data.duration ?? null,
+              muted: parsed.data.muted ?? true,
+              loop: parsed.data.loop ?? true,
+            }
+          : {}),
+        createdById: req.user?.id,
+        variants: { create: image.variants },
+      },
+      include: { ...usageInclude, variants: true },
+    }));
+    res.status(201).json(toLibraryItem(created));
+  } catch (e) {
+    await removeUploads([stored.key, ...image.variants.map(v => v.key), ...(posterStored ? [posterStored.key] : [])]);
+    throw e;
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/media/order:
+ *   put:
+ *     summary: Reorder the assets of a media type
+ *     description: >
+ *       Takes every asset id of the type in the new order and rewrites their sortOrder as 0, 1, 2…
+ *       in one transaction. Refused with 409 Conflict when the ids do not match the current assets.
+ *     tags: [Admin Media]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [HERO, MENU, ANNOUNCEMENT, GALLERY]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderInput'
+ *     responses:
+ *       204:
+ *         description: No Content (order saved)
+ *       400:
+ *         description: Invalid type or ids
+ *       409:
+ *         description: The ids do not match the current assets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrderConflict'
+ */
+router.put("/order", async (req, res) => {
+  const query = OrderQuery.safeParse(req.query);
+  const body = z.object({ ids: OrderIds }).safeParse(req.body);
+  if (!query.success) return res.status(400).json({ error: "Invalid type", issues: query.error.issues });
+  if (!body.success) return res.status(400).json({ error: "Invalid payload", issues: body.error.issues });
+
+  const { type } = query.data;
+  const result = await applyOrder(body.data.ids, typeOrder(type), writeAssetOrder);
+  if ("error" in result) return res.status(result.error.status).json(result.error.body);
+  res.status(204).end();
 });
 
 /**
@@ -182,7 +554,10 @@ router.post("/", upload.single("file"), async (req: AuthedRequest, res) => {
  * /api/admin/media/{id}:
  *   patch:
  *     summary: Update media metadata
- *     description: Updates metadata for a media asset (type, alt, sortOrder, etc). Does not modify the file.
+ *     description: >
+ *       Updates metadata for a media asset (type, alt, folder, tags, etc). Does not modify the file.
+ *       An asset given another type goes after the last asset of that type; the type must accept the
+ *       stored file (same allow-list and size limit as uploads).
  *     tags: [Admin Media]
  *     security:
  *       - cookieAuth: []
@@ -206,15 +581,40 @@ router.post("/", upload.single("file"), async (req: AuthedRequest, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/MediaAsset'
+ *       400:
+ *         description: Invalid payload, or the new type does not accept the file
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/UploadError'
+ *       404:
+ *         description: Media not found
  */
 router.patch("/:id", async (req, res) => {
   const { id } = req.params;
-  const data = MediaUpdate.parse(req.body);
-  const updated = await prisma.mediaAsset.update({
-    where: { id },
-    data,
+  const parsed = MediaUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const data = parsed.data;
+  const updated = await prisma.$transaction(async (tx) => {
+    const current = await tx.mediaAsset.findUnique({ where: { id }, select: { type: true, mimeType: true, size: true } });
+    if (!current) return { error: { status: 404, body: { error: "Media not found" } } };
+    const newType = data.type !== undefined && data.type !== current.type ? data.type : null;
+    if (newType) {
+      // The stored file must be one the new type accepts on upload
+      const checked = checkPolicy(newType, current.mimeType, current.size);
+      if ("error" in checked) return { error: { status: 400, body: checked.error.body } };
+    }
+    // An asset given another type goes last in that list, and the list it leaves is renumbered
+    const asset = await tx.mediaAsset.update({
+      where: { id },
+      data: { ...data, sortOrder: newType ? await nextAssetPosition(tx, newType) : undefined },
+      include: { ...usageInclude, variants: true },
+    });
+    if (newType) await compactOrder(tx, typeOrder(current.type), writeAssetOrder);
+    return { asset };
   });
-  res.json(updated);
+  if (updated.error) return res.status(updated.error.status).json(updated.error.body);
+  res.json(toLibraryItem(updated.asset));
 });
 
 /**
@@ -222,7 +622,10 @@ router.patch("/:id", async (req, res) => {
  * /api/admin/media/{id}:
  *   delete:
  *     summary: Delete a media asset
- *     description: Deletes a media asset record and removes the corresponding local file (best effort).
+ *     description: >
+ *       Deletes a media asset record and removes the corresponding file and variants (best effort).
+ *       Refused with 409 Conflict while the asset is in the gallery or attached to an announcement;
+ *       the response then lists those uses.
  *     tags: [Admin Media]
  *     security:
  *       - cookieAuth: []
@@ -238,15 +641,38 @@ router.patch("/:id", async (req, res) => {
  *         description: Media deleted successfully (no content)
  *       404:
  *         description: Media not found
+ *       409:
+ *         description: Asset still used by the gallery or an announcement
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                 usage:
+ *                   $ref: '#/components/schemas/MediaUsage'
  */
 router.delete("/:id", async (req, res) => {
   const { id } = req.params;
-  const asset = await prisma.mediaAsset.delete({ where: { id } });
+  const found = await prisma.mediaAsset.findUnique({ where: { id }, include: { ...usageInclude, variants: true } });
+  if (!found) return res.status(404).json({ error: "Media not found" });
 
-  if (asset.key) {
-    const p = path.resolve(process.cwd(), "uploads", asset.key);
-    fs.promises.unlink(p).catch(() => void 0);
+  const { usage } = toLibraryItem(found);
+  if (usage.gallery || usage.announcements.length > 0) {
+    return res.status(409).json({ error: "Media is still used; remove it from the gallery and announcements first", usage });
   }
+
+  const asset = await prisma.$transaction(async (tx) => {
+    const deleted = await tx.mediaAsset.delete({ where: { id }, include: { variants: true } });
+    await compactOrder(tx, typeOrder(deleted.type), writeAssetOrder);
+    return deleted;
+  });
+
+  const keys = asset.variants.map(v => v.key);
+  if (asset.key) keys.push(asset.key);
+  if (asset.posterKey) keys.push(asset.posterKey);
+  await removeUploads(keys);
   res.status(204).end();
 });
 
@@ -263,7 +689,7 @@ export default router;
  *           type: string
  *         type:
  *           type: string
- *           enum: [HERO, MENU, ANNOUNCEMENT]
+ *           enum: [HERO, MENU, ANNOUNCEMENT, GALLERY]
  *         alt:
  *           type: string
  *           nullable: true
@@ -271,6 +697,27 @@ export default router;
  *           type: string
  *         key:
  *           type: string
+ *         mimeType:
+ *           type: string
+ *           nullable: true
+ *           description: Type detected from the file content, e.g. "image/jpeg" or "application/pdf"
+ *         size:
+ *           type: integer
+ *           nullable: true
+ *           description: Size of the stored file in bytes
+ *         filename:
+ *           type: string
+ *           nullable: true
+ *           description: Original file name
+ *         folder:
+ *           type: string
+ *           nullable: true
+ *           example: "Terrasse/2025"
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["terrasse", "été"]
  *         sortOrder:
  *           type: integer
  *         published:
@@ -281,9 +728,144 @@ export default router;
  *         height:
  *           type: integer
  *           nullable: true
+ *         placeholder:
+ *           type: string
+ *           nullable: true
+ *           description: Blurred low-resolution preview (data URI)
+ *         srcset:
+ *           $ref: '#/components/schemas/MediaSrcSet'
+ *         posterUrl:
+ *           type: string
+ *           nullable: true
+ *           description: Poster frame of a video
+ *         duration:
+ *           type: number
+ *           nullable: true
+ *           description: Video length in seconds
+ *         muted:
+ *           type: boolean
+ *           description: Video plays without sound
+ *         loop:
+ *           type: boolean
+ *           description: Video restarts when it ends
  *         createdById:
  *           type: string
  *           nullable: true
+ *         usage:
+ *           $ref: '#/components/schemas/MediaUsage'
+ *     MediaUsage:
+ *       type: object
+ *       description: Where an asset is used
+ *       properties:
+ *         hero:
+ *           type: boolean
+ *           description: Shown in the home page carousel
+ *         menu:
+ *           type: boolean
+ *           description: Shown as a printable menu
+ *         gallery:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             published:
+ *               type: boolean
+ *             album:
+ *               type: object
+ *               properties:
+ *                 id:
+ *                   type: string
+ *                 title:
+ *                   type: string
+ *         covers:
+ *           type: array
+ *           description: Gallery albums using the asset as their cover
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *         announcements:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               title:
+ *                 type: string
+ *               date:
+ *                 type: string
+ *                 format: date-time
+ *               published:
+ *                 type: boolean
+ *     OrderInput:
+ *       type: object
+ *       required:
+ *         - ids
+ *       properties:
+ *         ids:
+ *           type: array
+ *           description: Every id of the list, in the new order
+ *           items:
+ *             type: string
+ *     OrderConflict:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         missing:
+ *           type: array
+ *           description: Ids of the list that were not sent
+ *           items:
+ *             type: string
+ *         unknown:
+ *           type: array
+ *           description: Ids sent that are not in the list
+ *           items:
+ *             type: string
+ *     MediaPage:
+ *       type: object
+ *       properties:
+ *         items:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/MediaAsset'
+ *         total:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *         pageSize:
+ *           type: integer
+ *     MediaSrcSet:
+ *       type: object
+ *       nullable: true
+ *       description: "`srcset` strings of the generated variants per format (null when not an image)"
+ *       properties:
+ *         avif:
+ *           type: string
+ *           example: "/uploads/1730_terrace_320.avif 320w, /uploads/1730_terrace_640.avif 640w"
+ *         webp:
+ *           type: string
+ *           example: "/uploads/1730_terrace_320.webp 320w, /uploads/1730_terrace_640.webp 640w"
+ *     UploadError:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *           example: "File too large: MENU uploads are limited to 20 MB"
+ *         code:
+ *           type: string
+ *           enum: [FILE_REQUIRED, FILE_TOO_LARGE, UNSUPPORTED_TYPE, UNSAFE_SVG, UNREADABLE_IMAGE]
+ *         allowed:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Accepted MIME types (UNSUPPORTED_TYPE only)
+ *         maxBytes:
+ *           type: integer
+ *           description: Size limit in bytes (FILE_TOO_LARGE only)
  *     MediaUpdate:
  *       type: object
  *       properties:
@@ -291,12 +873,21 @@ export default router;
  *           type: string
  *         alt:
  *           type: string
- *         sortOrder:
- *           type: integer
  *         published:
  *           type: boolean
  *         width:
  *           type: integer
  *         height:
  *           type: integer
+ *         folder:
+ *           type: string
+ *           description: An empty string removes the asset from its folder
+ *         muted:
+ *           type: boolean
+ *         loop:
+ *           type: boolean
+ *         tags:
+ *           type: array
+ *           items:
+ *             type: string
  */
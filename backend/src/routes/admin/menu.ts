@@ -0,0 +1,575 @@
+/**
+ * @file menu.ts
+ * @brief Admin API routes for managing the structured menu (sections, dishes, prices and variants).
+ * @details
+ * Provides CRUD endpoints for menu sections and dishes. A dish's variants are replaced
+ * atomically whenever a `variants` array is supplied, like announcement media links.
+ * Sections, and the dishes of a section, are reordered in bulk (see lib/reorder.ts); new ones are
+ * added last, and deleting or moving one renumbers the list it leaves.
+ * All endpoints require admin authentication.
+ */
+
+import { Router } from "express";
+import { prisma } from "../../lib/prisma";
+import { z } from "zod";
+import type { Prisma } from "@prisma/client";
+import { ALLERGENS } from "../../lib/allergens";
+import { OrderIds, appendPosition, applyOrder, compactOrder } from "../../lib/reorder";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: AdminMenu
+ *   description: Admin API for managing menu sections and dishes (requires authentication)
+ */
+
+/**
+ * @brief Optional translated text column (send null to clear it).
+ */
+const OptText = (max: number) => z.string().trim().max(max).optional().nullable();
+
+/**
+ * @brief Zod schema for menu section fields.
+ * @details No defaults here so that PATCH only touches the fields it receives. Positions are not
+ * accepted: new items are appended, and lists are reordered with the order endpoints.
+ */
+const SectionFields = z.object({
+  title: z.string().trim().min(1).max(120),        /**< Section title (French) */
+  titleEn: OptText(120),                           /**< Optional English title */
+  titleNl: OptText(120),                           /**< Optional Dutch title */
+  description: OptText(500),                       /**< Optional intro text (French) */
+  descriptionEn: OptText(500),
+  descriptionNl: OptText(500),
+  published: z.coerce.boolean().optional(),
+});
+
+const SectionCreate = SectionFields.extend({
+  published: z.coerce.boolean().optional().default(true),
+});
+
+const SectionUpdate = SectionFields.partial();
+
+/**
+ * @brief Zod schema for a dish variant (e.g. "6 pcs" at 8.50 €).
+ * @details Variants are positioned by their order in the `variants` array.
+ */
+const VariantInput = z.object({
+  label: z.string().trim().min(1).max(80),
+  labelEn: OptText(80),
+  labelNl: OptText(80),
+  priceCents: z.coerce.number().int().min(0),
+});
+
+/**
+ * @brief Zod schema for dish fields.
+ */
+const DishFields = z.object({
+  sectionId: z.string().min(1),                    /**< Owning section ID */
+  name: z.string().trim().min(1).max(160),         /**< Dish name (French) */
+  nameEn: OptText(160),
+  nameNl: OptText(160),
+  description: OptText(1000),
+  descriptionEn: OptText(1000),
+  descriptionNl: OptText(1000),
+  priceCents: z.coerce.number().int().min(0).optional().nullable(), /**< Base price in cents */
+  allergens: z.array(z.enum(ALLERGENS)).optional(), /**< Regulated allergens present in the dish */
+  vegetarian: z.boolean().optional(),
+  vegan: z.boolean().optional(),                   /**< Vegan dishes are also stored as vegetarian */
+  halal: z.boolean().optional(),
+  spicyLevel: z.coerce.number().int().min(0).max(3).optional(), /**< 0 (mild) to 3 (very spicy) */
+  published: z.coerce.boolean().optional(),
+  variants: z.array(VariantInput).optional(),      /**< Replaces all variants when present */
+});
+
+const DishCreate = DishFields.extend({
+  published: z.coerce.boolean().optional().default(true),
+});
+
+const DishUpdate = DishFields.partial();
+
+/**
+ * @brief Loads the menu sections in display order (for applyOrder / compactOrder).
+ */
+const sectionOrder = (tx: Prisma.TransactionClient) =>
+  tx.menuSection.findMany({ orderBy: [{ sortOrder: "asc" }, { id: "asc" }], select: { id: true, sortOrder: true } });
+
+/**
+ * @brief Loads the dishes of a section in display order (for applyOrder / compactOrder).
+ */
+const dishOrder = (sectionId: string) => (tx: Prisma.TransactionClient) =>
+  tx.dish.findMany({ where: { sectionId }, orderBy: [{ sortOrder: "asc" }, { id: "asc" }], select: { id: true, sortOrder: true } });
+
+const writeSectionOrder = (tx: Prisma.TransactionClient, id: string, sortOrder: number) =>
+  tx.menuSection.update({ where: { id }, data: { sortOrder } });
+
+const writeDishOrder = (tx: Prisma.TransactionClient, id: string, sortOrder: number) =>
+  tx.dish.update({ where: { id }, data: { sortOrder } });
+
+/**
+ * @brief Prisma include for a section with its dishes and their variants, all ordered.
+ */
+const includeDishes = {
+  dishes: {
+    orderBy: { sortOrder: "asc" as const },
+    include: { variants: { orderBy: { sortOrder: "asc" as const } } },
+  },
+};
+
+/**
+ * @swagger
+ * /api/admin/menu:
+ *   get:
+ *     summary: Get the full menu
+ *     description: Returns every section (published or not) with its dishes and variants, ordered by sortOrder.
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: List of menu sections
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AdminMenuSection'
+ */
+router.get("/", async (_req, res) => {
+  const rows = await prisma.menuSection.findMany({
+    orderBy: { sortOrder: "asc" },
+    include: includeDishes,
+  });
+  res.json(rows);
+});
+
+/**
+ * @swagger
+ * /api/admin/menu/sections:
+ *   post:
+ *     summary: Create a menu section
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MenuSectionInput'
+ *     responses:
+ *       201:
+ *         description: Created section, added after the last one
+ *       400:
+ *         description: Invalid payload
+ *
+ * /api/admin/menu/sections/{id}:
+ *   patch:
+ *     summary: Update a menu section
+ *     description: Fields not supplied remain unchanged.
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/MenuSectionInput'
+ *     responses:
+ *       200:
+ *         description: Updated section
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Section not found
+ *   delete:
+ *     summary: Delete a menu section
+ *     description: Deletes the section together with all of its dishes.
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: No Content (deletion successful)
+ */
+router.post("/sections", async (req, res) => {
+  const parsed = SectionCreate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const data = parsed.data;
+  const created = await prisma.$transaction(async (tx) => {
+    const sortOrder = appendPosition(await tx.menuSection.aggregate({ _max: { sortOrder: true } }));
+    return tx.menuSection.create({ data: { ...data, sortOrder }, include: includeDishes });
+  });
+  res.status(201).json(created);
+});
+
+router.patch("/sections/:id", async (req, res) => {
+  const { id } = req.params;
+  const parsed = SectionUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  try {
+    const updated = await prisma.menuSection.update({ where: { id }, data: parsed.data, include: includeDishes });
+    res.json(updated);
+  } catch (e: any) {
+    if (e.code === "P2025") return res.status(404).json({ error: "Section not found" });
+    throw e;
+  }
+});
+
+router.delete("/sections/:id", async (req, res) => {
+  const { id } = req.params;
+  await prisma.$transaction(async (tx) => {
+    await tx.menuSection.delete({ where: { id } });
+    await compactOrder(tx, sectionOrder, writeSectionOrder);
+  });
+  res.status(204).end();
+});
+
+/**
+ * @swagger
+ * /api/admin/menu/dishes:
+ *   post:
+ *     summary: Create a dish
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DishInput'
+ *     responses:
+ *       201:
+ *         description: Created dish (with variants), added after the last one of its section
+ *       400:
+ *         description: Invalid payload
+ *
+ * /api/admin/menu/dishes/{id}:
+ *   patch:
+ *     summary: Update a dish
+ *     description: >
+ *       Updates dish fields. If the variants array is provided, all previous variants are replaced atomically.
+ *       A dish moved to another section (sectionId) goes last there. A vegan dish stays vegetarian: setting vegetarian to false on it requires setting vegan to false too.
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DishInput'
+ *     responses:
+ *       200:
+ *         description: Updated dish (with variants)
+ *       400:
+ *         description: Invalid payload, or vegetarian set to false on a vegan dish
+ *       404:
+ *         description: Dish not found
+ *   delete:
+ *     summary: Delete a dish
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: No Content (deletion successful)
+ */
+router.post("/dishes", async (req, res) => {
+  const parsed = DishCreate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { variants, ...data } = parsed.data;
+  if (data.vegan) data.vegetarian = true;
+
+  const created = await prisma.$transaction(async (tx) => {
+    const sortOrder = appendPosition(await tx.dish.aggregate({ where: { sectionId: data.sectionId }, _max: { sortOrder: true } }));
+    const d = await tx.dish.create({ data: { ...data, priceCents: data.priceCents ?? null, sortOrder } });
+    if (variants?.length) {
+      await tx.dishVariant.createMany({
+        data: variants.map((v, i) => ({ ...v, dishId: d.id, sortOrder: i })),
+      });
+    }
+    return tx.dish.findUniqueOrThrow({
+      where: { id: d.id },
+      include: { variants: { orderBy: { sortOrder: "asc" } } },
+    });
+  });
+
+  res.status(201).json(created);
+});
+
+router.patch("/dishes/:id", async (req, res) => {
+  const { id } = req.params;
+  const parsed = DishUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { variants, ...data } = parsed.data;
+
+  // The vegan => vegetarian rule applies to the dish as stored, not only to the fields sent
+  const current = await prisma.dish.findUnique({ where: { id }, select: { vegan: true, sectionId: true } });
+  if (!current) return res.status(404).json({ error: "Dish not found" });
+  const vegan = data.vegan ?? current.vegan;
+  if (vegan && data.vegetarian === false && data.vegan === undefined) {
+    return res.status(400).json({ error: "A vegan dish is also vegetarian" });
+  }
+  if (vegan) data.vegetarian = true;
+
+  const updated = await prisma.$transaction(async (tx) => {
+    // A dish moved to another section goes last there, and its former section is renumbered
+    const moved = data.sectionId !== undefined && data.sectionId !== current.sectionId;
+    const sortOrder = moved
+      ? appendPosition(await tx.dish.aggregate({ where: { sectionId: data.sectionId }, _max: { sortOrder: true } }))
+      : undefined;
+    await tx.dish.update({ where: { id }, data: { ...data, sortOrder } });
+    if (moved) await compactOrder(tx, dishOrder(current.sectionId), writeDishOrder);
+
+    if (variants) {
+      // Replace all variants
+      await tx.dishVariant.deleteMany({ where: { dishId: id } });
+      if (variants.length) {
+        await tx.dishVariant.createMany({
+          data: variants.map((v, i) => ({ ...v, dishId: id, sortOrder: i })),
+        });
+      }
+    }
+
+    return tx.dish.findUniqueOrThrow({
+      where: { id },
+      include: { variants: { orderBy: { sortOrder: "asc" } } },
+    });
+  });
+
+  res.json(updated);
+});
+
+router.delete("/dishes/:id", async (req, res) => {
+  const { id } = req.params;
+  await prisma.$transaction(async (tx) => {
+    const { sectionId } = await tx.dish.delete({ where: { id }, select: { sectionId: true } });
+    await compactOrder(tx, dishOrder(sectionId), writeDishOrder);
+  });
+  res.status(204).end();
+});
+
+/**
+ * @swagger
+ * /api/admin/menu/sections/order:
+ *   put:
+ *     summary: Reorder the menu sections
+ *     description: Takes every section id in the new order and rewrites their sortOrder as 0, 1, 2… in one transaction.
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/OrderInput'
+ *     responses:
+ *       204:
+ *         description: No Content (order saved)
+ *       400:
+ *         description: Invalid ids
+ *       409:
+ *         description: The ids do not match the current sections
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrderConflict'
+ *
+ * /api/admin/menu/dishes/order:
+ *   put:
+ *     summary: Reorder the dishes of a section
+ *     description: Takes every dish id of the section in the new order and rewrites their sortOrder as 0, 1, 2… in one transaction.
+ *     tags: [AdminMenu]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/OrderInput'
+ *               - type: object
+ *                 required: [sectionId]
+ *                 properties:
+ *                   sectionId:
+ *                     type: string
+ *     responses:
+ *       204:
+ *         description: No Content (order saved)
+ *       400:
+ *         description: Invalid ids
+ *       409:
+ *         description: The ids do not match the dishes of the section
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OrderConflict'
+ */
+router.put("/sections/order", async (req, res) => {
+  const parsed = z.object({ ids: OrderIds }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  const result = await applyOrder(parsed.data.ids, sectionOrder, writeSectionOrder);
+  if ("error" in result) return res.status(result.error.status).json(result.error.body);
+  res.status(204).end();
+});
+
+router.put("/dishes/order", async (req, res) => {
+  const parsed = z.object({ sectionId: z.string().min(1), ids: OrderIds }).safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { sectionId, ids } = parsed.data;
+
+  const result = await applyOrder(ids, dishOrder(sectionId), writeDishOrder);
+  if ("error" in result) return res.status(result.error.status).json(result.error.body);
+  res.status(204).end();
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MenuSectionInput:
+ *       type: object
+ *       required: [title]
+ *       properties:
+ *         title:
+ *           type: string
+ *           maxLength: 120
+ *           description: Section title (French)
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         descriptionEn:
+ *           type: string
+ *           nullable: true
+ *         descriptionNl:
+ *           type: string
+ *           nullable: true
+ *         published:
+ *           type: boolean
+ *           default: true
+ *     DishVariantInput:
+ *       type: object
+ *       required: [label, priceCents]
+ *       properties:
+ *         label:
+ *           type: string
+ *           example: "6 pcs"
+ *         labelEn:
+ *           type: string
+ *           nullable: true
+ *         labelNl:
+ *           type: string
+ *           nullable: true
+ *         priceCents:
+ *           type: integer
+ *           example: 850
+ *     DishInput:
+ *       type: object
+ *       required: [sectionId, name]
+ *       properties:
+ *         sectionId:
+ *           type: string
+ *         name:
+ *           type: string
+ *           maxLength: 160
+ *           description: Dish name (French)
+ *         nameEn:
+ *           type: string
+ *           nullable: true
+ *         nameNl:
+ *           type: string
+ *           nullable: true
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         descriptionEn:
+ *           type: string
+ *           nullable: true
+ *         descriptionNl:
+ *           type: string
+ *           nullable: true
+ *         priceCents:
+ *           type: integer
+ *           nullable: true
+ *           description: Base price in euro cents (null when only variants are priced)
+ *         allergens:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Allergen'
+ *         vegetarian:
+ *           type: boolean
+ *         vegan:
+ *           type: boolean
+ *           description: Implies vegetarian
+ *         halal:
+ *           type: boolean
+ *         spicyLevel:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 3
+ *         published:
+ *           type: boolean
+ *         variants:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DishVariantInput'
+ *     Allergen:
+ *       type: string
+ *       description: One of the 14 regulated EU allergens
+ *       enum: [GLUTEN, CRUSTACEANS, EGGS, FISH, PEANUTS, SOYBEANS, MILK, NUTS, CELERY, MUSTARD, SESAME, SULPHITES, LUPIN, MOLLUSCS]
+ *     AdminMenuSection:
+ *       allOf:
+ *         - $ref: '#/components/schemas/MenuSectionInput'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *             dishes:
+ *               type: array
+ *               items:
+ *                 allOf:
+ *                   - $ref: '#/components/schemas/DishInput'
+ *                   - type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ */
@@ -1,14 +1,18 @@
 /**
  * @file recurringClosures.ts
- * @brief Admin API routes for managing recurring weekly schedule closures.
+ * @brief Admin API routes for managing recurring closures.
  * @details
- * Provides CRUD endpoints for manipulating recurring (weekly) closure exceptions.
+ * Provides CRUD endpoints for recurring closures stored as RFC 5545 recurrence rules
+ * ("FREQ=MONTHLY;BYDAY=1MO", "FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=24,25,26"…) with EXDATE
+ * exceptions, plus a preview of the upcoming occurrences of a rule before it is saved.
  * All endpoints require admin authentication.
  */
 
 import { Router } from "express";
 import { prisma } from "../../lib/prisma";
 import { z } from "zod";
+import { closureRule, parseClosureRule } from "../../lib/closures";
+import { CalendarDay, dateToYMD, nowInZone, ymdToDate } from "../../lib/time";
 
 const router = Router();
 
@@ -16,7 +20,7 @@ const router = Router();
  * @swagger
  * tags:
  *   name: Admin Recurring Closures
- *   description: Endpoints for managing recurring weekly closures (admin only)
+ *   description: Endpoints for managing recurring closures (admin only)
  */
 
 /**
@@ -25,21 +29,40 @@ const router = Router();
  */
 const SlotEnum = z.enum(["ALL", "LUNCH", "DINNER"]);
 
-const Weekday = z.number().int().min(0).max(6);
-
-const RecurringCreate = z.object({
-  weekday: Weekday,
+const RecurringFields = z.object({
+  rrule: z.string().min(1).max(500),                  /**< RRULE value without DTSTART, e.g. "FREQ=MONTHLY;BYDAY=-1SU" */
   slot: z.union([
     SlotEnum,
     z.enum(["all", "lunch", "dinner"]).transform(s => s.toUpperCase() as any),
-  ]),
-  note: z.string().max(500).optional().nullable(),
-  startsOn: z.coerce.date().optional().nullable(),
-  endsOn: z.coerce.date().optional().nullable(),
-  interval: z.coerce.number().int().min(1).optional().default(1),
+  ]),                                                 /**< Service slot ("ALL", "LUNCH", "DINNER") */
+  note: z.string().max(500).optional().nullable(),    /**< Optional note shown publicly (max 500 chars) */
+  startsOn: CalendarDay.optional(),                   /**< First day of the rule (DTSTART), defaults to today */
+  endsOn: CalendarDay.optional().nullable(),          /**< Optional last day of the rule (inclusive) */
+  exdates: z.array(CalendarDay).max(366).optional(),  /**< Days skipped by the rule (EXDATE) */
 });
 
-const RecurringUpdate = RecurringCreate.partial();
+const RecurringUpdate = RecurringFields.partial();
+
+const PreviewQuery = RecurringFields.pick({ rrule: true, startsOn: true, endsOn: true, exdates: true }).extend({
+  count: z.coerce.number().int().min(1).max(50).optional(), /**< Number of occurrences to list (default 12) */
+});
+
+/**
+ * @brief Validates a rule and normalizes its fields for storage.
+ * @param rule Rule fields (merged with the stored row on update)
+ * @returns `{ data }` with the normalized RRULE and deduplicated, sorted exdates, or `{ error }`
+ */
+function toRuleData(rule: { rrule: string; startsOn: Date; endsOn?: Date | null; exdates: Date[] }) {
+  const parsed = parseClosureRule(rule.rrule);
+  if ("error" in parsed) return { error: parsed.error };
+
+  const { startsOn } = rule;
+  const endsOn = rule.endsOn ?? null;
+  if (endsOn && endsOn < startsOn) return { error: "endsOn must not be before startsOn" };
+
+  const exdates = [...new Set(rule.exdates.map(dateToYMD))].sort().map(ymdToDate);
+  return { data: { rrule: parsed.rrule, startsOn, endsOn, exdates } };
+}
 
 /**
  * @swagger
@@ -62,7 +85,7 @@ const RecurringUpdate = RecurringCreate.partial();
  */
 router.get("/", async (_req, res) => {
   const rows = await prisma.recurringClosure.findMany({
-    orderBy: [{ weekday: "asc" }, { slot: "asc" }],
+    orderBy: [{ startsOn: "asc" }, { slot: "asc" }],
   });
   res.json(rows);
 });
@@ -72,7 +95,9 @@ router.get("/", async (_req, res) => {
  * /api/admin/recurring-closures:
  *   post:
  *     summary: Create a new recurring closure
- *     description: Creates a new recurring closure. Does not prevent overlapping intervals or duplicate slots.
+ *     description: >
+ *       Creates a recurring closure from an RRULE (FREQ DAILY, WEEKLY, MONTHLY or YEARLY; no time parts).
+ *       Does not prevent overlapping rules or duplicate slots.
  *     tags: [Admin Recurring Closures]
  *     security:
  *       - cookieAuth: []
@@ -90,16 +115,109 @@ router.get("/", async (_req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/RecurringClosure'
  *       400:
- *         description: Invalid request payload
+ *         description: Invalid request payload or RRULE
  */
 router.post("/", async (req, res) => {
-  const data = RecurringCreate.parse(req.body);
+  const body = RecurringFields.parse(req.body);
+  const rule = toRuleData({
+    rrule: body.rrule,
+    startsOn: body.startsOn ?? ymdToDate(nowInZone().ymd),
+    endsOn: body.endsOn,
+    exdates: body.exdates ?? [],
+  });
+  if ("error" in rule) return res.status(400).json({ error: rule.error });
+
   const created = await prisma.recurringClosure.create({
-    data: { ...data, slot: data.slot as any },
+    data: { ...rule.data, slot: body.slot as any, note: body.note },
   });
   res.status(201).json(created);
 });
 
+/**
+ * @swagger
+ * /api/admin/recurring-closures/preview:
+ *   post:
+ *     summary: Preview the occurrences of a rule
+ *     description: >
+ *       Validates a rule without saving it and lists its next occurrences from today (or from
+ *       `startsOn` when later), EXDATEs excluded. Used by the dashboard while a rule is typed.
+ *     tags: [Admin Recurring Closures]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rrule]
+ *             properties:
+ *               rrule:
+ *                 type: string
+ *                 example: "FREQ=MONTHLY;BYDAY=1MO"
+ *               startsOn:
+ *                 type: string
+ *                 format: date
+ *               endsOn:
+ *                 type: string
+ *                 format: date
+ *                 nullable: true
+ *               exdates:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: date
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 default: 12
+ *     responses:
+ *       200:
+ *         description: Normalized rule and upcoming days
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 rrule:
+ *                   type: string
+ *                 occurrences:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                     format: date
+ *       400:
+ *         description: Invalid RRULE or dates
+ */
+router.post("/preview", async (req, res) => {
+  const parsed = PreviewQuery.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  const today = ymdToDate(nowInZone().ymd);
+  const rule = toRuleData({
+    rrule: parsed.data.rrule,
+    startsOn: parsed.data.startsOn ?? today,
+    endsOn: parsed.data.endsOn,
+    exdates: parsed.data.exdates ?? [],
+  });
+  if ("error" in rule) return res.status(400).json({ error: rule.error });
+
+  const recurrence = closureRule(rule.data)!;
+  const skipped = new Set(rule.data.exdates.map(dateToYMD));
+  const count = parsed.data.count ?? 12;
+  const from = rule.data.startsOn > today ? rule.data.startsOn : today;
+  const horizon = new Date(from.getTime() + 5 * 366 * 86_400_000);
+
+  const occurrences: string[] = [];
+  recurrence.between(from, horizon, true, d => {
+    if (!skipped.has(dateToYMD(d))) occurrences.push(dateToYMD(d));
+    return occurrences.length < count;
+  });
+
+  res.json({ rrule: rule.data.rrule, occurrences });
+});
+
 /**
  * @swagger
  * /api/admin/recurring-closures/{id}:
@@ -129,15 +247,28 @@ router.post("/", async (req, res) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/RecurringClosure'
+ *       400:
+ *         description: Invalid RRULE or dates
  *       404:
  *         description: Closure not found
  */
 router.patch("/:id", async (req, res) => {
   const { id } = req.params;
-  const data = RecurringUpdate.parse(req.body);
+  const body = RecurringUpdate.parse(req.body);
+
+  const existing = await prisma.recurringClosure.findUnique({ where: { id } });
+  if (!existing) return res.status(404).json({ error: "Recurring closure not found" });
+  const rule = toRuleData({
+    rrule: body.rrule ?? existing.rrule,
+    startsOn: body.startsOn ?? existing.startsOn,
+    endsOn: body.endsOn === undefined ? existing.endsOn : body.endsOn,
+    exdates: body.exdates ?? existing.exdates,
+  });
+  if ("error" in rule) return res.status(400).json({ error: rule.error });
+
   const updated = await prisma.recurringClosure.update({
     where: { id },
-    data: { ...data, slot: (data.slot as any) ?? undefined },
+    data: { ...rule.data, slot: (body.slot as any) ?? undefined, note: body.note },
   });
   res.json(updated);
 });
@@ -181,10 +312,10 @@ export default router;
  *       properties:
  *         id:
  *           type: string
- *         weekday:
- *           type: integer
- *           minimum: 0
- *           maximum: 6
+ *         rrule:
+ *           type: string
+ *           description: RFC 5545 RRULE value, without DTSTART
+ *           example: "FREQ=MONTHLY;BYDAY=-1SU"
  *         slot:
  *           type: string
  *           enum: [ALL, LUNCH, DINNER]
@@ -193,23 +324,25 @@ export default router;
  *           nullable: true
  *         startsOn:
  *           type: string
- *           format: date
- *           nullable: true
+ *           format: date-time
+ *           description: First day of the rule (DTSTART)
  *         endsOn:
  *           type: string
- *           format: date
+ *           format: date-time
  *           nullable: true
- *         interval:
- *           type: integer
- *           minimum: 1
+ *         exdates:
+ *           type: array
+ *           description: Days skipped by the rule (EXDATE)
+ *           items:
+ *             type: string
+ *             format: date-time
  *     RecurringClosureCreate:
  *       type: object
- *       required: [weekday, slot]
+ *       required: [rrule, slot]
  *       properties:
- *         weekday:
- *           type: integer
- *           minimum: 0
- *           maximum: 6
+ *         rrule:
+ *           type: string
+ *           example: "FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=24,25,26"
  *         slot:
  *           type: string
  *           enum: [ALL, LUNCH, DINNER]
@@ -219,19 +352,21 @@ export default router;
  *         startsOn:
  *           type: string
  *           format: date
- *           nullable: true
+ *           description: Defaults to today
  *         endsOn:
  *           type: string
  *           format: date
  *           nullable: true
- *         interval:
- *           type: integer
- *           minimum: 1
+ *         exdates:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: date
  *     RecurringClosureUpdate:
  *       type: object
  *       properties:
- *         weekday:
- *           type: integer
+ *         rrule:
+ *           type: string
  *         slot:
  *           type: string
  *           enum: [ALL, LUNCH, DINNER]
@@ -241,12 +376,13 @@ export default router;
  *         startsOn:
  *           type: string
  *           format: date
- *           nullable: true
  *         endsOn:
  *           type: string
  *           format: date
  *           nullable: true
- *         interval:
- *           type: integer
+ *         exdates:
+ *           type: array
+ *           items:
+ *             type: string
+ *             format: date
  */
-
@@ -0,0 +1,270 @@
+/**
+ * @file reservations.ts
+ * @brief Admin API routes for reviewing table reservations and setting service capacity.
+ * @details
+ * Lists bookings by day range and status, confirms or cancels them, and edits the number of
+ * covers available per service (LUNCH / DINNER).
+ * All endpoints require admin authentication.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../../lib/prisma";
+import { isYMD, nowInZone, ymdToDate } from "../../lib/time";
+import { DEFAULT_CAPACITY } from "../../lib/reservations";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: AdminReservations
+ *   description: Admin API for managing table reservations (requires authentication)
+ */
+
+const StatusEnum = z.enum(["PENDING", "CONFIRMED", "CANCELLED"]);
+
+/**
+ * @brief Zod schema for the list filters.
+ */
+const ListQuery = z.object({
+  from: z.string().refine(isYMD).optional(),      /**< First day (inclusive), defaults to today */
+  to: z.string().refine(isYMD).optional(),        /**< Last day (inclusive) */
+  status: StatusEnum.optional(),
+});
+
+/**
+ * @brief Zod schema for a status change.
+ */
+const StatusUpdate = z.object({
+  status: StatusEnum,                             /**< New status (CONFIRMED to confirm, CANCELLED to cancel) */
+});
+
+/**
+ * @brief Zod schema for a service capacity.
+ */
+const CapacityPayload = z.object({
+  covers: z.coerce.number().int().min(0).max(1000), /**< Maximum covers for the service (0 = no online booking) */
+});
+
+/**
+ * @swagger
+ * /api/admin/reservations:
+ *   get:
+ *     summary: List reservations
+ *     description: Returns reservations ordered by day and arrival time. Defaults to today onwards.
+ *     tags: [AdminReservations]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, CONFIRMED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: List of reservations
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Reservation'
+ *       400:
+ *         description: Invalid filters
+ */
+router.get("/", async (req, res) => {
+  const parsed = ListQuery.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid filters" });
+  const { from, to, status } = parsed.data;
+
+  const rows = await prisma.reservation.findMany({
+    where: {
+      date: {
+        gte: ymdToDate(from ?? nowInZone().ymd),
+        ...(to ? { lte: ymdToDate(to) } : {}),
+      },
+      ...(status ? { status } : {}),
+    },
+    orderBy: [{ date: "asc" }, { timeMin: "asc" }],
+  });
+  res.json(rows);
+});
+
+/**
+ * @swagger
+ * /api/admin/reservations/{id}:
+ *   patch:
+ *     summary: Confirm or cancel a reservation
+ *     tags: [AdminReservations]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PENDING, CONFIRMED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: Updated reservation
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Reservation not found
+ */
+router.patch("/:id", async (req, res) => {
+  const { id } = req.params;
+  const parsed = StatusUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  try {
+    const updated = await prisma.reservation.update({ where: { id }, data: { status: parsed.data.status } });
+    res.json(updated);
+  } catch (e: any) {
+    if (e.code === "P2025") return res.status(404).json({ error: "Reservation not found" });
+    throw e;
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/reservations/capacity:
+ *   get:
+ *     summary: Get the covers capacity of each service
+ *     tags: [AdminReservations]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Capacity per service
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/SlotCapacity'
+ *
+ * /api/admin/reservations/capacity/{slot}:
+ *   put:
+ *     summary: Set the covers capacity of a service
+ *     tags: [AdminReservations]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: slot
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [LUNCH, DINNER]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [covers]
+ *             properties:
+ *               covers:
+ *                 type: integer
+ *                 minimum: 0
+ *     responses:
+ *       200:
+ *         description: Saved capacity
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SlotCapacity'
+ *       400:
+ *         description: Unknown service or invalid payload
+ */
+router.get("/capacity", async (_req, res) => {
+  const rows = await prisma.slotCapacity.findMany();
+  const bySlot = new Map(rows.map(r => [r.slot, r.covers]));
+  res.json((["LUNCH", "DINNER"] as const).map(slot => ({ slot, covers: bySlot.get(slot) ?? DEFAULT_CAPACITY })));
+});
+
+router.put("/capacity/:slot", async (req, res) => {
+  const slot = String(req.params.slot).toUpperCase();
+  if (slot !== "LUNCH" && slot !== "DINNER") return res.status(400).json({ error: "Unknown service" });
+  const parsed = CapacityPayload.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { covers } = parsed.data;
+  const saved = await prisma.slotCapacity.upsert({
+    where: { slot },
+    create: { slot, covers },
+    update: { covers },
+  });
+  res.json(saved);
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Reservation:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         date:
+ *           type: string
+ *           format: date
+ *         slot:
+ *           type: string
+ *           enum: [LUNCH, DINNER]
+ *         timeMin:
+ *           type: integer
+ *           description: Arrival time in minutes since midnight
+ *           example: 1170
+ *         covers:
+ *           type: integer
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *         phone:
+ *           type: string
+ *           nullable: true
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [PENDING, CONFIRMED, CANCELLED]
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     SlotCapacity:
+ *       type: object
+ *       properties:
+ *         slot:
+ *           type: string
+ *           enum: [LUNCH, DINNER]
+ *         covers:
+ *           type: integer
+ */
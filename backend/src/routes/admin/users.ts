@@ -0,0 +1,375 @@
+/**
+ * @file users.ts
+ * @brief Admin API routes for managing dashboard accounts and their roles.
+ * @details
+ * Owners invite new users (the account is created and an invitation link to choose a password is
+ * emailed, see lib/passwordTokens.ts), change roles and deactivate or reactivate accounts. Accounts are never deleted, so the media they
+ * uploaded keep their author. Owners cannot change their own account, and the last active owner
+ * cannot be demoted or deactivated, so the dashboard always keeps someone able to manage users.
+ * Owners can also switch off the two-factor authentication of a user who lost their authenticator
+ * app and recovery codes; the user then enrols again, and revoke a user's calendar feed key.
+ * All endpoints require the `users` permission (OWNER role, see lib/permissions.ts).
+ */
+
+import crypto from "crypto";
+import { Router } from "express";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { prisma } from "../../lib/prisma";
+import { sendPasswordLink } from "../../lib/passwordTokens";
+import { disableTwoFactor } from "../../lib/twoFactor";
+import { revokeUserSessions } from "../../lib/sessions";
+import { revokeFeedToken } from "../../lib/feedTokens";
+import type { AuthedRequest } from "../../middleware/requireAdmin";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: AdminUsers
+ *   description: Admin API for managing dashboard accounts (requires the OWNER role)
+ */
+
+const RoleEnum = z.enum(["OWNER", "EDITOR", "VIEWER"]);
+
+/**
+ * @brief Zod schema for inviting a user.
+ */
+const UserCreate = z.object({
+  email: z.string().trim().toLowerCase().email().max(200),   /**< Sign-in email, unique */
+  role: RoleEnum,                                           /**< Role of the new account */
+});
+
+/**
+ * @brief Zod schema for updating a user (fields not supplied remain unchanged).
+ */
+const UserUpdate = z.object({
+  role: RoleEnum.optional(),
+  active: z.boolean().optional(),                           /**< false deactivates the account */
+});
+
+/**
+ * @brief Fields of an account returned by the API (never the password hash).
+ */
+const userSelect = {
+  id: true,
+  email: true,
+  role: true,
+  active: true,
+  lastLoginAt: true,
+  totpEnabledAt: true,
+  createdAt: true,
+  feedToken: { select: { createdAt: true } },
+} as const;
+
+/**
+ * @brief Emails an invitation link, reporting failures instead of throwing.
+ * @param {{ id: string; email: string }} user - Invited account
+ * @returns {Promise<boolean>} Whether the email was sent
+ */
+async function invite(user: { id: string; email: string }): Promise<boolean> {
+  try {
+    await sendPasswordLink(user, "INVITE");
+    return true;
+  } catch (e) {
+    console.error("Invitation email failed:", e);
+    return false;
+  }
+}
+
+/**
+ * @swagger
+ * /api/admin/users:
+ *   get:
+ *     summary: List dashboard accounts
+ *     description: Returns every account, active or not, oldest first.
+ *     tags: [AdminUsers]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: List of accounts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AdminUser'
+ *   post:
+ *     summary: Invite a user
+ *     description: >
+ *       Creates an account with the given role and emails it a link, valid for 7 days, to choose its
+ *       password. The account cannot sign in until then. When the email could not be sent the account
+ *       is still created (`emailSent` false) and the invitation can be sent again.
+ *     tags: [AdminUsers]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, role]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, EDITOR, VIEWER]
+ *     responses:
+ *       201:
+ *         description: Created account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 user:
+ *                   $ref: '#/components/schemas/AdminUser'
+ *                 emailSent:
+ *                   type: boolean
+ *       400:
+ *         description: Invalid payload
+ *       409:
+ *         description: An account with this email already exists
+ */
+router.get("/", async (_req, res) => {
+  const users = await prisma.user.findMany({ orderBy: { createdAt: "asc" }, select: userSelect });
+  res.json(users);
+});
+
+router.post("/", async (req, res) => {
+  const parsed = UserCreate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  // Random password nobody knows: the account is unusable until the invitation is accepted
+  const password = await bcrypt.hash(crypto.randomBytes(32).toString("base64url"), 10);
+  try {
+    const user = await prisma.user.create({ data: { ...parsed.data, password }, select: userSelect });
+    res.status(201).json({ user, emailSent: await invite(user) });
+  } catch (e: any) {
+    if (e.code === "P2002") return res.status(409).json({ error: "An account with this email already exists" });
+    throw e;
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/invite:
+ *   post:
+ *     summary: Send the invitation again
+ *     description: >
+ *       Emails a new invitation link to an account that has never signed in; the previous link stops
+ *       working. Users who have signed in before use "forgot password" instead.
+ *     tags: [AdminUsers]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Invitation sent
+ *       404:
+ *         description: Account not found
+ *       409:
+ *         description: Account deactivated or already used
+ *       502:
+ *         description: The email could not be sent
+ */
+router.post("/:id/invite", async (req, res) => {
+  const user = await prisma.user.findUnique({ where: { id: req.params.id }, select: userSelect });
+  if (!user) return res.status(404).json({ error: "User not found" });
+  if (!user.active) return res.status(409).json({ error: "Account deactivated" });
+  if (user.lastLoginAt) return res.status(409).json({ error: "This account has already signed in" });
+
+  if (!(await invite(user))) return res.status(502).json({ error: "The invitation email could not be sent" });
+  res.status(204).end();
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{id}:
+ *   patch:
+ *     summary: Change the role of an account, or deactivate/reactivate it
+ *     description: >
+ *       A deactivated account can no longer sign in, its sessions are ended and its calendar feed key
+ *       is deleted. Owners cannot
+ *       change their own account, and the last active owner cannot be demoted or deactivated.
+ *     tags: [AdminUsers]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [OWNER, EDITOR, VIEWER]
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Updated account
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUser'
+ *       400:
+ *         description: Invalid payload
+ *       404:
+ *         description: Account not found
+ *       409:
+ *         description: Own account, or last active owner
+ */
+router.patch("/:id", async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  const parsed = UserUpdate.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const data = parsed.data;
+
+  if (id === req.user!.id) {
+    return res.status(409).json({ error: "You cannot change your own role or deactivate your own account" });
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({ where: { id }, select: { role: true, active: true } });
+    if (!user) return { status: 404, body: { error: "User not found" } };
+
+    const losesOwner = user.role === "OWNER" && user.active
+      && ((data.role && data.role !== "OWNER") || data.active === false);
+    if (losesOwner) {
+      const others = await tx.user.count({ where: { role: "OWNER", active: true, id: { not: id } } });
+      if (others === 0) return { status: 409, body: { error: "The last active owner cannot be demoted or deactivated" } };
+    }
+
+    if (data.active === false) {
+      await revokeUserSessions(tx, id);
+      await revokeFeedToken(tx, id);
+    }
+    return { status: 200, body: await tx.user.update({ where: { id }, data, select: userSelect }) };
+  });
+
+  res.status(result.status).json(result.body);
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/2fa:
+ *   delete:
+ *     summary: Reset the two-factor authentication of an account
+ *     description: >
+ *       Switches 2FA off and deletes the account's secret and recovery codes, for a user who lost
+ *       them. Owners must then enrol again before using the dashboard. Not allowed on one's own account.
+ *     tags: [AdminUsers]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Reset
+ *       404:
+ *         description: Account not found
+ *       409:
+ *         description: Own account
+ */
+router.delete("/:id/2fa", async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (id === req.user!.id) return res.status(409).json({ error: "Use your own two-factor settings instead" });
+  try {
+    await disableTwoFactor(id);
+    res.status(204).end();
+  } catch (e: any) {
+    if (e.code === "P2025") return res.status(404).json({ error: "User not found" });
+    throw e;
+  }
+});
+
+/**
+ * @swagger
+ * /api/admin/users/{id}/feed:
+ *   delete:
+ *     summary: Revoke the calendar feed key of an account
+ *     description: The account's private closures feed URL stops working; the user can create a new one.
+ *     tags: [AdminUsers]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Revoked
+ *       404:
+ *         description: The account has no feed key
+ */
+router.delete("/:id/feed", async (req: AuthedRequest, res) => {
+  if (!(await revokeFeedToken(prisma, req.params.id))) return res.status(404).json({ error: "No feed key" });
+  res.status(204).end();
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         role:
+ *           type: string
+ *           enum: [OWNER, EDITOR, VIEWER]
+ *           description: OWNER manages everything, EDITOR the site content, VIEWER only sees analytics
+ *         active:
+ *           type: boolean
+ *           description: Deactivated accounts cannot sign in
+ *         lastLoginAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         totpEnabledAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When two-factor authentication was enabled, null when it is off
+ *         feedToken:
+ *           type: object
+ *           nullable: true
+ *           description: The user's private calendar feed key, null when they have none
+ *           properties:
+ *             createdAt:
+ *               type: string
+ *               format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
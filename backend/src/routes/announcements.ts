@@ -1,6 +1,9 @@
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
 import { z } from "zod";
+import { withMediaUrls } from "../lib/storage";
+import { parseLang, pick } from "../lib/i18n";
+import { CalendarDay } from "../lib/time";
 
 const router = Router();
 
@@ -21,9 +24,13 @@ const MediaLink = z.object({
 });
 
 const AnnouncementCreate = z.object({
-  date: z.coerce.date(),
+  date: CalendarDay,
   title: z.string().min(1).max(160),
+  titleEn: z.string().max(160).optional().nullable(),
+  titleNl: z.string().max(160).optional().nullable(),
   desc: z.string().max(1000).optional().nullable(),
+  descEn: z.string().max(1000).optional().nullable(),
+  descNl: z.string().max(1000).optional().nullable(),
   published: z.coerce.boolean().optional().default(true),
   media: z.array(MediaLink).optional().default([]),
 });
@@ -42,8 +49,19 @@ const includeWithMedia = {
  * /api/announcements:
  *   get:
  *     summary: Get all announcements
- *     description: Fetches all announcements ordered by date (newest first) with associated media assets.
+ *     description: >
+ *       Fetches all announcements ordered by date (newest first) with associated media assets.
+ *       `title` and `desc` are resolved in the requested language. Fallback order: requested language,
+ *       then French, English and Dutch (the first non-empty translation wins).
  *     tags: [Announcements]
+ *     parameters:
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *           default: fr
+ *         description: Language of the returned title and description
  *     responses:
  *       200:
  *         description: List of announcements
@@ -54,7 +72,8 @@ const includeWithMedia = {
  *               items:
  *                 $ref: '#/components/schemas/Announcement'
  */
-router.get("/", async (_req, res) => {
+router.get("/", async (req, res) => {
+  const lang = parseLang(req.query.lang);
   const rows = await prisma.announcement.findMany({
     orderBy: { date: "desc" },
     include: includeWithMedia,
@@ -62,7 +81,10 @@ router.get("/", async (_req, res) => {
 
   const payload = rows.map(r => ({
     ...r,
-    mediaAssets: r.media.map(m => ({ ...m.asset, _linkSortOrder: m.sortOrder })),
+    lang,
+    title: pick(r, "title", lang) ?? r.title,
+    desc: pick(r, "desc", lang),
+    mediaAssets: r.media.map(m => ({ ...withMediaUrls(m.asset), _linkSortOrder: m.sortOrder })),
   }));
   res.json(payload);
 });
@@ -98,7 +120,11 @@ router.post("/", async (req, res) => {
       data: {
         date: data.date,
         title: data.title,
+        titleEn: data.titleEn || null,
+        titleNl: data.titleNl || null,
         desc: data.desc ?? null,
+        descEn: data.descEn || null,
+        descNl: data.descNl || null,
         published: data.published ?? true,
       },
     });
@@ -122,7 +148,7 @@ router.post("/", async (req, res) => {
 
   res.status(201).json({
     ...created,
-    mediaAssets: created.media.map(m => ({ ...m.asset, _linkSortOrder: m.sortOrder })),
+    mediaAssets: created.media.map(m => ({ ...withMediaUrls(m.asset), _linkSortOrder: m.sortOrder })),
   });
 });
 
@@ -166,7 +192,11 @@ router.patch("/:id", async (req, res) => {
       data: {
         date: data.date,
         title: data.title,
+        titleEn: data.titleEn === undefined ? undefined : data.titleEn || null,
+        titleNl: data.titleNl === undefined ? undefined : data.titleNl || null,
         desc: data.desc,
+        descEn: data.descEn === undefined ? undefined : data.descEn || null,
+        descNl: data.descNl === undefined ? undefined : data.descNl || null,
         published: data.published,
       },
     });
@@ -194,7 +224,7 @@ router.patch("/:id", async (req, res) => {
 
   res.json({
     ...updated,
-    mediaAssets: updated.media.map(m => ({ ...m.asset, _linkSortOrder: m.sortOrder })),
+    mediaAssets: updated.media.map(m => ({ ...withMediaUrls(m.asset), _linkSortOrder: m.sortOrder })),
   });
 });
 
@@ -240,9 +270,21 @@ export default router;
  *           format: date
  *         title:
  *           type: string
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
  *         desc:
  *           type: string
  *           nullable: true
+ *         descEn:
+ *           type: string
+ *           nullable: true
+ *         descNl:
+ *           type: string
+ *           nullable: true
  *         published:
  *           type: boolean
  *         mediaAssets:
@@ -270,9 +312,21 @@ export default router;
  *           format: date
  *         title:
  *           type: string
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
  *         desc:
  *           type: string
  *           nullable: true
+ *         descEn:
+ *           type: string
+ *           nullable: true
+ *         descNl:
+ *           type: string
+ *           nullable: true
  *         published:
  *           type: boolean
  *         media:
@@ -287,9 +341,21 @@ export default router;
  *           format: date
  *         title:
  *           type: string
+ *         titleEn:
+ *           type: string
+ *           nullable: true
+ *         titleNl:
+ *           type: string
+ *           nullable: true
  *         desc:
  *           type: string
  *           nullable: true
+ *         descEn:
+ *           type: string
+ *           nullable: true
+ *         descNl:
+ *           type: string
+ *           nullable: true
  *         published:
  *           type: boolean
  *         media:
@@ -1,7 +1,12 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
 import { prisma } from "../lib/prisma";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import { z } from "zod";
+import { ROLE_PERMISSIONS } from "../lib/permissions";
+import { NewPassword, resetPassword, sendPasswordLink } from "../lib/passwordTokens";
+import { signLoginChallenge, verifyLoginChallenge, verifyToken } from "../lib/auth";
+import { createSession, resolveSession, revokeSession } from "../lib/sessions";
+import { mustEnableTwoFactor, verifySecondFactor } from "../lib/twoFactor";
 
 const router = Router();
 
@@ -12,17 +17,39 @@ const router = Router();
  *   description: Authentication and user session management
  */
 
-/** @var {string} JWT_SECRET - Secret key for JWT token signing */
-const JWT_SECRET = process.env.JWT_SECRET || "dev-secret-change-me";
 /** @var {boolean} isProd - Flag indicating production mode */
 const isProd = process.env.NODE_ENV === "production";
 
+/**
+ * @brief Signs a user in: records the login, creates a server-side session for the device and
+ * issues the session cookie.
+ * @param {Request} req - Login request, describing the device
+ * @param {Response} res - Response the cookie is set on
+ * @param {{ id: string }} user - User who passed every login step
+ */
+async function startSession(req: Request, res: Response, user: { id: string }) {
+  await prisma.user.update({ where: { id: user.id }, data: { lastLoginAt: new Date() } });
+
+  const { token } = await createSession(user.id, { userAgent: req.get("user-agent"), ip: req.ip });
+  res.cookie("token", token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: isProd,
+    path: "/",
+  });
+}
+
 /**
  * @swagger
  * /api/auth/login:
  *   post:
  *     summary: Log in a user
- *     description: Authenticates user credentials and issues a JWT token as an HTTP-only cookie.
+ *     description: >
+ *       Authenticates user credentials, starts a session and issues its JWT token as an HTTP-only
+ *       cookie. The session ends after a while without requests (SESSION_IDLE_MINUTES) and at the
+ *       latest SESSION_MAX_DAYS after signing in, unless revoked earlier. For accounts
+ *       with two-factor authentication, no cookie is issued yet: the response carries a challenge to
+ *       send with a code to /api/auth/login/2fa.
  *     tags: [Auth]
  *     requestBody:
  *       required: true
@@ -32,7 +59,7 @@ const isProd = process.env.NODE_ENV === "production";
  *             $ref: '#/components/schemas/LoginRequest'
  *     responses:
  *       200:
- *         description: Successfully authenticated
+ *         description: Successfully authenticated, or password accepted and a code required
  *         content:
  *           application/json:
  *             schema:
@@ -41,6 +68,8 @@ const isProd = process.env.NODE_ENV === "production";
  *         description: Missing credentials
  *       401:
  *         description: Invalid credentials
+ *       403:
+ *         description: Account deactivated
  *     examples:
  *       application/json:
  *         request:
@@ -61,19 +90,99 @@ router.post("/login", async (req, res) => {
   const { email, password } = (req.body ?? {}) as { email?: string; password?: string };
   if (!email || !password) return res.status(400).json({ error: "Missing credentials" });
 
-  const user = await prisma.user.findUnique({ where: { email } });
+  // Emails are stored in lower case (see ForgotInput and the users admin API)
+  const user = await prisma.user.findUnique({ where: { email: String(email).trim().toLowerCase() } });
   if (!user) return res.status(401).json({ error: "Invalid credentials" });
 
   const ok = await bcrypt.compare(password, user.password);
   if (!ok) return res.status(401).json({ error: "Invalid credentials" });
+  if (!user.active) return res.status(403).json({ error: "Account deactivated" });
 
-  const token = jwt.sign({ uid: user.id, role: user.role }, JWT_SECRET, { expiresIn: "7d" });
-  res.cookie("token", token, {
-    httpOnly: true,
-    sameSite: "lax",
-    secure: isProd,
-    path: "/",
-  });
+  if (user.totpEnabledAt) {
+    return res.json({ ok: true, twoFactorRequired: true, challenge: signLoginChallenge(user.id) });
+  }
+  await startSession(req, res, user);
+  res.json({ ok: true });
+});
+
+/**
+ * @brief Zod schema for the second login step: a code from the app, or a recovery code.
+ */
+const SecondStep = z
+  .object({
+    challenge: z.string().min(1),           /**< Challenge returned by /login */
+    code: z.string().max(20).optional(),    /**< Code from the authenticator app */
+    recoveryCode: z.string().max(40).optional(),
+  })
+  .refine(b => !!b.code !== !!b.recoveryCode, { message: "Send either code or recoveryCode" });
+
+/**
+ * @swagger
+ * /api/auth/login/2fa:
+ *   post:
+ *     summary: Finish logging in with a two-factor code
+ *     description: >
+ *       Second login step of accounts with two-factor authentication: exchanges the challenge returned
+ *       by /api/auth/login, valid for 5 minutes, and a code from the authenticator app (or an unused
+ *       recovery code, which is then used up) for the session cookie.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challenge]
+ *             properties:
+ *               challenge:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *               recoveryCode:
+ *                 type: string
+ *                 example: "abcde-fghij"
+ *     responses:
+ *       200:
+ *         description: Successfully authenticated
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 ok:
+ *                   type: boolean
+ *                 recoveryCodesLeft:
+ *                   type: integer
+ *                   description: Unused recovery codes, when one was used
+ *       400:
+ *         description: Invalid payload
+ *       401:
+ *         description: Challenge expired or invalid, or wrong code
+ *       403:
+ *         description: Account deactivated
+ *       429:
+ *         description: Too many requests
+ */
+router.post("/login/2fa", async (req, res) => {
+  const parsed = SecondStep.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const { challenge, code, recoveryCode } = parsed.data;
+
+  const uid = verifyLoginChallenge(challenge);
+  if (!uid) return res.status(401).json({ error: "Login expired, sign in again" });
+  const user = await prisma.user.findUnique({ where: { id: uid }, select: { id: true, active: true } });
+  if (!user) return res.status(401).json({ error: "Login expired, sign in again" });
+  if (!user.active) return res.status(403).json({ error: "Account deactivated" });
+
+  const accepted = await verifySecondFactor(uid, { code, recoveryCode });
+  if (!accepted) return res.status(401).json({ error: "Invalid code" });
+
+  await startSession(req, res, user);
+  if (accepted === "recovery") {
+    const recoveryCodesLeft = await prisma.recoveryCode.count({ where: { userId: uid, usedAt: null } });
+    return res.json({ ok: true, recoveryCodesLeft });
+  }
   res.json({ ok: true });
 });
 
@@ -82,7 +191,7 @@ router.post("/login", async (req, res) => {
  * /api/auth/logout:
  *   post:
  *     summary: Log out current user
- *     description: Clears the authentication cookie, effectively logging out the user.
+ *     description: Ends the current session and clears the authentication cookie.
  *     tags: [Auth]
  *     responses:
  *       200:
@@ -92,7 +201,9 @@ router.post("/login", async (req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/LogoutResponse'
  */
-router.post("/logout", (_req, res) => {
+router.post("/logout", async (req, res) => {
+  const payload = req.cookies?.token ? verifyToken(req.cookies.token) : null;
+  if (payload?.sid) await revokeSession(payload.uid, payload.sid);
   res.clearCookie("token");
   res.json({ ok: true });
 });
@@ -102,7 +213,10 @@ router.post("/logout", (_req, res) => {
  * /api/auth/me:
  *   get:
  *     summary: Get current authenticated user
- *     description: Returns information about the currently authenticated user based on the JWT cookie.
+ *     description: >
+ *       Returns information about the currently authenticated user based on the session cookie, with the
+ *       permissions granted by their role (the dashboard only shows the matching sections) and
+ *       whether two-factor authentication is on, or must be enabled before anything else.
  *     tags: [Auth]
  *     responses:
  *       200:
@@ -112,25 +226,137 @@ router.post("/logout", (_req, res) => {
  *             schema:
  *               $ref: '#/components/schemas/MeResponse'
  *       401:
- *         description: Invalid or missing token
+ *         description: Invalid or missing token, session ended, or deactivated account
  */
 router.get("/me", async (req, res) => {
   const token = req.cookies?.token;
   if (!token) return res.status(401).json({ ok: false });
 
   try {
-    const { uid } = jwt.verify(token, JWT_SECRET) as { uid: string };
+    const session = await resolveSession(token);
+    if (!session) return res.status(401).json({ ok: false });
     const user = await prisma.user.findUnique({
-      where: { id: uid },
-      select: { id: true, email: true, role: true, createdAt: true },
+      where: { id: session.userId },
+      select: { id: true, email: true, role: true, active: true, createdAt: true, totpEnabledAt: true },
+    });
+    if (!user || !user.active) return res.status(401).json({ ok: false });
+    const { id, email, role, createdAt } = user;
+    const enabled = !!user.totpEnabledAt;
+    res.status(200).json({
+      ok: true,
+      user: { id, email, role, createdAt },
+      permissions: ROLE_PERMISSIONS[role],
+      twoFactor: { enabled, required: mustEnableTwoFactor({ role, twoFactorEnabled: enabled }) },
     });
-    if (!user) return res.status(401).json({ ok: false });
-    res.status(200).json({ ok: true, user });
   } catch {
     res.status(401).json({ ok: false });
   }
 });
 
+/**
+ * @brief Zod schema for requesting a password reset link.
+ */
+const ForgotInput = z.object({
+  email: z.string().trim().toLowerCase().email().max(200),
+});
+
+/**
+ * @brief Zod schema for choosing a password from a reset or invitation link.
+ */
+const ResetInput = z.object({
+  token: z.string().min(1).max(200),   /**< Token from the emailed link */
+  password: NewPassword,
+});
+
+/**
+ * @swagger
+ * /api/auth/forgot:
+ *   post:
+ *     summary: Request a password reset link
+ *     description: >
+ *       Emails a link to choose a new password, valid for 1 hour and usable once, when the address
+ *       belongs to an active account. The response is the same whether or not it does, so the
+ *       endpoint cannot be used to find out which addresses have an account.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       202:
+ *         description: Request accepted
+ *       400:
+ *         description: Invalid payload
+ *       429:
+ *         description: Too many requests
+ */
+router.post("/forgot", async (req, res) => {
+  const parsed = ForgotInput.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  res.status(202).json({ ok: true });
+
+  // Sent after responding so that the response time does not reveal whether the account exists
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: parsed.data.email },
+      select: { id: true, email: true, active: true },
+    });
+    if (user?.active) await sendPasswordLink(user, "RESET");
+  } catch (e) {
+    console.error("Password reset email failed:", e);
+  }
+});
+
+/**
+ * @swagger
+ * /api/auth/reset:
+ *   post:
+ *     summary: Choose a password from an emailed link
+ *     description: >
+ *       Sets the password of the account a reset or invitation link was sent to. The link is used up
+ *       and the account's other pending links are cancelled. Every session of the account is ended,
+ *       on all devices; the user then signs in as usual.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, password]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 format: password
+ *                 minLength: 10
+ *                 maxLength: 72
+ *     responses:
+ *       200:
+ *         description: Password set
+ *       400:
+ *         description: Invalid payload, or link invalid, already used or expired
+ *       429:
+ *         description: Too many requests
+ */
+router.post("/reset", async (req, res) => {
+  const parsed = ResetInput.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  const done = await resetPassword(parsed.data.token, parsed.data.password);
+  if (!done) return res.status(400).json({ error: "Invalid or expired link" });
+  res.json({ ok: true });
+});
+
 export default router;
 
 /**
@@ -157,6 +383,11 @@ export default router;
  *         ok:
  *           type: boolean
  *           example: true
+ *         twoFactorRequired:
+ *           type: boolean
+ *           description: The password was right; send the challenge and a code to /api/auth/login/2fa
+ *         challenge:
+ *           type: string
  *         error:
  *           type: string
  *           example: Invalid credentials
@@ -183,10 +414,25 @@ export default router;
  *               example: "user@example.com"
  *             role:
  *               type: string
- *               example: "admin"
+ *               enum: [OWNER, EDITOR, VIEWER]
+ *               example: "OWNER"
  *             createdAt:
  *               type: string
  *               format: date-time
  *               example: "2025-01-01T00:00:00.000Z"
+ *         permissions:
+ *           type: array
+ *           description: What the user's role allows (see src/lib/permissions.ts)
+ *           items:
+ *             type: string
+ *             enum: [content, reservations, analytics, users]
+ *         twoFactor:
+ *           type: object
+ *           properties:
+ *             enabled:
+ *               type: boolean
+ *             required:
+ *               type: boolean
+ *               description: The role requires 2FA and it is off; admin routes answer 403 until it is enabled
  */
 
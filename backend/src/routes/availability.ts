@@ -0,0 +1,158 @@
+/**
+ * @file availability.ts
+ * @brief Public API route returning the days and services the restaurant is open
+ * @details
+ * Merges the weekly business hours with one-off and recurring closures into a per-day list of
+ * open intervals. The Contact calendar and the booking form both read this endpoint.
+ * @date 2025
+ * @author 0isoft
+ */
+
+import { Router } from "express";
+import { availabilityBetween, MAX_RANGE_DAYS } from "../lib/availability";
+import { LAST_SEATING_MIN } from "../lib/reservations";
+import { dateToYMD, isYMD, nowInZone, ymdToDate } from "../lib/time";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Availability
+ *   description: Public endpoint for open days and services
+ */
+
+/**
+ * @swagger
+ * /api/availability:
+ *   get:
+ *     summary: Retrieve open intervals per day
+ *     description: >
+ *       Returns every day between `from` and `to` (inclusive) with its open lunch/dinner intervals,
+ *       computed from the business hours minus one-off and expanded recurring closures (recurring
+ *       occurrences cancelled by an exceptional opening are ignored).
+ *       Defaults to today (Europe/Brussels) and the following 30 days. At most 366 days per request.
+ *     tags: [Availability]
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2025-11-01"
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *           example: "2025-11-30"
+ *     responses:
+ *       200:
+ *         description: Availability per day
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Availability'
+ *       400:
+ *         description: Invalid or too long range
+ */
+router.get("/", async (req, res) => {
+  const { from: qsFrom, to: qsTo } = req.query as { from?: string; to?: string };
+
+  const from = qsFrom ?? nowInZone().ymd;
+  // Checked before deriving the default `to`: an invalid day would make the date arithmetic throw
+  if (!isYMD(from) || (qsTo !== undefined && !isYMD(qsTo))) {
+    return res.status(400).json({ error: "from and to must be YYYY-MM-DD" });
+  }
+  const to = qsTo ?? dateToYMD(new Date(ymdToDate(from).getTime() + 30 * 86_400_000));
+  if (to < from) return res.status(400).json({ error: "to must not be before from" });
+  if ((ymdToDate(to).getTime() - ymdToDate(from).getTime()) / 86_400_000 >= MAX_RANGE_DAYS) {
+    return res.status(400).json({ error: `Range is limited to ${MAX_RANGE_DAYS} days` });
+  }
+
+  const days = await availabilityBetween(from, to);
+
+  res.set("Cache-Control", "public, max-age=60");
+  res.json({ from, to, lastSeatingMin: LAST_SEATING_MIN, days });
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Availability:
+ *       type: object
+ *       properties:
+ *         from:
+ *           type: string
+ *           format: date
+ *         to:
+ *           type: string
+ *           format: date
+ *         lastSeatingMin:
+ *           type: integer
+ *           description: Last arrival is this many minutes before the end of an interval
+ *           example: 30
+ *         days:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/DayAvailability'
+ *     DayAvailability:
+ *       type: object
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *           example: "2025-11-14"
+ *         weekday:
+ *           type: integer
+ *           description: Monday=0 … Sunday=6
+ *         open:
+ *           type: boolean
+ *         intervals:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               slot:
+ *                 type: string
+ *                 enum: [LUNCH, DINNER]
+ *               start:
+ *                 type: string
+ *                 example: "12:00"
+ *               end:
+ *                 type: string
+ *                 example: "14:30"
+ *               startMin:
+ *                 type: integer
+ *               endMin:
+ *                 type: integer
+ *         closures:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               slot:
+ *                 type: string
+ *                 enum: [ALL, LUNCH, DINNER]
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ *               kind:
+ *                 type: string
+ *                 enum: [EXCEPTIONAL, RECURRING]
+ *         openings:
+ *           type: array
+ *           description: Exceptional openings cancelling the recurring closures of that day
+ *           items:
+ *             type: object
+ *             properties:
+ *               slot:
+ *                 type: string
+ *                 enum: [ALL, LUNCH, DINNER]
+ *               note:
+ *                 type: string
+ *                 nullable: true
+ */
@@ -6,7 +6,8 @@
  */
 
 import { Router } from "express";
-import { prisma } from "../lib/prisma";
+import { closuresBetween, MAX_CLOSURES_RANGE_DAYS } from "../lib/closures";
+import { isYMD, nowInZone, ymdToDate } from "../lib/time";
 
 const router = Router();
 
@@ -24,7 +25,11 @@ const router = Router();
  *     summary: Retrieve closure information
  *     description: >
  *       Returns both one-time ("EXCEPTIONAL") closures and expanded recurring closures ("RECURRING") within the given date range.
- *       If no range is provided, defaults to the current date through 5 years ahead.
+ *       Multi-day closure periods are expanded to one EXCEPTIONAL entry per day, each carrying the whole `period`.
+ *       Recurring occurrences cancelled by an exceptional opening (override) are left out.
+ *       `start` defaults to today (Europe/Brussels) and `end` to 5 years after `start`, the longest range
+ *       accepted (1830 days).
+ *       Dates are calendar days, serialized as midnight UTC: the date part is the day.
  *     tags: [Closures]
  *     parameters:
  *       - name: start
@@ -66,68 +71,27 @@ const router = Router();
  *                     slot: "LUNCH"
  *                     note: "Weekly maintenance"
  *                     kind: "RECURRING"
+ *       400:
+ *         description: start or end is not a YYYY-MM-DD day, or the range is longer than 1830 days
  *       500:
  *         description: Internal server error
  */
 
 router.get("/", async (req, res) => {
   const { start: qsStart, end: qsEnd } = req.query as { start?: string; end?: string };
-
-  const { start, end } = (() => {
-    try {
-      if (qsStart && qsEnd) return { start: new Date(qsStart), end: new Date(qsEnd) };
-    } catch {}
-    const s = new Date();
-    s.setHours(0, 0, 0, 0);
-    const e = new Date(s);
-    e.setFullYear(e.getFullYear() + 5);
-    return { start: s, end: e };
-  })();
-
-  const oneOffs = await prisma.closure.findMany({
-    orderBy: { date: "asc" },
-    where: { date: { gte: start, lte: end } },
-  });
-
-  const rules = await prisma.recurringClosure.findMany();
-  const expanded: Array<{ id: string; date: Date; slot: "ALL" | "LUNCH" | "DINNER"; note: string | null }> = [];
-
-  for (const r of rules) {
-    const effStart = new Date(Math.max(start.getTime(), (r.startsOn?.getTime() ?? start.getTime())));
-    const effEnd = new Date(Math.min(end.getTime(), (r.endsOn?.getTime() ?? end.getTime())));
-    if (effStart > effEnd) continue;
-
-    const first = new Date(effStart);
-    const mon0 = (first.getDay() + 6) % 7;
-    const delta = (r.weekday - mon0 + 7) % 7;
-    first.setDate(first.getDate() + delta);
-
-    const intervalWeeks = r.interval ?? 1;
-    for (let d = new Date(first); d <= effEnd; d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 7 * intervalWeeks)) {
-      const iso = d.toISOString().slice(0, 10);
-      expanded.push({
-        id: `rec_${r.id}_${iso}`,
-        date: d,
-        slot: r.slot,
-        note: r.note ?? null,
-      });
-    }
+  if ((qsStart && !isYMD(qsStart)) || (qsEnd && !isYMD(qsEnd))) {
+    return res.status(400).json({ error: "start and end must be YYYY-MM-DD" });
   }
 
-  const out = [
-    ...oneOffs.map(o => ({
-      id: o.id,
-      date: o.date,
-      slot: o.slot,
-      note: o.note ?? null,
-      kind: "EXCEPTIONAL" as const,
-    })),
-    ...expanded.map(e => ({
-      ...e,
-      kind: "RECURRING" as const,
-    })),
-  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const start = ymdToDate(qsStart ?? nowInZone().ymd);
+  const end = qsEnd
+    ? ymdToDate(qsEnd)
+    : new Date(Date.UTC(start.getUTCFullYear() + 5, start.getUTCMonth(), start.getUTCDate()));
+  if ((end.getTime() - start.getTime()) / 86_400_000 >= MAX_CLOSURES_RANGE_DAYS) {
+    return res.status(400).json({ error: `Range is limited to ${MAX_CLOSURES_RANGE_DAYS} days` });
+  }
 
+  const out = await closuresBetween(start, end);
   res.json(out);
 });
 
@@ -169,5 +133,17 @@ export default router;
  *           description: Type of closure
  *           enum: [EXCEPTIONAL, RECURRING]
  *           example: "EXCEPTIONAL"
+ *         period:
+ *           type: object
+ *           description: Present when the day belongs to a multi-day closure period
+ *           properties:
+ *             id:
+ *               type: string
+ *             start:
+ *               type: string
+ *               format: date-time
+ *             end:
+ *               type: string
+ *               format: date-time
  */
 
@@ -0,0 +1,50 @@
+/**
+ * @file closuresIcs.ts
+ * @brief Public iCalendar feed of the restaurant's closures
+ * @details
+ * Lets customers subscribe to the closing days from their own calendar app. Notes are left out;
+ * the admin feed (`/api/admin/closures.ics`) includes them.
+ * @date 2025
+ * @author 0isoft
+ */
+
+import { Router } from "express";
+import { closuresCalendar } from "../lib/ics";
+import { parseLang } from "../lib/i18n";
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/closures.ics:
+ *   get:
+ *     summary: Subscribe to closures (iCalendar)
+ *     description: >
+ *       RFC 5545 feed of one-off closures, closure periods and recurring closures, from 30 days ago to one year ahead.
+ *       Whole-day closures are all-day events; lunch or dinner closures are timed events (Europe/Brussels)
+ *       covering that service's hours.
+ *     tags: [Closures]
+ *     parameters:
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *           default: fr
+ *     responses:
+ *       200:
+ *         description: iCalendar feed
+ *         content:
+ *           text/calendar:
+ *             schema:
+ *               type: string
+ */
+router.get("/", async (req, res) => {
+  const ics = await closuresCalendar({ lang: parseLang(req.query.lang), includeNotes: false });
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Content-Disposition", 'inline; filename="lorangerose-closures.ics"');
+  res.set("Cache-Control", "public, max-age=900");
+  res.send(ics);
+});
+
+export default router;
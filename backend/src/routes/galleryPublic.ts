@@ -1,6 +1,9 @@
 /**
  * @file galleryPublic.ts
- * @brief Public gallery API routes for retrieving published gallery items
+ * @brief Public gallery API routes for retrieving published gallery albums and items
+ * @details
+ * The gallery page shows one tab per published album (`/gallery/{slug}`), plus every published
+ * item across albums. Album titles are translated with the `lang` query parameter.
  * @version 1.0
  * @date 2025
  * @author 0isoft
@@ -8,9 +11,86 @@
 
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
+import { buildSrcSet } from "../lib/images";
+import { mediaUrl } from "../lib/storage";
+import { parseLang, pick } from "../lib/i18n";
+import type { Lang } from "../lib/i18n";
+import type { Prisma } from "@prisma/client";
 
 const router = Router();
 
+/**
+ * @brief Filter of the items shown on the public site: published, in a published album.
+ */
+const visibleItem = {
+  published: true,
+  asset: { published: true },
+  album: { published: true },
+} satisfies Prisma.GalleryItemWhereInput;
+
+/**
+ * @brief Asset fields needed to render an image with its variants.
+ */
+const assetSelect = {
+  id: true,
+  url: true,
+  key: true,
+  alt: true,
+  width: true,
+  height: true,
+  placeholder: true,
+  variants: { select: { format: true, width: true, url: true, key: true } },
+} satisfies Prisma.MediaAssetSelect;
+
+type PublicAsset = Prisma.MediaAssetGetPayload<{ select: typeof assetSelect }>;
+
+/**
+ * @brief Shapes a gallery item for the public site (see the GalleryItem schema).
+ * @param {{ sortOrder: number; asset: PublicAsset }} g - Item with its asset
+ * @returns {Object} Gallery item
+ */
+const toGalleryItem = (g: { sortOrder: number; asset: PublicAsset }) => ({
+  id: g.asset.id,
+  type: "GALLERY" as const,
+  url: mediaUrl(g.asset),
+  alt: g.asset.alt ?? null,
+  sortOrder: g.sortOrder,
+  published: true,
+  width: g.asset.width ?? null,
+  height: g.asset.height ?? null,
+  placeholder: g.asset.placeholder ?? null,
+  srcset: buildSrcSet(g.asset.variants),
+});
+
+/**
+ * @brief Relations loaded with an album: its cover and first item (the fallback cover), and the
+ * number of visible items.
+ */
+const albumInclude = {
+  cover: { select: assetSelect },
+  items: { where: visibleItem, orderBy: { sortOrder: "asc" }, take: 1, select: { sortOrder: true, asset: { select: assetSelect } } },
+  _count: { select: { items: { where: visibleItem } } },
+} satisfies Prisma.GalleryAlbumInclude;
+
+type PublicAlbum = Prisma.GalleryAlbumGetPayload<{ include: typeof albumInclude }>;
+
+/**
+ * @brief Shapes an album for the public site (see the GalleryAlbum schema).
+ * @param {PublicAlbum} a - Album loaded with `albumInclude`
+ * @param {Lang} lang - Language of the title
+ * @returns {Object} Album with its translated title, cover and item count
+ */
+function toAlbum(a: PublicAlbum, lang: Lang) {
+  const cover = a.cover ?? a.items[0]?.asset;
+  return {
+    id: a.id,
+    slug: a.slug,
+    title: pick(a, "title", lang),
+    cover: cover ? toGalleryItem({ sortOrder: 0, asset: cover }) : null,
+    itemCount: a._count.items,
+  };
+}
+
 /**
  * @swagger
  * tags:
@@ -24,8 +104,9 @@ const router = Router();
  *   get:
  *     summary: Retrieve all published gallery items
  *     description: >
- *       Returns all published gallery items with their associated media assets, ordered by sort order.  
- *       Only items where both the gallery record and its linked asset are marked as `published` are included.  
+ *       Returns all published gallery items with their associated media assets, ordered by album then sort order.  
+ *       Only items where the gallery record, its linked asset and its album are marked as `published` are included.  
+ *       Each item carries a `srcset` per format (AVIF, WebP) and a blurred `placeholder`.  
  *       Includes caching headers for client-side and CDN performance optimization.
  *     tags: [Gallery]
  *     responses:
@@ -55,43 +136,114 @@ const router = Router();
  *                     published: true
  *                     width: 1920
  *                     height: 1080
+ *                     placeholder: "data:image/webp;base64,UklGR…"
+ *                     srcset:
+ *                       avif: "/uploads/image_320.avif 320w, /uploads/image_640.avif 640w"
+ *                       webp: "/uploads/image_320.webp 320w, /uploads/image_640.webp 640w"
  *       500:
  *         description: Database or server error
  */
 router.get("/", async (_req, res) => {
   const items = await prisma.galleryItem.findMany({
-    where: {
-      published: true,
-      asset: { published: true },
-    },
+    where: visibleItem,
+    orderBy: [{ album: { sortOrder: "asc" } }, { sortOrder: "asc" }],
+    select: { sortOrder: true, asset: { select: assetSelect } },
+  });
+
+  res.set("Cache-Control", "public, max-age=60, stale-while-revalidate=300");
+  res.json(items.map(toGalleryItem));
+});
+
+/**
+ * @swagger
+ * /api/gallery/albums:
+ *   get:
+ *     summary: List the published gallery albums
+ *     description: >
+ *       Returns the published albums holding at least one visible item, ordered by sort order, with their
+ *       title in the requested language and their cover (the chosen cover image, or the album's first image).
+ *     tags: [Gallery]
+ *     parameters:
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *         description: Language of the titles (default fr)
+ *     responses:
+ *       200:
+ *         description: List of albums
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/GalleryAlbum'
+ */
+router.get("/albums", async (req, res) => {
+  const lang = parseLang(req.query.lang);
+  const albums = await prisma.galleryAlbum.findMany({
+    where: { published: true, items: { some: visibleItem } },
     orderBy: { sortOrder: "asc" },
-    select: {
-      sortOrder: true,
-      asset: {
-        select: {
-          id: true,
-          url: true,
-          alt: true,
-          width: true,
-          height: true,
-        },
-      },
-    },
+    include: albumInclude,
+  });
+
+  res.set("Cache-Control", "public, max-age=60, stale-while-revalidate=300");
+  res.json(albums.map(a => toAlbum(a, lang)));
+});
+
+/**
+ * @swagger
+ * /api/gallery/albums/{slug}:
+ *   get:
+ *     summary: Retrieve a published gallery album with its items
+ *     tags: [Gallery]
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: interieur
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *         description: Language of the title (default fr)
+ *     responses:
+ *       200:
+ *         description: The album and its published items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/GalleryAlbum'
+ *                 - type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GalleryItem'
+ *       404:
+ *         description: No published album with this slug
+ */
+router.get("/albums/:slug", async (req, res) => {
+  const lang = parseLang(req.query.lang);
+  const album = await prisma.galleryAlbum.findFirst({
+    where: { slug: req.params.slug, published: true },
+    include: albumInclude,
   });
+  if (!album) return res.status(404).json({ error: "Album not found" });
 
-  const out = items.map((g) => ({
-    id: g.asset.id,
-    type: "GALLERY" as const,
-    url: g.asset.url,
-    alt: g.asset.alt ?? null,
-    sortOrder: g.sortOrder,
-    published: true,
-    width: g.asset.width ?? null,
-    height: g.asset.height ?? null,
-  }));
+  const items = await prisma.galleryItem.findMany({
+    where: { ...visibleItem, albumId: album.id },
+    orderBy: { sortOrder: "asc" },
+    select: { sortOrder: true, asset: { select: assetSelect } },
+  });
 
   res.set("Cache-Control", "public, max-age=60, stale-while-revalidate=300");
-  res.json(out);
+  res.json({ ...toAlbum(album, lang), items: items.map(toGalleryItem) });
 });
 
 export default router;
@@ -144,5 +296,30 @@ export default router;
  *           nullable: true
  *           description: Media height in pixels (if known)
  *           example: 1080
+ *         placeholder:
+ *           type: string
+ *           nullable: true
+ *           description: Blurred low-resolution preview (data URI) to show while loading
+ *         srcset:
+ *           $ref: '#/components/schemas/MediaSrcSet'
+ *     GalleryAlbum:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         slug:
+ *           type: string
+ *           description: URL segment of the album page (/gallery/{slug})
+ *           example: "interieur"
+ *         title:
+ *           type: string
+ *           description: Title in the requested language (falls back to French)
+ *           example: "Intérieur"
+ *         cover:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/GalleryItem'
+ *         itemCount:
+ *           type: integer
+ *           description: Number of published items
  */
-
@@ -8,6 +8,9 @@
 
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
+import { parseLang, pick } from "../lib/i18n";
+import { effectiveHours, minToHHMM, serviceIntervals, type Interval } from "../lib/hours";
+import { dateToYMD, isYMD, nowInZone, ymdToDate } from "../lib/time";
 
 const router = Router();
 
@@ -25,9 +28,25 @@ const router = Router();
  *     summary: Retrieve published business hours
  *     description: >
  *       Returns an array of business hours entries for each weekday, ordered from Monday (0) to Sunday (6).  
- *       Each entry includes the weekday index and a human-readable `text` string such as `"11:00–14:00, 17:30–22:00"`.  
- *       If a day is closed, the `text` field will be an empty string.
+ *       Each entry includes the weekday index, a human-readable `text` in the requested language such as
+ *       `"11h00–14h00, 17h30–22h00"`, and the structured `lunch` / `dinner` intervals (null when closed).  
+ *       If a day is closed, the `text` field will be an empty string.  
+ *       Each weekday comes from the schedule in force on `date` (today by default), so planned
+ *       changes such as summer hours can be previewed.
  *     tags: [Business Hours]
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Day whose schedule to return (defaults to today, Europe/Brussels)
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *           default: fr
  *     responses:
  *       200:
  *         description: List of business hours for the week
@@ -42,21 +61,45 @@ const router = Router();
  *                 summary: Example response
  *                 value:
  *                   - weekday: 0
- *                     text: "11:00–14:00, 17:30–22:00"
+ *                     text: "11h00–14h00, 17h30–22h00"
+ *                     closedAllDay: false
+ *                     lunch: { start: "11:00", end: "14:00", startMin: 660, endMin: 840 }
+ *                     dinner: { start: "17:30", end: "22:00", startMin: 1050, endMin: 1320 }
  *                   - weekday: 1
  *                     text: ""
- *                   - weekday: 2
- *                     text: "11:30–15:00, 18:00–22:30"
+ *                     closedAllDay: true
+ *                     lunch: null
+ *                     dinner: null
+ *       400:
+ *         description: Invalid date
  *       500:
  *         description: Internal server error
  */
-router.get("/", async (_req, res) => {
-  const rows = await prisma.businessHours.findMany({ orderBy: { weekday: "asc" } });
+router.get("/", async (req, res) => {
+  const lang = parseLang(req.query.lang);
+  const date = typeof req.query.date === "string" ? req.query.date : nowInZone().ymd;
+  if (!isYMD(date)) return res.status(400).json({ error: "date must be YYYY-MM-DD" });
+
+  const all = await prisma.businessHours.findMany();
+  const rows = [0, 1, 2, 3, 4, 5, 6]
+    .map(weekday => effectiveHours(all, weekday, ymdToDate(date)))
+    .filter(r => r !== null);
 
-  const out = rows.map(r => ({
-    weekday: r.weekday,
-    text: r.displayText ?? "",
-  }));
+  const view = (i: Interval | null) =>
+    i ? { start: minToHHMM(i.start), end: minToHHMM(i.end), startMin: i.start, endMin: i.end } : null;
+
+  const out = rows.map(r => {
+    const { lunch, dinner } = serviceIntervals(r);
+    return {
+      weekday: r.weekday,
+      text: r.closedAllDay ? "" : pick(r, "displayText", lang) ?? "",
+      closedAllDay: r.closedAllDay,
+      lunch: view(lunch),
+      dinner: view(dinner),
+      effectiveFrom: r.effectiveFrom ? dateToYMD(r.effectiveFrom) : null,
+      effectiveTo: r.effectiveTo ? dateToYMD(r.effectiveTo) : null,
+    };
+  });
 
   res.json(out);
 });
@@ -79,8 +122,42 @@ export default router;
  *           example: 0
  *         text:
  *           type: string
- *           description: Human-readable opening hours, or empty string if closed
- *           example: "11:00–14:00, 17:30–22:00"
+ *           description: Human-readable opening hours in the requested language, or empty string if closed
+ *           example: "11h00–14h00, 17h30–22h00"
+ *         closedAllDay:
+ *           type: boolean
+ *         lunch:
+ *           $ref: '#/components/schemas/HoursInterval'
+ *         dinner:
+ *           $ref: '#/components/schemas/HoursInterval'
+ *         effectiveFrom:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: First day of the schedule in force (null = base schedule)
+ *         effectiveTo:
+ *           type: string
+ *           format: date
+ *           nullable: true
+ *           description: Last day of the schedule in force (null = until replaced)
+ *     HoursInterval:
+ *       type: object
+ *       nullable: true
+ *       description: Open interval of a service, null when the service is closed
+ *       properties:
+ *         start:
+ *           type: string
+ *           example: "11:00"
+ *         end:
+ *           type: string
+ *           example: "14:00"
+ *         startMin:
+ *           type: integer
+ *           description: Minutes since midnight
+ *           example: 660
+ *         endMin:
+ *           type: integer
+ *           example: 840
  */
 
 export {};
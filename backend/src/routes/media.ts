@@ -8,6 +8,7 @@
 
 import { Router } from "express";
 import { prisma } from "../lib/prisma";
+import { withSrcSet } from "../lib/images";
 
 const router = Router();
 
@@ -25,16 +26,17 @@ const router = Router();
  *     summary: Retrieve published media assets
  *     description: >
  *       Returns a list of published media assets.  
- *       You can optionally filter results by `type` (e.g. `"HERO"`, `"MENU"`, `"ANNOUNCEMENT"`)  
+ *       You can optionally filter results by `type` (e.g. `"HERO"`, `"MENU"`, `"ANNOUNCEMENT"`, `"GALLERY"`)  
  *       and/or limit the number of returned items via the `take` query parameter.  
- *       If `type=MENU` and no `take` is provided, defaults to returning 10 items.
+ *       If `type=MENU` and no `take` is provided, defaults to returning 10 items.  
+ *       Images carry a `srcset` per format (AVIF, WebP) and a blurred `placeholder`.
  *     tags: [Media]
  *     parameters:
  *       - in: query
  *         name: type
  *         schema:
  *           type: string
- *           enum: [HERO, MENU, ANNOUNCEMENT]
+ *           enum: [HERO, MENU, ANNOUNCEMENT, GALLERY]
  *         description: Filter by media type
  *         example: HERO
  *       - in: query
@@ -63,6 +65,12 @@ const router = Router();
  *                     published: true
  *                     sortOrder: 1
  *                     alt: "Restaurant Hero Banner"
+ *                     width: 2400
+ *                     height: 1600
+ *                     placeholder: "data:image/webp;base64,UklGR…"
+ *                     srcset:
+ *                       avif: "/uploads/banner_320.avif 320w, /uploads/banner_640.avif 640w"
+ *                       webp: "/uploads/banner_320.webp 320w, /uploads/banner_640.webp 640w"
  *       500:
  *         description: Database or server error
  */
@@ -72,7 +80,7 @@ router.get("/", async (req, res) => {
   const take = Number.isFinite(takeParam) && takeParam > 0 ? takeParam : undefined;
 
   const where: any = { published: true };
-  if (qType === "HERO" || qType === "MENU" || qType === "ANNOUNCEMENT") {
+  if (qType === "HERO" || qType === "MENU" || qType === "ANNOUNCEMENT" || qType === "GALLERY") {
     where.type = qType;
   }
 
@@ -80,9 +88,10 @@ router.get("/", async (req, res) => {
     where,
     orderBy: qType ? [{ sortOrder: "asc" }] : [{ type: "asc" }, { sortOrder: "asc" }],
     take: qType === "MENU" ? (take ?? 10) : take,
+    include: { variants: true },
   });
 
-  res.json(rows);
+  res.json(rows.map(withSrcSet));
 });
 
 export default router;
@@ -111,6 +120,23 @@ export default router;
  *           type: string
  *           description: URL path to the media file
  *           example: "/uploads/banner.jpg"
+ *         mimeType:
+ *           type: string
+ *           nullable: true
+ *           description: Type detected on upload (MENU may also hold "application/pdf", HERO and ANNOUNCEMENT "video/mp4" or "video/webm")
+ *           example: "image/jpeg"
+ *         posterUrl:
+ *           type: string
+ *           nullable: true
+ *           description: Poster frame of a video
+ *         duration:
+ *           type: number
+ *           nullable: true
+ *           description: Video length in seconds
+ *         muted:
+ *           type: boolean
+ *         loop:
+ *           type: boolean
  *         published:
  *           type: boolean
  *           description: Whether the media asset is published (always true for this endpoint)
@@ -124,5 +150,19 @@ export default router;
  *           nullable: true
  *           description: Alternative text for accessibility
  *           example: "Restaurant Hero Banner"
+ *         width:
+ *           type: integer
+ *           nullable: true
+ *           description: Width in pixels (detected on upload for images)
+ *         height:
+ *           type: integer
+ *           nullable: true
+ *           description: Height in pixels (detected on upload for images)
+ *         placeholder:
+ *           type: string
+ *           nullable: true
+ *           description: Blurred low-resolution preview (data URI) to show while loading
+ *         srcset:
+ *           $ref: '#/components/schemas/MediaSrcSet'
  */
 
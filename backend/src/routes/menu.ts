@@ -0,0 +1,217 @@
+/**
+ * @file menu.ts
+ * @brief Public API route for retrieving the published, structured menu
+ * @version 1.0
+ * @date 2025
+ * @author 0isoft
+ */
+
+import { Router } from "express";
+import { prisma } from "../lib/prisma";
+import { parseLang, pick } from "../lib/i18n";
+import { ALLERGENS, DIETS, parseCodes } from "../lib/allergens";
+import { mediaUrl } from "../lib/storage";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Menu
+ *   description: Public endpoint for the restaurant menu
+ */
+
+/**
+ * @swagger
+ * /api/menu:
+ *   get:
+ *     summary: Retrieve the published menu
+ *     description: >
+ *       Returns published sections with their published dishes and variants, resolved in the requested language
+ *       (falls back to French when a translation is missing).
+ *       `printable` lists the published MENU images, offered as an optional printable version of the menu.
+ *       Dishes can be filtered by allergens to avoid and by dietary tags; sections left without dishes are then omitted.
+ *     tags: [Menu]
+ *     parameters:
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           enum: [fr, en, nl]
+ *           default: fr
+ *         description: Language of the returned texts
+ *       - in: query
+ *         name: exclude
+ *         schema:
+ *           type: string
+ *           example: "GLUTEN,MILK"
+ *         description: Comma-separated allergens the dishes must not contain
+ *       - in: query
+ *         name: diet
+ *         schema:
+ *           type: string
+ *           example: "VEGAN"
+ *         description: Comma-separated dietary tags (VEGETARIAN, VEGAN, HALAL) the dishes must all carry
+ *     responses:
+ *       200:
+ *         description: The menu
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PublicMenu'
+ */
+router.get("/", async (req, res) => {
+  const lang = parseLang(req.query.lang);
+  const exclude = parseCodes(req.query.exclude, ALLERGENS);
+  const diet = parseCodes(req.query.diet, DIETS);
+  const filtered = exclude.length > 0 || diet.length > 0;
+
+  const dishWhere = {
+    published: true,
+    ...(exclude.length ? { NOT: { allergens: { hasSome: exclude } } } : {}),
+    ...(diet.includes("VEGETARIAN") ? { vegetarian: true } : {}),
+    ...(diet.includes("VEGAN") ? { vegan: true } : {}),
+    ...(diet.includes("HALAL") ? { halal: true } : {}),
+  };
+
+  const [sections, printable] = await Promise.all([
+    prisma.menuSection.findMany({
+      where: { published: true },
+      orderBy: { sortOrder: "asc" },
+      include: {
+        dishes: {
+          where: dishWhere,
+          orderBy: { sortOrder: "asc" },
+          include: { variants: { orderBy: { sortOrder: "asc" } } },
+        },
+      },
+    }),
+    prisma.mediaAsset.findMany({
+      where: { type: "MENU", published: true },
+      orderBy: { sortOrder: "asc" },
+      take: 10,
+      select: { id: true, url: true, key: true, mimeType: true, alt: true, width: true, height: true },
+    }),
+  ]);
+
+  const out = {
+    lang,
+    sections: sections.filter(s => !filtered || s.dishes.length > 0).map(s => ({
+      id: s.id,
+      title: pick(s, "title", lang),
+      description: pick(s, "description", lang),
+      dishes: s.dishes.map(d => ({
+        id: d.id,
+        name: pick(d, "name", lang),
+        description: pick(d, "description", lang),
+        priceCents: d.priceCents,
+        allergens: d.allergens,
+        vegetarian: d.vegetarian,
+        vegan: d.vegan,
+        halal: d.halal,
+        spicyLevel: d.spicyLevel,
+        variants: d.variants.map(v => ({
+          id: v.id,
+          label: pick(v, "label", lang),
+          priceCents: v.priceCents,
+        })),
+      })),
+    })),
+    printable: printable.map(({ key, ...m }) => ({ ...m, url: mediaUrl({ url: m.url, key }) })),
+  };
+
+  res.set("Cache-Control", "public, max-age=60, stale-while-revalidate=300");
+  res.json(out);
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PublicMenu:
+ *       type: object
+ *       properties:
+ *         lang:
+ *           type: string
+ *           example: "fr"
+ *         sections:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PublicMenuSection'
+ *         printable:
+ *           type: array
+ *           description: Published MENU images or PDFs (printable menu)
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               url:
+ *                 type: string
+ *               mimeType:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "application/pdf"
+ *               alt:
+ *                 type: string
+ *                 nullable: true
+ *     PublicMenuSection:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         title:
+ *           type: string
+ *           example: "Ramen"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         dishes:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/PublicDish'
+ *     PublicDish:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *           example: "Tonkotsu ramen"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         priceCents:
+ *           type: integer
+ *           nullable: true
+ *           example: 1650
+ *         allergens:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Allergen'
+ *         vegetarian:
+ *           type: boolean
+ *         vegan:
+ *           type: boolean
+ *         halal:
+ *           type: boolean
+ *         spicyLevel:
+ *           type: integer
+ *           minimum: 0
+ *           maximum: 3
+ *         variants:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: string
+ *               label:
+ *                 type: string
+ *                 example: "12 pcs"
+ *               priceCents:
+ *                 type: integer
+ *                 example: 1200
+ */
@@ -0,0 +1,175 @@
+/**
+ * @file reservations.ts
+ * @brief Public API route for booking a table online
+ * @details
+ * A booking is accepted (as PENDING, until the restaurant confirms it) only when the requested
+ * time falls inside the lunch or dinner hours, the day is not blocked by a closure, and the
+ * service still has enough covers left.
+ * @date 2025
+ * @author 0isoft
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { hhmmToMin } from "../lib/hours";
+import { isYMD, ymdToDate } from "../lib/time";
+import { MAX_PARTY, bookedCovers, capacityFor, checkBookable } from "../lib/reservations";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Reservations
+ *   description: Public endpoint for booking a table
+ */
+
+/**
+ * @brief Zod schema for a booking request.
+ */
+const ReservationCreate = z.object({
+  date: z.string().refine(isYMD, "Expected YYYY-MM-DD"),          /**< Day of the booking */
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Expected HH:MM"),      /**< Arrival time (Europe/Brussels) */
+  covers: z.coerce.number().int().min(1).max(MAX_PARTY),          /**< Number of guests */
+  name: z.string().trim().min(1).max(120),
+  email: z.string().trim().email().max(200),
+  phone: z.string().trim().max(40).optional().nullable(),
+  note: z.string().trim().max(1000).optional().nullable(),        /**< Allergies, high chair, … */
+});
+
+/**
+ * @swagger
+ * /api/reservations:
+ *   post:
+ *     summary: Book a table
+ *     description: >
+ *       Creates a PENDING reservation. The service (LUNCH or DINNER) is derived from the arrival time.
+ *       Bookings are refused on closed days (one-off or recurring closures), outside the business hours,
+ *       in the past, and when the service has no covers left.
+ *     tags: [Reservations]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ReservationCreate'
+ *     responses:
+ *       201:
+ *         description: Reservation received (pending confirmation)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReservationReceipt'
+ *       400:
+ *         description: Invalid payload, closed day, or time outside business hours
+ *       409:
+ *         description: Not enough covers left for this service
+ */
+router.post("/", async (req, res) => {
+  const parsed = ReservationCreate.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid reservation", issues: parsed.error.issues });
+  }
+  const data = parsed.data;
+  const timeMin = hhmmToMin(data.time)!;
+
+  const bookable = await checkBookable(data.date, timeMin);
+  if (!bookable.ok) return res.status(400).json({ error: bookable.error });
+  const { slot } = bookable;
+
+  try {
+    const created = await prisma.$transaction(async (tx) => {
+      const [capacity, booked] = await Promise.all([
+        capacityFor(tx, slot),
+        bookedCovers(tx, data.date, slot),
+      ]);
+      if (booked + data.covers > capacity) return null;
+
+      return tx.reservation.create({
+        data: {
+          date: ymdToDate(data.date),
+          slot,
+          timeMin,
+          covers: data.covers,
+          name: data.name,
+          email: data.email,
+          phone: data.phone || null,
+          note: data.note || null,
+        },
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!created) {
+      return res.status(409).json({ error: "Fully booked for this service" });
+    }
+
+    res.status(201).json({
+      id: created.id,
+      status: created.status,
+      date: data.date,
+      time: data.time,
+      slot: created.slot,
+      covers: created.covers,
+    });
+  } catch (e: any) {
+    if (e.code === "P2034") {
+      // concurrent booking for the same service: let the client retry
+      return res.status(409).json({ error: "Please try again" });
+    }
+    throw e;
+  }
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReservationCreate:
+ *       type: object
+ *       required: [date, time, covers, name, email]
+ *       properties:
+ *         date:
+ *           type: string
+ *           format: date
+ *           example: "2025-11-14"
+ *         time:
+ *           type: string
+ *           example: "19:30"
+ *         covers:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 12
+ *         name:
+ *           type: string
+ *         email:
+ *           type: string
+ *           format: email
+ *         phone:
+ *           type: string
+ *           nullable: true
+ *         note:
+ *           type: string
+ *           nullable: true
+ *     ReservationReceipt:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [PENDING, CONFIRMED, CANCELLED]
+ *         date:
+ *           type: string
+ *           format: date
+ *         time:
+ *           type: string
+ *         slot:
+ *           type: string
+ *           enum: [LUNCH, DINNER]
+ *         covers:
+ *           type: integer
+ */
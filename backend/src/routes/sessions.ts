@@ -0,0 +1,178 @@
+/**
+ * @file sessions.ts
+ * @brief API routes for the signed-in user's sessions, one per device signed in.
+ * @details
+ * Lists the active sessions with their device (from the user agent), approximate location and last
+ * activity, and ends them: one at a time, or all but the current one ("log out everywhere else").
+ * An ended session is refused by every authenticated route at its next request. See lib/sessions.ts.
+ * All endpoints require authentication.
+ */
+
+import { Router } from "express";
+import geoip from "geoip-lite";
+import { prisma } from "../lib/prisma";
+import type { AuthedRequest } from "../middleware/requireAdmin";
+import { revokeFeedToken } from "../lib/feedTokens";
+import { activeSessionWhere, describeDevice, revokeSession, revokeUserSessions, sessionEndsAt } from "../lib/sessions";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Sessions
+ *   description: Devices the signed-in user is signed in on
+ */
+
+/**
+ * @brief Approximate location of an IP address, e.g. "Brussels, BE".
+ * @param {string | null} ip
+ * @returns {string | null} null for private addresses and unknown ones
+ */
+function locate(ip: string | null): string | null {
+  const geo = ip ? geoip.lookup(ip) : null;
+  if (!geo) return null;
+  return [geo.city, geo.country].filter(Boolean).join(", ") || null;
+}
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   get:
+ *     summary: List the active sessions of the signed-in user
+ *     description: Most recently used first.
+ *     tags: [Sessions]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Active sessions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Session'
+ */
+router.get("/", async (req: AuthedRequest, res) => {
+  const sessions = await prisma.session.findMany({
+    where: { userId: req.user!.id, ...activeSessionWhere() },
+    orderBy: { lastSeenAt: "desc" },
+    select: { id: true, userAgent: true, ip: true, createdAt: true, lastSeenAt: true, expiresAt: true },
+  });
+  res.json(sessions.map(s => ({
+    id: s.id,
+    ...describeDevice(s.userAgent),
+    ip: s.ip,
+    location: locate(s.ip),
+    createdAt: s.createdAt,
+    lastSeenAt: s.lastSeenAt,
+    expiresAt: sessionEndsAt(s),
+    current: s.id === req.sessionId,
+  })));
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions:
+ *   delete:
+ *     summary: Log out everywhere else
+ *     description: >
+ *       Ends every session of the signed-in user except the current one, and revokes their calendar
+ *       feed key (see /api/admin/closures/feed).
+ *     tags: [Sessions]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Sessions ended
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 revoked:
+ *                   type: integer
+ *                   description: Number of sessions ended
+ */
+router.delete("/", async (req: AuthedRequest, res) => {
+  const revoked = await revokeUserSessions(prisma, req.user!.id, req.sessionId);
+  await revokeFeedToken(prisma, req.user!.id);
+  res.json({ revoked });
+});
+
+/**
+ * @swagger
+ * /api/auth/sessions/{id}:
+ *   delete:
+ *     summary: End one session
+ *     description: Logs the device out. Ending the current session also clears the cookie.
+ *     tags: [Sessions]
+ *     security:
+ *       - cookieAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Ended
+ *       404:
+ *         description: No such active session of the user
+ */
+router.delete("/:id", async (req: AuthedRequest, res) => {
+  const { id } = req.params;
+  if (!(await revokeSession(req.user!.id, id))) return res.status(404).json({ error: "Session not found" });
+  if (id === req.sessionId) res.clearCookie("token");
+  res.status(204).end();
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Session:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         browser:
+ *           type: string
+ *           nullable: true
+ *           example: "Firefox 131"
+ *         os:
+ *           type: string
+ *           nullable: true
+ *           example: "Windows 10"
+ *         device:
+ *           type: string
+ *           nullable: true
+ *           description: desktop, mobile, tablet...
+ *         ip:
+ *           type: string
+ *           nullable: true
+ *           description: Address the user signed in from
+ *         location:
+ *           type: string
+ *           nullable: true
+ *           example: "Brussels, BE"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *           description: Sign-in time
+ *         lastSeenAt:
+ *           type: string
+ *           format: date-time
+ *           description: Last request, to the minute
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           description: When the session ends if it is not used again
+ *         current:
+ *           type: boolean
+ *           description: The session of this request
+ */
@@ -0,0 +1,103 @@
+/**
+ * @file status.ts
+ * @brief Public API route telling whether the restaurant is open right now
+ * @details
+ * Computed from the structured business hours and today's one-off and recurring closures,
+ * in the restaurant's time zone (Europe/Brussels). Used by the "open now" badge of the public site.
+ * @date 2025
+ * @author 0isoft
+ */
+
+import { Router } from "express";
+import { openingStatus } from "../lib/availability";
+import { BUSINESS_TZ } from "../lib/time";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Status
+ *   description: Public endpoint for the live opening status
+ */
+
+/**
+ * @swagger
+ * /api/status:
+ *   get:
+ *     summary: Is the restaurant open now?
+ *     description: >
+ *       Returns whether a service (lunch or dinner) is in progress, and when the next one starts
+ *       (looking up to 14 days ahead). Dates and times are in the restaurant's time zone.
+ *     tags: [Status]
+ *     responses:
+ *       200:
+ *         description: Current opening status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OpeningStatus'
+ */
+router.get("/", async (_req, res) => {
+  const status = await openingStatus();
+  res.set("Cache-Control", "public, max-age=60");
+  res.json({ ...status, timeZone: BUSINESS_TZ });
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     OpeningStatus:
+ *       type: object
+ *       properties:
+ *         open:
+ *           type: boolean
+ *         date:
+ *           type: string
+ *           format: date
+ *           description: Today in the restaurant's time zone
+ *         time:
+ *           type: string
+ *           example: "19:42"
+ *         timeZone:
+ *           type: string
+ *           example: "Europe/Brussels"
+ *         service:
+ *           type: object
+ *           nullable: true
+ *           description: Service in progress (null when closed)
+ *           properties:
+ *             slot:
+ *               type: string
+ *               enum: [LUNCH, DINNER]
+ *             start:
+ *               type: string
+ *               example: "18:30"
+ *             end:
+ *               type: string
+ *               example: "22:00"
+ *             startMin:
+ *               type: integer
+ *             endMin:
+ *               type: integer
+ *         nextOpening:
+ *           type: object
+ *           nullable: true
+ *           description: Start of the next service (null when none within 14 days)
+ *           properties:
+ *             date:
+ *               type: string
+ *               format: date
+ *             inDays:
+ *               type: integer
+ *               description: 0 = later today, 1 = tomorrow, …
+ *             slot:
+ *               type: string
+ *               enum: [LUNCH, DINNER]
+ *             time:
+ *               type: string
+ *               example: "12:00"
+ */
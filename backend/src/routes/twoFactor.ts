@@ -0,0 +1,278 @@
+/**
+ * @file twoFactor.ts
+ * @brief API routes for the signed-in user's two-factor authentication (TOTP).
+ * @details
+ * Enrolment is done in two steps: `/setup` creates a secret shown as a QR code, then `/enable` checks
+ * a first code from the authenticator app, switches 2FA on and returns the recovery codes, once.
+ * Accounts whose role requires 2FA (owners) cannot switch it off, and are refused by the admin API
+ * until they have enabled it; these routes stay available to them. See lib/twoFactor.ts.
+ * All endpoints require authentication.
+ */
+
+import { Router } from "express";
+import { z } from "zod";
+import { prisma } from "../lib/prisma";
+import type { AuthedRequest } from "../middleware/requireAdmin";
+import {
+  TWO_FACTOR_ROLES,
+  confirmEnrolment,
+  disableTwoFactor,
+  mustEnableTwoFactor,
+  replaceRecoveryCodes,
+  startEnrolment,
+  verifySecondFactor,
+} from "../lib/twoFactor";
+
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: TwoFactor
+ *   description: Two-factor authentication of the signed-in user
+ */
+
+/**
+ * @brief Zod schema for a code from the authenticator app.
+ */
+const CodeInput = z.object({
+  code: z.string().trim().min(1).max(20),   /**< 6-digit code shown by the app */
+});
+
+/**
+ * @brief Zod schema for confirming a sensitive change: a code from the app or a recovery code.
+ */
+const ProofInput = z
+  .object({
+    code: z.string().max(20).optional(),
+    recoveryCode: z.string().max(40).optional(),
+  })
+  .refine(b => !!b.code !== !!b.recoveryCode, { message: "Send either code or recoveryCode" });
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Two-factor authentication status
+ *     tags: [TwoFactor]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Status of the signed-in user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TwoFactorStatus'
+ */
+router.get("/", async (req: AuthedRequest, res) => {
+  const user = req.user!;
+  const recoveryCodesLeft = user.twoFactorEnabled
+    ? await prisma.recoveryCode.count({ where: { userId: user.id, usedAt: null } })
+    : 0;
+  res.json({
+    enabled: user.twoFactorEnabled,
+    required: TWO_FACTOR_ROLES.includes(user.role),
+    setupRequired: mustEnableTwoFactor(user),
+    recoveryCodesLeft,
+  });
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start enrolment
+ *     description: >
+ *       Creates a new secret, replacing any enrolment not yet confirmed. The QR code (or the secret,
+ *       typed by hand) is added to an authenticator app, then confirmed with /api/auth/2fa/enable.
+ *     tags: [TwoFactor]
+ *     security:
+ *       - cookieAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret to add to the app
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 secret:
+ *                   type: string
+ *                   description: Base32 secret, for manual entry
+ *                 otpauthUrl:
+ *                   type: string
+ *                   example: "otpauth://totp/L'Orange%20Rose%3Auser%40example.com?secret=...&issuer=L'Orange%20Rose"
+ *                 qrCode:
+ *                   type: string
+ *                   description: otpauthUrl as a PNG data URL
+ *       409:
+ *         description: Two-factor authentication is already on
+ */
+router.post("/setup", async (req: AuthedRequest, res) => {
+  const user = req.user!;
+  if (user.twoFactorEnabled) return res.status(409).json({ error: "Two-factor authentication is already enabled" });
+  res.json(await startEnrolment(user));
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm enrolment and enable two-factor authentication
+ *     description: >
+ *       Checks a first code from the app. The response holds the recovery codes; they are not shown
+ *       again.
+ *     tags: [TwoFactor]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Enabled
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid payload, wrong code or enrolment not started
+ */
+router.post("/enable", async (req: AuthedRequest, res) => {
+  const parsed = CodeInput.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+
+  const recoveryCodes = await confirmEnrolment(req.user!.id, parsed.data.code);
+  if (!recoveryCodes) return res.status(400).json({ error: "Invalid code" });
+  res.json({ recoveryCodes });
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace the recovery codes
+ *     description: Creates new recovery codes; the previous ones stop working.
+ *     tags: [TwoFactor]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorProof'
+ *     responses:
+ *       200:
+ *         description: New codes
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RecoveryCodes'
+ *       400:
+ *         description: Invalid payload, or two-factor authentication is off
+ *       401:
+ *         description: Wrong code
+ *       429:
+ *         description: Too many requests
+ */
+router.post("/recovery-codes", async (req: AuthedRequest, res) => {
+  const parsed = ProofInput.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const user = req.user!;
+  if (!user.twoFactorEnabled) return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+
+  if (!(await verifySecondFactor(user.id, parsed.data))) return res.status(401).json({ error: "Invalid code" });
+  const recoveryCodes = await prisma.$transaction(tx => replaceRecoveryCodes(tx, user.id));
+  res.json({ recoveryCodes });
+});
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Disable two-factor authentication
+ *     description: Deletes the secret and the recovery codes. Not allowed for roles that require 2FA.
+ *     tags: [TwoFactor]
+ *     security:
+ *       - cookieAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TwoFactorProof'
+ *     responses:
+ *       204:
+ *         description: Disabled
+ *       400:
+ *         description: Invalid payload, or two-factor authentication is off
+ *       401:
+ *         description: Wrong code
+ *       429:
+ *         description: Too many requests
+ *       409:
+ *         description: The user's role requires two-factor authentication
+ */
+router.post("/disable", async (req: AuthedRequest, res) => {
+  const parsed = ProofInput.safeParse(req.body);
+  if (!parsed.success) return res.status(400).json({ error: "Invalid payload", issues: parsed.error.issues });
+  const user = req.user!;
+  if (!user.twoFactorEnabled) return res.status(400).json({ error: "Two-factor authentication is not enabled" });
+  if (TWO_FACTOR_ROLES.includes(user.role)) {
+    return res.status(409).json({ error: "Two-factor authentication is required for your role" });
+  }
+
+  if (!(await verifySecondFactor(user.id, parsed.data))) return res.status(401).json({ error: "Invalid code" });
+  await disableTwoFactor(user.id);
+  res.status(204).end();
+});
+
+export default router;
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TwoFactorStatus:
+ *       type: object
+ *       properties:
+ *         enabled:
+ *           type: boolean
+ *         required:
+ *           type: boolean
+ *           description: The user's role requires 2FA (it cannot be disabled)
+ *         setupRequired:
+ *           type: boolean
+ *           description: 2FA is required and off; the admin API answers 403 until it is enabled
+ *         recoveryCodesLeft:
+ *           type: integer
+ *     TwoFactorProof:
+ *       type: object
+ *       description: A code from the authenticator app, or an unused recovery code (used up)
+ *       properties:
+ *         code:
+ *           type: string
+ *           example: "123456"
+ *         recoveryCode:
+ *           type: string
+ *           example: "abcde-fghij"
+ *     RecoveryCodes:
+ *       type: object
+ *       properties:
+ *         recoveryCodes:
+ *           type: array
+ *           description: Single-use codes to sign in without the app, shown only once
+ *           items:
+ *             type: string
+ *             example: "abcde-fghij"
+ */
@@ -10,6 +10,7 @@ import Gallery from "./pages/Gallery";
 import { useLocation } from 'react-router-dom';
 
 import AdminLogin from "./pages/admin/Login";
+import ResetPassword from "./pages/admin/ResetPassword";
 import AdminDashboard from "./pages/admin/Dashboard";
 import RequireAuth from "./admin/RequireAuth";
 import { I18nProvider } from "@/i18n";
@@ -53,8 +54,10 @@ export default function App() {
         <Route path="/contact" element={<Contact />} />
         <Route path="/menu" element={<Menu />} />
         <Route path="/gallery" element={<Gallery/>} />
+        <Route path="/gallery/:slug" element={<Gallery/>} />
         {/* Admin */}
         <Route path="/admin/login" element={<AdminLogin />} />
+        <Route path="/admin/reset" element={<ResetPassword />} />
         <Route
           path="/admin"
           element={
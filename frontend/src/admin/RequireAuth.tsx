@@ -1,6 +1,6 @@
 // src/admin/RequireAuth.tsx
 
-import { useEffect, useState } from "react";
+import { createContext, useContext, useEffect, useState } from "react";
 import { useLocation, Navigate } from "react-router-dom";
 
 /**
@@ -10,8 +10,34 @@ import { useLocation, Navigate } from "react-router-dom";
  *   - Checks if the current user is authenticated by querying /api/auth/me.
  *   - Renders a loading state while checking, redirects to login if unauthenticated,
  *     or renders the protected children if authenticated.
+ *   - Provides the signed-in user and the permissions of their role to the children (useAdminUser).
  */
 
+/**
+ * @typedef AdminUser
+ * @brief Signed-in dashboard user, as returned by /api/auth/me.
+ */
+export type AdminUser = {
+  id: string;
+  email: string;
+  role: "OWNER" | "EDITOR" | "VIEWER";
+  permissions: Array<"content" | "reservations" | "analytics" | "users">;
+  /** `required`: the role requires 2FA and it is off, so the admin API refuses everything else */
+  twoFactor: { enabled: boolean; required: boolean };
+};
+
+const AdminUserContext = createContext<AdminUser | null>(null);
+
+/**
+ * @brief Returns the signed-in user; only usable below RequireAuth.
+ * @returns {AdminUser}
+ */
+export function useAdminUser(): AdminUser {
+  const user = useContext(AdminUserContext);
+  if (!user) throw new Error("useAdminUser must be used below <RequireAuth>");
+  return user;
+}
+
 /**
  * @typedef RequireAuthProps
  * @property {JSX.Element} children - The protected component tree to render on successful authentication.
@@ -23,7 +49,7 @@ import { useLocation, Navigate } from "react-router-dom";
  *   - On mount, fetches the current authentication status.
  *   - While checking, displays a "Checking…" message.
  *   - If unauthenticated, redirects to /admin/login, preserving the requested location.
- *   - If authenticated, renders the supplied children.
+ *   - If authenticated, renders the supplied children with the user in context.
  * @param {RequireAuthProps} props - The props containing children elements to render when authed.
  * @returns {JSX.Element} The rendered children, a loading message, or a redirect depending on authentication state.
  */
@@ -36,6 +62,7 @@ export default function RequireAuth({ children }: { children: JSX.Element }) {
    *   - "guest":     User is not authenticated
    */
   const [status, setStatus] = useState<"checking" | "authed" | "guest">("checking");
+  const [user, setUser] = useState<AdminUser | null>(null);
 
   /**
    * @var location
@@ -49,6 +76,11 @@ export default function RequireAuth({ children }: { children: JSX.Element }) {
       try {
         const res = await fetch("/api/auth/me", { credentials: "include" });
         if (!alive) return;
+        if (res.ok) {
+          const j = await res.json();
+          if (!alive) return;
+          setUser({ ...j.user, permissions: j.permissions, twoFactor: j.twoFactor });
+        }
         setStatus(res.ok ? "authed" : "guest");
       } catch {
         if (!alive) return;
@@ -60,5 +92,5 @@ export default function RequireAuth({ children }: { children: JSX.Element }) {
 
   if (status === "checking") return <div className="p-6">Checking…</div>;
   if (status === "guest") return <Navigate to="/admin/login" state={{ from: location }} replace />;
-  return children;
+  return <AdminUserContext.Provider value={user}>{children}</AdminUserContext.Provider>;
 }
@@ -1,11 +1,14 @@
 import { useState } from 'react'
 import { NavLink, Link } from 'react-router-dom'
+import OpenStatusBadge, { useOpeningStatus } from './OpenStatusBadge'
 
 /**
  * @file Header.tsx
  * @brief Site-wide header component with navigation bar and responsive menu.
  * @details
  *   - Displays site branding and navigation links ("Menu", "Contact", "Admin").
+ *   - Shows the live "open now / opens at" badge next to the brand (medium+ screens) and in the mobile
+ *     menu, both fed by a single status poll.
  *   - Shows desktop navigation on medium+ screens and a collapsible hamburger menu on mobile.
  *   - Utilizes React Router's NavLink to indicate active route.
  *   - Responsive and accessible with ARIA label for menu toggle.
@@ -21,6 +24,12 @@ export default function Header() {
    */
   const [open, setOpen] = useState(false)
 
+  /**
+   * @var status
+   * @brief Opening status shared by the desktop and mobile badges.
+   */
+  const status = useOpeningStatus()
+
   /**
    * @var linkBase
    * @brief Base Tailwind CSS classes for navigation links (padding, rounded, hover, transition).
@@ -37,7 +46,10 @@ export default function Header() {
     <header className="bg-white border-b border-slate-200">
       <div className="mx-auto max-w-5xl px-6 h-16 flex items-center justify-between">
         {/* Site logo/brand */}
-        <Link to="/" className="text-xl font-bold text-slate-900">Lorange Rose</Link>
+        <div className="flex items-center gap-4">
+          <Link to="/" className="text-xl font-bold text-slate-900">Lorange Rose</Link>
+          <span className="hidden md:inline-flex"><OpenStatusBadge status={status} /></span>
+        </div>
         {/* Desktop navigation */}
         <nav className="hidden md:flex items-center gap-2">
           <NavLink to="/menu" className={({isActive}) => `${linkBase} ${isActive ? active : ""}`}>Menu</NavLink>
@@ -64,6 +76,7 @@ export default function Header() {
       {open && (
         <nav className="md:hidden border-t border-slate-200 bg-white">
           <div className="px-4 py-2 flex flex-col">
+            <div className="px-4 py-2"><OpenStatusBadge status={status} /></div>
             <NavLink to="/menu" onClick={() => setOpen(false)} className={({isActive}) => `${linkBase} ${isActive ? active : ""}`}>Menu</NavLink>
             <NavLink to="/contact" onClick={() => setOpen(false)} className={({isActive}) => `${linkBase} ${isActive ? active : ""}`}>Contact</NavLink>
             <NavLink to="/admin" onClick={() => setOpen(false)} className={({isActive}) => `${linkBase} ${isActive ? active : ""}`}>Admin</NavLink>
@@ -0,0 +1,111 @@
+/**
+ * @file OpenStatusBadge.tsx
+ * @brief "Open now / opens at" pill for the public site.
+ * @details
+ *   - Reads `/api/status` (computed server-side in Europe/Brussels time) and refreshes it every minute.
+ *   - Shows "open until …" during a service, otherwise when the next service starts.
+ *   - Text follows the active language; renders nothing until the first answer arrives.
+ *   - Several badges showing the same status (e.g. the header's desktop bar and mobile menu) share one
+ *     poll: the parent calls `useOpeningStatus` and passes the result to each badge.
+ */
+
+import { useEffect, useState } from "react";
+import { useI18n } from "../i18n";
+
+/**
+ * @typedef {Object} OpeningStatus
+ * @brief Subset of the `/api/status` payload used by the badge.
+ */
+export type OpeningStatus = {
+  open: boolean;
+  service: { slot: "LUNCH" | "DINNER"; end: string } | null;
+  nextOpening: { date: string; inDays: number; time: string } | null;
+};
+
+/**
+ * @var REFRESH_MS
+ * @brief How often the status is refetched.
+ */
+const REFRESH_MS = 60_000;
+
+/**
+ * @brief Fetches `/api/status` and refreshes it every minute.
+ * @param {boolean} [enabled=true] - When false, nothing is fetched and the result stays null.
+ * @returns {OpeningStatus | null} The last known status, or null until the first answer.
+ */
+export function useOpeningStatus(enabled = true): OpeningStatus | null {
+  const [status, setStatus] = useState<OpeningStatus | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let alive = true;
+    const load = async () => {
+      try {
+        const r = await fetch("/api/status");
+        if (!r.ok) return;
+        const data: OpeningStatus = await r.json();
+        if (alive) setStatus(data);
+      } catch {
+        // keep the last known status
+      }
+    };
+    load();
+    const id = setInterval(load, REFRESH_MS);
+    return () => { alive = false; clearInterval(id); };
+  }, [enabled]);
+
+  return status;
+}
+
+/**
+ * @component OpenStatusBadge
+ * @brief Live opening status of the restaurant.
+ * @param {object} props
+ * @param {"dark" | "light"} [props.tone="light"] - Background the badge sits on.
+ * @param {OpeningStatus | null} [props.status] - Status from a parent's `useOpeningStatus`; when
+ *   omitted, the badge fetches it itself.
+ * @returns {JSX.Element | null}
+ */
+export default function OpenStatusBadge({ tone = "light", status: shared }: {
+  tone?: "dark" | "light";
+  status?: OpeningStatus | null;
+}) {
+  const { t, localeTag } = useI18n();
+  const own = useOpeningStatus(shared === undefined);
+  const status = shared === undefined ? own : shared;
+
+  if (!status) return null;
+
+  let label: string;
+  if (status.open && status.service) {
+    label = `${t("status.open")} · ${t("status.until", { time: status.service.end })}`;
+  } else if (status.nextOpening) {
+    const { date, inDays, time } = status.nextOpening;
+    const [y, m, d] = date.split("-").map(Number);
+    const day = new Date(y, m - 1, d).toLocaleDateString(localeTag, { weekday: "long" });
+    const next =
+      inDays === 0 ? t("status.opensToday", { time })
+      : inDays === 1 ? t("status.opensTomorrow", { time })
+      : t("status.opensOn", { day, time });
+    label = `${t("status.closed")} · ${next}`;
+  } else {
+    label = t("status.closed");
+  }
+
+  const colors = tone === "dark"
+    ? "bg-black/40 text-white border-white/20"
+    : "bg-white text-[#0B0B0B] border-[#4C0C27]/20";
+
+  return (
+    <span
+      role="status"
+      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm font-medium ${colors}`}
+    >
+      <span
+        aria-hidden="true"
+        className={`h-2 w-2 rounded-full ${status.open ? "bg-green-500" : "bg-[#C81D25]"}`}
+      />
+      {label}
+    </span>
+  );
+}
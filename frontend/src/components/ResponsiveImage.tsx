@@ -0,0 +1,75 @@
+/**
+ * @file ResponsiveImage.tsx
+ * @brief `<picture>` for uploaded media, using the AVIF/WebP variants generated by the server.
+ * @details
+ *   - `/api/media` and `/api/gallery` return a `srcset` per format; the browser picks the first
+ *     format it supports and the narrowest file that fits `sizes`.
+ *   - Falls back to the original `url` for assets without variants (older uploads, PDFs…).
+ *   - The blurred `placeholder` is painted as background until the image has loaded.
+ */
+
+import { forwardRef, useState } from "react";
+import type { ImgHTMLAttributes } from "react";
+
+/**
+ * @typedef {Object} MediaSrcSet
+ * @brief `srcset` strings per format, as returned by the API.
+ */
+export type MediaSrcSet = { avif?: string; webp?: string };
+
+/**
+ * @typedef {Object} ResponsiveAsset
+ * @brief Fields of a media asset used to render it.
+ */
+export type ResponsiveAsset = {
+  url: string;
+  alt?: string | null;
+  width?: number | null;
+  height?: number | null;
+  placeholder?: string | null;
+  srcset?: MediaSrcSet | null;
+};
+
+type Props = Omit<ImgHTMLAttributes<HTMLImageElement>, "src" | "srcSet"> & {
+  asset: ResponsiveAsset;
+  /** Rendered width of the image, e.g. "100vw" or "(min-width: 768px) 33vw, 100vw" */
+  sizes: string;
+};
+
+/**
+ * @component ResponsiveImage
+ * @brief Renders an uploaded image with its responsive variants and blur placeholder.
+ * @param {Props} props - `asset`, `sizes` and any `<img>` attribute (forwarded, as is the ref).
+ * @returns {JSX.Element}
+ */
+const ResponsiveImage = forwardRef<HTMLImageElement, Props>(function ResponsiveImage(
+  { asset, sizes, alt, style, onLoad, ...img },
+  ref
+) {
+  const [loaded, setLoaded] = useState(false);
+  const blur = !loaded && asset.placeholder
+    ? { backgroundImage: `url("${asset.placeholder}")`, backgroundSize: "cover", backgroundPosition: "center" }
+    : undefined;
+
+  return (
+    <picture>
+      {asset.srcset?.avif && <source type="image/avif" srcSet={asset.srcset.avif} sizes={sizes} />}
+      {asset.srcset?.webp && <source type="image/webp" srcSet={asset.srcset.webp} sizes={sizes} />}
+      <img
+        ref={ref}
+        src={asset.url}
+        alt={alt ?? asset.alt ?? ""}
+        width={asset.width ?? undefined}
+        height={asset.height ?? undefined}
+        style={{ ...blur, ...style }}
+        onLoad={(e) => {
+          setLoaded(true);
+          onLoad?.(e);
+        }}
+        {...img}
+      />
+    </picture>
+  );
+});
+
+export default ResponsiveImage;
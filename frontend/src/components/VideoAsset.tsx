@@ -0,0 +1,91 @@
+/**
+ * @file VideoAsset.tsx
+ * @brief `<video>` for uploaded video media (MP4/WebM), shown with its poster frame.
+ * @details
+ *   - Plays muted and/or looped according to the asset's flags. When the browser blocks autoplay
+ *     with sound, playback restarts muted.
+ *   - `active` drives playback (carousel slides): inactive videos are paused and rewound.
+ *   - `onPlayingChange` reports when playback starts or stops, e.g. to pause a carousel.
+ */
+
+import { useEffect, useRef } from "react";
+
+/**
+ * @typedef {Object} VideoMedia
+ * @brief Fields of a media asset used to play it.
+ */
+export type VideoMedia = {
+  url: string;
+  mimeType?: string | null;
+  posterUrl?: string | null;
+  alt?: string | null;
+  muted?: boolean;
+  loop?: boolean;
+};
+
+/**
+ * @function isVideoAsset
+ * @brief Tells whether a media asset is a video.
+ * @param {{ mimeType?: string | null }} asset - Media asset from the API.
+ * @returns {boolean}
+ */
+export const isVideoAsset = (asset: { mimeType?: string | null }): boolean =>
+  !!asset.mimeType?.startsWith("video/");
+
+type Props = {
+  asset: VideoMedia;
+  /** Whether the video should play (default true) */
+  active?: boolean;
+  /** Overrides the asset's `loop` flag */
+  loop?: boolean;
+  className?: string;
+  onPlayingChange?: (playing: boolean) => void;
+  onEnded?: () => void;
+};
+
+/**
+ * @component VideoAsset
+ * @brief Renders an uploaded video, playing while `active`.
+ * @param {Props} props
+ * @returns {JSX.Element}
+ */
+export default function VideoAsset({ asset, active = true, loop, className, onPlayingChange, onEnded }: Props) {
+  const ref = useRef<HTMLVideoElement>(null);
+  const muted = asset.muted ?? true;
+
+  useEffect(() => {
+    const v = ref.current;
+    if (!v) return;
+    if (!active) {
+      v.pause();
+      v.currentTime = 0;
+      return;
+    }
+    v.muted = muted;
+    v.play().catch(() => {
+      // autoplay with sound refused by the browser: play muted instead
+      v.muted = true;
+      v.play().catch(() => onPlayingChange?.(false));
+    });
+  }, [active, muted]);
+
+  return (
+    <video
+      ref={ref}
+      src={asset.url}
+      poster={asset.posterUrl ?? undefined}
+      muted={muted}
+      loop={loop ?? asset.loop ?? true}
+      playsInline
+      preload={active ? "auto" : "metadata"}
+      aria-label={asset.alt ?? undefined}
+      className={className}
+      onPlaying={() => onPlayingChange?.(true)}
+      onPause={() => onPlayingChange?.(false)}
+      onEnded={() => {
+        onPlayingChange?.(false);
+        onEnded?.();
+      }}
+    />
+  );
+}
@@ -13,6 +13,14 @@ const MESSAGES: Record<Lang, Messages> = {
     en: {
         nav: { menu: "Menu", contact: "Contact", gallery: "Gallery", language: "Language" },
         hero: { tagline: "Asian Food", explore: "Explore Menu" },
+        status: {
+            open: "Open now",
+            until: "until {time}",
+            closed: "Closed",
+            opensToday: "Opens today at {time}",
+            opensTomorrow: "Opens tomorrow at {time}",
+            opensOn: "Opens {day} at {time}",
+        },
         about: { title: "About Us", body:`L'Orange Rose is delighted to reopen its doors with a brand new concept!
 
 After 18 years of French cuisine, we felt the desire to evolve our establishment by bringing it a new breath of life, new colors and above all, new flavors.
@@ -41,13 +49,38 @@ So, let yourself be tempted by a carefully rolled gimbap, a steaming ramen, some
             title: "Contact",
             reservations: "Reservations",
             callUsToBook: "Call us to book a table.",
+            booking: {
+                title: "Book online",
+                intro: "Book your table below. We will confirm by e-mail; for groups larger than {max} people, please call us.",
+                date: "Date",
+                time: "Time",
+                covers: "Guests",
+                name: "Name",
+                email: "E-mail",
+                phone: "Phone (optional)",
+                note: "Remarks (allergies, high chair…)",
+                submit: "Request a booking",
+                sending: "Sending…",
+                success: "Thank you! Your request for {covers} on {date} at {time} has been received. We will confirm it shortly.",
+                errorInvalid: "Please check the form fields.",
+                errorUnavailable: "We are not open at that time, or closed on that day. Please choose another time.",
+                errorFull: "We are fully booked for this service. Please choose another time or call us.",
+                errorGeneric: "Something went wrong. Please try again or call us.",
+                pickDate: "Choose a date first",
+                closedDay: "We are closed on this day. Please choose another date.",
+                noTimes: "No more arrival times available on this day.",
+            },
             address: "Address",
             openInMaps: "Open in Google Maps",
             socials: "Socials",
             closuresTitle: "Closing days",
-            legend: { lunch: "Lunch closed", dinner: "Dinner closed", all: "Closed" },
+            legend: { lunch: "Lunch closed", dinner: "Dinner closed", all: "Closed", opening: "Exceptionally open" },
             listTitle: "Closures",
             none: "No closures recorded.",
+            range: "From {start} to {end}",
+            subscribe: "Add to my calendar",
+            subscribeHint: "Subscribe to our closing days: your calendar app stays up to date.",
+            downloadIcs: "Download (.ics)",
             calPrevMonth: "Previous month",
             calNextMonth: "Next month",
             hours: {
@@ -64,8 +97,32 @@ So, let yourself be tempted by a carefully rolled gimbap, a steaming ramen, some
             loading: "Loading menu…",
             comingSoon: "Menu coming soon.",
             imageAlt: "L'Orange Rose menu",
+            search: "Search a dish…",
+            noResults: "No dish matches your search.",
+            printable: "Printable menu",
+            openPdf: "Open the menu (PDF)",
+            filters: "Filter the menu",
+            without: "Without",
+            dietTitle: "Diet",
+            clearFilters: "Clear filters",
+            legendTitle: "Allergens & symbols",
+            legendNote: "Numbers next to a dish refer to the 14 regulated allergens. Ask our staff if in doubt.",
+            spicy: "Spicy (level {n} of 3)",
+            spicyLegend: "Spicy (1 to 3)",
+            diet: { VEGETARIAN: "Vegetarian", VEGAN: "Vegan", HALAL: "Halal" },
+            allergens: {
+                GLUTEN: "Gluten", CRUSTACEANS: "Crustaceans", EGGS: "Eggs", FISH: "Fish",
+                PEANUTS: "Peanuts", SOYBEANS: "Soy", MILK: "Milk", NUTS: "Tree nuts",
+                CELERY: "Celery", MUSTARD: "Mustard", SESAME: "Sesame", SULPHITES: "Sulphites",
+                LUPIN: "Lupin", MOLLUSCS: "Molluscs",
+            },
           },
         
+          gallery: {
+              all: "All",
+              albums: "Gallery albums",
+              notFound: "This album doesn't exist (anymore).",
+          },
           footer: {
             privacy: "This site does not use cookies or collect personal data.",
             madeByPrefix: "© {year} {brand} -- website made with care by ",
@@ -76,6 +133,14 @@ So, let yourself be tempted by a carefully rolled gimbap, a steaming ramen, some
     fr: {
         nav: { menu: "Carte", contact: "Contact", gallery: "Galerie", language: "Langue" },
         hero: { tagline: "Asian food", explore: "Voir la carte" },
+        status: {
+            open: "Ouvert",
+            until: "jusqu'à {time}",
+            closed: "Fermé",
+            opensToday: "Ouvre aujourd'hui à {time}",
+            opensTomorrow: "Ouvre demain à {time}",
+            opensOn: "Ouvre {day} à {time}",
+        },
         about: { title: "À propos de nous", body: `L'Orange Rose a le plaisir de vous rouvrir ses portes avec un tout nouveau concept !
 
 Après 18 ans de cuisine française, nous avons eu envie de faire évoluer notre établissement en lui apportant un nouveau souffle, de nouvelles couleurs et surtout, de nouvelles saveurs
@@ -102,13 +167,38 @@ Alors, laissez-vous tenter par un gimbab soigneusement roulé, un ramen fumant,
             title: "Contact",
             reservations: "Réservations",
             callUsToBook: "Appelez-nous pour réserver une table.",
+            booking: {
+                title: "Réserver en ligne",
+                intro: "Réservez votre table ci-dessous. Nous vous confirmerons par e-mail ; pour les groupes de plus de {max} personnes, appelez-nous.",
+                date: "Date",
+                time: "Heure",
+                covers: "Couverts",
+                name: "Nom",
+                email: "E-mail",
+                phone: "Téléphone (facultatif)",
+                note: "Remarques (allergies, chaise haute…)",
+                submit: "Demander une réservation",
+                sending: "Envoi…",
+                success: "Merci ! Votre demande pour {covers} le {date} à {time} a bien été reçue. Nous vous la confirmerons rapidement.",
+                errorInvalid: "Veuillez vérifier les champs du formulaire.",
+                errorUnavailable: "Nous ne sommes pas ouverts à cette heure, ou fermés ce jour-là. Veuillez choisir un autre moment.",
+                errorFull: "Ce service est complet. Choisissez un autre moment ou appelez-nous.",
+                errorGeneric: "Une erreur est survenue. Réessayez ou appelez-nous.",
+                pickDate: "Choisissez d'abord une date",
+                closedDay: "Nous sommes fermés ce jour-là. Merci de choisir une autre date.",
+                noTimes: "Plus aucun horaire disponible ce jour-là.",
+            },
             address: "Adresse",
             openInMaps: "Ouvrir dans Google Maps",
             socials: "Réseaux sociaux",
             closuresTitle: "Jours de fermeture",
-            legend: { lunch: "Midi fermé", dinner: "Soir fermé", all: "Fermé" },
+            legend: { lunch: "Midi fermé", dinner: "Soir fermé", all: "Fermé", opening: "Ouverture exceptionnelle" },
             listTitle: "Fermetures",
             none: "Aucune fermeture enregistrée.",
+            range: "Du {start} au {end}",
+            subscribe: "Ajouter à mon agenda",
+            subscribeHint: "Abonnez-vous à nos jours de fermeture : votre agenda reste à jour.",
+            downloadIcs: "Télécharger (.ics)",
             calPrevMonth: "Mois précédent",
             calNextMonth: "Mois suivant",
             hours: {
@@ -125,11 +215,35 @@ Alors, laissez-vous tenter par un gimbab soigneusement roulé, un ramen fumant,
             loading: "Chargement de la carte…",
             comingSoon: "Carte à venir.",
             imageAlt: "Carte de L'Orange Rose",
+            search: "Rechercher un plat…",
+            noResults: "Aucun plat ne correspond à votre recherche.",
+            printable: "Carte à imprimer",
+            openPdf: "Ouvrir la carte (PDF)",
+            filters: "Filtrer la carte",
+            without: "Sans",
+            dietTitle: "Régime",
+            clearFilters: "Effacer les filtres",
+            legendTitle: "Allergènes & symboles",
+            legendNote: "Les numéros à côté d’un plat renvoient aux 14 allergènes réglementés. En cas de doute, demandez à notre équipe.",
+            spicy: "Épicé (niveau {n} sur 3)",
+            spicyLegend: "Épicé (1 à 3)",
+            diet: { VEGETARIAN: "Végétarien", VEGAN: "Végan", HALAL: "Halal" },
+            allergens: {
+                GLUTEN: "Gluten", CRUSTACEANS: "Crustacés", EGGS: "Œufs", FISH: "Poissons",
+                PEANUTS: "Arachides", SOYBEANS: "Soja", MILK: "Lait", NUTS: "Fruits à coque",
+                CELERY: "Céleri", MUSTARD: "Moutarde", SESAME: "Sésame", SULPHITES: "Sulfites",
+                LUPIN: "Lupin", MOLLUSCS: "Mollusques",
+            },
           },
         
         announcements: {
             title: "Quoi de neuf",
         },
+        gallery: {
+            all: "Tout",
+            albums: "Albums de la galerie",
+            notFound: "Cet album n'existe pas (ou plus).",
+        },
         footer: {
             privacy: "Ce site n’utilise pas de cookies et ne collecte pas de données personnelles.",
             madeByPrefix: "© {year} {brand} -- site réalisé avec soin par ",
@@ -140,6 +254,14 @@ Alors, laissez-vous tenter par un gimbab soigneusement roulé, un ramen fumant,
     nl: {
         nav: { menu: "Menukaart", contact: "Contact", gallery: "Galerij", language: "Taal" },
         hero: { tagline: "Asian food", explore: "Ontdek het menukaart" },
+        status: {
+            open: "Nu open",
+            until: "tot {time}",
+            closed: "Gesloten",
+            opensToday: "Opent vandaag om {time}",
+            opensTomorrow: "Opent morgen om {time}",
+            opensOn: "Opent {day} om {time}",
+        },
         about: { title: "Over ons", body: `L'Orange Rose heeft het genoegen u haar deuren te heropenen met een gloednieuw concept!
 
 Na 18 jaar Franse keuken hadden we zin om onze zaak te laten evolueren door er een nieuwe adem, nieuwe kleuren en vooral nieuwe smaken aan te brengen.
@@ -168,13 +290,38 @@ Dus, laat u verleiden door een zorgvuldig gerolde gimbap, een stomende ramen, en
             title: "Contact",
             reservations: "Reservaties",
             callUsToBook: "Bel ons om een tafel te reserveren.",
+            booking: {
+                title: "Online reserveren",
+                intro: "Reserveer hieronder uw tafel. We bevestigen per e-mail; bel ons voor groepen van meer dan {max} personen.",
+                date: "Datum",
+                time: "Uur",
+                covers: "Personen",
+                name: "Naam",
+                email: "E-mail",
+                phone: "Telefoon (optioneel)",
+                note: "Opmerkingen (allergieën, kinderstoel…)",
+                submit: "Reservering aanvragen",
+                sending: "Verzenden…",
+                success: "Bedankt! Uw aanvraag voor {covers} op {date} om {time} is ontvangen. We bevestigen ze zo snel mogelijk.",
+                errorInvalid: "Controleer de velden van het formulier.",
+                errorUnavailable: "We zijn op dat uur niet open of die dag gesloten. Kies een ander moment.",
+                errorFull: "Deze service is volzet. Kies een ander moment of bel ons.",
+                errorGeneric: "Er ging iets mis. Probeer opnieuw of bel ons.",
+                pickDate: "Kies eerst een datum",
+                closedDay: "We zijn gesloten op deze dag. Kies een andere datum.",
+                noTimes: "Geen aankomsttijden meer beschikbaar op deze dag.",
+            },
             address: "Adres",
             openInMaps: "Openen in Google Maps",
             socials: "Sociale media",
             closuresTitle: "Sluitingsdagen",
-            legend: { lunch: "Lunch gesloten", dinner: "Avond gesloten", all: "Gesloten" },
+            legend: { lunch: "Lunch gesloten", dinner: "Avond gesloten", all: "Gesloten", opening: "Uitzonderlijk open" },
             listTitle: "Sluitingen",
             none: "Geen sluitingen geregistreerd.",
+            range: "Van {start} tot {end}",
+            subscribe: "Toevoegen aan mijn agenda",
+            subscribeHint: "Abonneer u op onze sluitingsdagen: uw agenda blijft up-to-date.",
+            downloadIcs: "Downloaden (.ics)",
             calPrevMonth: "Vorige maand",
             calNextMonth: "Volgende maand",
             hours: {
@@ -192,8 +339,32 @@ Dus, laat u verleiden door een zorgvuldig gerolde gimbap, een stomende ramen, en
             loading: "Menukaart laden…",
             comingSoon: "Menukaart binnenkort.",
             imageAlt: "Menukaart L'Orange Rose",
+            search: "Zoek een gerecht…",
+            noResults: "Geen gerecht gevonden.",
+            printable: "Afdrukbare menukaart",
+            openPdf: "Menukaart openen (PDF)",
+            filters: "Menukaart filteren",
+            without: "Zonder",
+            dietTitle: "Dieet",
+            clearFilters: "Filters wissen",
+            legendTitle: "Allergenen & symbolen",
+            legendNote: "De nummers naast een gerecht verwijzen naar de 14 wettelijke allergenen. Vraag het ons personeel bij twijfel.",
+            spicy: "Pikant (niveau {n} van 3)",
+            spicyLegend: "Pikant (1 tot 3)",
+            diet: { VEGETARIAN: "Vegetarisch", VEGAN: "Veganistisch", HALAL: "Halal" },
+            allergens: {
+                GLUTEN: "Gluten", CRUSTACEANS: "Schaaldieren", EGGS: "Eieren", FISH: "Vis",
+                PEANUTS: "Pinda's", SOYBEANS: "Soja", MILK: "Melk", NUTS: "Noten",
+                CELERY: "Selderij", MUSTARD: "Mosterd", SESAME: "Sesamzaad", SULPHITES: "Sulfieten",
+                LUPIN: "Lupine", MOLLUSCS: "Weekdieren",
+            },
           },
         
+          gallery: {
+              all: "Alles",
+              albums: "Galerijalbums",
+              notFound: "Dit album bestaat niet (meer).",
+          },
           footer: {
             privacy: "Deze site gebruikt geen cookies en verzamelt geen persoonlijke gegevens.",
             madeByPrefix: "© {year} {brand} -- website met zorg gemaakt door ",
@@ -3,8 +3,18 @@
 /**
  * @file date.ts
  * @brief Utilities for handling and formatting dates in an EU locale.
+ * @details Calendar days (closures, announcements, hours) are time-zone-free: the API sends them
+ * as "YYYY-MM-DD" or as midnight UTC, and only the date part is meaningful. They are parsed to
+ * midnight UTC and always formatted in UTC, so the browser's time zone never shifts a day.
+ * "Today" is the current day of the restaurant ({@link BUSINESS_TZ}), not of the browser.
  */
 
+/**
+ * @var BUSINESS_TZ
+ * @brief IANA time zone of the restaurant (VITE_BUSINESS_TZ, "Europe/Brussels" by default).
+ */
+export const BUSINESS_TZ: string = import.meta.env.VITE_BUSINESS_TZ || "Europe/Brussels";
+
 /**
  * @var EU_LOCALE
  * @brief Best-match EU locale based on the user's browser settings.
@@ -16,39 +26,89 @@ export const EU_LOCALE =
   navigator.language ||
   "fr-BE";
 
+/**
+ * @fn apiDay
+ * @brief Extracts the calendar day of an API date ("YYYY-MM-DD" or midnight-UTC ISO string).
+ * @param {string} s The API date string.
+ * @returns {string} The day as "YYYY-MM-DD".
+ */
+export function apiDay(s: string): string {
+  return (s || "").slice(0, 10);
+}
+
 /**
  * @fn parseAPIDate
- * @brief Parses an API date string into a local Date object (safe for "YYYY-MM-DD" or ISO).
+ * @brief Parses an API date string into a Date at midnight UTC of that day.
  * @param {string} s The API date string (format: "YYYY-MM-DD" or ISO string).
- * @returns {Date} JavaScript Date object set to noon local time for given date.
- * @details Noon local is used to avoid timezone flips when parsing.
+ * @returns {Date} Date to be formatted with {@link fmtDate} / {@link fmtWeekday} (which use UTC).
  */
 export function parseAPIDate(s: string): Date {
-  const ymd = (s || "").slice(0, 10); // "YYYY-MM-DD"
-  const [y, m, d] = ymd.split("-").map(Number);
-  return new Date(y || 0, (m || 1) - 1, d || 1, 12, 0, 0); // noon local avoids TZ flips
+  const [y, m, d] = apiDay(s).split("-").map(Number);
+  return new Date(Date.UTC(y || 0, (m || 1) - 1, d || 1));
+}
+
+/**
+ * @fn todayYMD
+ * @brief Current day of the restaurant, whatever the browser's time zone.
+ * @returns {string} Today in {@link BUSINESS_TZ} as "YYYY-MM-DD".
+ */
+export function todayYMD(): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: BUSINESS_TZ,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date());
+}
+
+/**
+ * @fn nowMinutes
+ * @brief Current time of day of the restaurant, whatever the browser's time zone.
+ * @returns {number} Minutes since midnight in {@link BUSINESS_TZ} (0–1439).
+ */
+export function nowMinutes(): number {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: BUSINESS_TZ,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date());
+  const get = (type: "hour" | "minute") => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return get("hour") * 60 + get("minute");
+}
+
+/**
+ * @fn addDays
+ * @brief Adds a number of days to a calendar day.
+ * @param {string} ymd The day ("YYYY-MM-DD").
+ * @param {number} n Days to add (may be negative).
+ * @returns {string} The resulting day as "YYYY-MM-DD".
+ */
+export function addDays(ymd: string, n: number): string {
+  return new Date(parseAPIDate(ymd).getTime() + n * 86_400_000).toISOString().slice(0, 10);
 }
 
 /**
  * @fn fmtDate
- * @brief Formats a Date as "DD MMM YYYY" (or with a long month) in the EU locale.
- * @param {Date} d The Date to format.
+ * @brief Formats a calendar day as "DD MMM YYYY" (or with a long month) in the EU locale.
+ * @param {Date | string} d The day: a Date from {@link parseAPIDate} or an API date string.
  * @param {Intl.DateTimeFormatOptions} [opts] Optional formatting options (defaults to long month).
  * @returns {string} The formatted date string in EU locale.
  */
-export function fmtDate(d: Date, opts?: Intl.DateTimeFormatOptions): string {
+export function fmtDate(d: Date | string, opts?: Intl.DateTimeFormatOptions): string {
   return new Intl.DateTimeFormat(
     EU_LOCALE,
-    opts ?? { day: "2-digit", month: "long", year: "numeric" }
-  ).format(d);
+    { ...(opts ?? { day: "2-digit", month: "long", year: "numeric" }), timeZone: "UTC" }
+  ).format(typeof d === "string" ? parseAPIDate(d) : d);
 }
 
 /**
  * @fn fmtWeekday
- * @brief Formats a Date to produce the localized full weekday name in the EU locale.
- * @param {Date} d The Date whose weekday is to be formatted.
+ * @brief Formats a calendar day to produce the localized full weekday name in the EU locale.
+ * @param {Date | string} d The day: a Date from {@link parseAPIDate} or an API date string.
  * @returns {string} The weekday label (e.g., "Monday", "lundi", "maandag") in EU locale.
  */
-export function fmtWeekday(d: Date): string {
-  return new Intl.DateTimeFormat(EU_LOCALE, { weekday: "long" }).format(d);
+export function fmtWeekday(d: Date | string): string {
+  return new Intl.DateTimeFormat(EU_LOCALE, { weekday: "long", timeZone: "UTC" })
+    .format(typeof d === "string" ? parseAPIDate(d) : d);
 }
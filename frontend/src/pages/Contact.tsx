@@ -1,7 +1,8 @@
 import { useEffect, useMemo, useState } from "react";
-import { Instagram, Facebook } from "lucide-react";
+import { Instagram, Facebook, CalendarPlus } from "lucide-react";
 import Logo from "@/assets/essentials/orangerose_logo-removebg-preview.png";
 import { useI18n } from "../i18n";
+import { addDays, apiDay, nowMinutes, todayYMD } from "../lib/date";
 import LanguageDropdown from "../components/LanguageDropdown";
 import { Menu, X } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
@@ -19,6 +20,23 @@ type BackendClosure = {
   note?: string | null;
 };
 
+// One day of `/api/availability`
+type OpenInterval = {
+  slot: "LUNCH" | "DINNER";
+  start: string;     // "HH:MM"
+  end: string;       // "HH:MM"
+  startMin: number;  // minutes since midnight
+  endMin: number;
+};
+type DayAvailability = {
+  date: string;      // "YYYY-MM-DD"
+  weekday: number;   // Monday=0 … Sunday=6
+  open: boolean;
+  intervals: OpenInterval[];
+  closures: Array<{ slot: BackendSlot; note?: string | null; kind: "EXCEPTIONAL" | "RECURRING" }>;
+  openings: Array<{ slot: BackendSlot; note?: string | null }>;  // exceptional openings on recurring closure days
+};
+
 /**
  * @typedef {"ALL" | "LUNCH" | "DINNER"} BackendSlot
  * BackendSlot represents slot values returned from the backend API.
@@ -43,19 +61,6 @@ function toFrontendSlot(s: BackendSlot): Slot {
   return "all"; // "ALL"
 }
 
-/**
- * Converts an ISO DateTime string or Date object to an ISO date string (YYYY-MM-DD).
- * @param {string | Date} d - Source date (as string or Date object).
- * @returns {string} ISO date string (YYYY-MM-DD).
- */
-function isoDateFromDateTime(d: string | Date): string {
-  const date = typeof d === "string" ? new Date(d) : d;
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${day}`;
-}
-
 /**
  * Displays a decorative section heading.
  * @param {object} props
@@ -288,6 +293,11 @@ export default function ContactPage() {
         </div>
       </section>
 
+      {/* Online booking */}
+      <section className="mx-auto max-w-6xl px-6 lg:px-8 py-8">
+        <ReservationForm />
+      </section>
+
       {/* ---- Hours / Horaire (insert this block between Contact blocks and Closures) ---- */}
       <section className="mx-auto max-w-6xl px-6 lg:px-8 py-8">
         <HoursSection />
@@ -295,10 +305,14 @@ export default function ContactPage() {
 
       {/* Read-only Closures */}
       <section className="mx-auto max-w-6xl px-6 lg:px-8 py-8">
-        <h5 className="font-legacy text-2xl md:text-4xl tracking-wide mb-4">
-          {t("contact.closuresTitle")}
-        </h5>
+        <div className="flex flex-wrap items-end justify-between gap-3 mb-4">
+          <h5 className="font-legacy text-2xl md:text-4xl tracking-wide">
+            {t("contact.closuresTitle")}
+          </h5>
+          <CalendarSubscribeLinks />
+        </div>
         <ReadOnlyClosuresCalendar />
+        <UpcomingClosuresList />
       </section>
 
       {/* Footer */}
@@ -326,6 +340,191 @@ export default function ContactPage() {
   );
 }
 
+/* ---------- Online booking ---------- */
+
+/** Largest party that can book online (mirrors MAX_PARTY on the backend). */
+const MAX_PARTY = 12;
+
+/**
+ * Lists the arrival times (every 15 minutes) offered for a day, per service.
+ * @param {DayAvailability} day - Day from `/api/availability`.
+ * @param {number} lastSeatingMin - Minutes before closing after which no arrival is taken.
+ * @param {number} notBeforeMin - Earliest minute of the day (used for today).
+ * @returns {Array<{slot: "LUNCH" | "DINNER", times: string[]}>}
+ */
+function arrivalTimes(day: DayAvailability, lastSeatingMin: number, notBeforeMin: number) {
+  return day.intervals.map((i) => {
+    const times: string[] = [];
+    for (let m = Math.ceil(i.startMin / 15) * 15; m <= i.endMin - lastSeatingMin; m += 15) {
+      if (m < notBeforeMin) continue;
+      times.push(`${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`);
+    }
+    return { slot: i.slot, times };
+  }).filter((g) => g.times.length > 0);
+}
+
+/**
+ * Online booking form posting to `/api/reservations`.
+ * Arrival times are taken from `/api/availability` for the chosen date; the server still checks
+ * opening hours, closures and remaining covers, and its answer is shown translated.
+ * @component
+ * @returns {JSX.Element}
+ */
+function ReservationForm() {
+  const { t, localeTag } = useI18n();
+
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("");
+  const [day, setDay] = useState<DayAvailability | null>(null);
+  const [lastSeatingMin, setLastSeatingMin] = useState(30);
+  const [covers, setCovers] = useState(2);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+  const [note, setNote] = useState("");
+  const [sending, setSending] = useState(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(null);
+
+  const today = todayYMD();
+
+  useEffect(() => {
+    setDay(null);
+    setTime("");
+    if (!date) return;
+    let alive = true;
+    (async () => {
+      try {
+        const r = await fetch(`/api/availability?from=${date}&to=${date}`);
+        if (!r.ok) return;
+        const data: { lastSeatingMin: number; days: DayAvailability[] } = await r.json();
+        if (!alive) return;
+        setLastSeatingMin(data.lastSeatingMin);
+        setDay(data.days[0] ?? null);
+      } catch {
+        // leave the time picker empty; the server validates on submit anyway
+      }
+    })();
+    return () => { alive = false; };
+  }, [date]);
+
+  const timeGroups = useMemo(() => {
+    if (!day) return [];
+    // Both "today" and the current time are the restaurant's, not the browser's
+    const notBefore = day.date === today ? nowMinutes() : 0;
+    return arrivalTimes(day, lastSeatingMin, notBefore);
+  }, [day, lastSeatingMin, today]);
+
+  /**
+   * Sends the booking request and maps the HTTP status to a translated message.
+   * @param {React.FormEvent} e - Form submit event.
+   */
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setSending(true);
+    setResult(null);
+    try {
+      const r = await fetch("/api/reservations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ date, time, covers, name, email, phone: phone || null, note: note || null }),
+      });
+      if (r.ok) {
+        setResult({
+          ok: true,
+          message: t("contact.booking.success", { covers, date: formatISOToDisplay(date, localeTag), time }),
+        });
+        setName(""); setEmail(""); setPhone(""); setNote("");
+        return;
+      }
+      const body = await r.json().catch(() => ({}));
+      const key =
+        r.status === 409 ? "errorFull"
+        : r.status === 400 && body.issues ? "errorInvalid"
+        : r.status === 400 ? "errorUnavailable"
+        : "errorGeneric";
+      setResult({ ok: false, message: t(`contact.booking.${key}`) });
+    } catch {
+      setResult({ ok: false, message: t("contact.booking.errorGeneric") });
+    } finally {
+      setSending(false);
+    }
+  }
+
+  const field = "w-full rounded-lg border border-[#4C0C27]/30 bg-white px-3 py-2 focus:outline-none focus-visible:ring-2 focus-visible:ring-[#4C0C27]/40";
+
+  return (
+    <div className="rounded-2xl border border-[#4C0C27]/20 bg-white/70 p-4 md:p-6">
+      <h5 className="font-legacy text-2xl md:text-4xl tracking-wide mb-2">{t("contact.booking.title")}</h5>
+      <p className="text-sm text-[#4C0C27] mb-4">{t("contact.booking.intro", { max: MAX_PARTY })}</p>
+
+      <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <label className="text-sm">
+          {t("contact.booking.date")}
+          <input type="date" required min={today} value={date} onChange={(e) => setDate(e.target.value)} className={field} />
+        </label>
+        <label className="text-sm">
+          {t("contact.booking.time")}
+          <select required value={time} onChange={(e) => setTime(e.target.value)} disabled={timeGroups.length === 0} className={field}>
+            <option value="">{!date ? t("contact.booking.pickDate") : "—"}</option>
+            {timeGroups.map((g) => (
+              <optgroup key={g.slot} label={t(g.slot === "LUNCH" ? "contact.hours.lunch" : "contact.hours.dinner")}>
+                {g.times.map((hhmm) => (
+                  <option key={hhmm} value={hhmm}>{hhmm}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          {t("contact.booking.covers")}
+          <select value={covers} onChange={(e) => setCovers(Number(e.target.value))} className={field}>
+            {Array.from({ length: MAX_PARTY }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          {t("contact.booking.name")}
+          <input required maxLength={120} value={name} onChange={(e) => setName(e.target.value)} autoComplete="name" className={field} />
+        </label>
+        <label className="text-sm">
+          {t("contact.booking.email")}
+          <input type="email" required maxLength={200} value={email} onChange={(e) => setEmail(e.target.value)} autoComplete="email" className={field} />
+        </label>
+        <label className="text-sm">
+          {t("contact.booking.phone")}
+          <input type="tel" maxLength={40} value={phone} onChange={(e) => setPhone(e.target.value)} autoComplete="tel" className={field} />
+        </label>
+        <label className="text-sm md:col-span-3">
+          {t("contact.booking.note")}
+          <textarea rows={2} maxLength={1000} value={note} onChange={(e) => setNote(e.target.value)} className={field} />
+        </label>
+
+        {day && timeGroups.length === 0 && (
+          <p className="md:col-span-3 text-sm text-[#C81D25]">
+            {t(day.open ? "contact.booking.noTimes" : "contact.booking.closedDay")}
+          </p>
+        )}
+
+        <div className="md:col-span-3 flex flex-wrap items-center gap-4">
+          <button
+            type="submit"
+            disabled={sending}
+            className="px-5 py-2 rounded-full bg-[#C81D25] text-white font-semibold hover:bg-[#4C0C27] transition disabled:opacity-60"
+          >
+            {sending ? t("contact.booking.sending") : t("contact.booking.submit")}
+          </button>
+          {result && (
+            <p role="status" className={result.ok ? "text-green-700" : "text-[#C81D25]"}>
+              {result.message}
+            </p>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
+
 /* ---------- Read-only Calendar ---------- */
 
 /**
@@ -335,12 +534,12 @@ export default function ContactPage() {
  * @returns {JSX.Element}
  */
 function HoursSection() {
-  const { t, localeTag } = useI18n();
+  const { t, lang, localeTag } = useI18n();
 
   /**
    * @typedef {Object} PublicRow
    * @property {number} weekday - 0 = Monday, ..., 6 = Sunday
-   * @property {string} text - The hours text for the weekday
+   * @property {string} text - The hours text for the weekday, in the current language
    */
   type PublicRow = { weekday: number; text: string };
 
@@ -350,7 +549,7 @@ function HoursSection() {
     let alive = true;
     (async () => {
       try {
-        const r = await fetch("/api/hours");
+        const r = await fetch(`/api/hours?lang=${lang}`);
         if (!r.ok) throw new Error("fetch hours failed");
         const data: PublicRow[] = await r.json();
         if (!alive) return;
@@ -366,7 +565,7 @@ function HoursSection() {
       }
     })();
     return () => { alive = false; };
-  }, []);
+  }, [lang]);
 
 
   //enforce capitalization on weekdays
@@ -418,7 +617,7 @@ function HoursSection() {
 
 /**
  * Read-only calendar showing closure days of the restaurant.
- * Fetches from `/api/closures` and color-codes accordingly.
+ * Fetches the displayed month from `/api/availability` and color-codes accordingly.
  * @component
  * @returns {JSX.Element}
  */
@@ -439,6 +638,8 @@ function ReadOnlyClosuresCalendar() {
   type DayEntry = { slot: Slot; kind: Kind };
 
   const [closures, setClosures] = useState<Record<string, DayEntry>>({});
+  /** Days with an exceptional opening (a recurring closure cancelled for that day or service) */
+  const [openings, setOpenings] = useState<Record<string, true>>({});
 
   /**
    * Returns a numeric rank for a Slot to compare slot breadth.
@@ -457,46 +658,45 @@ function ReadOnlyClosuresCalendar() {
     let alive = true;
     (async () => {
       try {
-        const res = await fetch("/api/closures");
-        const data: Array<{
-          id: string;
-          date: string | Date;
-          slot: "ALL" | "LUNCH" | "DINNER";
-          note?: string | null;
-          kind?: "EXCEPTIONAL" | "RECURRING";
-        }> = await res.json();
+        const from = toISODate(refDate);
+        const to = toISODate(new Date(refDate.getFullYear(), refDate.getMonth() + 1, 0));
+        const res = await fetch(`/api/availability?from=${from}&to=${to}`);
+        if (!res.ok) return;
+        const data: { days: DayAvailability[] } = await res.json();
         if (!alive) return;
 
         const map = new Map<string, DayEntry>();
-
-        for (const c of data) {
-          const iso = isoDateFromDateTime(c.date);
-          const slot: Slot = c.slot === "ALL" ? "all" : c.slot === "LUNCH" ? "lunch" : "dinner";
-          // if backend doesn't send kind yet, infer from id
-          const kind: Kind = c.kind ?? (c.id.startsWith("rec_") ? "RECURRING" : "EXCEPTIONAL");
-
-          const incoming: DayEntry = { slot, kind };
-          const prev = map.get(iso);
-
-          if (!prev) {
-            map.set(iso, incoming);
-          } else {
-            // precedence: EXCEPTIONAL > RECURRING; tie-break with slot breadth
-            if (kindRank(incoming.kind) > kindRank(prev.kind)) {
-              map.set(iso, incoming);
-            } else if (kindRank(incoming.kind) === kindRank(prev.kind)) {
-              map.set(iso, slotRank(incoming.slot) >= slotRank(prev.slot) ? incoming : prev);
+        const opened: Record<string, true> = {};
+
+        for (const day of data.days) {
+          if (day.openings?.length) opened[day.date] = true;
+          for (const c of day.closures) {
+            const incoming: DayEntry = { slot: toFrontendSlot(c.slot), kind: c.kind };
+            const prev = map.get(day.date);
+
+            if (!prev) {
+              map.set(day.date, incoming);
+            } else {
+              // precedence: EXCEPTIONAL > RECURRING; tie-break with slot breadth
+              if (kindRank(incoming.kind) > kindRank(prev.kind)) {
+                map.set(day.date, incoming);
+              } else if (kindRank(incoming.kind) === kindRank(prev.kind)) {
+                map.set(day.date, slotRank(incoming.slot) >= slotRank(prev.slot) ? incoming : prev);
+              }
             }
           }
+          // closed by the weekly hours alone (no closure entry): shown as 'autres'
+          if (!day.open && !map.has(day.date)) map.set(day.date, { slot: "all", kind: "OTHER" });
         }
 
         setClosures(Object.fromEntries(map));
+        setOpenings(opened);
       } catch {
         // keep empty on error
       }
     })();
     return () => { alive = false; };
-  }, []);
+  }, [refDate]);
 
   const weeks = useMemo(() => buildCalendar(refDate), [refDate]);
 
@@ -539,6 +739,7 @@ function ReadOnlyClosuresCalendar() {
           <LegendSwatch color="#A26BF5" label="Fermé toute la journée" />
           <LegendSwatch color="#FFB96B" label="Fermé à midi" />
           <LegendSwatch color="#4C0C27" label="Fermé" />
+          <LegendSwatch color={OPENING_COLOR} label={t("contact.legend.opening")} />
           {/* Intentionally no legend for 'autres' (gris) */}
         </div>
       </div>
@@ -555,6 +756,7 @@ function ReadOnlyClosuresCalendar() {
         {weeks.flat().map((cell, idx) => {
           const iso = cell?.iso;
           const entry = iso ? closures[iso] : undefined;
+          const opening = iso ? openings[iso] : undefined;
           const isOtherMonth = cell && cell.date.getMonth() !== refDate.getMonth();
 
           return (
@@ -576,6 +778,19 @@ function ReadOnlyClosuresCalendar() {
                       style={{ height: "70%", backgroundColor: dayColor(entry.kind, entry.slot) }}
                     />
                   )}
+                  {/* Exceptional opening: outlined in green; a dot when a service stays closed */}
+                  {opening && (entry ? (
+                    <span
+                      className="absolute top-1 right-1 h-2 w-2 rounded-full ring-2 ring-white"
+                      style={{ backgroundColor: OPENING_COLOR }}
+                    />
+                  ) : (
+                    <span
+                      className="absolute left-1 right-1 bottom-1 rounded border-2 border-dashed"
+                      style={{ height: "70%", borderColor: OPENING_COLOR }}
+                      title={t("contact.legend.opening")}
+                    />
+                  ))}
                 </>
               )}
             </div>
@@ -588,13 +803,136 @@ function ReadOnlyClosuresCalendar() {
         <LegendSwatch color="#A26BF5" label="Récurrent (toute la journée)" />
         <LegendSwatch color="#FFB96B" label="Récurrent (midi)" />
         <LegendSwatch color="#4C0C27" label="Exceptionnelle" />
+        <LegendSwatch color={OPENING_COLOR} label={t("contact.legend.opening")} />
       </div>
     </div>
   );
 }
 
+/**
+ * Lists the upcoming exceptional closures (next 12 months) below the calendar.
+ * Days belonging to one closure period are shown as a single date range; weekly recurring
+ * closures are left to the calendar.
+ * Fetches from `/api/closures`.
+ * @component
+ * @returns {JSX.Element}
+ */
+function UpcomingClosuresList() {
+  const { t, localeTag } = useI18n();
+
+  /**
+   * @typedef {Object} Item
+   * @property {string} key - Period id, or closure id for a single day
+   * @property {string} start - First day (YYYY-MM-DD)
+   * @property {string} end - Last day (YYYY-MM-DD)
+   */
+  type Item = { key: string; start: string; end: string; slot: BackendSlot; note?: string | null };
+
+  const [items, setItems] = useState<Item[] | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    (async () => {
+      try {
+        const start = todayYMD();
+        const end = addDays(start, 365);
+        const res = await fetch(`/api/closures?start=${start}&end=${end}`);
+        // An error body is not a list: show the empty state
+        if (!res.ok) {
+          if (alive) setItems([]);
+          return;
+        }
+        const data: Array<BackendClosure & {
+          kind: "EXCEPTIONAL" | "RECURRING";
+          period?: { id: string; start: string; end: string };
+        }> = await res.json();
+        if (!alive) return;
+
+        const map = new Map<string, Item>();
+        for (const c of data) {
+          if (c.kind !== "EXCEPTIONAL") continue;
+          if (c.period) {
+            map.set(c.period.id, {
+              key: c.period.id,
+              start: apiDay(c.period.start),
+              end: apiDay(c.period.end),
+              slot: c.slot,
+              note: c.note,
+            });
+          } else {
+            const iso = apiDay(c.date);
+            map.set(c.id, { key: c.id, start: iso, end: iso, slot: c.slot, note: c.note });
+          }
+        }
+        setItems(Array.from(map.values()).sort((a, b) => a.start.localeCompare(b.start)));
+      } catch {
+        if (alive) setItems([]);
+      }
+    })();
+    return () => { alive = false; };
+  }, []);
+
+  if (items === null) return null;
+
+  return (
+    <div className="mt-6">
+      <h6 className="font-semibold text-lg mb-2">{t("contact.listTitle")}</h6>
+      {items.length === 0 ? (
+        <p className="text-sm text-[#4C0C27]">{t("contact.none")}</p>
+      ) : (
+        <ul className="divide-y divide-[#4C0C27]/10 rounded-2xl border border-[#4C0C27]/20 bg-white/70">
+          {items.map((i) => (
+            <li key={i.key} className="px-4 py-2 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm md:text-base">
+              <span className="font-medium">
+                {i.start === i.end
+                  ? formatISOToDisplay(i.start, localeTag)
+                  : t("contact.range", {
+                      start: formatISOToDisplay(i.start, localeTag),
+                      end: formatISOToDisplay(i.end, localeTag),
+                    })}
+              </span>
+              <span className="text-[#4C0C27]">{t(`contact.legend.${toFrontendSlot(i.slot)}`)}</span>
+              {i.note && <span className="italic text-[#4C0C27]/80">{i.note}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Links to the public iCalendar feed of closures (`/api/closures.ics`), in the current language:
+ * a `webcal://` subscription that calendar apps keep in sync, and a one-off `.ics` download.
+ * @component
+ * @returns {JSX.Element}
+ */
+function CalendarSubscribeLinks() {
+  const { t, lang } = useI18n();
+  const path = `/api/closures.ics?lang=${lang}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+      <a
+        href={`webcal://${window.location.host}${path}`}
+        className="inline-flex items-center gap-1.5 rounded-full border border-[#4C0C27]/30 bg-white/70 px-3 py-1.5 hover:bg-white"
+        title={t("contact.subscribeHint")}
+      >
+        <CalendarPlus className="h-4 w-4" aria-hidden="true" />
+        {t("contact.subscribe")}
+      </a>
+      <a href={path} download="lorangerose-closures.ics" className="underline text-[#4C0C27]/80">
+        {t("contact.downloadIcs")}
+      </a>
+    </div>
+  );
+}
+
 /* ---------- helpers ---------- */
 
+/** Color marking exceptional openings in the calendar */
+const OPENING_COLOR = "#2F855A";
+
 /**
  * Returns color for a calendar day based on kind and slot.
  * 'Other' stays unlisted in legend.
@@ -2,7 +2,9 @@
 import { useEffect, useMemo, useRef, useState, useCallback } from "react";
 import { ArrowLeft, Instagram } from "lucide-react";
 import { motion } from "framer-motion";
-import { Link } from "react-router-dom";
+import { Link, NavLink, useParams } from "react-router-dom";
+import ResponsiveImage, { type MediaSrcSet } from "../components/ResponsiveImage";
+import { useI18n } from "../i18n";
 
 /**
  * @file Gallery.tsx
@@ -17,6 +19,8 @@ import { Link } from "react-router-dom";
  * - On hover we bump both row and column span (where space allows) so the card
  *   gets taller + a bit wider, physically pushing neighbors away.
  * - Keeps original layout ratios using natural image dimensions.
+ * - Albums are shown as tabs linking to `/gallery/:slug`, so each album can be shared directly;
+ *   `/gallery` shows every published image.
  */
 
 /**
@@ -35,6 +39,8 @@ const DEBUG = import.meta.env.DEV;
  * @property {boolean} published - Flag for published state.
  * @property {number|null|undefined} [width] - Optional natural width.
  * @property {number|null|undefined} [height] - Optional natural height.
+ * @property {string|null|undefined} [placeholder] - Blurred preview (data URI).
+ * @property {MediaSrcSet|null|undefined} [srcset] - Responsive variants per format.
  * @property {number|undefined} [_linkSortOrder] - Optional link sort order.
  */
 export type MediaAsset = {
@@ -46,9 +52,37 @@ export type MediaAsset = {
     published: boolean;
     width?: number | null;
     height?: number | null;
+    placeholder?: string | null;
+    srcset?: MediaSrcSet | null;
     _linkSortOrder?: number;
 };
 
+/**
+ * @typedef {Object} GalleryAlbum
+ * @property {string} id - Album id.
+ * @property {string} slug - URL segment (`/gallery/:slug`).
+ * @property {string|null} title - Title in the current language.
+ * @property {MediaAsset|null} cover - Cover image.
+ * @property {number} itemCount - Number of published images.
+ */
+export type GalleryAlbum = {
+    id: string;
+    slug: string;
+    title: string | null;
+    cover: MediaAsset | null;
+    itemCount: number;
+};
+
+/**
+ * Keeps published items, in display order.
+ * @param {MediaAsset[]} data - Items from the API.
+ * @returns {MediaAsset[]}
+ */
+const sortItems = (data: MediaAsset[]) =>
+    [...data]
+        .filter((d) => d.published !== false)
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+
 /**
  * @constant {number} ROW - Base masonry row height, in px.
  */
@@ -61,25 +95,66 @@ const GAP = 12; // px — gap between cards
 
 /**
  * Gallery page component. Fetches media from API, renders a dynamic interactive masonry layout.
+ * The optional `:slug` route parameter selects an album.
  * 
  * @component
  * @returns {JSX.Element}
  */
 export default function Gallery() {
+    const { slug } = useParams<{ slug?: string }>();
+    const { t, lang } = useI18n();
+    const [albums, setAlbums] = useState<GalleryAlbum[]>([]);
     const [items, setItems] = useState<MediaAsset[]>([]);
+    const [albumTitle, setAlbumTitle] = useState<string | null>(null);
+    const [notFound, setNotFound] = useState(false);
     const [loading, setLoading] = useState(true);
 
+    // album tabs (titles in the current language)
+    useEffect(() => {
+        let alive = true;
+        (async () => {
+            try {
+                const res = await fetch(`/api/gallery/albums?lang=${lang}`);
+                const data: GalleryAlbum[] = res.ok ? await res.json() : [];
+                if (alive) setAlbums(data);
+            } catch (e) {
+                if (DEBUG) console.error("GALLERY albums fetch failed:", e);
+                if (alive) setAlbums([]);
+            }
+        })();
+        return () => {
+            alive = false;
+        };
+    }, [lang]);
+
+    // images of the selected album, or of every album
     useEffect(() => {
         let alive = true;
+        setLoading(true);
+        setNotFound(false);
         (async () => {
             try {
-                const res = await fetch("/api/gallery");
-                const data: MediaAsset[] = res.ok ? await res.json() : [];
-                if (!alive) return;
-                const sorted = [...data]
-                    .filter((d) => d.published !== false)
-                    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
-                setItems(sorted);
+                if (slug) {
+                    const res = await fetch(`/api/gallery/albums/${encodeURIComponent(slug)}?lang=${lang}`);
+                    if (!alive) return;
+                    if (res.status === 404) {
+                        setNotFound(true);
+                        setAlbumTitle(null);
+                        setItems([]);
+                        return;
+                    }
+                    const data: (GalleryAlbum & { items: MediaAsset[] }) | null = res.ok ? await res.json() : null;
+                    if (!alive) return;
+                    setAlbumTitle(data?.title ?? null);
+                    setItems(sortItems(data?.items ?? []));
+                } else {
+                    const res = await fetch("/api/gallery");
+                    const data: MediaAsset[] = res.ok ? await res.json() : [];
+                    if (!alive) return;
+                    setAlbumTitle(null);
+                    // already ordered by album, then by position in the album
+                    setItems(data.filter((d) => d.published !== false));
+                }
             } catch (e) {
                 if (DEBUG) console.error("GALLERY fetch failed:", e);
                 if (alive) setItems([]);
@@ -90,7 +165,7 @@ export default function Gallery() {
         return () => {
             alive = false;
         };
-    }, []);
+    }, [slug, lang]);
 
     const columnsHint = useColumnsHint();
 
@@ -135,7 +210,7 @@ export default function Gallery() {
                             animate={{ opacity: 1, y: 0, transition: { duration: 0.6, ease: "easeOut" } }}
                             className="font-lorange text-[11vw] leading-[0.9] sm:text-7xl md:text-8xl lg:text-9xl tracking-tight text-[#F7EBD9] select-none drop-shadow-[0_8px_30px_rgba(255,255,255,0.1)]"
                         >
-                            Gallery
+                            {albumTitle ?? "Gallery"}
                         </motion.h1>
                         <motion.p
                             initial={{ opacity: 0, y: 12 }}
@@ -144,6 +219,16 @@ export default function Gallery() {
                         >
                             
                         </motion.p>
+
+                        {/* Album tabs */}
+                        {albums.length > 1 && (
+                            <nav aria-label={t("gallery.albums")} className="mt-8 flex flex-wrap gap-2">
+                                <AlbumTab to="/gallery" end>{t("gallery.all")}</AlbumTab>
+                                {albums.map((a) => (
+                                    <AlbumTab key={a.id} to={`/gallery/${a.slug}`}>{a.title ?? a.slug}</AlbumTab>
+                                ))}
+                            </nav>
+                        )}
                     </div>
                 </section>
 
@@ -155,7 +240,14 @@ export default function Gallery() {
                         </motion.div>
                     )}
 
-                    {!loading && items.length === 0 && (
+                    {!loading && notFound && (
+                        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="text-center text-[#F7EBD9]/70">
+                            {t("gallery.notFound")}{" "}
+                            <Link to="/gallery" className="link-underline">{t("gallery.all")}</Link>
+                        </motion.div>
+                    )}
+
+                    {!loading && !notFound && items.length === 0 && (
                         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="text-center text-[#F7EBD9]/70">
                             Nothing here yet — check back soon.
                         </motion.div>
@@ -184,6 +276,33 @@ export default function Gallery() {
 
 /* ---------------- Components ---------------- */
 
+/**
+ * @function AlbumTab
+ * @description Link to an album, highlighted while it is the current page.
+ * @param {Object} props
+ * @param {string} props.to - Album URL.
+ * @param {boolean} [props.end] - Only match the exact URL (for `/gallery`).
+ * @param {React.ReactNode} props.children - Album title.
+ * @returns {JSX.Element}
+ */
+function AlbumTab({ to, end, children }: { to: string; end?: boolean; children: React.ReactNode }) {
+    return (
+        <NavLink
+            to={to}
+            end={end}
+            className={({ isActive }) =>
+                `rounded-full px-4 py-1.5 text-sm font-medium ring-1 transition-colors ${
+                    isActive
+                        ? "bg-[#F7EBD9] text-[#0B0B0B] ring-[#F7EBD9]"
+                        : "text-[#F7EBD9]/80 ring-white/20 hover:ring-white/50 hover:text-[#F7EBD9]"
+                }`
+            }
+        >
+            {children}
+        </NavLink>
+    );
+}
+
 /**
  * @function ScrollProgress
  * @description Renders a horizontal bar indicating scroll progress across the page. Uses window scroll position.
@@ -377,10 +496,10 @@ function MasonryCard({ asset, columnsHint }: { asset: MediaAsset; columnsHint: n
         onMouseLeave={onLeave}
       >
         <div className="card-inner">
-          <img
+          <ResponsiveImage
             ref={imgRef}
-            src={asset.url}
-            alt={asset.alt ?? ""}
+            asset={asset}
+            sizes={`${Math.ceil((100 * spans.baseColSpan) / Math.max(1, columnsHint))}vw`}
             loading="lazy"
             decoding="async"
             onLoad={onImgLoad}
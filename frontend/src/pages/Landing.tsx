@@ -12,6 +12,9 @@ import { motion } from "framer-motion";
 import { Link } from "react-router-dom";
 import { parseAPIDate, fmtWeekday } from "../lib/date";
 import LanguageDropdown from "../components/LanguageDropdown";
+import OpenStatusBadge from "../components/OpenStatusBadge";
+import ResponsiveImage, { type MediaSrcSet } from "../components/ResponsiveImage";
+import VideoAsset, { isVideoAsset } from "../components/VideoAsset";
 import { useI18n } from "@/i18n";
 import Logo from "@/assets/essentials/orangerose_logo-removebg-preview.png";
 
@@ -23,22 +26,36 @@ const USE_CHUNKY = false;
  * @property {string} id - The unique identifier for the asset.
  * @property {string} type - The type/category of the media asset ("HERO" | "MENU" | string).
  * @property {string} url - The URL of the media asset.
+ * @property {?string} mimeType - Detected file type ("image/jpeg", "video/mp4"…).
  * @property {?string} alt - The alt text for accessibility, can be null.
  * @property {number} sortOrder - The display order for the asset.
  * @property {boolean} published - Whether the asset is visible/public.
  * @property {?number} width - Optional width.
  * @property {?number} height - Optional height.
+ * @property {?string} placeholder - Blurred preview (data URI).
+ * @property {?MediaSrcSet} srcset - Responsive variants per format.
+ * @property {?string} posterUrl - Poster frame of a video.
+ * @property {?number} duration - Length of a video, in seconds.
+ * @property {boolean} muted - Whether a video plays without sound.
+ * @property {boolean} loop - Whether a video restarts when it ends.
  * @property {?number} _linkSortOrder - Optional sort order from join table.
  */
 type MediaAsset = {
   id: string;
   type: "HERO" | "MENU" | string; // keep open if you add more
   url: string;
+  mimeType?: string | null;
   alt: string | null;
   sortOrder: number;
   published: boolean;
   width?: number | null;
   height?: number | null;
+  placeholder?: string | null;
+  srcset?: MediaSrcSet | null;
+  posterUrl?: string | null;
+  duration?: number | null;
+  muted?: boolean;
+  loop?: boolean;
   _linkSortOrder?: number; // from join table
 };
 
@@ -129,10 +146,9 @@ export default function Landing() {
 
   /**
    * @state slides
-   * @brief Slide images for the hero/carousel area.
-   * Each slide consists of a `src` URL and optional `alt` string.
+   * @brief Slide images for the hero/carousel area (HERO media assets with their variants).
    */
-  const [slides, setSlides] = useState<Array<{ src: string; alt: string }>>([]);
+  const [slides, setSlides] = useState<MediaAsset[]>([]);
   /**
    * @state announcements
    * @brief Array of announcement objects (from /api/announcements).
@@ -153,6 +169,11 @@ export default function Landing() {
    * @brief The current hero carousel index (0-based)
    */
   const [idx, setIdx] = useState(0);
+  /**
+   * @state videoPlaying
+   * @brief Whether the video of the current slide is playing (auto-advance waits for its end).
+   */
+  const [videoPlaying, setVideoPlaying] = useState(false);
   /**
    * @state scrollY
    * @brief Current scroll position (used for parallax effect).
@@ -165,7 +186,7 @@ export default function Landing() {
   const [mobileOpen, setMobileOpen] = useState(false);
 
   // i18n - internationalization context
-  const { t, localeTag } = useI18n();
+  const { t, lang, localeTag } = useI18n();
 
   /**
    * @const news
@@ -174,7 +195,7 @@ export default function Landing() {
   const news = useMemo(() => {
     return announcements
       .map((a) => {
-        const d = parseAPIDate(a.date); // your helper
+        const d = parseAPIDate(a.date); // midnight UTC of the day
         return isNaN(d.getTime()) ? null : { ...a, _date: d };
       })
       .filter((x): x is Announcement & { _date: Date } => !!x)
@@ -193,7 +214,7 @@ export default function Landing() {
         const data: MediaAsset[] = await res.json();
         if (!alive) return;
         const sorted = data.sort((a, b) => a.sortOrder - b.sortOrder); // server already orders, but safe
-        setSlides(sorted.map((m) => ({ src: m.url, alt: m.alt ?? "" })));
+        setSlides(sorted);
       } catch {
         // optional: setSlides([...fallbacks]) or leave empty
       } finally {
@@ -206,14 +227,14 @@ export default function Landing() {
   }, []);
 
   /**
-   * Fetches announcements (news/events) from the API on mount.
+   * Fetches announcements (news/events) from the API in the current language (refetched when it changes).
    * Handles error fallback and populates announcements state.
    */
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        const res = await fetch("/api/announcements");
+        const res = await fetch(`/api/announcements?lang=${lang}`);
         if (!res.ok) {
           const text = await res.text();
           console.error("GET /api/announcements failed:", res.status, text);
@@ -234,17 +255,18 @@ export default function Landing() {
     return () => {
       alive = false;
     };
-  }, []);
+  }, [lang]);
 
   /**
    * Carousel auto-advancer:
    * Automatically cycles through hero slides at a 4.8s interval if slides exist.
+   * Paused while a video slide plays; the carousel moves on when the video ends.
    */
   useEffect(() => {
-    if (slides.length === 0) return;
+    if (slides.length === 0 || videoPlaying) return;
     const id = setInterval(() => setIdx((i) => (i + 1) % slides.length), 4800);
     return () => clearInterval(id);
-  }, [slides.length]);
+  }, [slides.length, videoPlaying]);
 
   /**
    * Tracks window scroll position and updates `scrollY`.
@@ -286,12 +308,24 @@ export default function Landing() {
                 className={`absolute inset-0 transition-all duration-1000 ease-in-out ${i === idx ? "opacity-100 scale-105" : "opacity-0 scale-100"
                   }`}
               >
-                <img
-                  src={s.src}
-                  alt={s.alt}
-                  className="h-full w-full object-cover"
-                  loading={i === 0 ? "eager" : "lazy"}
-                />
+                {isVideoAsset(s) ? (
+                  // a video only loops when it is the only slide, otherwise the carousel continues after it
+                  <VideoAsset
+                    asset={s}
+                    active={i === idx}
+                    loop={slides.length === 1 && (s.loop ?? true)}
+                    className="h-full w-full object-cover"
+                    onPlayingChange={(playing) => i === idx && setVideoPlaying(playing)}
+                    onEnded={() => setIdx((cur) => (cur + 1) % slides.length)}
+                  />
+                ) : (
+                  <ResponsiveImage
+                    asset={s}
+                    sizes="100vw"
+                    className="h-full w-full object-cover"
+                    loading={i === 0 ? "eager" : "lazy"}
+                  />
+                )}
               </div>
             ))}
           </div>
@@ -416,6 +450,9 @@ export default function Landing() {
             <p className="mt-6 text-white/90 text-xl md:text-2xl lg:text-6xl max-w-[65ch] font-light font-edo">
               {t("hero.tagline")}
             </p>
+            <div className="mt-6">
+              <OpenStatusBadge tone="dark" />
+            </div>
             {!USE_CHUNKY ? (
               <div className="mt-10 flex flex-wrap items-center justify-center gap-8">
                 <Link to="/menu" className="link-underline link-underline-beige text-3xl md:text-4xl font-bold">
@@ -457,8 +494,8 @@ export default function Landing() {
               >
                 {rows.map((a) => {
                   const d = a._date!;
-                  const day = new Intl.DateTimeFormat(localeTag, { day: "2-digit" }).format(d);
-                  const mon = new Intl.DateTimeFormat(localeTag, { month: "short" }).format(d);
+                  const day = new Intl.DateTimeFormat(localeTag, { day: "2-digit", timeZone: "UTC" }).format(d);
+                  const mon = new Intl.DateTimeFormat(localeTag, { month: "short", timeZone: "UTC" }).format(d);
 
                   const hero = a.mediaAssets?.[0];
                   const hasImg = !!hero?.url;
@@ -476,12 +513,19 @@ export default function Landing() {
                       {hasImg ? (
                         <>
                           <div className="relative aspect-[4/3] w-full overflow-hidden bg-[#F7E9ED]">
-                            <img
-                              src={hero!.url}
-                              alt={hero!.alt ?? ""}
-                              className="absolute inset-0 h-full w-full object-cover object-center transition-transform duration-500 group-hover:scale-[1.02]"
-                              loading="lazy"
-                            />
+                            {isVideoAsset(hero!) ? (
+                              <VideoAsset
+                                asset={hero!}
+                                className="absolute inset-0 h-full w-full object-cover object-center"
+                              />
+                            ) : (
+                              <img
+                                src={hero!.url}
+                                alt={hero!.alt ?? ""}
+                                className="absolute inset-0 h-full w-full object-cover object-center transition-transform duration-500 group-hover:scale-[1.02]"
+                                loading="lazy"
+                              />
+                            )}
                           </div>
 
                           {a.desc && (
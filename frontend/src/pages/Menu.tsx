@@ -1,11 +1,11 @@
 /**
  * @file Menu.tsx
- * @brief The Menu page for the L'Orange Rose website. Displays menus as images and provides navigation.
+ * @brief The Menu page for the L'Orange Rose website. Displays the structured menu as text, with the menu images as a printable version.
  */
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Logo from "/src/assets/essentials/orangerose_logo-removebg-preview.png";
-import { Menu, X } from "lucide-react";
+import { FileText, Flame, Leaf, Menu, Search, Sprout, X } from "lucide-react";
 import { AnimatePresence, motion } from "framer-motion";
 import { useI18n } from "../i18n";
 import LanguageDropdown from "../components/LanguageDropdown";
@@ -62,6 +62,7 @@ type MediaAsset = {
   id: string;
   type: "HERO" | "MENU";
   url: string;          // "/uploads/....jpg" (dev) or absolute URL (Supabase later)
+  mimeType?: string | null; // "application/pdf" for PDF menus
   alt: string | null;
   sortOrder: number;
   published: boolean;
@@ -69,31 +70,171 @@ type MediaAsset = {
   height?: number | null;
 };
 
+/**
+ * @brief The 14 regulated EU allergens, in the order of the legend (a dish shows their 1-based number).
+ */
+const ALLERGENS = [
+  "GLUTEN", "CRUSTACEANS", "EGGS", "FISH", "PEANUTS", "SOYBEANS", "MILK",
+  "NUTS", "CELERY", "MUSTARD", "SESAME", "SULPHITES", "LUPIN", "MOLLUSCS",
+] as const;
+type Allergen = (typeof ALLERGENS)[number];
+
+/** Dietary tags a visitor can filter on. */
+const DIETS = ["VEGETARIAN", "VEGAN", "HALAL"] as const;
+type Diet = (typeof DIETS)[number];
+
+/**
+ * @typedef PublicDish
+ * @brief A dish as returned by /api/menu, already resolved in the requested language.
+ * @property {?number} priceCents - Base price in euro cents (null when only variants are priced).
+ * @property {Allergen[]} allergens - Regulated allergens present in the dish.
+ * @property {number} spicyLevel - 0 (not spicy) to 3.
+ * @property {Array} variants - Priced variants (e.g. "6 pcs" / "12 pcs").
+ */
+type PublicDish = {
+  id: string;
+  name: string;
+  description: string | null;
+  priceCents: number | null;
+  allergens: Allergen[];
+  vegetarian: boolean;
+  vegan: boolean;
+  halal: boolean;
+  spicyLevel: number;
+  variants: { id: string; label: string; priceCents: number }[];
+};
+
+/**
+ * @typedef PublicMenuSection
+ * @brief A menu section (e.g. "Ramen") with its published dishes.
+ */
+type PublicMenuSection = {
+  id: string;
+  title: string;
+  description: string | null;
+  dishes: PublicDish[];
+};
+
+/**
+ * @typedef PublicMenu
+ * @brief Payload of GET /api/menu.
+ * @property {PublicMenuSection[]} sections - Structured menu.
+ * @property {MediaAsset[]} printable - Menu images or PDFs, offered as a printable menu.
+ */
+type PublicMenu = {
+  sections: PublicMenuSection[];
+  printable: MediaAsset[];
+};
+
+/**
+ * @function normalize
+ * @brief Lowercases and strips accents so that search matches "gyoza" against "Gyōza".
+ * @param {string} s - Input text.
+ * @returns {string}
+ */
+function normalize(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+/**
+ * @function matchesFilters
+ * @brief Whether a dish contains none of the excluded allergens and carries every selected dietary tag.
+ * @param {PublicDish} d - The dish.
+ * @param {Allergen[]} exclude - Allergens to avoid.
+ * @param {Diet[]} diet - Required dietary tags (a vegan dish counts as vegetarian).
+ * @returns {boolean}
+ */
+function matchesFilters(d: PublicDish, exclude: Allergen[], diet: Diet[]) {
+  if (d.allergens.some((a) => exclude.includes(a))) return false;
+  return diet.every((k) =>
+    k === "VEGETARIAN" ? d.vegetarian || d.vegan : k === "VEGAN" ? d.vegan : d.halal
+  );
+}
+
+/**
+ * @function DishTags
+ * @brief Dietary symbols and allergen numbers shown next to a dish (explained by the legend).
+ * @param {object} props
+ * @param {PublicDish} props.dish - The dish.
+ * @returns {JSX.Element | null}
+ */
+function DishTags({ dish }: { dish: PublicDish }) {
+  const { t } = useI18n();
+  const nums = ALLERGENS.map((a, i) => (dish.allergens.includes(a) ? { a, n: i + 1 } : null)).filter(
+    (x): x is { a: Allergen; n: number } => x !== null
+  );
+  if (!dish.vegetarian && !dish.vegan && !dish.halal && dish.spicyLevel === 0 && nums.length === 0) return null;
+
+  return (
+    <div className="mt-1.5 flex flex-wrap items-center gap-1.5 text-xs text-[#4C0C27]">
+      {dish.vegan ? (
+        <span title={t("menu.diet.VEGAN")} className="inline-flex items-center gap-1 rounded-full bg-green-700/10 text-green-800 px-2 py-0.5">
+          <Sprout size={12} aria-hidden /> {t("menu.diet.VEGAN")}
+        </span>
+      ) : dish.vegetarian ? (
+        <span title={t("menu.diet.VEGETARIAN")} className="inline-flex items-center gap-1 rounded-full bg-green-700/10 text-green-800 px-2 py-0.5">
+          <Leaf size={12} aria-hidden /> {t("menu.diet.VEGETARIAN")}
+        </span>
+      ) : null}
+      {dish.halal && (
+        <span className="rounded-full bg-[#4C0C27]/10 px-2 py-0.5">{t("menu.diet.HALAL")}</span>
+      )}
+      {dish.spicyLevel > 0 && (
+        <span
+          title={t("menu.spicy", { n: dish.spicyLevel })}
+          aria-label={t("menu.spicy", { n: dish.spicyLevel })}
+          className="inline-flex text-[#C81D25]"
+        >
+          {Array.from({ length: dish.spicyLevel }, (_, i) => <Flame key={i} size={13} aria-hidden />)}
+        </span>
+      )}
+      {nums.map(({ a, n }) => (
+        <abbr
+          key={a}
+          title={t(`menu.allergens.${a}`)}
+          className="no-underline inline-flex items-center justify-center w-5 h-5 rounded-full border border-[#4C0C27]/40 text-[10px] font-semibold"
+        >
+          {n}
+        </abbr>
+      ))}
+    </div>
+  );
+}
+
 /**
  * @function MenuPage
  * @brief Top-level React component for the Menu page. Handles image fetching, loading state, header, navigation, and page styling.
  * @returns {JSX.Element}
  */
 export default function MenuPage() {
-  /** Images fetched from the menu media endpoint */
-  const [images, setImages] = useState<MediaAsset[]>([]);
-  /** Loading state for image fetch */
+  /** Structured menu and printable images fetched from the menu endpoint */
+  const [menu, setMenu] = useState<PublicMenu>({ sections: [], printable: [] });
+  /** Loading state for menu fetch */
   const [loading, setLoading] = useState(true);
-  /** Translation function from i18n */
-  const { t } = useI18n();
+  /** Free-text dish search */
+  const [query, setQuery] = useState("");
+  /** Allergens the visitor wants to avoid */
+  const [exclude, setExclude] = useState<Allergen[]>([]);
+  /** Dietary tags the visitor requires */
+  const [diet, setDiet] = useState<Diet[]>([]);
+  /** Translation function, language and locale from i18n */
+  const { t, lang, localeTag } = useI18n();
 
   /**
-   * @brief Fetch menu images from backend API on mount.
-   * Limits to 10 images, sorted by sortOrder, suppresses error UI in case of fetch failure.
+   * @brief Fetch the menu in the current language (refetched when the language changes).
+   * Suppresses error UI in case of fetch failure.
    */
   useEffect(() => {
     let alive = true;
     (async () => {
       try {
-        const res = await fetch("/api/media?type=MENU"); // defaults to 3 server-side
-        const data: MediaAsset[] = await res.json();
+        const res = await fetch(`/api/menu?lang=${lang}`);
+        const data: PublicMenu = await res.json();
         if (!alive) return;
-        setImages([...data].sort((a, b) => a.sortOrder - b.sortOrder).slice(0, 10)); // front-end safety
+        setMenu({
+          sections: data.sections ?? [],
+          printable: [...(data.printable ?? [])].sort((a, b) => a.sortOrder - b.sortOrder).slice(0, 10), // front-end safety
+        });
       } catch {
         // leave empty on error
       } finally {
@@ -101,7 +242,50 @@ export default function MenuPage() {
       }
     })();
     return () => { alive = false; };
-  }, []);
+  }, [lang]);
+
+  /** Euro price formatter for the current locale */
+  const price = useMemo(
+    () => new Intl.NumberFormat(localeTag, { style: "currency", currency: "EUR" }),
+    [localeTag]
+  );
+  const fmt = (cents: number) => price.format(cents / 100);
+
+  /** Sections filtered by the search query and the allergen/diet filters (sections without a match are hidden) */
+  const sections = useMemo(() => {
+    const q = normalize(query.trim());
+    if (!q && exclude.length === 0 && diet.length === 0) return menu.sections;
+    return menu.sections
+      .map((s) => ({
+        ...s,
+        dishes: s.dishes.filter((d) =>
+          matchesFilters(d, exclude, diet) &&
+          normalize(`${d.name} ${d.description ?? ""} ${s.title}`).includes(q)
+        ),
+      }))
+      .filter((s) => s.dishes.length > 0);
+  }, [menu.sections, query, exclude, diet]);
+
+  /** Allergens that appear on at least one dish (only those are offered as filters) */
+  const presentAllergens = useMemo(
+    () => ALLERGENS.filter((a) => menu.sections.some((s) => s.dishes.some((d) => d.allergens.includes(a)))),
+    [menu.sections]
+  );
+
+  /** Adds or removes a value from a filter list */
+  function toggle<T>(list: T[], v: T) {
+    return list.includes(v) ? list.filter((x) => x !== v) : [...list, v];
+  }
+
+  const chip = (on: boolean) =>
+    [
+      "px-3 py-1 rounded-full text-sm border transition",
+      on
+        ? "bg-[#4C0C27] text-white border-[#4C0C27]"
+        : "bg-white/70 text-[#4C0C27] border-[#4C0C27]/20 hover:bg-[#4C0C27]/10",
+    ].join(" ");
+
+  const images = menu.printable;
 
   /** Whether the mobile navbar drawer is open */
   const [mobileOpen, setMobileOpen] = useState(false);
@@ -213,27 +397,178 @@ export default function MenuPage() {
           <div className="rounded-3xl border border-[#4C0C27]/20 bg-white/70 p-8 text-center text-[#4C0C27]">
             {t("menu.loading")}
           </div>
-        ) : images.length === 0 ? (
+        ) : menu.sections.length === 0 && images.length === 0 ? (
           <div className="rounded-3xl border border-[#4C0C27]/20 bg-white/70 p-8 text-center text-[#4C0C27]">
             {t("menu.comingSoon")}
           </div>
         ) : (
-          <div className="grid grid-cols-1 gap-6">
-            {images.map((m) => (
-              <figure
-                key={m.id}
-                className="rounded-3xl overflow-hidden border border-[#4C0C27]/20 bg-white/70 shadow-sm"
-              >
-                <img
-                  src={m.url}
-                  alt={m.alt ?? t("menu.imageAlt")}
-                  className="w-full h-auto block"
-                  loading="lazy"
-                  decoding="async"
-                />
-              </figure>
-            ))}
-          </div>
+          <>
+            {menu.sections.length > 0 && (
+              <>
+                <label className="menu-search relative block max-w-md mx-auto mb-10">
+                  <span className="sr-only">{t("menu.search")}</span>
+                  <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-[#4C0C27]/60" aria-hidden />
+                  <input
+                    type="search"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder={t("menu.search")}
+                    className="w-full rounded-full border border-[#4C0C27]/20 bg-white/70 pl-11 pr-4 py-2.5
+                               text-[#4C0C27] placeholder:text-[#4C0C27]/50
+                               focus:outline-none focus-visible:ring-2 focus-visible:ring-[#4C0C27]/40"
+                  />
+                </label>
+
+                {/* Allergen / diet filters */}
+                <fieldset className="menu-search mb-10 rounded-3xl border border-[#4C0C27]/20 bg-white/50 p-4 sm:p-5">
+                  <legend className="px-2 text-sm font-semibold text-[#4C0C27]">{t("menu.filters")}</legend>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-[#4C0C27]/80 mr-1">{t("menu.dietTitle")}</span>
+                    {DIETS.map((k) => (
+                      <button
+                        key={k}
+                        type="button"
+                        aria-pressed={diet.includes(k)}
+                        onClick={() => setDiet(toggle(diet, k))}
+                        className={chip(diet.includes(k))}
+                      >
+                        {t(`menu.diet.${k}`)}
+                      </button>
+                    ))}
+                  </div>
+                  {presentAllergens.length > 0 && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      <span className="text-sm text-[#4C0C27]/80 mr-1">{t("menu.without")}</span>
+                      {presentAllergens.map((a) => (
+                        <button
+                          key={a}
+                          type="button"
+                          aria-pressed={exclude.includes(a)}
+                          onClick={() => setExclude(toggle(exclude, a))}
+                          className={chip(exclude.includes(a))}
+                        >
+                          {t(`menu.allergens.${a}`)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {(exclude.length > 0 || diet.length > 0) && (
+                    <button
+                      type="button"
+                      onClick={() => { setExclude([]); setDiet([]); }}
+                      className="mt-3 text-sm underline text-[#C81D25]"
+                    >
+                      {t("menu.clearFilters")}
+                    </button>
+                  )}
+                </fieldset>
+
+                {sections.length === 0 ? (
+                  <p className="text-center text-[#4C0C27]/70">{t("menu.noResults")}</p>
+                ) : (
+                  <div className="space-y-12">
+                    {sections.map((s) => (
+                      <section key={s.id} aria-labelledby={`menu-s-${s.id}`}>
+                        <h2 id={`menu-s-${s.id}`} className="font-legacy text-2xl md:text-3xl text-[#4C0C27] tracking-wide">
+                          {s.title}
+                        </h2>
+                        {s.description && <p className="mt-1 text-[#4C0C27]/70">{s.description}</p>}
+
+                        <ul className="mt-4 divide-y divide-[#4C0C27]/10 rounded-3xl border border-[#4C0C27]/20 bg-white/70">
+                          {s.dishes.map((d) => (
+                            <li key={d.id} className="px-5 py-4">
+                              <div className="flex items-baseline gap-3">
+                                <h3 className="font-semibold text-[#0B0B0B]">{d.name}</h3>
+                                <span aria-hidden className="grow border-b border-dotted border-[#4C0C27]/30" />
+                                {d.priceCents != null && (
+                                  <span className="font-semibold text-[#4C0C27] tabular-nums">{fmt(d.priceCents)}</span>
+                                )}
+                              </div>
+                              {d.description && <p className="mt-1 text-sm text-[#0B0B0B]/70">{d.description}</p>}
+                              <DishTags dish={d} />
+                              {d.variants.length > 0 && (
+                                <ul className="mt-2 flex flex-wrap gap-x-6 gap-y-1 text-sm text-[#4C0C27]">
+                                  {d.variants.map((v) => (
+                                    <li key={v.id}>
+                                      {v.label} <span className="font-semibold tabular-nums">{fmt(v.priceCents)}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </section>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* Allergen legend (printed with the page) */}
+            {menu.sections.length > 0 && (
+              <section className="mt-16 rounded-3xl border border-[#4C0C27]/20 bg-white/70 p-6" aria-labelledby="menu-legend">
+                <h2 id="menu-legend" className="font-legacy text-xl md:text-2xl text-[#4C0C27] tracking-wide">
+                  {t("menu.legendTitle")}
+                </h2>
+                <p className="mt-1 text-sm text-[#0B0B0B]/70">{t("menu.legendNote")}</p>
+                <ol className="mt-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-x-6 gap-y-2 text-sm">
+                  {ALLERGENS.map((a, i) => (
+                    <li key={a} className="flex items-center gap-2">
+                      <span className="inline-flex items-center justify-center w-5 h-5 rounded-full border border-[#4C0C27]/40 text-[10px] font-semibold text-[#4C0C27]">
+                        {i + 1}
+                      </span>
+                      {t(`menu.allergens.${a}`)}
+                    </li>
+                  ))}
+                </ol>
+                <ul className="mt-4 flex flex-wrap gap-x-6 gap-y-2 text-sm text-[#4C0C27]">
+                  <li className="inline-flex items-center gap-1.5"><Leaf size={14} aria-hidden /> {t("menu.diet.VEGETARIAN")}</li>
+                  <li className="inline-flex items-center gap-1.5"><Sprout size={14} aria-hidden /> {t("menu.diet.VEGAN")}</li>
+                  <li className="inline-flex items-center gap-1.5 text-[#C81D25]"><Flame size={14} aria-hidden /> {t("menu.spicyLegend")}</li>
+                </ul>
+              </section>
+            )}
+
+            {/* Printable menu (legacy MENU images) */}
+            {images.length > 0 && (
+              <section className="printable-menu mt-16" aria-labelledby="menu-printable">
+                <h2 id="menu-printable" className="font-legacy text-2xl md:text-3xl text-[#4C0C27] tracking-wide mb-4">
+                  {t("menu.printable")}
+                </h2>
+                <div className="grid grid-cols-1 gap-6">
+                  {images.map((m) => (
+                    <figure
+                      key={m.id}
+                      className="rounded-3xl overflow-hidden border border-[#4C0C27]/20 bg-white/70 shadow-sm"
+                    >
+                      {m.mimeType === "application/pdf" ? (
+                        <a
+                          href={m.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-3 p-6 text-[#4C0C27] hover:text-[#C81D25] transition"
+                        >
+                          <FileText size={28} aria-hidden />
+                          <span className="font-medium">{m.alt || t("menu.openPdf")}</span>
+                        </a>
+                      ) : (
+                        <a href={m.url} target="_blank" rel="noreferrer">
+                          <img
+                            src={m.url}
+                            alt={m.alt ?? t("menu.imageAlt")}
+                            className="w-full h-auto block"
+                            loading="lazy"
+                            decoding="async"
+                          />
+                        </a>
+                      )}
+                    </figure>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
         )}
       </main>
 
@@ -258,7 +593,7 @@ export default function MenuPage() {
         }
         .nav-link:hover::after { width: 100%; }
         @media print {
-          header, footer, .nav-link::after { display: none !important; }
+          header, footer, .nav-link::after, .menu-search { display: none !important; }
           body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
           img { max-width: 100% !important; }
         }
@@ -1,8 +1,10 @@
 // src/pages/admin/Dashboard.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { parseAPIDate, fmtDate } from "../../lib/date";
+import { useAdminUser, type AdminUser } from "../../admin/RequireAuth";
+import { addDays, apiDay, parseAPIDate, fmtDate, todayYMD } from "../../lib/date";
 import dayjs from "dayjs";
+import { FileText, GripVertical } from "lucide-react";
 
 import {
     LineChart, Line, XAxis, YAxis, Tooltip, CartesianGrid, ResponsiveContainer,
@@ -11,23 +13,60 @@ import {
 
   
 /** ---------- Shared types ---------- */
-type MediaType = "HERO" | "MENU" | "ANNOUNCEMENT";
+type MediaType = "HERO" | "MENU" | "ANNOUNCEMENT" | "GALLERY";
 type MediaAsset = {
     id: string;
     type: string;
     url: string;
+    mimeType?: string | null;
+    filename?: string | null;
+    folder?: string | null;
+    tags?: string[];
+    size?: number | null;
     alt: string | null;
     width?: number | null;
     height?: number | null;
     sortOrder: number;
     published: boolean;
+    usage?: MediaUsage;
+    posterUrl?: string | null;   // videos only
+    duration?: number | null;    // videos only, seconds
+    muted?: boolean;
+    loop?: boolean;
     _linkSortOrder?: number;
 };
+/** Where a media asset is used (returned by /api/admin/media) */
+type MediaUsage = {
+    hero: boolean;
+    menu: boolean;
+    gallery: { published: boolean; album: { id: string; title: string } } | null;
+    covers: { id: string; title: string }[];
+    announcements: { id: string; title: string; date: string; published: boolean }[];
+};
+/** One page of the media library */
+type MediaPage = { items: MediaAsset[]; total: number; page: number; pageSize: number };
+/** Gallery album, as returned by /api/admin/gallery/albums */
+type GalleryAlbum = {
+    id: string;
+    slug: string;
+    title: string;
+    titleEn?: string | null;
+    titleNl?: string | null;
+    coverId: string | null;
+    cover: MediaAsset | null;
+    sortOrder: number;
+    published: boolean;
+    itemCount: number;
+};
 type Announcement = {
     id: string;
     date: string; // ISO
     title: string;
+    titleEn?: string | null;
+    titleNl?: string | null;
     desc?: string | null;
+    descEn?: string | null;
+    descNl?: string | null;
     published: boolean;
     mediaAssets: MediaAsset[];
 };
@@ -38,39 +77,360 @@ type Closure = {
     slot: Slot;
     note?: string | null;
 };
+type ClosurePeriod = {
+    id: string;
+    startDate: string; // ISO DateTime, first closed day
+    endDate: string;   // ISO DateTime, last closed day (inclusive)
+    slot: Slot;
+    note?: string | null;
+};
+/** The 14 regulated EU allergens, labelled in French for the dashboard */
+const ALLERGENS = {
+    GLUTEN: "Gluten", CRUSTACEANS: "Crustacés", EGGS: "Œufs", FISH: "Poissons",
+    PEANUTS: "Arachides", SOYBEANS: "Soja", MILK: "Lait", NUTS: "Fruits à coque",
+    CELERY: "Céleri", MUSTARD: "Moutarde", SESAME: "Sésame", SULPHITES: "Sulfites",
+    LUPIN: "Lupin", MOLLUSCS: "Mollusques",
+} as const;
+type Allergen = keyof typeof ALLERGENS;
+type DishVariant = {
+    id?: string;
+    label: string;
+    labelEn?: string | null;
+    labelNl?: string | null;
+    priceCents: number;
+    sortOrder?: number;
+};
+type Dish = {
+    id: string;
+    sectionId: string;
+    name: string;
+    nameEn?: string | null;
+    nameNl?: string | null;
+    description?: string | null;
+    descriptionEn?: string | null;
+    descriptionNl?: string | null;
+    priceCents: number | null; // euro cents
+    allergens: Allergen[];
+    vegetarian: boolean;
+    vegan: boolean;
+    halal: boolean;
+    spicyLevel: number; // 0..3
+    sortOrder: number;
+    published: boolean;
+    variants: DishVariant[];
+};
+type MenuSection = {
+    id: string;
+    title: string;
+    titleEn?: string | null;
+    titleNl?: string | null;
+    description?: string | null;
+    descriptionEn?: string | null;
+    descriptionNl?: string | null;
+    sortOrder: number;
+    published: boolean;
+    dishes: Dish[];
+};
+
+/** File types accepted by the server for images (HEIC, TIFF… are refused) */
+const ACCEPT_IMAGES = "image/jpeg,image/png,image/webp,image/avif,image/gif,image/svg+xml";
+/** MENU also accepts PDF files */
+const ACCEPT_MENU = `${ACCEPT_IMAGES},application/pdf`;
+/** The carousel and announcements also accept short videos */
+const ACCEPT_IMAGES_VIDEOS = `${ACCEPT_IMAGES},video/mp4,video/webm`;
+
+/** Whether an asset is a video */
+const isVideoMedia = (m: { mimeType?: string | null }) => !!m.mimeType?.startsWith("video/");
+
+/**
+ * @brief Reads a video file in the browser: its duration and a poster frame (JPEG, taken at 1 s
+ *        or at the middle of shorter videos).
+ * @param {File} file Video file
+ * @returns {Promise<{ poster: Blob | null; duration: number | null }>} Nulls when the browser cannot decode it
+ */
+function readVideo(file: File): Promise<{ poster: Blob | null; duration: number | null }> {
+    return new Promise((resolve) => {
+        const url = URL.createObjectURL(file);
+        const video = document.createElement("video");
+        const done = (poster: Blob | null, duration: number | null) => {
+            URL.revokeObjectURL(url);
+            resolve({ poster, duration });
+        };
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = "auto";
+        video.onerror = () => done(null, null);
+        video.onloadedmetadata = () => {
+            video.currentTime = Math.min(1, video.duration / 2);
+        };
+        video.onseeked = () => {
+            const duration = Number.isFinite(video.duration) ? video.duration : null;
+            const canvas = document.createElement("canvas");
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            const ctx = canvas.getContext("2d");
+            if (!ctx || !canvas.width) return done(null, duration);
+            ctx.drawImage(video, 0, 0);
+            canvas.toBlob((blob) => done(blob, duration), "image/jpeg", 0.85);
+        };
+        video.src = url;
+    });
+}
+
+/**
+ * @brief Explains a rejected upload from the `code` returned by the server.
+ * @param {File} file Rejected file
+ * @param {any} j JSON error body ({ error, code, maxBytes? })
+ * @returns {string} Message shown to the admin
+ */
+function uploadErrorMessage(file: File, j: any): string {
+    switch (j?.code) {
+        case "FILE_TOO_LARGE":
+            return `${file.name} : fichier trop volumineux (max ${Math.round((j.maxBytes ?? 0) / (1024 * 1024))} Mo).`;
+        case "UNSUPPORTED_TYPE":
+            return `${file.name} : type de fichier non accepté ici.`;
+        case "UNSAFE_SVG":
+            return `${file.name} : SVG refusé, il contient des scripts.`;
+        case "UNREADABLE_IMAGE":
+            return `${file.name} : image illisible ou corrompue.`;
+        default:
+            return `${file.name} : ${j?.error || "échec du téléversement"}.`;
+    }
+}
 
-async function uploadImage(file: File): Promise<MediaAsset> {
+/**
+ * @brief Uploads a file as a new media asset. Videos are sent with their poster frame and duration.
+ * @param {File} file File to upload
+ * @param {MediaType} type Media type (decides the accepted types and size limit)
+ * @param {Record<string, string>} fields Extra form fields (published, folder…)
+ * @returns {Promise<MediaAsset>} Created asset
+ * @throws {Error} With a French message when the server rejects the file
+ */
+async function uploadMedia(file: File, type: MediaType = "ANNOUNCEMENT", fields: Record<string, string> = {}): Promise<MediaAsset> {
     const fd = new FormData();
     fd.append("file", file);
-    fd.append("type", "ANNOUNCEMENT");
+    fd.append("type", type);
     fd.append("alt", file.name);
+    for (const [k, v] of Object.entries(fields)) fd.append(k, v);
+    if (file.type.startsWith("video/")) {
+        const { poster, duration } = await readVideo(file);
+        if (poster) fd.append("poster", poster, `${file.name.replace(/\.[^.]+$/, "")}.jpg`);
+        if (duration) fd.append("duration", duration.toFixed(2));
+    }
     const r = await fetch("/api/admin/media", {
         method: "POST",
         credentials: "include",
         body: fd,
     });
     if (!r.ok) {
-        const msg = await r.text().catch(() => "");
-        throw new Error(`Upload failed: ${r.status} ${msg}`);
+        const j = await r.json().catch(() => ({}));
+        throw new Error(uploadErrorMessage(file, j));
     }
     return r.json();
 }
+
+/**
+ * @brief Lists the places where a media asset is used, in French.
+ * @param {MediaUsage} u Usage returned by the server
+ * @returns {string[]} e.g. ["Carrousel", "Galerie « Intérieur »", "Annonce « Soirée jazz » (12 juillet 2025)"]
+ */
+function describeUsage(u: MediaUsage): string[] {
+    const out: string[] = [];
+    if (u.hero) out.push("Carrousel");
+    if (u.menu) out.push("Carte à imprimer");
+    if (u.gallery) out.push(`Galerie « ${u.gallery.album.title} »${u.gallery.published ? "" : " (non publiée)"}`);
+    for (const a of u.covers) out.push(`Couverture de l'album « ${a.title} »`);
+    for (const a of u.announcements) out.push(`Annonce « ${a.title} » (${fmtDate(a.date)})`);
+    return out;
+}
+
+/**
+ * @brief Deletes a media asset; when the server refuses because it is still used, tells the admin where.
+ * @param {string} id Media asset ID
+ * @returns {Promise<boolean>} Whether the asset was deleted
+ */
+async function deleteMedia(id: string): Promise<boolean> {
+    const r = await fetch(`/api/admin/media/${id}`, { method: "DELETE", credentials: "include" });
+    if (r.ok) return true;
+    const j = await r.json().catch(() => ({}));
+    if (r.status === 409 && j.usage) {
+        alert(`Impossible de supprimer : ce média est encore utilisé.\n- ${describeUsage(j.usage).join("\n- ")}`);
+    } else {
+        alert(j.error || "Échec de la suppression");
+    }
+    return false;
+}
+
+/**
+ * @brief Thumbnail of a media asset: image, video (poster, plays on hover) or PDF icon.
+ * @param {{ m: MediaAsset; className: string }} props `className` sizes the thumbnail.
+ * @returns {JSX.Element}
+ */
+function MediaThumb({ m, className }: { m: MediaAsset; className: string }) {
+    if (m.mimeType === "application/pdf") {
+        return (
+            <div className={`flex items-center justify-center bg-white text-[#4C0C27] ${className}`}>
+                <FileText size={32} aria-hidden />
+            </div>
+        );
+    }
+    if (isVideoMedia(m)) {
+        return (
+            <video
+                src={m.url}
+                poster={m.posterUrl ?? undefined}
+                muted
+                loop
+                playsInline
+                preload="metadata"
+                onMouseEnter={(e) => e.currentTarget.play().catch(() => undefined)}
+                onMouseLeave={(e) => e.currentTarget.pause()}
+                className={`object-cover bg-black ${className}`}
+            />
+        );
+    }
+    return <img src={m.url} alt={m.alt ?? ""} loading="lazy" className={`object-cover ${className}`} />;
+}
+
+/**
+ * @brief Saves the order of a list with one of the bulk `.../order` endpoints (all ids, in order).
+ * @param {string} url Endpoint, e.g. "/api/admin/media/order?type=HERO"
+ * @param {Record<string, unknown>} body `{ ids }`, plus the parent id for nested lists
+ * @returns {Promise<boolean>} Whether the order was saved; an alert explains a failure
+ */
+async function saveOrder(url: string, body: Record<string, unknown>): Promise<boolean> {
+    const r = await fetch(url, {
+        method: "PUT",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    });
+    if (r.ok) return true;
+    alert(r.status === 409
+        ? "La liste a été modifiée entre-temps (ajout ou suppression) : elle va être rechargée."
+        : `Erreur ${r.status} : l'ordre n'a pas été enregistré.`);
+    return false;
+}
+
+/**
+ * @brief Drag-and-drop reordering of a list.
+ * @details Each item is a drop target (`itemProps`) dragged by its grip (`handleProps`); while
+ *   dragging, `items` previews the new order. A drop outside the list cancels the move. The grip is
+ *   focusable and also moves its item with the arrow keys.
+ * @param {T[]} list Items in their current order
+ * @param {(items: T[]) => void} onReorder Called with the items in their new order after a move
+ * @returns {{ items: T[]; dragId: string | null; itemProps: Function; handleProps: Function }}
+ */
+function useDragReorder<T extends { id: string }>(list: T[], onReorder: (items: T[]) => void) {
+    const [dragId, setDragId] = useState<string | null>(null);
+    const [preview, setPreview] = useState<T[] | null>(null);
+    const dropped = useRef(false);
+
+    /** Moves item `id` to index `to` */
+    const moveTo = (arr: T[], id: string, to: number): T[] => {
+        const from = arr.findIndex(x => x.id === id);
+        if (from < 0 || to < 0 || to >= arr.length || from === to) return arr;
+        const next = [...arr];
+        next.splice(to, 0, next.splice(from, 1)[0]);
+        return next;
+    };
+    const commit = (next: T[]) => {
+        if (next.some((x, i) => x.id !== list[i]?.id)) onReorder(next);
+    };
+
+    const itemProps = (id: string) => ({
+        "data-drag-item": "",
+        onDragOver: (e: React.DragEvent) => {
+            if (!dragId) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = "move";
+            if (id !== dragId) setPreview(cur => moveTo(cur ?? list, dragId, (cur ?? list).findIndex(x => x.id === id)));
+        },
+        onDrop: (e: React.DragEvent) => {
+            if (!dragId) return;
+            e.preventDefault();
+            dropped.current = true;
+        },
+    });
+
+    const handleProps = (id: string) => ({
+        draggable: true,
+        tabIndex: 0,
+        title: "Glisser pour déplacer (ou flèches du clavier)",
+        "aria-label": "Déplacer",
+        onDragStart: (e: React.DragEvent<HTMLElement>) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", id);
+            const item = e.currentTarget.closest("[data-drag-item]");
+            if (item) e.dataTransfer.setDragImage(item, 16, 16);
+            dropped.current = false;
+            setDragId(id);
+            setPreview(list);
+        },
+        onDragEnd: () => {
+            const next = preview ?? list;
+            setDragId(null);
+            setPreview(null);
+            if (dropped.current) commit(next);
+        },
+        onKeyDown: (e: React.KeyboardEvent) => {
+            const delta = ({ ArrowUp: -1, ArrowLeft: -1, ArrowDown: 1, ArrowRight: 1 } as Record<string, number>)[e.key];
+            if (!delta) return;
+            e.preventDefault();
+            commit(moveTo(list, id, list.findIndex(x => x.id === id) + delta));
+        },
+    });
+
+    return { items: preview ?? list, dragId, itemProps, handleProps };
+}
+
+/**
+ * @brief Grip used to drag an item of a reorderable list (see {@link useDragReorder}).
+ * @param {Object} props Props returned by `handleProps`, plus an optional `className`
+ * @returns {JSX.Element}
+ */
+function DragHandle({ className = "", ...props }: React.HTMLAttributes<HTMLSpanElement> & { draggable?: boolean }) {
+    return (
+        <span
+            {...props}
+            role="button"
+            className={`inline-flex items-center justify-center rounded p-1 cursor-grab active:cursor-grabbing text-[#4C0C27]/60 hover:text-[#4C0C27] hover:bg-[#4C0C27]/10 ${className}`}
+        >
+            <GripVertical size={16} aria-hidden />
+        </span>
+    );
+}
 const EU_LANG = "fr-BE";
 
 /** =========================================
  *  DASHBOARD WRAPPER (with sidebar)
  *  ========================================= */
-type SectionKey = "carousel" | "announcements" | "schedule" | "gallery" | "menu" | "analytics";
-
-const SECTIONS: { key: SectionKey; label: string }[] = [
-    { key: "carousel", label: "Carrousel" },
-    { key: "announcements", label: "Annonces" },
-    { key: "schedule", label: "Horaires & Fermetures" },
-    { key: "gallery", label: "Galerie" },
-    { key: "menu", label: "Image du menu" },
-    { key: "analytics", label: "Analytics" },
+type SectionKey = "carousel" | "announcements" | "schedule" | "reservations" | "gallery" | "media" | "carte" | "menu" | "analytics" | "users" | "security" | "sessions";
+type Permission = AdminUser["permissions"][number];
+type Role = AdminUser["role"];
+
+/** Sections of the dashboard, each shown only to roles granting its permission (see backend lib/permissions.ts); null: every user */
+const SECTIONS: { key: SectionKey; label: string; permission: Permission | null }[] = [
+    { key: "carousel", label: "Carrousel", permission: "content" },
+    { key: "announcements", label: "Annonces", permission: "content" },
+    { key: "schedule", label: "Horaires & Fermetures", permission: "content" },
+    { key: "reservations", label: "Réservations", permission: "reservations" },
+    { key: "gallery", label: "Galerie", permission: "content" },
+    { key: "media", label: "Médiathèque", permission: "content" },
+    { key: "carte", label: "Carte", permission: "content" },
+    { key: "menu", label: "Carte à imprimer", permission: "content" },
+    { key: "analytics", label: "Analytics", permission: "analytics" },
+    { key: "users", label: "Utilisateurs", permission: "users" },
+    { key: "security", label: "Sécurité", permission: null },
+    { key: "sessions", label: "Appareils connectés", permission: null },
 ];
 
+const ROLE_LABEL: Record<Role, string> = {
+    OWNER: "Propriétaire",
+    EDITOR: "Éditeur",
+    VIEWER: "Lecteur",
+};
+
 /**
  * @file Dashboard.tsx
  * @brief Contains the main admin dashboard wrapper for the L'Orange Rose website, rendering sidebar navigation and section panels.
@@ -78,20 +438,28 @@ const SECTIONS: { key: SectionKey; label: string }[] = [
 
 /**
  * @function AdminDashboard
- * @brief Top-level dashboard component providing admin sections for carousel, announcements, schedule, gallery, menu, and analytics.
+ * @brief Top-level dashboard component providing admin sections for carousel, announcements, schedule, reservations, gallery, media library, menu (structured and printable), analytics, and users.
  *        Maintains sidebar navigation and keeps all section panels mounted to preserve form state.
  *
  * @returns {JSX.Element} The rendered admin dashboard page.
  *
  * @details
  * - Handles authentication logout.
+ * - Only lists and mounts the sections the signed-in user's role has access to.
+ * - Users who must enable two-factor authentication only get the security and sessions sections until they do.
  * - Utilizes a sidebar for section navigation.
  * - Displays the correct section based on selected navigation, but keeps all sections mounted to maintain any local state/forms.
  */
 export default function AdminDashboard() {
     const nav = useNavigate();
+    const user = useAdminUser();
+    /** Sections the user's role has access to (only security and sessions while 2FA must be enabled) */
+    const sections = SECTIONS.filter(s => user.twoFactor.required
+        ? s.key === "security" || s.key === "sessions"
+        : !s.permission || user.permissions.includes(s.permission));
+    const allowed = (k: SectionKey) => sections.some(s => s.key === k);
     /** @var {SectionKey} active - The currently active admin section. */
-    const [active, setActive] = useState<SectionKey>("carousel");
+    const [active, setActive] = useState<SectionKey | undefined>(sections[0]?.key);
 
     /**
      * @function logout
@@ -109,12 +477,18 @@ export default function AdminDashboard() {
             <header className="sticky top-0 z-40 bg-[#F7EBD9]/95 backdrop-blur border-b border-[#4C0C27]/10">
                 <div className="mx-auto max-w-7xl px-6 h-16 flex items-center justify-between">
                     <div className="font-legacy text-xl">Tableau de bord</div>
-                    <button
-                        onClick={logout}
-                        className="px-3 py-1.5 rounded border border-[#4C0C27]/30 hover:bg-white"
-                    >
-                        Se déconnecter
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <div className="text-sm text-right">
+                            <div>{user.email}</div>
+                            <div className="text-xs text-[#4C0C27]/80">{ROLE_LABEL[user.role]}</div>
+                        </div>
+                        <button
+                            onClick={logout}
+                            className="px-3 py-1.5 rounded border border-[#4C0C27]/30 hover:bg-white"
+                        >
+                            Se déconnecter
+                        </button>
+                    </div>
                 </div>
             </header>
 
@@ -124,36 +498,85 @@ export default function AdminDashboard() {
                     {/* Sidebar navigation */}
                     <aside className="col-span-12 md:col-span-3">
                         <div className="md:sticky md:top-20">
-                            <SidebarNav active={active} onSelect={setActive} />
+                            <SidebarNav sections={sections} active={active} onSelect={setActive} />
                         </div>
                     </aside>
 
                     {/* Section panels (kept mounted) */}
                     <section className="col-span-12 md:col-span-9 space-y-10">
-                        {/* All sections below are always mounted for form state preservation.
+                        {/* All sections the user has access to are always mounted for form state preservation.
                             Visibility is controlled via CSS class "hidden". */}
-                        <div className={active === "carousel" ? "" : "hidden"}>
-                            <HeroCarouselManager />
-                        </div>
+                        {allowed("carousel") && (
+                            <div className={active === "carousel" ? "" : "hidden"}>
+                                <HeroCarouselManager />
+                            </div>
+                        )}
 
-                        <div className={active === "announcements" ? "" : "hidden"}>
-                            <AnnouncementsManager />
-                        </div>
+                        {allowed("announcements") && (
+                            <div className={active === "announcements" ? "" : "hidden"}>
+                                <AnnouncementsManager />
+                            </div>
+                        )}
 
-                        <div className={active === "schedule" ? "" : "hidden"}>
-                            <SchedulePanel />
-                        </div>
+                        {allowed("schedule") && (
+                            <div className={active === "schedule" ? "" : "hidden"}>
+                                <SchedulePanel />
+                            </div>
+                        )}
 
-                        <div className={active === "gallery" ? "" : "hidden"}>
-                            <GalleryManager />
-                        </div>
+                        {allowed("reservations") && (
+                            <div className={active === "reservations" ? "" : "hidden"}>
+                                <ReservationsManager />
+                            </div>
+                        )}
+
+                        {allowed("gallery") && (
+                            <div className={active === "gallery" ? "" : "hidden"}>
+                                <GalleryManager />
+                            </div>
+                        )}
+
+                        {allowed("media") && (
+                            <div className={active === "media" ? "" : "hidden"}>
+                                <MediaLibrary active={active === "media"} />
+                            </div>
+                        )}
 
-                        <div className={active === "menu" ? "" : "hidden"}>
-                            <MenuManager />
+                        {allowed("carte") && (
+                            <div className={active === "carte" ? "" : "hidden"}>
+                                <MenuEditor />
+                            </div>
+                        )}
+
+                        {allowed("menu") && (
+                            <div className={active === "menu" ? "" : "hidden"}>
+                                <MenuManager />
+                            </div>
+                        )}
+
+                        {allowed("analytics") && (
+                            <div className={active === "analytics" ? "" : "hidden"}>
+                                <AnalyticsPanel />
+                            </div>
+                        )}
+
+                        {allowed("users") && (
+                            <div className={active === "users" ? "" : "hidden"}>
+                                <UsersManager />
+                            </div>
+                        )}
+
+                        <div className={active === "security" ? "" : "hidden"}>
+                            {user.twoFactor.required && (
+                                <div className="rounded-xl border border-[#FFB96B] bg-[#FFB96B]/20 p-4 mb-4 text-sm">
+                                    Votre rôle exige la double authentification. Activez-la pour accéder au tableau de bord.
+                                </div>
+                            )}
+                            <TwoFactorManager onEnabled={() => { if (user.twoFactor.required) window.location.reload(); }} />
                         </div>
 
-                        <div className={active === "analytics" ? "" : "hidden"}>
-                            <AnalyticsPanel />
+                        <div className={active === "sessions" ? "" : "hidden"}>
+                            <SessionsManager active={active === "sessions"} />
                         </div>
                     </section>
                 </div>
@@ -169,16 +592,19 @@ export default function AdminDashboard() {
  * The active section is visually highlighted, and navigation updates are performed via the passed callback.
  *
  * @param {Object} props - Component props.
+ * @param {typeof SECTIONS} props.sections - Sections to list (those the user has access to).
  * @param {SectionKey} props.active - The currently active dashboard section key.
  * @param {(k: SectionKey) => void} props.onSelect - Callback function invoked with the section key when a sidebar button is clicked.
  * 
  * @returns {JSX.Element} Rendered sidebar navigation.
  */
 function SidebarNav({
+    sections,
     active,
     onSelect,
 }: {
-    active: SectionKey;
+    sections: typeof SECTIONS;
+    active: SectionKey | undefined;
     onSelect: (k: SectionKey) => void;
 }) {
     return (
@@ -187,7 +613,7 @@ function SidebarNav({
             className="rounded-2xl border border-[#4C0C27]/20 bg-white/80 p-2"
         >
             <ul className="space-y-1">
-                {SECTIONS.map((s) => {
+                {sections.map((s) => {
                     const isActive = active === s.key;
                     return (
                         <li key={s.key}>
@@ -218,6 +644,7 @@ function SidebarNav({
  *   - business hours
  *   - exceptional closures
  *   - recurring closures
+ *   - a month calendar of all closures, where a day can be opened exceptionally
  * 
  * Each section is handled by a corresponding management component. The UI features a segmented control
  * for tab navigation, and all manager components remain mounted in the DOM for better state/control consistency,
@@ -228,10 +655,10 @@ function SidebarNav({
  */
 function SchedulePanel() {
     /**
-     * @typedef {"hours"|"closures"|"recurring"} Tab
+     * @typedef {"hours"|"closures"|"recurring"|"calendar"} Tab
      * @brief Represents the possible inner tabs in the schedule panel.
      */
-    type Tab = "hours" | "closures" | "recurring";
+    type Tab = "hours" | "closures" | "recurring" | "calendar";
     /** @var {Tab} tab - Currently selected tab in the schedule panel. */
     const [tab, setTab] = useState<Tab>("hours");
 
@@ -245,6 +672,7 @@ function SchedulePanel() {
                     { k: "hours", label: "Horaires" },
                     { k: "closures", label: "Fermetures exceptionnelles" },
                     { k: "recurring", label: "Fermetures récurrentes" },
+                    { k: "calendar", label: "Calendrier" },
                 ] as const).map(({ k, label }) => {
                     const isActive = tab === k;
                     return (
@@ -274,6 +702,9 @@ function SchedulePanel() {
             <div className={tab === "recurring" ? "" : "hidden"}>
                 <RecurringClosuresManager />
             </div>
+            <div className={tab === "calendar" ? "" : "hidden"}>
+                <ClosuresCalendarManager active={tab === "calendar"} />
+            </div>
         </section>
     );
 }
@@ -317,12 +748,18 @@ function HeroCarouselManager() {
      * @returns {Promise<void>}
      */
     async function load() {
-        const res = await fetch("/api/admin/media?type=HERO", { credentials: "include" });
-        const data: MediaAsset[] = await res.json();
-        setItems(data.sort((a, b) => a.sortOrder - b.sortOrder));
+        const res = await fetch("/api/admin/media?type=HERO&pageSize=100", { credentials: "include" });
+        const data: MediaPage = await res.json();
+        setItems(data.items.sort((a, b) => a.sortOrder - b.sortOrder));
     }
     useEffect(() => { load(); }, []);
 
+    /** Drag-and-drop order, saved in one request */
+    const drag = useDragReorder(items, async (next) => {
+        setItems(next.map((it, i) => ({ ...it, sortOrder: i })));
+        if (!(await saveOrder("/api/admin/media/order?type=HERO", { ids: next.map(it => it.id) }))) await load();
+    });
+
     /**
      * @brief Handles file selection via input[type=file] dialog. Appends files to staging area.
      * @param {React.ChangeEvent<HTMLInputElement>} e - Input change event.
@@ -345,7 +782,7 @@ function HeroCarouselManager() {
     }
 
     /**
-     * @brief Uploads all staged files as new HERO images, ordering after the current images.
+     * @brief Uploads all staged files as new HERO images; the server adds them after the current images.
      * Clears staging area after upload. Triggers a data reload.
      * @returns {Promise<void>}
      */
@@ -353,17 +790,15 @@ function HeroCarouselManager() {
         if (staged.length === 0) return;
         setUploading(true);
         try {
-            const baseOrder = items.length;
+            const errors: string[] = [];
             for (let i = 0; i < staged.length; i++) {
-                const file = staged[i];
-                const fd = new FormData();
-                fd.append("file", file);
-                fd.append("type", "HERO");
-                fd.append("alt", file.name);
-                fd.append("sortOrder", String(baseOrder + i));
-                fd.append("published", "true");
-                await fetch("/api/admin/media", { method: "POST", body: fd, credentials: "include" });
+                try {
+                    await uploadMedia(staged[i], "HERO", { published: "true" });
+                } catch (e: any) {
+                    errors.push(e.message);
+                }
             }
+            if (errors.length) alert(errors.join("\n"));
             setStaged([]);
             await load();
         } finally {
@@ -380,8 +815,7 @@ function HeroCarouselManager() {
         if (!confirm("Supprimer cette image du carrousel ?")) return;
         setSaving(id);
         try {
-            await fetch(`/api/admin/media/${id}`, { method: "DELETE", credentials: "include" });
-            await load();
+            if (await deleteMedia(id)) await load();
         } finally {
             setSaving(null);
         }
@@ -429,19 +863,19 @@ function HeroCarouselManager() {
     }
 
     /**
-     * @brief Changes the display order (sortOrder) of a hero image.
-     * @param {MediaAsset} it - Media asset to update.
-     * @param {number} newOrder - Desired new order index.
+     * @brief Updates the playback flags of a hero video.
+     * @param {MediaAsset} it - Video asset to update.
+     * @param {{ muted?: boolean; loop?: boolean }} flags - Flags to change.
      * @returns {Promise<void>}
      */
-    async function changeOrder(it: MediaAsset, newOrder: number) {
+    async function changeVideo(it: MediaAsset, flags: { muted?: boolean; loop?: boolean }) {
         setSaving(it.id);
         try {
             await fetch(`/api/admin/media/${it.id}`, {
                 method: "PATCH",
                 credentials: "include",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ sortOrder: newOrder }),
+                body: JSON.stringify(flags),
             });
             await load();
         } finally {
@@ -453,21 +887,43 @@ function HeroCarouselManager() {
         <section>
             <h2 className="font-legacy text-2xl mb-3">Carrousel d’accueil</h2>
 
-            {/* current items */}
+            {/* current items, in slide order (drag the grip to reorder) */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-                {items.map((it) => (
-                    <div key={it.id} className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2">
-                        <img src={it.url} alt={it.alt ?? ""} className="w-full h-32 object-cover rounded-md mb-2" />
-                        <div className="text-xs text-[#4C0C27]/80 mb-2 break-all">{it.alt || <em>(aucun texte alternatif)</em>}</div>
-                        <div className="flex items-center gap-2 mb-2">
-                            <label className="text-sm">Ordre</label>
-                            <input
-                                type="number"
-                                className="w-20 px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
-                                value={it.sortOrder}
-                                onChange={(e) => changeOrder(it, Number(e.target.value))}
-                            />
+                {drag.items.map((it, i) => (
+                    <div
+                        key={it.id}
+                        {...drag.itemProps(it.id)}
+                        className={`rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2 ${drag.dragId === it.id ? "opacity-40" : ""}`}
+                    >
+                        <div className="flex items-center gap-1 mb-1 text-xs text-[#4C0C27]/70">
+                            <DragHandle {...drag.handleProps(it.id)} />
+                            Diapositive {i + 1}
                         </div>
+                        <MediaThumb m={it} className="w-full h-32 rounded-md mb-2" />
+                        <div className="text-xs text-[#4C0C27]/80 mb-2 break-all">{it.alt || <em>(aucun texte alternatif)</em>}</div>
+                        {isVideoMedia(it) && (
+                            <div className="flex items-center gap-3 mb-2 text-xs">
+                                {it.duration != null && <span>{Math.round(it.duration)} s</span>}
+                                <label className="inline-flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={it.muted ?? true}
+                                        disabled={saving === it.id}
+                                        onChange={(e) => changeVideo(it, { muted: e.target.checked })}
+                                    />
+                                    Sans son
+                                </label>
+                                <label className="inline-flex items-center gap-1">
+                                    <input
+                                        type="checkbox"
+                                        checked={it.loop ?? true}
+                                        disabled={saving === it.id}
+                                        onChange={(e) => changeVideo(it, { loop: e.target.checked })}
+                                    />
+                                    En boucle
+                                </label>
+                            </div>
+                        )}
                         <div className="flex items-center gap-2 mb-2">
                             <button
                                 onClick={() => togglePublish(it)}
@@ -501,8 +957,8 @@ function HeroCarouselManager() {
                 onDrop={onDrop}
                 className="rounded-xl border-2 border-dashed border-[#4C0C27]/30 bg-white/70 p-6 text-center"
             >
-                <div className="mb-3">Glissez-déposez des images ici (ou sélectionnez)</div>
-                <input type="file" accept="image/*" multiple onChange={onFilePick} />
+                <div className="mb-3">Glissez-déposez des images ou de courtes vidéos (MP4, WebM) ici (ou sélectionnez)</div>
+                <input type="file" accept={ACCEPT_IMAGES_VIDEOS} multiple onChange={onFilePick} />
                 {staged.length > 0 && (
                     <div className="mt-4 text-sm">
                         <div className="mb-2">En file : {staged.length} fichier(s)</div>
@@ -511,7 +967,7 @@ function HeroCarouselManager() {
                             disabled={uploading}
                             className="px-3 py-1.5 rounded bg-[#4C0C27] text-white"
                         >
-                            {uploading ? "Téléversement…" : `Téléverser ${staged.length} image(s)`}
+                            {uploading ? "Téléversement…" : `Téléverser ${staged.length} fichier(s)`}
                         </button>
                     </div>
                 )}
@@ -525,56 +981,155 @@ function HeroCarouselManager() {
  * @brief Administrative Gallery Manager component.
  *
  * Allows administrators to:
- *   - View current gallery images
- *   - Upload new images (multi-file, drag-and-drop)
- *   - Add images from the media library to the gallery
+ *   - Create, rename (FR/EN/NL), reorder, publish and delete gallery albums
+ *   - View the images of the selected album and choose its cover
+ *   - Upload new images (multi-file, drag-and-drop) into the selected album
+ *   - Add images from the media library to the album (an image in another album is moved)
  *   - Remove images from the gallery
- *   - Reorder images in the gallery
+ *   - Reorder images in the album
  *   - Toggle published/unpublished state for each gallery image
  *
  * State management:
- *   - items: Current list of gallery MediaAsset items
+ *   - albums / albumId: All albums and the selected one
+ *   - items: Images of the selected album
  *   - staged: Local staged images (as File objects) before they are uploaded
  *   - uploading: Boolean, show if a multi-upload operation is ongoing
- *   - savingId: Currently saving (uploading/modifying/removing) asset's id
- *   - allMedia: All available MediaAssets not currently in the gallery
+ *   - savingId: Currently saving (uploading/modifying/removing) asset's or album's id
+ *   - allMedia: All available MediaAssets not currently in the album
  *   - showPicker: Whether to show the media library picker UI (for adding to gallery)
  *
  * @returns {JSX.Element} The gallery manager UI for admin dashboard.
  */
 function GalleryManager() {
+    const [albums, setAlbums] = useState<GalleryAlbum[]>([]);
+    const [albumId, setAlbumId] = useState<string | null>(null);
     const [items, setItems] = useState<MediaAsset[]>([]);
     const [staged, setStaged] = useState<File[]>([]);
     const [uploading, setUploading] = useState(false);
     const [savingId, setSavingId] = useState<string | null>(null);
 
-    // simple picker of existing media not yet in gallery
+    // new album form
+    const [showNewAlbum, setShowNewAlbum] = useState(false);
+    const [nTitle, setNTitle] = useState("");
+    const [nTitleEn, setNTitleEn] = useState("");
+    const [nTitleNl, setNTitleNl] = useState("");
+
+    // simple picker of existing media not yet in the album
     const [allMedia, setAllMedia] = useState<MediaAsset[]>([]);
     const [showPicker, setShowPicker] = useState(false);
 
+    const album = albums.find(a => a.id === albumId) ?? null;
+    const input = "px-2 py-1 rounded border border-[#4C0C27]/30 bg-white";
+
+    /**
+     * @brief Fetches the albums; keeps the selection, or selects the first album.
+     * @async
+     */
+    async function loadAlbums() {
+        const res = await fetch("/api/admin/gallery/albums", { credentials: "include" });
+        const data: GalleryAlbum[] = await res.json();
+        setAlbums(data);
+        setAlbumId(prev => (prev && data.some(a => a.id === prev) ? prev : data[0]?.id ?? null));
+    }
+    useEffect(() => { loadAlbums(); }, []);
+
     /**
-     * @brief Fetches current gallery items from the backend, sorts them by sortOrder.
+     * @brief Fetches the images of the selected album from the backend, sorts them by sortOrder.
      * @async
      */
     async function load() {
-        const res = await fetch("/api/admin/gallery", { credentials: "include" });
+        if (!albumId) {
+            setItems([]);
+            return;
+        }
+        const res = await fetch(`/api/admin/gallery?albumId=${encodeURIComponent(albumId)}`, { credentials: "include" });
         const data: MediaAsset[] = await res.json();
         setItems(data.sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0)));
     }
-    useEffect(() => { load(); }, []);
+    useEffect(() => {
+        load();
+        setShowPicker(false);
+    }, [albumId]);
+
+    /** Drag-and-drop order of the album's images, saved in one request */
+    const drag = useDragReorder(items, async (next) => {
+        setItems(next.map((it, i) => ({ ...it, sortOrder: i })));
+        if (!(await saveOrder("/api/admin/gallery/order", { albumId, ids: next.map(it => it.id) }))) await load();
+    });
+
+    /** Drag-and-drop order of the album tabs */
+    const albumDrag = useDragReorder(albums, async (next) => {
+        setAlbums(next.map((a, i) => ({ ...a, sortOrder: i })));
+        if (!(await saveOrder("/api/admin/gallery/albums/order", { ids: next.map(a => a.id) }))) await loadAlbums();
+    });
 
     /**
-     * @brief Fetches all media assets admin can see, filters out those already in the gallery.
+     * @brief Fetches all media assets admin can see, filters out those already in the album.
      * @async
      */
     async function loadAllMedia() {
-        // fetch everything admin can see; filter out already-in-gallery
-        const res = await fetch("/api/admin/media", { credentials: "include" });
-        const data: MediaAsset[] = await res.json();
-        const inGallery = new Set(items.map(i => i.id));
-        setAllMedia(data.filter(m => !inGallery.has(m.id)));
+        // latest images of the library; filter out already-in-album, PDFs and videos
+        const res = await fetch("/api/admin/media?pageSize=100", { credentials: "include" });
+        const data: MediaPage = await res.json();
+        const inAlbum = new Set(items.map(i => i.id));
+        setAllMedia(data.items.filter(m => !inAlbum.has(m.id) && m.mimeType !== "application/pdf" && !isVideoMedia(m)));
+    }
+
+    /**
+     * @brief Sends a JSON request to the admin gallery albums API, then reloads the albums.
+     * @param {string} key Busy key used to disable the matching controls
+     * @param {string} url Endpoint
+     * @param {string} method HTTP method
+     * @param {unknown} [body] JSON body
+     * @returns {Promise<GalleryAlbum | null | false>} The album returned by the server (null for a deletion), or false on error
+     * @async
+     */
+    async function sendAlbum(key: string, url: string, method: string, body?: unknown): Promise<GalleryAlbum | null | false> {
+        setSavingId(key);
+        try {
+            const r = await fetch(url, {
+                method,
+                credentials: "include",
+                headers: body ? { "Content-Type": "application/json" } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            if (!r.ok) {
+                const j = await r.json().catch(() => ({}));
+                alert(r.status === 409 ? "Un album utilise déjà cette adresse." : `Erreur ${r.status} ${j.error ?? ""}`);
+                return false;
+            }
+            const out: GalleryAlbum | null = r.status === 204 ? null : await r.json();
+            await loadAlbums();
+            return out;
+        } finally {
+            setSavingId(null);
+        }
+    }
+
+    async function createAlbum() {
+        if (!nTitle.trim()) return;
+        const created = await sendAlbum("new-album", "/api/admin/gallery/albums", "POST", {
+            title: nTitle,
+            titleEn: nTitleEn || null,
+            titleNl: nTitleNl || null,
+        });
+        if (created) {
+            setNTitle(""); setNTitleEn(""); setNTitleNl("");
+            setShowNewAlbum(false);
+            setAlbumId(created.id);
+        }
     }
 
+    function patchAlbum(a: GalleryAlbum, patch: Partial<Pick<GalleryAlbum, "title" | "titleEn" | "titleNl" | "slug" | "coverId" | "published">>) {
+        return sendAlbum(a.id, `/api/admin/gallery/albums/${a.id}`, "PATCH", patch);
+    }
+
+    async function removeAlbum(a: GalleryAlbum) {
+        if (!confirm(`Supprimer l'album « ${a.title} » ? Ses ${a.itemCount} image(s) seront retirées de la galerie (elles restent dans la médiathèque).`)) return;
+        await sendAlbum(a.id, `/api/admin/gallery/albums/${a.id}`, "DELETE");
+    }
+
+
     /**
      * @brief Handles image file(s) pick event for uploading new gallery images.
      * @param {React.ChangeEvent<HTMLInputElement>} e - Change event with picked files.
@@ -599,51 +1154,60 @@ function GalleryManager() {
      *
      * Sequentially uploads files:
      *   1. Uploads each file to create a MediaAsset
-     *   2. Adds it to gallery with sequential sortOrder and published=true
+     *   2. Adds it to the album (after its last image) with published=true
      *
      * @async
      */
     async function uploadStaged() {
-        if (!staged.length) return;
+        if (!staged.length || !albumId) return;
         setUploading(true);
         try {
-            const base = items.length;
+            const errors: string[] = [];
             for (let i = 0; i < staged.length; i++) {
-                // 1) upload as a regular media (we'll reuse ANNOUNCEMENT type)
-                const asset = await uploadImage(staged[i]); // creates MediaAsset
-                // 2) link into gallery with proper order
+                // 1) upload as a GALLERY media
+                let asset: MediaAsset;
+                try {
+                    asset = await uploadMedia(staged[i], "GALLERY"); // creates MediaAsset
+                } catch (e: any) {
+                    errors.push(e.message);
+                    continue;
+                }
+                // 2) link into gallery (the server appends it to the album)
                 await fetch("/api/admin/gallery", {
                     method: "POST",
                     credentials: "include",
                     headers: { "Content-Type": "application/json" },
                     body: JSON.stringify({
                         mediaAssetId: asset.id,
-                        sortOrder: base + i,
+                        albumId,
                         published: true,
                     }),
                 });
             }
+            if (errors.length) alert(errors.join("\n"));
             setStaged([]);
-            await load();
+            await Promise.all([load(), loadAlbums()]);
         } finally {
             setUploading(false);
         }
     }
 
     /**
-     * @brief Adds an existing media asset (not already in gallery) to the gallery.
-     * @param {string} mediaAssetId - The MediaAsset ID to add to the gallery.
+     * @brief Adds an existing media asset (not already in the album) to the album; an image of
+     * another album is moved.
+     * @param {string} mediaAssetId - The MediaAsset ID to add to the album.
      * @async
      */
     async function addExisting(mediaAssetId: string) {
-        const nextOrder = (items[items.length - 1]?.sortOrder ?? items.length - 1) + 1;
+        if (!albumId) return;
         await fetch("/api/admin/gallery", {
             method: "POST",
             credentials: "include",
             headers: { "Content-Type": "application/json" },
-            body: JSON.stringify({ mediaAssetId, sortOrder: nextOrder, published: true }),
+            body: JSON.stringify({ mediaAssetId, albumId, published: true }),
         });
-        await load();
+        setAllMedia(prev => prev.filter(m => m.id !== mediaAssetId));
+        await Promise.all([load(), loadAlbums()]);
     }
 
     /**
@@ -659,7 +1223,7 @@ function GalleryManager() {
                 method: "DELETE",
                 credentials: "include",
             });
-            await load();
+            await Promise.all([load(), loadAlbums()]);
         } finally {
             setSavingId(null);
         }
@@ -686,50 +1250,113 @@ function GalleryManager() {
         }
     }
 
-    /**
-     * @brief Changes the sort order of a gallery image.
-     * @param {string} mediaAssetId - The MediaAsset ID to update.
-     * @param {number} sortOrder - The new sort order.
-     * @async
-     */
-    async function changeOrder(mediaAssetId: string, sortOrder: number) {
-        setSavingId(mediaAssetId);
-        try {
-            await fetch(`/api/admin/gallery/${mediaAssetId}`, {
-                method: "PATCH",
-                credentials: "include",
-                headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ sortOrder }),
-            });
-            await load();
-        } finally {
-            setSavingId(null);
-        }
-    }
 
     return (
         <section>
             <h2 className="font-legacy text-2xl mb-3">Galerie</h2>
 
-            {/* current gallery items */}
+            {/* album tabs, in page order (drag the grip to reorder) */}
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                {albumDrag.items.map((a) => (
+                    <div
+                        key={a.id}
+                        {...albumDrag.itemProps(a.id)}
+                        className={`inline-flex items-center rounded-full text-sm border ${a.id === albumId ? "bg-[#4C0C27] text-white border-[#4C0C27]" : "border-[#4C0C27]/30 bg-white/70"} ${albumDrag.dragId === a.id ? "opacity-40" : ""}`}
+                    >
+                        <DragHandle {...albumDrag.handleProps(a.id)} className={`ml-1 ${a.id === albumId ? "text-white/70 hover:text-white" : ""}`} />
+                        <button onClick={() => setAlbumId(a.id)} className="pr-3 py-1.5">
+                            {a.title} <span className="opacity-70">({a.itemCount})</span>
+                            {!a.published && <span className="ml-1 opacity-70">· non publié</span>}
+                        </button>
+                    </div>
+                ))}
+                <button
+                    onClick={() => setShowNewAlbum(!showNewAlbum)}
+                    className="px-3 py-1.5 rounded-full text-sm border border-dashed border-[#4C0C27]/40"
+                >
+                    + Nouvel album
+                </button>
+            </div>
+
+            {showNewAlbum && (
+                <div className="mb-4 rounded-xl border border-[#4C0C27]/20 bg-white/80 p-3">
+                    <div className="grid md:grid-cols-3 gap-2">
+                        <input value={nTitle} onChange={(e) => setNTitle(e.target.value)} placeholder="Titre (FR)" className={input} />
+                        <input value={nTitleEn} onChange={(e) => setNTitleEn(e.target.value)} placeholder="Title (EN)" className={input} />
+                        <input value={nTitleNl} onChange={(e) => setNTitleNl(e.target.value)} placeholder="Titel (NL)" className={input} />
+                    </div>
+                    <button
+                        onClick={createAlbum}
+                        disabled={!nTitle.trim() || savingId === "new-album"}
+                        className="mt-2 px-3 py-1.5 rounded bg-[#4C0C27] text-white disabled:opacity-50"
+                    >
+                        Créer l'album
+                    </button>
+                </div>
+            )}
+
+            {!album && (
+                <div className="text-sm text-[#4C0C27]">Créez un album pour y ajouter des images.</div>
+            )}
+
+            {album && (
+            <>
+            {/* selected album: fields saved on blur */}
+            <div key={album.id} className="mb-6 rounded-xl border border-[#4C0C27]/20 bg-white/80 p-3">
+                <div className="grid md:grid-cols-4 gap-2">
+                    {([["title", "Titre (FR)"], ["titleEn", "Title (EN)"], ["titleNl", "Titel (NL)"], ["slug", "Adresse"]] as const).map(([field, label]) => (
+                        <label key={field} className="text-xs text-[#4C0C27]/80">
+                            {label}
+                            <input
+                                defaultValue={album[field] ?? ""}
+                                onBlur={(e) => {
+                                    const v = e.target.value.trim();
+                                    if (v === (album[field] ?? "") || ((field === "title" || field === "slug") && !v)) return;
+                                    patchAlbum(album, { [field]: v || null });
+                                }}
+                                className={`${input} block w-full text-sm text-black`}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-sm">
+                    <button
+                        onClick={() => patchAlbum(album, { published: !album.published })}
+                        disabled={savingId === album.id}
+                        className={`px-2 py-1 rounded ${album.published ? "bg-green-600 text-white" : "bg-gray-200"}`}
+                    >
+                        {album.published ? "Publié" : "Publier"}
+                    </button>
+                    <a href={`/gallery/${album.slug}`} target="_blank" rel="noreferrer" className="underline text-[#4C0C27]">
+                        /gallery/{album.slug}
+                    </a>
+                    <span className="text-[#4C0C27]/70">
+                        Couverture : {album.cover ? (album.cover.alt || "image choisie") : "première image"}
+                    </span>
+                    <button
+                        onClick={() => removeAlbum(album)}
+                        disabled={savingId === album.id}
+                        className="ml-auto px-2 py-1 rounded bg-[#C81D25] text-white"
+                    >
+                        Supprimer l'album
+                    </button>
+                </div>
+            </div>
+
+            {/* images of the selected album, in page order (drag the grip to reorder) */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
-                {items.map((it) => (
-                    <div key={it.id} className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2">
+                {drag.items.map((it) => (
+                    <div
+                        key={it.id}
+                        {...drag.itemProps(it.id)}
+                        className={`rounded-xl border bg-white/80 p-2 ${album.coverId === it.id ? "border-[#4C0C27] ring-2 ring-[#4C0C27]/40" : "border-[#4C0C27]/20"} ${drag.dragId === it.id ? "opacity-40" : ""}`}
+                    >
+                        <DragHandle {...drag.handleProps(it.id)} className="mb-1" />
                         <img src={it.url} alt={it.alt ?? ""} className="w-full h-32 object-cover rounded-md mb-2" />
                         <div className="text-xs text-[#4C0C27]/80 mb-2 break-all">
                             {it.alt || <em>(aucun texte alternatif)</em>}
                         </div>
 
-                        <div className="flex items-center gap-2 mb-2">
-                            <label className="text-sm">Ordre</label>
-                            <input
-                                type="number"
-                                className="w-20 px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
-                                value={it.sortOrder}
-                                onChange={(e) => changeOrder(it.id, Number(e.target.value))}
-                            />
-                        </div>
-
                         <div className="flex items-center gap-2">
                             <button
                                 onClick={() => togglePublish(it.id, it.published)}
@@ -746,8 +1373,16 @@ function GalleryManager() {
                                 Retirer
                             </button>
                         </div>
+                        <button
+                            onClick={() => patchAlbum(album, { coverId: album.coverId === it.id ? null : it.id })}
+                            disabled={savingId === album.id}
+                            className="mt-2 w-full px-2 py-1 rounded text-sm border border-[#4C0C27]/30"
+                        >
+                            {album.coverId === it.id ? "Couverture ✓" : "Définir comme couverture"}
+                        </button>
                     </div>
                 ))}
+                {items.length === 0 && <div className="text-sm text-[#4C0C27]">Aucune image dans cet album.</div>}
             </div>
 
             {/* staging: upload new into gallery */}
@@ -756,8 +1391,8 @@ function GalleryManager() {
                 onDrop={onDrop}
                 className="rounded-xl border-2 border-dashed border-[#4C0C27]/30 bg-white/70 p-6 text-center"
             >
-                <div className="mb-3">Glissez-déposez des images ici (ou sélectionnez) pour la galerie</div>
-                <input type="file" accept="image/*" multiple onChange={onFilePick} />
+                <div className="mb-3">Glissez-déposez des images ici (ou sélectionnez) pour l'album « {album.title} »</div>
+                <input type="file" accept={ACCEPT_IMAGES} multiple onChange={onFilePick} />
                 {staged.length > 0 && (
                     <div className="mt-4 text-sm">
                         <div className="mb-2">En file : {staged.length} fichier(s)</div>
@@ -795,11 +1430,14 @@ function GalleryManager() {
                         {allMedia.map((m) => (
                             <div key={m.id} className="rounded-lg border border-[#4C0C27]/20 bg-white/70 p-2">
                                 <img src={m.url} alt={m.alt ?? ""} className="w-full h-24 object-cover rounded mb-2" />
+                                {m.usage?.gallery && (
+                                    <div className="text-xs text-[#4C0C27]/70 mb-1 truncate">Dans « {m.usage.gallery.album.title} »</div>
+                                )}
                                 <button
                                     onClick={() => addExisting(m.id)}
                                     className="w-full px-2 py-1 rounded text-sm bg-[#4C0C27] text-white"
                                 >
-                                    Ajouter à la galerie
+                                    {m.usage?.gallery ? "Déplacer ici" : "Ajouter à l'album"}
                                 </button>
                             </div>
                         ))}
@@ -807,52 +1445,361 @@ function GalleryManager() {
                     </div>
                 )}
             </div>
+            </>
+            )}
         </section>
     );
 }
 
-/** ---------- MENU ---------- */
+/** ---------- MEDIA LIBRARY ---------- */
+
+/** Media types offered as a filter, with their French label */
+const MEDIA_TYPE_LABELS: Record<MediaType, string> = {
+    HERO: "Carrousel",
+    GALLERY: "Galerie",
+    ANNOUNCEMENT: "Annonces",
+    MENU: "Carte à imprimer",
+};
 
 /**
- * @brief Component for managing menu images (uploading, publishing, reordering, deleting) in the admin dashboard.
+ * @brief Formats a file size for display ("850 Ko", "2,4 Mo").
+ * @param {number | null | undefined} bytes Size in bytes
+ * @returns {string}
+ */
+function fmtSize(bytes: number | null | undefined): string {
+    if (bytes == null) return "";
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} Ko`;
+    return `${(bytes / (1024 * 1024)).toFixed(1).replace(".", ",")} Mo`;
+}
+
+/**
+ * @brief Media library: every uploaded file, searchable and paginated.
  *
- * Allows admin users to:
- * - Upload multiple new menu images (defaults to unpublished)
- * - Toggle publish state (with a max of 10 published)
- * - Change display order (move up/down)
- * - Delete menu images
+ * Features:
+ *   - Text search on alt text and file name, filters by type, tag and folder
+ *   - Pagination (24 per page)
+ *   - Editing of alt text, folder and tags
+ *   - "Where is it used" (carousel, printable menu, gallery, announcements)
+ *   - Deletion, refused by the server while the file is in the gallery or an announcement
  *
- * @component
+ * @param {{ active: boolean }} props `active` reloads tags/folders when the section is opened.
+ * @returns {JSX.Element}
  */
-function MenuManager() {
-    const [items, setItems] = useState<MediaAsset[]>([]);
-    const [staged, setStaged] = useState<FileList | null>(null);
-    const [working, setWorking] = useState(false);
+function MediaLibrary({ active }: { active: boolean }) {
+    const PAGE_SIZE = 24;
+    const [q, setQ] = useState("");
+    const [type, setType] = useState<MediaType | "">("");
+    const [tag, setTag] = useState("");
+    /** null = every folder, "" = assets without folder */
+    const [folder, setFolder] = useState<string | null>(null);
+    const [page, setPage] = useState(1);
+    const [data, setData] = useState<MediaPage>({ items: [], total: 0, page: 1, pageSize: PAGE_SIZE });
+    const [facets, setFacets] = useState<{ tags: { tag: string; count: number }[]; folders: { folder: string; count: number }[] }>({ tags: [], folders: [] });
+    const [loading, setLoading] = useState(false);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [editing, setEditing] = useState<{ id: string; alt: string; folder: string; tags: string } | null>(null);
 
     /**
-     * @brief Loads all menu images from the backend, sorted by sortOrder.
+     * @brief Loads the current page with the current filters.
      * @async
-     * @return {Promise<void>}
      */
     async function load() {
-        const res = await fetch("/api/admin/media?type=MENU", { credentials: "include" });
-        const data: MediaAsset[] = await res.json();
-        setItems(data.sort((a, b) => a.sortOrder - b.sortOrder));
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        if (q.trim()) params.set("q", q.trim());
+        if (type) params.set("type", type);
+        if (tag) params.set("tag", tag);
+        if (folder !== null) params.set("folder", folder);
+        setLoading(true);
+        try {
+            const res = await fetch(`/api/admin/media?${params}`, { credentials: "include" });
+            if (res.ok) setData(await res.json());
+        } finally {
+            setLoading(false);
+        }
     }
 
-    useEffect(() => { load(); }, []);
-
     /**
-     * @brief The count of currently published menu images.
-     * @type {number}
+     * @brief Loads the tags and folders in use, for the filters.
+     * @async
      */
-    const publishedCount = useMemo(
-        () => items.filter(i => i.published).length,
-        [items]
-    );
+    async function loadFacets() {
+        const res = await fetch("/api/admin/media/facets", { credentials: "include" });
+        if (res.ok) setFacets(await res.json());
+    }
+
+    // search is debounced; other filters apply immediately
+    useEffect(() => {
+        if (!active) return;
+        const t = setTimeout(load, 250);
+        return () => clearTimeout(t);
+    }, [active, q, type, tag, folder, page]);
+    useEffect(() => { if (active) loadFacets(); }, [active]);
+
+    /** Any filter change goes back to the first page */
+    function filter<T>(set: (v: T) => void) {
+        return (v: T) => { set(v); setPage(1); };
+    }
 
     /**
-     * @brief Handler for file input changes - stages selected files for upload.
+     * @brief Saves the alt text, folder and tags being edited.
+     * @async
+     */
+    async function saveEdit() {
+        if (!editing) return;
+        setBusyId(editing.id);
+        try {
+            const r = await fetch(`/api/admin/media/${editing.id}`, {
+                method: "PATCH",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ alt: editing.alt || null, folder: editing.folder, tags: editing.tags }),
+            });
+            if (!r.ok) {
+                const j = await r.json().catch(() => ({}));
+                return alert(j.error || "Échec de l'enregistrement");
+            }
+            setEditing(null);
+            await Promise.all([load(), loadFacets()]);
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Deletes an asset after confirmation (refused while it is used).
+     * @param {MediaAsset} m Asset to delete
+     * @async
+     */
+    async function remove(m: MediaAsset) {
+        if (!confirm(`Supprimer définitivement « ${m.filename || m.alt || "ce média"} » ?`)) return;
+        setBusyId(m.id);
+        try {
+            if (await deleteMedia(m.id)) await Promise.all([load(), loadFacets()]);
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    const pages = Math.max(1, Math.ceil(data.total / PAGE_SIZE));
+    const inputCls = "px-2 py-1.5 rounded border border-[#4C0C27]/30 bg-white text-sm";
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">Médiathèque</h2>
+
+            {/* filters */}
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+                <input
+                    type="search"
+                    value={q}
+                    onChange={(e) => filter(setQ)(e.target.value)}
+                    placeholder="Rechercher (nom de fichier, texte alternatif)…"
+                    className={`${inputCls} w-72`}
+                />
+                <select value={type} onChange={(e) => filter(setType)(e.target.value as MediaType | "")} className={inputCls}>
+                    <option value="">Tous les types</option>
+                    {(Object.keys(MEDIA_TYPE_LABELS) as MediaType[]).map((t) => (
+                        <option key={t} value={t}>{MEDIA_TYPE_LABELS[t]}</option>
+                    ))}
+                </select>
+                <select value={tag} onChange={(e) => filter(setTag)(e.target.value)} className={inputCls}>
+                    <option value="">Tous les tags</option>
+                    {facets.tags.map((t) => (
+                        <option key={t.tag} value={t.tag}>#{t.tag} ({t.count})</option>
+                    ))}
+                </select>
+                <select
+                    value={folder === null ? "__all" : folder === "" ? "__none" : folder}
+                    onChange={(e) => filter(setFolder)(e.target.value === "__all" ? null : e.target.value === "__none" ? "" : e.target.value)}
+                    className={inputCls}
+                >
+                    <option value="__all">Tous les dossiers</option>
+                    <option value="__none">(sans dossier)</option>
+                    {facets.folders.map((f) => (
+                        <option key={f.folder} value={f.folder}>{f.folder} ({f.count})</option>
+                    ))}
+                </select>
+                <span className="ml-auto text-sm text-[#4C0C27]/70">
+                    {loading ? "Chargement…" : `${data.total} média(s)`}
+                </span>
+            </div>
+
+            {/* assets */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+                {data.items.map((m) => {
+                    const usage = m.usage ? describeUsage(m.usage) : [];
+                    const isEditing = editing?.id === m.id;
+                    return (
+                        <div key={m.id} className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2 text-sm">
+                            <a href={m.url} target="_blank" rel="noreferrer" className="block">
+                                <MediaThumb m={m} className="w-full h-36 rounded-md mb-2 bg-white" />
+                            </a>
+
+                            <div className="font-medium break-all">{m.filename || m.alt || m.id}</div>
+                            <div className="text-xs text-[#4C0C27]/70">
+                                {MEDIA_TYPE_LABELS[m.type as MediaType] ?? m.type}
+                                {m.width && m.height ? ` · ${m.width}×${m.height}` : ""}
+                                {m.duration != null ? ` · ${Math.round(m.duration)} s` : ""}
+                                {m.size ? ` · ${fmtSize(m.size)}` : ""}
+                                {m.folder ? ` · 📁 ${m.folder}` : ""}
+                            </div>
+
+                            {isEditing ? (
+                                <div className="mt-2 space-y-1.5">
+                                    <input
+                                        value={editing.alt}
+                                        onChange={(e) => setEditing({ ...editing, alt: e.target.value })}
+                                        placeholder="Texte alternatif"
+                                        className={`${inputCls} w-full`}
+                                    />
+                                    <input
+                                        value={editing.folder}
+                                        onChange={(e) => setEditing({ ...editing, folder: e.target.value })}
+                                        placeholder="Dossier (ex. Terrasse/2025)"
+                                        list="media-folders"
+                                        className={`${inputCls} w-full`}
+                                    />
+                                    <input
+                                        value={editing.tags}
+                                        onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                                        placeholder="Tags, séparés par des virgules"
+                                        className={`${inputCls} w-full`}
+                                    />
+                                    <div className="flex gap-2">
+                                        <button
+                                            onClick={saveEdit}
+                                            disabled={busyId === m.id}
+                                            className="px-2 py-1 rounded bg-[#4C0C27] text-white"
+                                        >
+                                            Enregistrer
+                                        </button>
+                                        <button onClick={() => setEditing(null)} className="px-2 py-1 rounded border border-[#4C0C27]/30">
+                                            Annuler
+                                        </button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <>
+                                    {m.alt && <div className="mt-1 text-xs italic text-[#4C0C27]/80">{m.alt}</div>}
+                                    {!!m.tags?.length && (
+                                        <div className="mt-1 flex flex-wrap gap-1">
+                                            {m.tags.map((t) => (
+                                                <button
+                                                    key={t}
+                                                    onClick={() => filter(setTag)(t)}
+                                                    className="px-1.5 py-0.5 rounded-full bg-[#4C0C27]/10 text-xs hover:bg-[#4C0C27]/20"
+                                                    title="Filtrer par ce tag"
+                                                >
+                                                    #{t}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <div className="mt-2 text-xs">
+                                        {usage.length ? (
+                                            <>
+                                                <span className="font-semibold">Utilisé dans :</span>
+                                                <ul className="list-disc list-inside">
+                                                    {usage.map((u) => <li key={u}>{u}</li>)}
+                                                </ul>
+                                            </>
+                                        ) : (
+                                            <span className="text-[#4C0C27]/60">Non utilisé</span>
+                                        )}
+                                    </div>
+                                    <div className="mt-2 flex gap-2">
+                                        <button
+                                            onClick={() => setEditing({ id: m.id, alt: m.alt ?? "", folder: m.folder ?? "", tags: (m.tags ?? []).join(", ") })}
+                                            className="px-2 py-1 rounded border border-[#4C0C27]/30"
+                                        >
+                                            Modifier
+                                        </button>
+                                        <button
+                                            onClick={() => remove(m)}
+                                            disabled={busyId === m.id}
+                                            className="ml-auto px-2 py-1 rounded bg-[#C81D25] text-white"
+                                        >
+                                            Supprimer
+                                        </button>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    );
+                })}
+                {!loading && data.items.length === 0 && (
+                    <div className="text-sm text-[#4C0C27]">Aucun média ne correspond à ces filtres.</div>
+                )}
+            </div>
+            <datalist id="media-folders">
+                {facets.folders.map((f) => <option key={f.folder} value={f.folder} />)}
+            </datalist>
+
+            {/* pagination */}
+            <div className="flex items-center justify-center gap-3 text-sm">
+                <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    className="px-3 py-1.5 rounded border border-[#4C0C27]/30 disabled:opacity-40"
+                >
+                    Précédent
+                </button>
+                <span>Page {page} / {pages}</span>
+                <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pages}
+                    className="px-3 py-1.5 rounded border border-[#4C0C27]/30 disabled:opacity-40"
+                >
+                    Suivant
+                </button>
+            </div>
+        </section>
+    );
+}
+
+/** ---------- MENU ---------- */
+
+/**
+ * @brief Component for managing menu images (uploading, publishing, reordering, deleting) in the admin dashboard.
+ *        These images are shown on the public menu page as the printable version of the structured menu.
+ *
+ * Allows admin users to:
+ * - Upload multiple new menu images (defaults to unpublished)
+ * - Toggle publish state (with a max of 10 published)
+ * - Change display order (move up/down)
+ * - Delete menu images
+ *
+ * @component
+ */
+function MenuManager() {
+    const [items, setItems] = useState<MediaAsset[]>([]);
+    const [staged, setStaged] = useState<FileList | null>(null);
+    const [working, setWorking] = useState(false);
+
+    /**
+     * @brief Loads all menu images from the backend, sorted by sortOrder.
+     * @async
+     * @return {Promise<void>}
+     */
+    async function load() {
+        const res = await fetch("/api/admin/media?type=MENU&pageSize=100", { credentials: "include" });
+        const data: MediaPage = await res.json();
+        setItems(data.items.sort((a, b) => a.sortOrder - b.sortOrder));
+    }
+
+    useEffect(() => { load(); }, []);
+
+    /**
+     * @brief The count of currently published menu images.
+     * @type {number}
+     */
+    const publishedCount = useMemo(
+        () => items.filter(i => i.published).length,
+        [items]
+    );
+
+    /**
+     * @brief Handler for file input changes - stages selected files for upload.
      * @param {React.ChangeEvent<HTMLInputElement>} e
      */
     function onPick(e: React.ChangeEvent<HTMLInputElement>) {
@@ -860,8 +1807,8 @@ function MenuManager() {
     }
 
     /**
-     * @brief Uploads all staged menu images to the server. New uploads are unpublished by default.
-     *        Upload is sequential to maintain correct sortOrder.
+     * @brief Uploads all staged menu images and PDFs to the server. New uploads are unpublished by default.
+     *        Upload is sequential so that the server appends them in the order they were picked.
      * @async
      * @returns {Promise<void>}
      */
@@ -869,23 +1816,16 @@ function MenuManager() {
         if (!staged || staged.length === 0) return;
         setWorking(true);
         try {
-            // Upload sequentially to preserve incremental sortOrder
-            const baseOrder = (items[items.length - 1]?.sortOrder ?? -1) + 1;
-            let idx = 0;
+            // Upload sequentially: each file is added after the previous one
+            const errors: string[] = [];
             for (const f of Array.from(staged)) {
-                const fd = new FormData();
-                fd.append("file", f);
-                fd.append("type", "MENU");
-                fd.append("alt", f.name);
-                fd.append("sortOrder", String(baseOrder + idx));
-                fd.append("published", "false");
-                await fetch("/api/admin/media", {
-                    method: "POST",
-                    body: fd,
-                    credentials: "include",
-                });
-                idx++;
+                try {
+                    await uploadMedia(f, "MENU", { published: "false" });
+                } catch (e: any) {
+                    errors.push(e.message);
+                }
             }
+            if (errors.length) alert(errors.join("\n"));
             setStaged(null);
             await load();
         } finally {
@@ -921,42 +1861,17 @@ function MenuManager() {
     }
 
     /**
-     * @brief Moves a menu item up or down in the order.
-     *        Swaps sortOrder with adjacent item.
-     * @param {MediaAsset} it The menu item
-     * @param {number} delta +1 to move down, -1 to move up
-     * @async
-     * @returns {Promise<void>}
+     * @brief Drag-and-drop order of the pages, saved in one request.
      */
-    async function bump(it: MediaAsset, delta: number) {
-        const ordered = [...items].sort((a, b) => a.sortOrder - b.sortOrder);
-        const i = ordered.findIndex(x => x.id === it.id);
-        const j = i + delta;
-        if (j < 0 || j >= ordered.length) return;
-
-        // swap sortOrder values
-        const a = ordered[i], b = ordered[j];
+    const drag = useDragReorder(items, async (next) => {
+        setItems(next.map((it, i) => ({ ...it, sortOrder: i })));
         setWorking(true);
         try {
-            await Promise.all([
-                fetch(`/api/admin/media/${a.id}`, {
-                    method: "PATCH",
-                    credentials: "include",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ sortOrder: b.sortOrder }),
-                }),
-                fetch(`/api/admin/media/${b.id}`, {
-                    method: "PATCH",
-                    credentials: "include",
-                    headers: { "Content-Type": "application/json" },
-                    body: JSON.stringify({ sortOrder: a.sortOrder }),
-                }),
-            ]);
-            await load();
+            if (!(await saveOrder("/api/admin/media/order?type=MENU", { ids: next.map(it => it.id) }))) await load();
         } finally {
             setWorking(false);
         }
-    }
+    });
 
     /**
      * @brief Deletes a menu image asset after user confirmation.
@@ -968,8 +1883,7 @@ function MenuManager() {
         if (!confirm("Supprimer cette image du menu ?")) return;
         setWorking(true);
         try {
-            await fetch(`/api/admin/media/${id}`, { method: "DELETE", credentials: "include" });
-            await load();
+            if (await deleteMedia(id)) await load();
         } finally {
             setWorking(false);
         }
@@ -977,17 +1891,37 @@ function MenuManager() {
 
     return (
         <section>
-            <h2 className="font-legacy text-2xl mb-3">Images du menu (max 10 publiées)</h2>
+            <h2 className="font-legacy text-2xl mb-3">Carte à imprimer (max 10 images publiées)</h2>
 
-            {/* All items with controls */}
+            {/* All items with controls, in page order (drag the grip to reorder) */}
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-                {items.map((it) => (
-                    <div key={it.id} className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2">
-                        <img
-                            src={it.url}
-                            alt={it.alt ?? ""}
-                            className="w-full h-32 object-contain rounded-md mb-2 bg-white"
-                        />
+                {drag.items.map((it, i) => (
+                    <div
+                        key={it.id}
+                        {...drag.itemProps(it.id)}
+                        className={`rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2 ${drag.dragId === it.id ? "opacity-40" : ""}`}
+                    >
+                        <div className="flex items-center gap-1 mb-1 text-xs text-[#4C0C27]/70">
+                            <DragHandle {...drag.handleProps(it.id)} />
+                            Page {i + 1}
+                        </div>
+                        {it.mimeType === "application/pdf" ? (
+                            <a
+                                href={it.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="flex flex-col items-center justify-center gap-1 w-full h-32 rounded-md mb-2 bg-white text-[#4C0C27]"
+                            >
+                                <FileText size={32} aria-hidden />
+                                <span className="text-xs truncate max-w-full px-2">{it.alt || "PDF"}</span>
+                            </a>
+                        ) : (
+                            <img
+                                src={it.url}
+                                alt={it.alt ?? ""}
+                                className="w-full h-32 object-contain rounded-md mb-2 bg-white"
+                            />
+                        )}
                         <div className="flex items-center gap-2 flex-wrap">
                             <button
                                 onClick={() => togglePublish(it)}
@@ -999,71 +1933,1520 @@ function MenuManager() {
                                 {it.published ? "Publié" : "Publier"}
                             </button>
                             <button
-                                onClick={() => bump(it, -1)}
+                                onClick={() => del(it.id)}
                                 disabled={working}
-                                className="px-2 py-1 rounded text-sm border"
-                                title="Monter"
+                                className="ml-auto px-2 py-1 rounded text-sm bg-[#C81D25] text-white"
                             >
-                                ↑
+                                Supprimer
                             </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {/* Uploader */}
+            <div className="rounded-xl border-2 border-dashed border-[#4C0C27]/30 bg-white/70 p-6 text-center">
+                <div className="mb-3">Ajouter des images ou des PDF (ils seront non publiés par défaut)</div>
+                <input type="file" accept={ACCEPT_MENU} multiple onChange={onPick} />
+                {staged && staged.length > 0 && (
+                    <div className="mt-3 text-sm">
+                        En file :
+                        <ul className="mt-1 list-disc list-inside">
+                            {Array.from(staged).map((f) => <li key={f.name}>{f.name}</li>)}
+                        </ul>
+                        <div className="mt-2">
                             <button
-                                onClick={() => bump(it, +1)}
+                                onClick={uploadNewMenus}
                                 disabled={working}
-                                className="px-2 py-1 rounded text-sm border"
-                                title="Descendre"
+                                className="px-3 py-1.5 rounded bg-[#4C0C27] text-white"
                             >
-                                ↓
+                                {working ? "Téléversement…" : "Téléverser"}
                             </button>
                             <button
-                                onClick={() => del(it.id)}
-                                disabled={working}
-                                className="ml-auto px-2 py-1 rounded text-sm bg-[#C81D25] text-white"
+                                onClick={() => setStaged(null)}
+                                className="ml-2 px-3 py-1.5 rounded border border-[#4C0C27]/30"
                             >
-                                Supprimer
+                                Effacer la sélection
                             </button>
                         </div>
-                        <div className="mt-1 text-xs text-[#4C0C27]/70">
-                            Ordre: {it.sortOrder}
-                        </div>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+}
+
+
+/** ---------- Structured menu (sections, dishes, prices, variants) ---------- */
+
+/**
+ * @brief Converts euro cents to the text shown in a price input ("8,50").
+ * @param {number | null | undefined} c Price in cents
+ * @returns {string}
+ */
+function centsToInput(c: number | null | undefined): string {
+    return c == null ? "" : (c / 100).toFixed(2).replace(".", ",");
+}
+
+/**
+ * @brief Parses a price typed by the admin ("8,50", "8.5", "12") to euro cents.
+ * @param {string} s Raw input
+ * @returns {number | null} Cents, or null when empty/invalid
+ */
+function inputToCents(s: string): number | null {
+    const n = Number(s.trim().replace(",", "."));
+    if (!s.trim() || !Number.isFinite(n) || n < 0) return null;
+    return Math.round(n * 100);
+}
+
+/** Editable copy of a dish; prices are kept as raw input strings while typing. */
+type DishDraft = {
+    name: string; nameEn: string; nameNl: string;
+    description: string; descriptionEn: string; descriptionNl: string;
+    price: string;
+    allergens: Allergen[];
+    vegetarian: boolean;
+    vegan: boolean;
+    halal: boolean;
+    spicyLevel: number;
+    published: boolean;
+    variants: { label: string; labelEn: string; labelNl: string; price: string }[];
+};
+
+const emptyDish: DishDraft = {
+    name: "", nameEn: "", nameNl: "",
+    description: "", descriptionEn: "", descriptionNl: "",
+    price: "", allergens: [], vegetarian: false, vegan: false, halal: false, spicyLevel: 0,
+    published: true, variants: [],
+};
+
+/**
+ * @brief Builds an editable draft from a dish returned by the API.
+ * @param {Dish} d
+ * @returns {DishDraft}
+ */
+function toDishDraft(d: Dish): DishDraft {
+    return {
+        name: d.name, nameEn: d.nameEn ?? "", nameNl: d.nameNl ?? "",
+        description: d.description ?? "", descriptionEn: d.descriptionEn ?? "", descriptionNl: d.descriptionNl ?? "",
+        price: centsToInput(d.priceCents),
+        allergens: d.allergens ?? [],
+        vegetarian: d.vegetarian, vegan: d.vegan, halal: d.halal, spicyLevel: d.spicyLevel,
+        published: d.published,
+        variants: d.variants.map(v => ({
+            label: v.label, labelEn: v.labelEn ?? "", labelNl: v.labelNl ?? "", price: centsToInput(v.priceCents),
+        })),
+    };
+}
+
+/**
+ * @brief Converts a draft to the JSON body expected by /api/admin/menu/dishes (empty translations become null).
+ * @param {DishDraft} d
+ */
+function dishPayload(d: DishDraft) {
+    return {
+        name: d.name.trim(),
+        nameEn: d.nameEn.trim() || null,
+        nameNl: d.nameNl.trim() || null,
+        description: d.description.trim() || null,
+        descriptionEn: d.descriptionEn.trim() || null,
+        descriptionNl: d.descriptionNl.trim() || null,
+        priceCents: inputToCents(d.price),
+        allergens: d.allergens,
+        vegetarian: d.vegetarian || d.vegan,
+        vegan: d.vegan,
+        halal: d.halal,
+        spicyLevel: d.spicyLevel,
+        published: d.published,
+        variants: d.variants
+            .filter(v => v.label.trim() && inputToCents(v.price) != null)
+            .map(v => ({
+                label: v.label.trim(),
+                labelEn: v.labelEn.trim() || null,
+                labelNl: v.labelNl.trim() || null,
+                priceCents: inputToCents(v.price)!,
+            })),
+    };
+}
+
+/**
+ * @brief Form for creating or editing a dish (FR/EN/NL texts, price and variants).
+ *
+ * @param {object} props
+ * @param {DishDraft} props.initial Initial values
+ * @param {boolean} props.busy Disables the save button while a request is running
+ * @param {(d: DishDraft) => void} props.onSave Called with the edited draft
+ * @param {() => void} props.onCancel Called when the form is dismissed
+ * @component
+ */
+function DishForm({ initial, busy, onSave, onCancel }: {
+    initial: DishDraft;
+    busy: boolean;
+    onSave: (d: DishDraft) => void;
+    onCancel: () => void;
+}) {
+    const [d, setD] = useState<DishDraft>(initial);
+    const input = "px-2 py-1 rounded border border-[#4C0C27]/30 bg-white";
+
+    function setVariant(i: number, patch: Partial<DishDraft["variants"][number]>) {
+        setD({ ...d, variants: d.variants.map((v, idx) => (idx === i ? { ...v, ...patch } : v)) });
+    }
+
+    return (
+        <div className="p-3 space-y-2">
+            <div className="grid md:grid-cols-3 gap-2">
+                <input value={d.name} onChange={(e) => setD({ ...d, name: e.target.value })} placeholder="Nom (FR)" className={input} />
+                <input value={d.nameEn} onChange={(e) => setD({ ...d, nameEn: e.target.value })} placeholder="Name (EN)" className={input} />
+                <input value={d.nameNl} onChange={(e) => setD({ ...d, nameNl: e.target.value })} placeholder="Naam (NL)" className={input} />
+                <textarea value={d.description} onChange={(e) => setD({ ...d, description: e.target.value })} placeholder="Description (FR, facultatif)" rows={2} className={input} />
+                <textarea value={d.descriptionEn} onChange={(e) => setD({ ...d, descriptionEn: e.target.value })} placeholder="Description (EN)" rows={2} className={input} />
+                <textarea value={d.descriptionNl} onChange={(e) => setD({ ...d, descriptionNl: e.target.value })} placeholder="Beschrijving (NL)" rows={2} className={input} />
+            </div>
+            <div className="flex items-center gap-4 flex-wrap">
+                <label className="inline-flex items-center gap-2 text-sm">
+                    Prix (€)
+                    <input
+                        value={d.price}
+                        onChange={(e) => setD({ ...d, price: e.target.value })}
+                        placeholder="ex. 12,50"
+                        inputMode="decimal"
+                        className={`${input} w-24`}
+                    />
+                </label>
+                <label className="inline-flex items-center gap-2 text-sm">
+                    <input type="checkbox" checked={d.published} onChange={(e) => setD({ ...d, published: e.target.checked })} /> Publié
+                </label>
+            </div>
+
+            {/* Dietary tags */}
+            <div className="flex items-center gap-4 flex-wrap text-sm">
+                <label className="inline-flex items-center gap-2">
+                    <input type="checkbox" checked={d.vegetarian || d.vegan} disabled={d.vegan} onChange={(e) => setD({ ...d, vegetarian: e.target.checked })} /> Végétarien
+                </label>
+                <label className="inline-flex items-center gap-2">
+                    <input type="checkbox" checked={d.vegan} onChange={(e) => setD({ ...d, vegan: e.target.checked })} /> Végan
+                </label>
+                <label className="inline-flex items-center gap-2">
+                    <input type="checkbox" checked={d.halal} onChange={(e) => setD({ ...d, halal: e.target.checked })} /> Halal
+                </label>
+                <label className="inline-flex items-center gap-2">
+                    Piquant
+                    <select
+                        value={d.spicyLevel}
+                        onChange={(e) => setD({ ...d, spicyLevel: Number(e.target.value) })}
+                        className={input}
+                    >
+                        <option value={0}>Non</option>
+                        <option value={1}>🌶</option>
+                        <option value={2}>🌶🌶</option>
+                        <option value={3}>🌶🌶🌶</option>
+                    </select>
+                </label>
+            </div>
+
+            {/* Allergens */}
+            <div>
+                <div className="text-sm font-semibold text-[#4C0C27] mb-1">Allergènes</div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-1 text-sm">
+                    {(Object.keys(ALLERGENS) as Allergen[]).map((a) => (
+                        <label key={a} className="inline-flex items-center gap-2">
+                            <input
+                                type="checkbox"
+                                checked={d.allergens.includes(a)}
+                                onChange={(e) => setD({
+                                    ...d,
+                                    allergens: e.target.checked ? [...d.allergens, a] : d.allergens.filter(x => x !== a),
+                                })}
+                            />
+                            {ALLERGENS[a]}
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {/* Variants */}
+            <div>
+                <div className="text-sm font-semibold text-[#4C0C27] mb-1">Variantes (ex. 6 pcs / 12 pcs)</div>
+                {d.variants.map((v, i) => (
+                    <div key={i} className="grid md:grid-cols-5 gap-2 mb-1 items-center">
+                        <input value={v.label} onChange={(e) => setVariant(i, { label: e.target.value })} placeholder="Libellé (FR)" className={input} />
+                        <input value={v.labelEn} onChange={(e) => setVariant(i, { labelEn: e.target.value })} placeholder="Label (EN)" className={input} />
+                        <input value={v.labelNl} onChange={(e) => setVariant(i, { labelNl: e.target.value })} placeholder="Label (NL)" className={input} />
+                        <input value={v.price} onChange={(e) => setVariant(i, { price: e.target.value })} placeholder="Prix (€)" inputMode="decimal" className={input} />
+                        <button
+                            onClick={() => setD({ ...d, variants: d.variants.filter((_, idx) => idx !== i) })}
+                            className="px-2 py-1 rounded text-sm text-[#C81D25] border border-[#C81D25]/40"
+                        >
+                            Retirer
+                        </button>
                     </div>
                 ))}
+                <button
+                    onClick={() => setD({ ...d, variants: [...d.variants, { label: "", labelEn: "", labelNl: "", price: "" }] })}
+                    className="px-2 py-1 rounded text-xs border border-[#4C0C27]/30 bg-white"
+                >
+                    + Ajouter une variante
+                </button>
+            </div>
+
+            <div className="pt-1">
+                <button
+                    onClick={() => onSave(d)}
+                    disabled={busy || !d.name.trim()}
+                    className="px-3 py-1.5 rounded bg-[#4C0C27] text-white mr-2 disabled:opacity-50"
+                >
+                    {busy ? "Enregistrement…" : "Enregistrer"}
+                </button>
+                <button onClick={onCancel} className="px-3 py-1.5 rounded border border-[#4C0C27]/30">
+                    Annuler
+                </button>
             </div>
+        </div>
+    );
+}
+
+/**
+ * @brief Admin editor for the structured menu shown as text on the public menu page.
+ *
+ * Allows admin users to:
+ * - Create, rename (FR/EN/NL), publish and delete sections
+ * - Add, edit and delete dishes with a base price and optional priced variants
+ * - Tag dishes with the 14 regulated allergens and dietary information (vegetarian, vegan, halal, spicy level)
+ * - Reorder sections and dishes (move up/down)
+ *
+ * @component
+ */
+function MenuEditor() {
+    const [sections, setSections] = useState<MenuSection[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busy, setBusy] = useState<string | null>(null);
+    /** Open accordion: a section id, or "new" for the new section form */
+    const [openId, setOpenId] = useState<string | null>(null);
+    /** Dish being edited: a dish id, or "new:<sectionId>" */
+    const [dishEdit, setDishEdit] = useState<string | null>(null);
+
+    const [nTitle, setNTitle] = useState("");
+    const [nTitleEn, setNTitleEn] = useState("");
+    const [nTitleNl, setNTitleNl] = useState("");
+
+    /**
+     * @brief Loads all sections (with dishes and variants) from the API.
+     * @async
+     */
+    async function load() {
+        setLoading(true);
+        try {
+            const res = await fetch("/api/admin/menu", { credentials: "include" });
+            setSections(await res.json());
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    useEffect(() => { load(); }, []);
+
+    /**
+     * @brief Sends a JSON request to the admin menu API, then reloads.
+     * @param {string} key Busy key used to disable the matching controls
+     * @param {string} url Endpoint
+     * @param {string} method HTTP method
+     * @param {unknown} [body] JSON body
+     * @async
+     */
+    async function send(key: string, url: string, method: string, body?: unknown) {
+        setBusy(key);
+        try {
+            const r = await fetch(url, {
+                method,
+                credentials: "include",
+                headers: body ? { "Content-Type": "application/json" } : undefined,
+                body: body ? JSON.stringify(body) : undefined,
+            });
+            if (!r.ok) {
+                const msg = await r.text().catch(() => "");
+                alert(`Erreur ${r.status} ${msg}`);
+                return false;
+            }
+            await load();
+            return true;
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    async function createSection() {
+        if (!nTitle.trim()) return;
+        const ok = await send("new", "/api/admin/menu/sections", "POST", {
+            title: nTitle,
+            titleEn: nTitleEn || null,
+            titleNl: nTitleNl || null,
+        });
+        if (ok) { setNTitle(""); setNTitleEn(""); setNTitleNl(""); setOpenId(null); }
+    }
+
+    function patchSection(s: MenuSection, patch: Partial<MenuSection>) {
+        return send(s.id, `/api/admin/menu/sections/${s.id}`, "PATCH", patch);
+    }
+
+    async function removeSection(s: MenuSection) {
+        if (!confirm(`Supprimer la section « ${s.title} » et tous ses plats ?`)) return;
+        await send(s.id, `/api/admin/menu/sections/${s.id}`, "DELETE");
+    }
+
+    async function saveDish(section: MenuSection, dish: Dish | null, d: DishDraft) {
+        const ok = dish
+            ? await send(dish.id, `/api/admin/menu/dishes/${dish.id}`, "PATCH", dishPayload(d))
+            : await send(`new:${section.id}`, "/api/admin/menu/dishes", "POST", {
+                ...dishPayload(d),
+                sectionId: section.id,
+            });
+        if (ok) setDishEdit(null);
+    }
+
+    async function removeDish(dish: Dish) {
+        if (!confirm(`Supprimer « ${dish.name} » ?`)) return;
+        await send(dish.id, `/api/admin/menu/dishes/${dish.id}`, "DELETE");
+    }
+
+    /** Drag-and-drop order of the sections, saved in one request */
+    const sectionDrag = useDragReorder(sections, async (next) => {
+        setSections(next.map((s, i) => ({ ...s, sortOrder: i })));
+        if (!(await saveOrder("/api/admin/menu/sections/order", { ids: next.map(s => s.id) }))) await load();
+    });
+
+    /** Drag-and-drop order of the dishes of the open section */
+    const openSection = sections.find(s => s.id === openId);
+    const dishDrag = useDragReorder(openSection?.dishes ?? [], async (next) => {
+        if (!openSection) return;
+        const dishes = next.map((d, i) => ({ ...d, sortOrder: i }));
+        setSections(prev => prev.map(s => (s.id === openSection.id ? { ...s, dishes } : s)));
+        if (!(await saveOrder("/api/admin/menu/dishes/order", { sectionId: openSection.id, ids: next.map(d => d.id) }))) await load();
+    });
+
+    const fmtPrice = (c: number | null) => (c == null ? "" : `${centsToInput(c)} €`);
+    const input = "px-2 py-1 rounded border border-[#4C0C27]/30 bg-white";
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">Carte</h2>
+            <p className="text-sm text-[#4C0C27]/80 mb-4">
+                Les textes en français sont obligatoires ; l’anglais et le néerlandais sont facultatifs (le français est affiché à défaut).
+            </p>
+
+            {/* --- New section --- */}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80">
+                <button
+                    onClick={() => setOpenId(openId === "new" ? null : "new")}
+                    className="w-full flex items-center justify-between px-4 py-3"
+                >
+                    <div className="font-semibold">Nouvelle section</div>
+                    <span className="text-sm text-[#4C0C27]">{openId === "new" ? "Fermer" : "Ouvrir"}</span>
+                </button>
+                {openId === "new" && (
+                    <div className="border-t border-[#4C0C27]/10 p-4">
+                        <div className="grid md:grid-cols-3 gap-2">
+                            <input value={nTitle} onChange={(e) => setNTitle(e.target.value)} placeholder="Titre (FR)" className={input} />
+                            <input value={nTitleEn} onChange={(e) => setNTitleEn(e.target.value)} placeholder="Title (EN)" className={input} />
+                            <input value={nTitleNl} onChange={(e) => setNTitleNl(e.target.value)} placeholder="Titel (NL)" className={input} />
+                        </div>
+                        <button
+                            onClick={createSection}
+                            disabled={busy === "new" || !nTitle.trim()}
+                            className="mt-3 px-3 py-1.5 rounded bg-[#4C0C27] text-white disabled:opacity-50"
+                        >
+                            {busy === "new" ? "Enregistrement…" : "Créer"}
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            {/* --- Sections --- */}
+            <div className="mt-4 space-y-3">
+                {loading ? (
+                    <div className="p-4 text-[#4C0C27]">Chargement…</div>
+                ) : sections.length === 0 ? (
+                    <div className="p-4 text-[#4C0C27]">Aucune section pour l’instant.</div>
+                ) : (
+                    sectionDrag.items.map((s) => {
+                        const isOpen = openId === s.id;
+                        return (
+                            <div
+                                key={s.id}
+                                {...sectionDrag.itemProps(s.id)}
+                                className={`rounded-xl border border-[#4C0C27]/20 bg-white/70 ${sectionDrag.dragId === s.id ? "opacity-40" : ""}`}
+                            >
+                                <div className="flex items-center gap-2 px-3 py-2">
+                                    <DragHandle {...sectionDrag.handleProps(s.id)} />
+                                    <button onClick={() => setOpenId(isOpen ? null : s.id)} className="flex items-center gap-3 grow text-left">
+                                        <span className="font-semibold">{s.title}</span>
+                                        <span className="text-xs text-[#4C0C27] opacity-70">
+                                            {s.dishes.length} plat(s) · {s.published ? "Publiée" : "Non publiée"}
+                                        </span>
+                                    </button>
+                                    <span className="text-sm text-[#4C0C27]">{isOpen ? "Fermer" : "Modifier"}</span>
+                                </div>
+
+                                {isOpen && (
+                                    <div className="border-t border-[#4C0C27]/10 p-3">
+                                        {/* Section fields: saved on blur */}
+                                        <div className="grid md:grid-cols-3 gap-2">
+                                            {([
+                                                ["title", "Titre (FR)"], ["titleEn", "Title (EN)"], ["titleNl", "Titel (NL)"],
+                                                ["description", "Introduction (FR)"], ["descriptionEn", "Intro (EN)"], ["descriptionNl", "Intro (NL)"],
+                                            ] as const).map(([field, label]) => (
+                                                <input
+                                                    key={field}
+                                                    defaultValue={s[field] ?? ""}
+                                                    placeholder={label}
+                                                    onBlur={(e) => {
+                                                        const v = e.target.value.trim();
+                                                        if (v === (s[field] ?? "") || (field === "title" && !v)) return;
+                                                        patchSection(s, { [field]: v || null });
+                                                    }}
+                                                    className={input}
+                                                />
+                                            ))}
+                                        </div>
+                                        <div className="mt-2 flex items-center gap-2">
+                                            <button
+                                                onClick={() => patchSection(s, { published: !s.published })}
+                                                disabled={busy === s.id}
+                                                className={`px-2 py-1 rounded text-sm ${s.published ? "bg-green-600 text-white" : "bg-gray-200"}`}
+                                            >
+                                                {s.published ? "Publiée" : "Publier"}
+                                            </button>
+                                            <button
+                                                onClick={() => removeSection(s)}
+                                                disabled={busy === s.id}
+                                                className="ml-auto px-2 py-1 rounded text-sm bg-[#C81D25] text-white"
+                                            >
+                                                Supprimer la section
+                                            </button>
+                                        </div>
+
+                                        {/* Dishes */}
+                                        <ul className="mt-4 divide-y divide-[#4C0C27]/10 rounded-lg border border-[#4C0C27]/10 bg-white/60">
+                                            {dishDrag.items.map((d) => (
+                                                <li
+                                                    key={d.id}
+                                                    {...dishDrag.itemProps(d.id)}
+                                                    className={dishDrag.dragId === d.id ? "opacity-40" : undefined}
+                                                >
+                                                    {dishEdit === d.id ? (
+                                                        <DishForm
+                                                            initial={toDishDraft(d)}
+                                                            busy={busy === d.id}
+                                                            onSave={(draft) => saveDish(s, d, draft)}
+                                                            onCancel={() => setDishEdit(null)}
+                                                        />
+                                                    ) : (
+                                                        <div className="flex items-center gap-2 px-3 py-2">
+                                                            <DragHandle {...dishDrag.handleProps(d.id)} />
+                                                            <div className="grow">
+                                                                <div className={d.published ? "font-medium" : "font-medium opacity-50"}>
+                                                                    {d.name} <span className="text-[#4C0C27]">{fmtPrice(d.priceCents)}</span>
+                                                                </div>
+                                                                <div className="text-xs text-[#4C0C27]/80">
+                                                                    {[
+                                                                        d.vegan ? "Végan" : d.vegetarian ? "Végétarien" : null,
+                                                                        d.halal ? "Halal" : null,
+                                                                        d.spicyLevel > 0 ? "🌶".repeat(d.spicyLevel) : null,
+                                                                        ...d.allergens.map(a => ALLERGENS[a]),
+                                                                    ].filter(Boolean).join(" · ")}
+                                                                </div>
+                                                                {d.variants.length > 0 && (
+                                                                    <div className="text-xs text-[#4C0C27]/80">
+                                                                        {d.variants.map(v => `${v.label} ${fmtPrice(v.priceCents)}`).join(" · ")}
+                                                                    </div>
+                                                                )}
+                                                            </div>
+                                                            <button
+                                                                onClick={() => setDishEdit(d.id)}
+                                                                className="px-2 py-1 rounded text-sm border border-[#4C0C27]/30"
+                                                            >
+                                                                Modifier
+                                                            </button>
+                                                            <button
+                                                                onClick={() => removeDish(d)}
+                                                                disabled={busy === d.id}
+                                                                className="px-2 py-1 rounded text-sm bg-[#C81D25] text-white"
+                                                            >
+                                                                Supprimer
+                                                            </button>
+                                                        </div>
+                                                    )}
+                                                </li>
+                                            ))}
+                                            <li>
+                                                {dishEdit === `new:${s.id}` ? (
+                                                    <DishForm
+                                                        initial={emptyDish}
+                                                        busy={busy === `new:${s.id}`}
+                                                        onSave={(draft) => saveDish(s, null, draft)}
+                                                        onCancel={() => setDishEdit(null)}
+                                                    />
+                                                ) : (
+                                                    <button
+                                                        onClick={() => setDishEdit(`new:${s.id}`)}
+                                                        className="w-full text-left px-3 py-2 text-sm text-[#4C0C27] hover:bg-[#4C0C27]/5"
+                                                    >
+                                                        + Ajouter un plat
+                                                    </button>
+                                                )}
+                                            </li>
+                                        </ul>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })
+                )}
+            </div>
+        </section>
+    );
+}
+
+
+/** ---------- Reservations (list + confirm/cancel + capacity) ---------- */
+
+type ReservationStatus = "PENDING" | "CONFIRMED" | "CANCELLED";
+type Reservation = {
+    id: string;
+    date: string; // "YYYY-MM-DD" (ISO at UTC midnight)
+    slot: "LUNCH" | "DINNER";
+    timeMin: number;
+    covers: number;
+    name: string;
+    email: string;
+    phone?: string | null;
+    note?: string | null;
+    status: ReservationStatus;
+    createdAt: string;
+};
+
+const STATUS_LABEL: Record<ReservationStatus, string> = {
+    PENDING: "En attente",
+    CONFIRMED: "Confirmée",
+    CANCELLED: "Annulée",
+};
+
+/**
+ * @brief Formats minutes since midnight as "HH:MM".
+ * @param {number} min
+ * @returns {string}
+ */
+function minToHHMM(min: number): string {
+    return `${String(Math.floor(min / 60)).padStart(2, "0")}:${String(min % 60).padStart(2, "0")}`;
+}
+
+/**
+ * @brief Admin screen for online reservations.
+ *
+ * Allows admin users to:
+ * - List reservations for a date range, optionally filtered by status
+ * - Confirm or cancel a reservation (and restore a cancelled one)
+ * - See covers booked per service against the capacity, and edit that capacity
+ *
+ * @component
+ */
+function ReservationsManager() {
+    const [rows, setRows] = useState<Reservation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [from, setFrom] = useState(todayYMD());
+    const [to, setTo] = useState(addDays(todayYMD(), 14));
+    const [status, setStatus] = useState<ReservationStatus | "">("");
+    const [capacity, setCapacity] = useState<Record<"LUNCH" | "DINNER", number>>({ LUNCH: 0, DINNER: 0 });
+
+    /**
+     * @brief Loads reservations for the current filters.
+     * @async
+     */
+    async function load() {
+        setLoading(true);
+        try {
+            const qs = new URLSearchParams({ from, to });
+            if (status) qs.set("status", status);
+            const res = await fetch(`/api/admin/reservations?${qs}`, { credentials: "include" });
+            setRows(res.ok ? await res.json() : []);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    /**
+     * @brief Loads the capacity of each service.
+     * @async
+     */
+    async function loadCapacity() {
+        const res = await fetch("/api/admin/reservations/capacity", { credentials: "include" });
+        if (!res.ok) return;
+        const data: { slot: "LUNCH" | "DINNER"; covers: number }[] = await res.json();
+        setCapacity(Object.fromEntries(data.map(c => [c.slot, c.covers])) as Record<"LUNCH" | "DINNER", number>);
+    }
+
+    useEffect(() => { load(); }, [from, to, status]);
+    useEffect(() => { loadCapacity(); }, []);
+
+    /**
+     * @brief Changes the status of a reservation.
+     * @param {Reservation} r
+     * @param {ReservationStatus} next
+     * @async
+     */
+    async function setReservationStatus(r: Reservation, next: ReservationStatus) {
+        if (next === "CANCELLED" && !confirm(`Annuler la réservation de ${r.name} ?`)) return;
+        setBusyId(r.id);
+        try {
+            await fetch(`/api/admin/reservations/${r.id}`, {
+                method: "PATCH",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ status: next }),
+            });
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Saves the capacity of a service.
+     * @param {"LUNCH" | "DINNER"} slot
+     * @async
+     */
+    async function saveCapacity(slot: "LUNCH" | "DINNER") {
+        setBusyId(slot);
+        try {
+            await fetch(`/api/admin/reservations/capacity/${slot}`, {
+                method: "PUT",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ covers: capacity[slot] }),
+            });
+            await loadCapacity();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /** Reservations grouped by day, with covers held per service */
+    const days = useMemo(() => {
+        const map = new Map<string, Reservation[]>();
+        for (const r of rows) {
+            const k = r.date.slice(0, 10);
+            map.set(k, [...(map.get(k) ?? []), r]);
+        }
+        return Array.from(map.entries()).map(([day, list]) => {
+            const held = (slot: "LUNCH" | "DINNER") =>
+                list.filter(r => r.slot === slot && r.status !== "CANCELLED").reduce((n, r) => n + r.covers, 0);
+            return { day, list, lunch: held("LUNCH"), dinner: held("DINNER") };
+        });
+    }, [rows]);
+
+    const pendingCount = rows.filter(r => r.status === "PENDING").length;
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">
+                Réservations{pendingCount > 0 && <span className="ml-2 text-base text-[#C81D25]">({pendingCount} en attente)</span>}
+            </h2>
+
+            {/* Capacity */}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4">
+                <div className="font-semibold mb-2">Capacité par service (couverts)</div>
+                <div className="flex flex-wrap gap-4">
+                    {(["LUNCH", "DINNER"] as const).map(slot => (
+                        <label key={slot} className="inline-flex items-center gap-2 text-sm">
+                            {slot === "LUNCH" ? "Midi" : "Soir"}
+                            <input
+                                type="number"
+                                min={0}
+                                value={capacity[slot]}
+                                onChange={(e) => setCapacity({ ...capacity, [slot]: Number(e.target.value) })}
+                                className="w-20 px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
+                            />
+                            <button
+                                onClick={() => saveCapacity(slot)}
+                                disabled={busyId === slot}
+                                className="px-2 py-1 rounded bg-[#4C0C27] text-white"
+                            >
+                                Enregistrer
+                            </button>
+                        </label>
+                    ))}
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
+                <label className="inline-flex items-center gap-2">
+                    Du
+                    <input type="date" lang={EU_LANG} value={from} onChange={(e) => setFrom(e.target.value)}
+                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" />
+                </label>
+                <label className="inline-flex items-center gap-2">
+                    au
+                    <input type="date" lang={EU_LANG} value={to} onChange={(e) => setTo(e.target.value)}
+                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" />
+                </label>
+                <select value={status} onChange={(e) => setStatus(e.target.value as ReservationStatus | "")}
+                    className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
+                    <option value="">Tous les statuts</option>
+                    {(Object.keys(STATUS_LABEL) as ReservationStatus[]).map(s => (
+                        <option key={s} value={s}>{STATUS_LABEL[s]}</option>
+                    ))}
+                </select>
+            </div>
+
+            {/* List grouped by day */}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/70">
+                {loading ? (
+                    <div className="p-4 text-[#4C0C27]">Chargement…</div>
+                ) : days.length === 0 ? (
+                    <div className="p-4 text-[#4C0C27]">Aucune réservation sur cette période.</div>
+                ) : (
+                    days.map(({ day, list, lunch, dinner }) => (
+                        <div key={day} className="border-b last:border-b-0 border-[#4C0C27]/10">
+                            <div className="flex flex-wrap items-center gap-3 px-3 py-2 bg-[#4C0C27]/5">
+                                <div className="font-semibold capitalize">{fmtDate(parseAPIDate(day), { weekday: "long", day: "2-digit", month: "long" })}</div>
+                                <div className="text-xs text-[#4C0C27]">Midi : {lunch}/{capacity.LUNCH}</div>
+                                <div className="text-xs text-[#4C0C27]">Soir : {dinner}/{capacity.DINNER}</div>
+                            </div>
+                            <ul className="divide-y divide-[#4C0C27]/10">
+                                {list.map(r => (
+                                    <li key={r.id} className={`px-3 py-2 flex flex-wrap items-center gap-3 ${r.status === "CANCELLED" ? "opacity-50" : ""}`}>
+                                        <div className="w-14 font-mono">{minToHHMM(r.timeMin)}</div>
+                                        <div className="w-16 text-sm">{r.covers} couv.</div>
+                                        <div className="grow min-w-[12rem]">
+                                            <div className="font-medium">{r.name}</div>
+                                            <div className="text-xs text-[#4C0C27]/80">
+                                                <a href={`mailto:${r.email}`} className="underline">{r.email}</a>
+                                                {r.phone && <> · <a href={`tel:${r.phone}`} className="underline">{r.phone}</a></>}
+                                            </div>
+                                            {r.note && <div className="text-xs italic mt-0.5">{r.note}</div>}
+                                        </div>
+                                        <span className={[
+                                            "text-xs px-2 py-0.5 rounded",
+                                            r.status === "CONFIRMED" ? "bg-green-600 text-white"
+                                                : r.status === "PENDING" ? "bg-[#FFB96B] text-[#0B0B0B]"
+                                                    : "bg-gray-200",
+                                        ].join(" ")}>
+                                            {STATUS_LABEL[r.status]}
+                                        </span>
+                                        {r.status !== "CONFIRMED" && (
+                                            <button
+                                                onClick={() => setReservationStatus(r, "CONFIRMED")}
+                                                disabled={busyId === r.id}
+                                                className="px-2 py-1 rounded text-sm bg-[#4C0C27] text-white"
+                                            >
+                                                {r.status === "CANCELLED" ? "Rétablir" : "Confirmer"}
+                                            </button>
+                                        )}
+                                        {r.status !== "CANCELLED" && (
+                                            <button
+                                                onClick={() => setReservationStatus(r, "CANCELLED")}
+                                                disabled={busyId === r.id}
+                                                className="px-2 py-1 rounded text-sm bg-[#C81D25] text-white"
+                                            >
+                                                Annuler
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))
+                )}
+            </div>
+        </section>
+    );
+}
+
+/** ---------- Users (invite + role + deactivate) ---------- */
+
+type DashboardUser = {
+    id: string;
+    email: string;
+    role: Role;
+    active: boolean;
+    lastLoginAt?: string | null;
+    totpEnabledAt?: string | null;
+    createdAt: string;
+    /** Private calendar feed key of the user, if they created one */
+    feedToken?: { createdAt: string } | null;
+};
+
+/**
+ * @brief Admin screen for dashboard accounts (owners only).
+ *
+ * Allows owners to:
+ * - List accounts with their role and last sign-in
+ * - Invite a user with a role: they receive an email to choose their password (and can be sent it again)
+ * - Change the role of an account, deactivate it or reactivate it (not their own account)
+ * - Reset the two-factor authentication of a user who lost their phone and recovery codes
+ * - Revoke a user's private calendar feed link
+ *
+ * @component
+ */
+function UsersManager() {
+    const me = useAdminUser();
+    const [rows, setRows] = useState<DashboardUser[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [email, setEmail] = useState("");
+    const [role, setRole] = useState<Role>("EDITOR");
+    const [invited, setInvited] = useState<{ email: string; emailSent: boolean } | null>(null);
+
+    /**
+     * @brief Loads the accounts.
+     * @async
+     */
+    async function load() {
+        setLoading(true);
+        try {
+            const res = await fetch("/api/admin/users", { credentials: "include" });
+            setRows(res.ok ? await res.json() : []);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    useEffect(() => { load(); }, []);
+
+    /**
+     * @brief Invites a user, who receives an email to choose their password.
+     * @param {React.FormEvent} e
+     * @async
+     */
+    async function invite(e: React.FormEvent) {
+        e.preventDefault();
+        setBusyId("invite");
+        try {
+            const res = await fetch("/api/admin/users", {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ email, role }),
+            });
+            const j = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                alert(res.status === 409 ? "Un compte existe déjà pour cet e-mail." : j.error || "Échec de l'invitation");
+                return;
+            }
+            setInvited({ email: j.user.email, emailSent: j.emailSent });
+            setEmail("");
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Sends the invitation email again, with a new link.
+     * @param {DashboardUser} u
+     * @async
+     */
+    async function resendInvite(u: DashboardUser) {
+        setBusyId(u.id);
+        try {
+            const res = await fetch(`/api/admin/users/${u.id}/invite`, { method: "POST", credentials: "include" });
+            if (res.ok) {
+                setInvited({ email: u.email, emailSent: true });
+            } else {
+                const j = await res.json().catch(() => ({}));
+                alert(res.status === 502 ? "L'e-mail d'invitation n'a pas pu être envoyé." : j.error || "Échec de l'envoi");
+            }
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Switches off the two-factor authentication of an account, which enrols again.
+     * @param {DashboardUser} u
+     * @async
+     */
+    async function resetTwoFactor(u: DashboardUser) {
+        if (!confirm(`Réinitialiser la double authentification de ${u.email} ? Elle devra être configurée à nouveau.`)) return;
+        setBusyId(u.id);
+        try {
+            const res = await fetch(`/api/admin/users/${u.id}/2fa`, { method: "DELETE", credentials: "include" });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(j.error || "Échec de la réinitialisation");
+            }
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Revokes the private calendar feed link of an account, after confirmation.
+     * @param {DashboardUser} u
+     * @async
+     */
+    async function revokeFeed(u: DashboardUser) {
+        if (!confirm(`Révoquer le lien du flux iCal de ${u.email} ? Ses agendas abonnés ne recevront plus les fermetures.`)) return;
+        setBusyId(u.id);
+        try {
+            const res = await fetch(`/api/admin/users/${u.id}/feed`, { method: "DELETE", credentials: "include" });
+            if (!res.ok && res.status !== 404) alert("Échec de la révocation");
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Changes the role of an account, or deactivates/reactivates it.
+     * @param {DashboardUser} u
+     * @param {Partial<Pick<DashboardUser, "role" | "active">>} patch
+     * @async
+     */
+    async function update(u: DashboardUser, patch: Partial<Pick<DashboardUser, "role" | "active">>) {
+        if (patch.active === false && !confirm(`Désactiver le compte ${u.email} ? Il ne pourra plus se connecter.`)) return;
+        setBusyId(u.id);
+        try {
+            const res = await fetch(`/api/admin/users/${u.id}`, {
+                method: "PATCH",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(patch),
+            });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(res.status === 409 && /last active owner/.test(j.error ?? "")
+                    ? "Il doit rester au moins un propriétaire actif."
+                    : j.error || "Échec de la mise à jour");
+            }
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">Utilisateurs</h2>
+
+            {/* Invite */}
+            <form onSubmit={invite} className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4">
+                <div className="font-semibold mb-2">Inviter un utilisateur</div>
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <input
+                        type="email"
+                        required
+                        placeholder="adresse@exemple.be"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        className="grow min-w-[14rem] px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
+                    />
+                    <select value={role} onChange={(e) => setRole(e.target.value as Role)}
+                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
+                        {(Object.keys(ROLE_LABEL) as Role[]).map(r => (
+                            <option key={r} value={r}>{ROLE_LABEL[r]}</option>
+                        ))}
+                    </select>
+                    <button type="submit" disabled={busyId === "invite"} className="px-3 py-1 rounded bg-[#4C0C27] text-white">
+                        Inviter
+                    </button>
+                </div>
+                <p className="text-xs text-[#4C0C27]/80 mt-2">
+                    Propriétaire : tout le tableau de bord, y compris les utilisateurs. Éditeur : contenu du site
+                    (carrousel, annonces, horaires, galerie, carte). Lecteur : analytics uniquement.
+                </p>
+                {invited && (
+                    <div className="mt-3 rounded border border-[#FFB96B] bg-[#FFB96B]/20 p-3 text-sm">
+                        {invited.emailSent ? (
+                            <>Invitation envoyée à <b>{invited.email}</b> : le lien pour choisir un mot de passe est valable 7 jours.</>
+                        ) : (
+                            <>Le compte <b>{invited.email}</b> a été créé, mais l'e-mail d'invitation n'a pas pu être envoyé. Réessayez avec « Renvoyer l'invitation ».</>
+                        )}
+                        <button type="button" onClick={() => setInvited(null)} className="block text-xs underline mt-1">Masquer</button>
+                    </div>
+                )}
+            </form>
+
+            {/* Accounts */}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/70">
+                {loading ? (
+                    <div className="p-4 text-[#4C0C27]">Chargement…</div>
+                ) : (
+                    <ul className="divide-y divide-[#4C0C27]/10">
+                        {rows.map(u => {
+                            const self = u.id === me.id;
+                            return (
+                                <li key={u.id} className={`px-3 py-2 flex flex-wrap items-center gap-3 ${u.active ? "" : "opacity-50"}`}>
+                                    <div className="grow min-w-[12rem]">
+                                        <div className="font-medium">{u.email}{self && <span className="ml-2 text-xs text-[#4C0C27]">(vous)</span>}</div>
+                                        <div className="text-xs text-[#4C0C27]/80">
+                                            {u.lastLoginAt
+                                                ? `Dernière connexion : ${dayjs(u.lastLoginAt).format("DD/MM/YYYY HH:mm")}`
+                                                : "Invitation en attente"}
+                                            {u.totpEnabledAt ? " · double authentification" : u.role === "OWNER" ? " · double authentification à configurer" : ""}
+                                            {!u.active && " · désactivé"}
+                                        </div>
+                                    </div>
+                                    <select
+                                        value={u.role}
+                                        disabled={self || busyId === u.id}
+                                        onChange={(e) => update(u, { role: e.target.value as Role })}
+                                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white text-sm"
+                                    >
+                                        {(Object.keys(ROLE_LABEL) as Role[]).map(r => (
+                                            <option key={r} value={r}>{ROLE_LABEL[r]}</option>
+                                        ))}
+                                    </select>
+                                    {!u.lastLoginAt && u.active && (
+                                        <button
+                                            onClick={() => resendInvite(u)}
+                                            disabled={busyId === u.id}
+                                            className="px-2 py-1 rounded text-sm border border-[#4C0C27]/30 hover:bg-white"
+                                        >
+                                            Renvoyer l'invitation
+                                        </button>
+                                    )}
+                                    {!self && u.totpEnabledAt && (
+                                        <button
+                                            onClick={() => resetTwoFactor(u)}
+                                            disabled={busyId === u.id}
+                                            className="px-2 py-1 rounded text-sm border border-[#4C0C27]/30 hover:bg-white"
+                                        >
+                                            Réinitialiser la 2FA
+                                        </button>
+                                    )}
+                                    {u.feedToken && (
+                                        <button
+                                            onClick={() => revokeFeed(u)}
+                                            disabled={busyId === u.id}
+                                            className="px-2 py-1 rounded text-sm border border-[#4C0C27]/30 hover:bg-white"
+                                        >
+                                            Révoquer le flux iCal
+                                        </button>
+                                    )}
+                                    {!self && (
+                                        <button
+                                            onClick={() => update(u, { active: !u.active })}
+                                            disabled={busyId === u.id}
+                                            className={`px-2 py-1 rounded text-sm text-white ${u.active ? "bg-[#C81D25]" : "bg-[#4C0C27]"}`}
+                                        >
+                                            {u.active ? "Désactiver" : "Réactiver"}
+                                        </button>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+        </section>
+    );
+}
+
+/** ---------- Security (two-factor authentication) ---------- */
+
+type TwoFactorStatus = {
+    enabled: boolean;
+    /** The role requires 2FA: it cannot be disabled */
+    required: boolean;
+    recoveryCodesLeft: number;
+};
+
+/**
+ * @brief Turns a code typed by the user into the payload of the 2FA endpoints.
+ * @param {string} typed - 6-digit code from the app, or a recovery code
+ * @returns {{ code: string } | { recoveryCode: string }}
+ */
+function twoFactorProof(typed: string) {
+    return /^\s*\d{3}\s?\d{3}\s*$/.test(typed) ? { code: typed } : { recoveryCode: typed };
+}
+
+/**
+ * @brief Security screen of the signed-in user: two-factor authentication (TOTP).
+ *
+ * Allows the user to:
+ * - Enable 2FA: scan the QR code with an authenticator app, confirm with a first code, note the recovery codes
+ * - Replace the recovery codes
+ * - Disable 2FA, unless their role requires it
+ *
+ * @param {Object} props
+ * @param {() => void} props.onEnabled - Called once 2FA is on and the recovery codes have been noted.
+ * @component
+ */
+function TwoFactorManager({ onEnabled }: { onEnabled: () => void }) {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<{ secret: string; qrCode: string } | null>(null);
+    const [code, setCode] = useState("");
+    const [codes, setCodes] = useState<string[] | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    /**
+     * @brief Loads the 2FA status.
+     * @async
+     */
+    async function load() {
+        const res = await fetch("/api/auth/2fa", { credentials: "include" });
+        if (res.ok) setStatus(await res.json());
+    }
+
+    useEffect(() => { load(); }, []);
+
+    /**
+     * @brief POSTs to a 2FA endpoint.
+     * @param {string} path - Path below /api/auth/2fa
+     * @param {object} [body]
+     * @returns {Promise<{ res: Response; j: any }>}
+     * @async
+     */
+    async function post(path: string, body?: object) {
+        setBusy(true);
+        try {
+            const res = await fetch(`/api/auth/2fa/${path}`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify(body ?? {}),
+            });
+            return { res, j: await res.json().catch(() => ({})) };
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    /** @brief Starts enrolment and shows the QR code. */
+    async function startSetup() {
+        const { res, j } = await post("setup");
+        if (!res.ok) return alert(j.error || "Échec de l'activation");
+        setSetup({ secret: j.secret, qrCode: j.qrCode });
+        setCode("");
+    }
+
+    /** @brief Confirms enrolment with a first code and shows the recovery codes. */
+    async function enable(e: React.FormEvent) {
+        e.preventDefault();
+        const { res, j } = await post("enable", { code });
+        if (!res.ok) return alert("Code incorrect. Vérifiez l'heure de votre téléphone et réessayez.");
+        setSetup(null);
+        setCodes(j.recoveryCodes);
+        await load();
+    }
+
+    /** @brief Replaces the recovery codes, after checking a code. */
+    async function regenerate() {
+        const typed = prompt("Code de l'application (ou code de secours) pour confirmer :");
+        if (!typed) return;
+        const { res, j } = await post("recovery-codes", twoFactorProof(typed));
+        if (!res.ok) return alert(res.status === 401 ? "Code incorrect." : j.error || "Échec");
+        setCodes(j.recoveryCodes);
+        await load();
+    }
+
+    /** @brief Disables 2FA, after checking a code. */
+    async function disable() {
+        const typed = prompt("Code de l'application (ou code de secours) pour désactiver la double authentification :");
+        if (!typed) return;
+        const { res, j } = await post("disable", twoFactorProof(typed));
+        if (!res.ok) return alert(res.status === 401 ? "Code incorrect." : j.error || "Échec");
+        await load();
+    }
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">Sécurité</h2>
+
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 space-y-3">
+                <div className="font-semibold">Double authentification</div>
+
+                {!status ? (
+                    <div className="text-[#4C0C27]">Chargement…</div>
+                ) : codes ? (
+                    <div className="text-sm space-y-2">
+                        <p>
+                            Voici vos codes de secours. Chacun permet de se connecter une fois sans l'application,
+                            par exemple en cas de perte du téléphone. Conservez-les en lieu sûr : ils ne seront plus affichés.
+                        </p>
+                        <ul className="grid grid-cols-2 gap-1 font-mono select-all rounded border border-[#4C0C27]/20 bg-white p-3 max-w-sm">
+                            {codes.map(c => <li key={c}>{c}</li>)}
+                        </ul>
+                        <button
+                            onClick={() => { setCodes(null); onEnabled(); }}
+                            className="px-3 py-1 rounded bg-[#4C0C27] text-white"
+                        >
+                            J'ai conservé mes codes
+                        </button>
+                    </div>
+                ) : status.enabled ? (
+                    <div className="text-sm space-y-2">
+                        <p>
+                            Activée. Un code de votre application d'authentification est demandé à chaque connexion.
+                            Codes de secours restants : <b>{status.recoveryCodesLeft}</b>.
+                        </p>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={regenerate} disabled={busy} className="px-3 py-1 rounded border border-[#4C0C27]/30 hover:bg-white">
+                                Générer de nouveaux codes de secours
+                            </button>
+                            {!status.required && (
+                                <button onClick={disable} disabled={busy} className="px-3 py-1 rounded bg-[#C81D25] text-white">
+                                    Désactiver
+                                </button>
+                            )}
+                        </div>
+                        {status.required && <p className="text-xs text-[#4C0C27]/80">Obligatoire pour votre rôle.</p>}
+                    </div>
+                ) : setup ? (
+                    <form onSubmit={enable} className="text-sm space-y-2">
+                        <p>
+                            Scannez ce QR code avec une application d'authentification (Google Authenticator,
+                            Microsoft Authenticator, 1Password…), puis saisissez le code à 6 chiffres qu'elle affiche.
+                        </p>
+                        <img src={setup.qrCode} alt="QR code de la double authentification" className="w-48 h-48 rounded border border-[#4C0C27]/20 bg-white" />
+                        <p className="text-xs text-[#4C0C27]/80">
+                            Saisie manuelle de la clé : <code className="font-mono select-all">{setup.secret.replace(/(.{4})/g, "$1 ").trim()}</code>
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <input
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                required
+                                inputMode="numeric"
+                                autoComplete="one-time-code"
+                                placeholder="123456"
+                                className="w-32 px-2 py-1 rounded border border-[#4C0C27]/30 bg-white font-mono tracking-widest"
+                            />
+                            <button type="submit" disabled={busy} className="px-3 py-1 rounded bg-[#4C0C27] text-white">
+                                Activer
+                            </button>
+                            <button type="button" onClick={() => setSetup(null)} className="px-3 py-1 rounded border border-[#4C0C27]/30 hover:bg-white">
+                                Annuler
+                            </button>
+                        </div>
+                    </form>
+                ) : (
+                    <div className="text-sm space-y-2">
+                        <p>
+                            Désactivée. Protégez votre compte en demandant, en plus du mot de passe, un code généré
+                            par une application sur votre téléphone.
+                        </p>
+                        <button onClick={startSetup} disabled={busy} className="px-3 py-1 rounded bg-[#4C0C27] text-white">
+                            Activer la double authentification
+                        </button>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+}
+
+/** ---------- Sessions (devices signed in) ---------- */
+
+/** Active session of the signed-in user, as returned by /api/auth/sessions */
+type AdminSession = {
+    id: string;
+    browser: string | null;
+    os: string | null;
+    device: string | null;
+    ip: string | null;
+    location: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+    /** When the session ends if it is not used again */
+    expiresAt: string;
+    current: boolean;
+};
+
+const DEVICE_LABEL: Record<string, string> = {
+    desktop: "Ordinateur",
+    mobile: "Mobile",
+    tablet: "Tablette",
+};
+
+/**
+ * @brief Lists the devices the signed-in user is signed in on, and logs them out.
+ *
+ * Allows the user to:
+ * - See each session's browser, system, location and last activity
+ * - End one session (ending the current one goes back to the login page)
+ * - End every session but the current one
+ *
+ * @param {Object} props
+ * @param {boolean} props.active - The section is shown; the list is reloaded each time it is opened.
+ * @component
+ */
+function SessionsManager({ active }: { active: boolean }) {
+    const nav = useNavigate();
+    const [rows, setRows] = useState<AdminSession[] | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    /**
+     * @brief Loads the active sessions.
+     * @async
+     */
+    async function load() {
+        const res = await fetch("/api/auth/sessions", { credentials: "include" });
+        if (res.ok) setRows(await res.json());
+    }
+
+    useEffect(() => { if (active) load(); }, [active]);
+
+    /**
+     * @brief Ends one session, after confirmation.
+     * @param {AdminSession} s
+     * @async
+     */
+    async function revoke(s: AdminSession) {
+        if (!confirm(s.current
+            ? "Déconnecter cet appareil ? Vous devrez vous reconnecter."
+            : "Déconnecter cet appareil ?")) return;
+        setBusy(true);
+        try {
+            const res = await fetch(`/api/auth/sessions/${s.id}`, { method: "DELETE", credentials: "include" });
+            if (!res.ok && res.status !== 404) return alert("Échec de la déconnexion");
+            if (s.current) return nav("/admin/login", { replace: true });
+            await load();
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    /**
+     * @brief Ends every other session, after confirmation.
+     * @async
+     */
+    async function revokeOthers() {
+        if (!confirm("Déconnecter tous les autres appareils ? Votre lien de flux iCal sera aussi révoqué.")) return;
+        setBusy(true);
+        try {
+            const res = await fetch("/api/auth/sessions", { method: "DELETE", credentials: "include" });
+            if (!res.ok) return alert("Échec de la déconnexion");
+            await load();
+        } finally {
+            setBusy(false);
+        }
+    }
 
-            {/* Uploader */}
-            <div className="rounded-xl border-2 border-dashed border-[#4C0C27]/30 bg-white/70 p-6 text-center">
-                <div className="mb-3">Ajouter des images (elles seront non publiées par défaut)</div>
-                <input type="file" accept="image/*" multiple onChange={onPick} />
-                {staged && staged.length > 0 && (
-                    <div className="mt-3 text-sm">
-                        En file :
-                        <ul className="mt-1 list-disc list-inside">
-                            {Array.from(staged).map((f) => <li key={f.name}>{f.name}</li>)}
-                        </ul>
-                        <div className="mt-2">
-                            <button
-                                onClick={uploadNewMenus}
-                                disabled={working}
-                                className="px-3 py-1.5 rounded bg-[#4C0C27] text-white"
-                            >
-                                {working ? "Téléversement…" : "Téléverser"}
-                            </button>
-                            <button
-                                onClick={() => setStaged(null)}
-                                className="ml-2 px-3 py-1.5 rounded border border-[#4C0C27]/30"
-                            >
-                                Effacer la sélection
-                            </button>
-                        </div>
-                    </div>
+    const others = rows?.filter(s => !s.current).length ?? 0;
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">Appareils connectés</h2>
+
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 space-y-3">
+                <p className="text-sm">
+                    Chaque connexion au tableau de bord ouvre une session sur l'appareil utilisé. Si vous ne reconnaissez
+                    pas un appareil, déconnectez-le et changez votre mot de passe.
+                </p>
+
+                {!rows ? (
+                    <div className="text-[#4C0C27]">Chargement…</div>
+                ) : (
+                    <ul className="divide-y divide-[#4C0C27]/10">
+                        {rows.map((s) => (
+                            <li key={s.id} className="py-2 flex items-center justify-between gap-3">
+                                <div className="text-sm">
+                                    <div className="font-semibold">
+                                        {[s.browser, s.os].filter(Boolean).join(" · ") || "Appareil inconnu"}
+                                        {s.device && <span className="font-normal text-[#4C0C27]/80"> — {DEVICE_LABEL[s.device] ?? s.device}</span>}
+                                        {s.current && (
+                                            <span className="ml-2 px-2 py-0.5 rounded-full bg-[#FFB96B]/40 text-xs font-normal">Cet appareil</span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-[#4C0C27]/80">
+                                        {[s.location, s.ip].filter(Boolean).join(" — ")}
+                                        {(s.location || s.ip) && " · "}
+                                        Connexion : {dayjs(s.createdAt).format("DD/MM/YYYY HH:mm")}
+                                        {" · "}Dernière activité : {s.current ? "maintenant" : dayjs(s.lastSeenAt).format("DD/MM/YYYY HH:mm")}
+                                        {" · "}Expire le {dayjs(s.expiresAt).format("DD/MM/YYYY HH:mm")}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => revoke(s)}
+                                    disabled={busy}
+                                    className="shrink-0 px-3 py-1 rounded border border-[#4C0C27]/30 hover:bg-white text-sm"
+                                >
+                                    Déconnecter
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {others > 0 && (
+                    <button onClick={revokeOthers} disabled={busy} className="px-3 py-1 rounded bg-[#C81D25] text-white">
+                        Déconnecter tous les autres appareils
+                    </button>
                 )}
             </div>
         </section>
     );
 }
 
-
 /** ---------- Announcements (full CRUD, EU pickers + preview) ---------- */
 
+/** Translatable texts of an announcement (French is the base and required language). */
+type AnnouncementTexts = Pick<Announcement, "title" | "titleEn" | "titleNl" | "desc" | "descEn" | "descNl">;
+
+/**
+ * @brief Title/description inputs with one tab per language (FR / EN / NL).
+ *
+ * Empty translations fall back to French on the public site.
+ *
+ * @param {object} props
+ * @param {AnnouncementTexts} props.value Current texts
+ * @param {(patch: Partial<AnnouncementTexts>) => void} props.onChange Called with the edited field
+ * @component
+ */
+function AnnouncementTextFields({ value, onChange }: {
+    value: AnnouncementTexts;
+    onChange: (patch: Partial<AnnouncementTexts>) => void;
+}) {
+    const [tab, setTab] = useState<"fr" | "en" | "nl">("fr");
+    const titleKey = ({ fr: "title", en: "titleEn", nl: "titleNl" } as const)[tab];
+    const descKey = ({ fr: "desc", en: "descEn", nl: "descNl" } as const)[tab];
+    const filled = (l: "fr" | "en" | "nl") =>
+        l === "fr" ? !!value.title : !!(l === "en" ? value.titleEn || value.descEn : value.titleNl || value.descNl);
+
+    return (
+        <div className="md:col-span-4">
+            <div className="mb-1 inline-flex rounded-lg border border-[#4C0C27]/20 bg-white/60 p-0.5">
+                {(["fr", "en", "nl"] as const).map((l) => (
+                    <button
+                        key={l}
+                        type="button"
+                        onClick={() => setTab(l)}
+                        className={[
+                            "px-2 py-0.5 rounded-md text-xs uppercase transition",
+                            tab === l ? "bg-[#4C0C27] text-white" : "hover:bg-[#4C0C27]/10 text-[#0B0B0B]",
+                        ].join(" ")}
+                    >
+                        {l}{filled(l) ? "" : " ·"}
+                    </button>
+                ))}
+            </div>
+            <div className="grid md:grid-cols-2 gap-2">
+                <input
+                    type="text"
+                    value={value[titleKey] ?? ""}
+                    onChange={(e) => onChange({ [titleKey]: e.target.value })}
+                    placeholder={tab === "fr" ? "Titre" : `Titre (${tab.toUpperCase()}, facultatif)`}
+                    className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
+                />
+                <input
+                    type="text"
+                    value={value[descKey] ?? ""}
+                    onChange={(e) => onChange({ [descKey]: e.target.value })}
+                    placeholder={tab === "fr" ? "Description (facultatif)" : `Description (${tab.toUpperCase()}, facultatif)`}
+                    className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
+                />
+            </div>
+            {tab !== "fr" && (
+                <div className="mt-1 text-[11px] text-[#4C0C27]/70">Laissé vide : le texte français est affiché.</div>
+            )}
+        </div>
+    );
+}
+
 
 /**
  * @brief React component to manage announcements (CRUD interface with EU pickers & preview).
@@ -1080,8 +3463,8 @@ function AnnouncementsManager() {
 
     // --- New / Edit form state ---
     const [nDate, setNDate] = useState<string>("");
-    const [nTitle, setNTitle] = useState("");
-    const [nDesc, setNDesc] = useState("");
+    const emptyTexts: AnnouncementTexts = { title: "", titleEn: "", titleNl: "", desc: "", descEn: "", descNl: "" };
+    const [nTexts, setNTexts] = useState<AnnouncementTexts>(emptyTexts);
     const [nPub, setNPub] = useState(true);
     const [nMedia, setNMedia] = useState<MediaAsset[]>([]); // Images for new announcement
 
@@ -1116,7 +3499,7 @@ function AnnouncementsManager() {
      * After successful creation, resets form state and reloads the list.
      */
     async function create() {
-        if (!nDate || !nTitle) return;
+        if (!nDate || !nTexts.title) return;
         setBusyId("new");
         try {
             await fetch("/api/admin/announcements", {
@@ -1124,14 +3507,18 @@ function AnnouncementsManager() {
                 credentials: "include",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
-                    date: asDateTime(nDate), // "YYYY-MM-DD" -> ISO string
-                    title: nTitle,
-                    desc: nDesc || null,
+                    date: nDate, // calendar day "YYYY-MM-DD"
+                    title: nTexts.title,
+                    titleEn: nTexts.titleEn || null,
+                    titleNl: nTexts.titleNl || null,
+                    desc: nTexts.desc || null,
+                    descEn: nTexts.descEn || null,
+                    descNl: nTexts.descNl || null,
                     published: nPub,
                     media: nMedia.map((m, i) => ({ id: m.id, sortOrder: i })), // include images
                 }),
             });
-            setNDate(""); setNTitle(""); setNDesc(""); setNPub(true);
+            setNDate(""); setNTexts(emptyTexts); setNPub(true);
             setNMedia([]); // Reset media selection
             await load();
             setOpenId(null);
@@ -1156,9 +3543,13 @@ function AnnouncementsManager() {
                 credentials: "include",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
-                    date: asDateTime((a.date || "").slice(0, 10)), // ensure Y-M-D ISO format
+                    date: apiDay(a.date),
                     title: a.title,
+                    titleEn: a.titleEn || null,
+                    titleNl: a.titleNl || null,
                     desc: a.desc ?? null,
+                    descEn: a.descEn || null,
+                    descNl: a.descNl || null,
                     published: a.published,
                     media: (a.mediaAssets || []).map((m, i) => ({
                         id: m.id,
@@ -1216,22 +3607,12 @@ function AnnouncementsManager() {
                                     className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
                                 />
                                 <span className="text-[11px] text-[#4C0C27]">
-                                    {nDate ? fmtDate(parseYMD(nDate)) : ""}
+                                    {nDate ? fmtDate(parseAPIDate(nDate)) : ""}
                                 </span>
                             </div>
-                            <input
-                                type="text"
-                                value={nTitle}
-                                onChange={(e) => setNTitle(e.target.value)}
-                                placeholder="Titre"
-                                className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white md:col-span-2"
-                            />
-                            <input
-                                type="text"
-                                value={nDesc}
-                                onChange={(e) => setNDesc(e.target.value)}
-                                placeholder="Description (facultatif)"
-                                className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white md:col-span-2"
+                            <AnnouncementTextFields
+                                value={nTexts}
+                                onChange={(patch) => setNTexts({ ...nTexts, ...patch })}
                             />
                             <label className="inline-flex items-center gap-2 text-sm">
                                 <input type="checkbox" checked={nPub} onChange={(e) => setNPub(e.target.checked)} /> Publié
@@ -1244,7 +3625,7 @@ function AnnouncementsManager() {
                             <div className="flex gap-2 flex-wrap mb-2">
                                 {nMedia.map((m, i) => (
                                     <div key={m.id} className="relative w-20 h-20 rounded-lg overflow-hidden border border-[#4C0C27]/20">
-                                        <img src={m.url} alt={m.alt ?? ""} className="w-full h-full object-cover" />
+                                        <MediaThumb m={m} className="w-full h-full" />
                                         <button
                                             onClick={() => setNMedia(nMedia.filter((_, idx) => idx !== i))}
                                             className="absolute top-1 right-1 bg-white/90 text-[#C81D25] text-[10px] px-1 rounded"
@@ -1258,17 +3639,22 @@ function AnnouncementsManager() {
                             <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
                                 <input
                                     type="file"
-                                    accept="image/*"
+                                    accept={ACCEPT_IMAGES_VIDEOS}
                                     className="hidden"
                                     onChange={async (e) => {
-                                        const file = e.target.files?.[0]; if (!file) return;
-                                        const asset = await uploadImage(file);
-                                        setNMedia((prev) => [...prev, asset]);
-                                        e.currentTarget.value = "";
+                                        const input = e.currentTarget;
+                                        const file = input.files?.[0]; if (!file) return;
+                                        try {
+                                            const asset = await uploadMedia(file);
+                                            setNMedia((prev) => [...prev, asset]);
+                                        } catch (err: any) {
+                                            alert(err.message);
+                                        }
+                                        input.value = "";
                                     }}
                                 />
                                 <span className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
-                                    Téléverser une image
+                                    Téléverser une image ou une vidéo
                                 </span>
                             </label>
                         </div>
@@ -1329,21 +3715,15 @@ function AnnouncementsManager() {
                                                                 className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
                                                             />
                                                             <span className="text-[11px] text-[#4C0C27]">
-                                                                {fmtDate(parseYMD(editing?.date ?? a.date.slice(0, 10)))}
+                                                                {fmtDate(parseAPIDate(editing?.date ?? a.date.slice(0, 10)))}
                                                             </span>
                                                         </div>
-                                                        <input
-                                                            type="text"
-                                                            defaultValue={a.title}
-                                                            onChange={(e) => editing && (editing.title = e.target.value)}
-                                                            className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white md:col-span-2"
-                                                        />
-                                                        <input
-                                                            type="text"
-                                                            defaultValue={a.desc ?? ""}
-                                                            onChange={(e) => editing && (editing.desc = e.target.value)}
-                                                            className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white md:col-span-2"
-                                                        />
+                                                        {editing && (
+                                                            <AnnouncementTextFields
+                                                                value={editing}
+                                                                onChange={(patch) => setEditing({ ...editing, ...patch })}
+                                                            />
+                                                        )}
                                                         <label className="inline-flex items-center gap-2 text-sm">
                                                             <input
                                                                 type="checkbox"
@@ -1356,7 +3736,12 @@ function AnnouncementsManager() {
                                                 ) : (
                                                     <>
                                                         <div className="text-sm text-[#4C0C27]">{fmtDate(parseAPIDate(a.date))}</div>
-                                                        <div className="md:col-span-2 font-semibold">{a.title}</div>
+                                                        <div className="md:col-span-2 font-semibold">
+                                                            {a.title}
+                                                            <span className="ml-2 text-[10px] font-normal text-[#4C0C27]/70">
+                                                                FR{a.titleEn || a.descEn ? " · EN" : ""}{a.titleNl || a.descNl ? " · NL" : ""}
+                                                            </span>
+                                                        </div>
                                                         <div className="md:col-span-2 text-[#0B0B0B]">{a.desc}</div>
                                                         <div>{a.published ? "Oui" : "Non"}</div>
                                                     </>
@@ -1369,7 +3754,7 @@ function AnnouncementsManager() {
                                                 <div className="flex gap-2 flex-wrap mb-2">
                                                     {(isEditing ? editing?.mediaAssets : a.mediaAssets)?.map((m, i) => (
                                                         <div key={m.id} className="relative w-24 h-24 rounded-lg overflow-hidden border border-[#4C0C27]/20">
-                                                            <img src={m.url} alt={m.alt ?? ""} className="w-full h-full object-cover" />
+                                                            <MediaThumb m={m} className="w-full h-full" />
                                                             {isEditing && (
                                                                 <button
                                                                     onClick={() => {
@@ -1393,20 +3778,25 @@ function AnnouncementsManager() {
                                                     <label className="inline-flex items-center gap-2 text-xs cursor-pointer">
                                                         <input
                                                             type="file"
-                                                            accept="image/*"
+                                                            accept={ACCEPT_IMAGES_VIDEOS}
                                                             className="hidden"
                                                             onChange={async (e) => {
-                                                                const file = e.target.files?.[0]; if (!file || !editing) return;
-                                                                const asset = await uploadImage(file);
-                                                                setEditing({
-                                                                    ...editing,
-                                                                    mediaAssets: [...(editing.mediaAssets || []), asset],
-                                                                });
-                                                                e.currentTarget.value = "";
+                                                                const input = e.currentTarget;
+                                                                const file = input.files?.[0]; if (!file || !editing) return;
+                                                                try {
+                                                                    const asset = await uploadMedia(file);
+                                                                    setEditing({
+                                                                        ...editing,
+                                                                        mediaAssets: [...(editing.mediaAssets || []), asset],
+                                                                    });
+                                                                } catch (err: any) {
+                                                                    alert(err.message);
+                                                                }
+                                                                input.value = "";
                                                             }}
                                                         />
                                                         <span className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
-                                                            Ajouter une image
+                                                            Ajouter une image ou une vidéo
                                                         </span>
                                                     </label>
                                                 )}
@@ -1461,39 +3851,128 @@ function AnnouncementsManager() {
 }
 /** ---------- Closures (list + add + delete, EU pickers + preview) ---------- */
 
+/**
+ * @brief Weekly business hours editor.
+ *
+ * Each weekday has a lunch and a dinner interval (leave both times empty to close that service)
+ * and a "closed all day" switch. The public text is generated by the server in FR/EN/NL and
+ * shown as a preview once saved.
+ *
+ * Hours are versioned: the base schedule applies by default, and dated schedules (summer hours,
+ * a new timetable from a given day…) can be planned ahead. Upcoming changes are listed above the editor.
+ *
+ * @component
+ */
 function BusinessHoursManager() {
-    type Row = { weekday: number; text: string };
+    type Range = [string, string];
+    type Row = { weekday: number; closedAllDay: boolean; lunch: Range; dinner: Range; preview: string };
+    type ApiRow = {
+        weekday: number;
+        closedAllDay: boolean;
+        displayText?: string | null;
+        lunchStartMin: number | null;
+        lunchEndMin: number | null;
+        dinnerStartMin: number | null;
+        dinnerEndMin: number | null;
+        effectiveFrom: string | null;
+        effectiveTo: string | null;
+    };
+    /** A schedule version; `from` is "" for the base schedule */
+    type Version = { from: string; to: string | null };
+
+    const [all, setAll] = useState<ApiRow[]>([]);
+    const [selected, setSelected] = useState("");
     const [rows, setRows] = useState<Row[]>([]);
     const [loading, setLoading] = useState(true);
-    const [busyKey, setBusyKey] = useState<number | null>(null);
+    const [busyKey, setBusyKey] = useState<number | string | null>(null);
+    const [planFrom, setPlanFrom] = useState("");
+    const [planTo, setPlanTo] = useState("");
 
     const weekdays = ["Lun", "Mar", "Mer", "Jeu", "Ven", "Sam", "Dim"]; // Mon=0
+    const today = todayYMD();
+    const fmt = (ymd: string) => fmtDate(parseAPIDate(ymd), { day: "2-digit", month: "2-digit", year: "numeric" });
 
-    useEffect(() => {
-        let alive = true;
-        (async () => {
-            setLoading(true);
-            try {
-                // we can read from the public endpoint or admin — public is simpler and cookie-free
-                const r = await fetch("/api/hours");
-                if (!r.ok) throw new Error(`HTTP ${r.status}`);
-                const data: { weekday: number; text: string }[] = await r.json();
-
-                const map = new Map(data.map(d => [d.weekday, d.text]));
-                const normalized: Row[] = Array.from({ length: 7 }, (_, i) => ({
-                    weekday: i,
-                    text: map.get(i) ?? "",
-                }));
-                if (alive) setRows(normalized);
-            } catch (e) {
-                console.error("[hours GET] failed:", e);
-                if (alive) setRows(Array.from({ length: 7 }, (_, i) => ({ weekday: i, text: "" })));
-            } finally {
-                if (alive) setLoading(false);
-            }
-        })();
-        return () => { alive = false; };
-    }, []);
+    /**
+     * @brief Converts a stored row into editable "HH:MM" fields.
+     * @param {number} weekday
+     * @param {ApiRow | undefined} r
+     * @returns {Row}
+     */
+    function toRow(weekday: number, r?: ApiRow): Row {
+        const hhmm = (m: number | null | undefined) => (m == null ? "" : minToHHMM(m));
+        return {
+            weekday,
+            closedAllDay: r?.closedAllDay ?? false,
+            lunch: [hhmm(r?.lunchStartMin), hhmm(r?.lunchEndMin)],
+            dinner: [hhmm(r?.dinnerStartMin), hhmm(r?.dinnerEndMin)],
+            preview: r?.displayText ?? "",
+        };
+    }
+
+    /** Schedule versions: base first, then dated ones by start day */
+    const versions = useMemo<Version[]>(() => {
+        const map = new Map<string, Version>([["", { from: "", to: null }]]);
+        for (const r of all) {
+            const from = r.effectiveFrom?.slice(0, 10) ?? "";
+            if (!map.has(from)) map.set(from, { from, to: r.effectiveTo?.slice(0, 10) ?? null });
+        }
+        return Array.from(map.values()).sort((a, b) => a.from.localeCompare(b.from));
+    }, [all]);
+
+    const upcoming = versions.filter(v => v.from > today);
+
+    /**
+     * @brief Shows a schedule version in the editor.
+     * @param {string} from - Start day of the version ("" = base)
+     * @param {ApiRow[]} [source] - Rows to read from (defaults to the loaded ones)
+     */
+    function selectVersion(from: string, source: ApiRow[] = all) {
+        const own = source.filter(r => (r.effectiveFrom?.slice(0, 10) ?? "") === from);
+        const map = new Map(own.map(d => [d.weekday, d]));
+        setSelected(from);
+        setRows(Array.from({ length: 7 }, (_, i) => toRow(i, map.get(i))));
+    }
+
+    /**
+     * @brief Loads every schedule version and shows one of them.
+     * @param {string} [show] - Version to select after loading (defaults to the current one)
+     * @async
+     */
+    async function load(show: string = selected) {
+        setLoading(true);
+        try {
+            const r = await fetch("/api/admin/hours", { credentials: "include" });
+            if (!r.ok) throw new Error(`HTTP ${r.status}`);
+            const data: ApiRow[] = await r.json();
+            setAll(data);
+            selectVersion(show, data);
+        } catch (e) {
+            console.error("[hours GET] failed:", e);
+            selectVersion("", []);
+        } finally {
+            setLoading(false);
+        }
+    }
+
+    useEffect(() => { load(""); }, []);
+
+    /**
+     * @brief Applies a partial change to one weekday.
+     * @param {number} weekday
+     * @param {Partial<Row>} patch
+     */
+    function update(weekday: number, patch: Partial<Row>) {
+        setRows(prev => prev.map(x => x.weekday === weekday ? { ...x, ...patch } : x));
+    }
+
+    /**
+     * @brief Day payload sent to the API (a service with an empty time is closed).
+     * @param {Row} r
+     */
+    function dayPayload(r: Row) {
+        const range = (x: Range) => (x[0] && x[1] ? x : null);
+        return { weekday: r.weekday, closedAllDay: r.closedAllDay, lunch: range(r.lunch), dinner: range(r.dinner) };
+    }
 
     async function saveRow(r: Row) {
         setBusyKey(r.weekday);
@@ -1502,12 +3981,15 @@ function BusinessHoursManager() {
                 method: "PUT",
                 credentials: "include",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify({ text: r.text }),
+                body: JSON.stringify({ ...dayPayload(r), effectiveFrom: selected || null }),
             });
+            const j = await res.json().catch(() => ({}));
             if (!res.ok) {
-                const j = await res.json().catch(() => ({}));
-                alert(j.error || "Échec de l'enregistrement");
+                alert(j.issues?.[0]?.message || j.error || "Échec de l'enregistrement");
+                return;
             }
+            update(r.weekday, toRow(r.weekday, j));
+            setAll(prev => [...prev.filter(x => !(x.weekday === j.weekday && x.effectiveFrom === j.effectiveFrom)), j]);
         } catch (e) {
             console.error("[admin/hours PUT] failed:", e);
             alert("Erreur réseau");
@@ -1516,10 +3998,139 @@ function BusinessHoursManager() {
         }
     }
 
+    /**
+     * @brief Plans a dated schedule, starting from the hours shown in the editor.
+     * @async
+     */
+    async function planSchedule() {
+        if (!planFrom) return;
+        setBusyKey("plan");
+        try {
+            const res = await fetch("/api/admin/hours/schedules", {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ effectiveFrom: planFrom, effectiveTo: planTo || null, days: rows.map(dayPayload) }),
+            });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(j.issues?.[0]?.message || j.error || "Échec de la planification");
+                return;
+            }
+            setPlanFrom(""); setPlanTo("");
+            await load(planFrom);
+        } finally {
+            setBusyKey(null);
+        }
+    }
+
+    /**
+     * @brief Deletes a dated schedule.
+     * @param {Version} v
+     * @async
+     */
+    async function removeVersion(v: Version) {
+        if (!confirm(`Supprimer les horaires à partir du ${fmt(v.from)} ?`)) return;
+        setBusyKey(v.from);
+        try {
+            await fetch(`/api/admin/hours/schedules/${v.from}`, { method: "DELETE", credentials: "include" });
+            await load(selected === v.from ? "" : selected);
+        } finally {
+            setBusyKey(null);
+        }
+    }
+
+    /**
+     * @brief Human label of a schedule version.
+     * @param {Version} v
+     * @returns {string}
+     */
+    function versionLabel(v: Version): string {
+        if (!v.from) return "Horaires de base";
+        return v.to ? `Du ${fmt(v.from)} au ${fmt(v.to)}` : `À partir du ${fmt(v.from)}`;
+    }
+
+    /**
+     * @brief Renders the start/end time inputs of one service.
+     * @param {Row} row
+     * @param {"lunch" | "dinner"} service
+     */
+    function rangeInputs(row: Row, service: "lunch" | "dinner") {
+        const value = row[service];
+        const set = (i: 0 | 1, v: string) => {
+            const next: Range = [...value];
+            next[i] = v;
+            update(row.weekday, { [service]: next });
+        };
+        return (
+            <div className="flex items-center gap-1">
+                <input type="time" step={900} value={value[0]} disabled={row.closedAllDay}
+                    onChange={(e) => set(0, e.target.value)} className="px-1 py-1 border rounded disabled:opacity-40" />
+                –
+                <input type="time" step={900} value={value[1]} disabled={row.closedAllDay}
+                    onChange={(e) => set(1, e.target.value)} className="px-1 py-1 border rounded disabled:opacity-40" />
+            </div>
+        );
+    }
+
+    const current = versions.find(v => v.from === selected) ?? versions[0];
+
     return (
         <section className="mt-8">
-            <h2 className="font-legacy text-2xl mb-3">Horaires (texte libre)</h2>
-            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2">
+            <h2 className="font-legacy text-2xl mb-3">Horaires</h2>
+
+            {/* Upcoming changes */}
+            {upcoming.length > 0 && (
+                <div className="rounded-xl border border-[#FFB96B] bg-[#FFB96B]/15 p-3 mb-3 text-sm">
+                    <div className="font-semibold mb-1">Changements à venir</div>
+                    <ul className="space-y-1">
+                        {upcoming.map(v => (
+                            <li key={v.from} className="flex flex-wrap items-center gap-2">
+                                <span>{versionLabel(v)}</span>
+                                <button onClick={() => selectVersion(v.from)} className="px-2 py-0.5 rounded border border-[#4C0C27]/30">
+                                    Modifier
+                                </button>
+                                <button
+                                    onClick={() => removeVersion(v)}
+                                    disabled={busyKey === v.from}
+                                    className="px-2 py-0.5 rounded bg-[#C81D25] text-white"
+                                >
+                                    Supprimer
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {/* Version picker */}
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+                <label className="inline-flex items-center gap-2">
+                    Horaires affichés
+                    <select value={selected} onChange={(e) => selectVersion(e.target.value)}
+                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
+                        {versions.map(v => (
+                            <option key={v.from} value={v.from}>
+                                {versionLabel(v)}{v.from && v.to && v.to < today ? " (terminé)" : ""}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                {current.from && current.from <= today && (!current.to || current.to >= today) && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-green-600 text-white">En vigueur</span>
+                )}
+                {current.from && (
+                    <button
+                        onClick={() => removeVersion(current)}
+                        disabled={busyKey === current.from}
+                        className="px-2 py-1 rounded bg-[#C81D25] text-white"
+                    >
+                        Supprimer ces horaires
+                    </button>
+                )}
+            </div>
+
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-2 overflow-x-auto">
                 {loading ? (
                     <div className="p-4 text-[#4C0C27]">Chargement…</div>
                 ) : (
@@ -1527,6 +4138,9 @@ function BusinessHoursManager() {
                         <thead>
                             <tr className="text-left text-[#4C0C27]">
                                 <th className="p-2">Jour</th>
+                                <th className="p-2">Fermé</th>
+                                <th className="p-2">Midi</th>
+                                <th className="p-2">Soir</th>
                                 <th className="p-2">Texte affiché publiquement</th>
                                 <th className="p-2 w-32">Actions</th>
                             </tr>
@@ -1537,18 +4151,14 @@ function BusinessHoursManager() {
                                     <td className="p-2 font-medium">{weekdays[r.weekday]}</td>
                                     <td className="p-2">
                                         <input
-                                            type="text"
-                                            value={r.text}
-                                            onChange={(e) => {
-                                                const v = e.target.value;
-                                                setRows(prev =>
-                                                    prev.map(x => x.weekday === r.weekday ? { ...x, text: v } : x)
-                                                );
-                                            }}
-                                            placeholder="Ex: 12:00-21:30 (non-stop)"
-                                            className="w-full px-2 py-1 border rounded"
+                                            type="checkbox"
+                                            checked={r.closedAllDay}
+                                            onChange={(e) => update(r.weekday, { closedAllDay: e.target.checked })}
                                         />
                                     </td>
+                                    <td className="p-2">{rangeInputs(r, "lunch")}</td>
+                                    <td className="p-2">{rangeInputs(r, "dinner")}</td>
+                                    <td className="p-2 text-[#4C0C27]/80">{r.preview || "Fermé"}</td>
                                     <td className="p-2">
                                         <button
                                             onClick={() => saveRow(r)}
@@ -1565,8 +4175,37 @@ function BusinessHoursManager() {
                 )}
             </div>
             <p className="mt-2 text-xs text-[#4C0C27]">
-                Laissez vide pour « fermé ». Entrez n’importe quel texte – il sera affiché tel quel.
+                Laissez les heures d’un service vides pour le fermer. Le midi doit se terminer avant le début du soir.
+                Le texte public est généré automatiquement en français, anglais et néerlandais.
             </p>
+
+            {/* Plan a dated schedule */}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-3 mt-4 text-sm">
+                <div className="font-semibold mb-2">Planifier un changement d’horaires</div>
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="inline-flex items-center gap-2">
+                        À partir du
+                        <input type="date" lang={EU_LANG} min={today} value={planFrom} onChange={(e) => setPlanFrom(e.target.value)}
+                            className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" />
+                    </label>
+                    <label className="inline-flex items-center gap-2">
+                        jusqu’au (facultatif)
+                        <input type="date" lang={EU_LANG} min={planFrom || today} value={planTo} onChange={(e) => setPlanTo(e.target.value)}
+                            className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" />
+                    </label>
+                    <button
+                        onClick={planSchedule}
+                        disabled={!planFrom || busyKey === "plan"}
+                        className="px-3 py-1 rounded bg-[#4C0C27] text-white disabled:opacity-50"
+                    >
+                        Planifier
+                    </button>
+                </div>
+                <p className="mt-2 text-xs text-[#4C0C27]">
+                    Les nouveaux horaires reprennent ceux affichés ci-dessus ; modifiez-les ensuite jour par jour.
+                    Sans date de fin, ils remplacent définitivement les horaires actuels.
+                </p>
+            </div>
         </section>
     );
 }
@@ -1575,131 +4214,371 @@ function BusinessHoursManager() {
  * @brief Administrative Closures Manager component.
  *
  * Allows administrators to:
- *   - View the list of exceptional closures (single dates)
- *   - Add a new closure (for a specified date and slot, with optional note)
+ *   - View the list of exceptional closures: single dates and multi-day periods (holidays…)
+ *   - Add a new closure (for a date or a date range, a slot, with optional note)
+ *   - Edit a closure in place (a period is edited as one item)
  *   - Delete existing closures
  *
  * State management:
- *   - rows: Array of current Closure objects displayed in the table
+ *   - rows: Single-day closures and periods, merged into one list sorted by start day
  *   - loading: Boolean indicating if closures are loading from the backend
- *   - cDate: Date input for new closure (YYYY-MM-DD)
+ *   - cDate / cEnd: First and (optional) last day of the new closure (YYYY-MM-DD)
  *   - cSlot: Slot input for new closure ("ALL", "LUNCH", or "DINNER")
  *   - cNote: Optional note for new closure
+ *   - editing: Draft of the item being edited, or null
  *   - busyId: ID of the closure currently being saved/deleted, or "new" when adding
  *
  * API endpoints:
- *   - GET /api/admin/closures         - List all closures
- *   - POST /api/admin/closures        - Create new closure
- *   - DELETE /api/admin/closures/:id  - Remove closure by id
+ *   - GET/POST/PATCH/DELETE /api/admin/closures         - Single-day closures
+ *   - GET/POST/PATCH/DELETE /api/admin/closure-periods  - Multi-day closures
+ *   - GET/POST/DELETE /api/admin/closures/feed           - Private iCalendar feed key of the user (with notes)
+ *   - POST /api/admin/closures/import-holidays?year=     - Belgian public holidays (preview, then import)
  *
  * @returns {JSX.Element} The closures manager UI.
  */
 function ClosuresManager() {
-    const [rows, setRows] = useState<Closure[]>([]);
+    /** A list item: a single day (start === end) or a period */
+    type Item = { kind: "day" | "period"; id: string; start: string; end: string; slot: Slot; note: string };
+
+    const [rows, setRows] = useState<Item[]>([]);
     const [loading, setLoading] = useState(true);
 
-    const [cDate, setCDate] = useState("");
-    const [cSlot, setCSlot] = useState<Slot>("ALL");
-    const [cNote, setCNote] = useState("");
-    const [busyId, setBusyId] = useState<string | "new" | null>(null);
+    const [cDate, setCDate] = useState("");
+    const [cEnd, setCEnd] = useState("");
+    const [cSlot, setCSlot] = useState<Slot>("ALL");
+    const [cNote, setCNote] = useState("");
+    const [editing, setEditing] = useState<Item | null>(null);
+    const [busyId, setBusyId] = useState<string | "new" | null>(null);
+    /** Private calendar feed panel: null when hidden; the URL is only known right after creating it */
+    const [feed, setFeed] = useState<{ active: boolean; createdAt: string | null; url?: string } | null>(null);
+    const [hYear, setHYear] = useState(dayjs().year());
+    const [holidays, setHolidays] = useState<Array<{ date: string; name: string; exists: boolean }> | null>(null);
+    const [hSelected, setHSelected] = useState<string[]>([]);
+
+    const slotLabel = (s: Slot) => s === "ALL" ? "Toute la journée" : s === "LUNCH" ? "Midi" : "Soir";
+
+    /**
+     * @brief Loads single-day closures and periods from the backend and updates the UI state.
+     * @async
+     */
+    async function load() {
+        setLoading(true);
+        try {
+            const [daysRes, periodsRes] = await Promise.all([
+                fetch("/api/admin/closures", { credentials: "include" }),
+                fetch("/api/admin/closure-periods", { credentials: "include" }),
+            ]);
+            const days: Closure[] = daysRes.ok ? await daysRes.json() : [];
+            const periods: ClosurePeriod[] = periodsRes.ok ? await periodsRes.json() : [];
+            const ymd = apiDay;
+            setRows([
+                ...days.map(c => ({ kind: "day" as const, id: c.id, start: ymd(c.date), end: ymd(c.date), slot: c.slot, note: c.note ?? "" })),
+                ...periods.map(p => ({ kind: "period" as const, id: p.id, start: ymd(p.startDate), end: ymd(p.endDate), slot: p.slot, note: p.note ?? "" })),
+            ].sort((a, b) => a.start.localeCompare(b.start)));
+        } finally {
+            setLoading(false);
+        }
+    }
+    useEffect(() => { load(); }, []);
+
+    /**
+     * @brief Handles creation of a new closure via API: a period when an end day after the start is given.
+     * Resets form on success, reloads list. Shows alert on error.
+     * @async
+     */
+    async function addClosure() {
+        if (!cDate) return;
+        setBusyId("new");
+        try {
+            const isPeriod = !!cEnd && cEnd !== cDate;
+            const res = isPeriod
+                ? await fetch("/api/admin/closure-periods", {
+                    method: "POST",
+                    credentials: "include",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ startDate: cDate, endDate: cEnd, slot: cSlot, note: cNote || undefined }),
+                })
+                : await fetch("/api/admin/closures", {
+                    method: "POST",
+                    credentials: "include",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ date: cDate, slot: cSlot, note: cNote || undefined }),
+                });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(j.error || "Échec de l'ajout de la fermeture");
+                return;
+            }
+            setCDate(""); setCEnd(""); setCSlot("ALL"); setCNote("");
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Saves the item being edited.
+     * @async
+     */
+    async function saveEdit() {
+        if (!editing) return;
+        setBusyId(editing.id);
+        try {
+            const res = editing.kind === "period"
+                ? await fetch(`/api/admin/closure-periods/${editing.id}`, {
+                    method: "PATCH",
+                    credentials: "include",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ startDate: editing.start, endDate: editing.end, slot: editing.slot, note: editing.note || null }),
+                })
+                : await fetch(`/api/admin/closures/${editing.id}`, {
+                    method: "PATCH",
+                    credentials: "include",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ date: editing.start, slot: editing.slot, note: editing.note || null }),
+                });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(j.error || "Échec de l'enregistrement");
+                return;
+            }
+            setEditing(null);
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Deletes a closure (single day or whole period) after user confirmation.
+     * Reloads list after success.
+     * @param {Item} item - Closure to delete
+     * @async
+     */
+    async function del(item: Item) {
+        if (!confirm(item.kind === "period" ? "Supprimer toute cette période de fermeture ?" : "Supprimer cette fermeture ?")) return;
+        setBusyId(item.id);
+        try {
+            const base = item.kind === "period" ? "/api/admin/closure-periods" : "/api/admin/closures";
+            await fetch(`${base}/${item.id}`, { method: "DELETE", credentials: "include" });
+            await load();
+        } finally {
+            setBusyId(null);
+        }
+    }
+
+    /**
+     * @brief Shows the private calendar feed panel (closures with their notes), with whether a link exists.
+     * @async
+     */
+    async function showFeed() {
+        const res = await fetch("/api/admin/closures/feed", { credentials: "include" });
+        if (!res.ok) {
+            alert("Impossible d'obtenir le lien du calendrier");
+            return;
+        }
+        setFeed(await res.json());
+    }
 
     /**
-     * @brief Loads all closures from the backend and updates the UI state.
+     * @brief Creates a new calendar link, shown once for copying; the previous one stops working.
      * @async
      */
-    async function load() {
-        setLoading(true);
-        try {
-            const res = await fetch("/api/admin/closures", { credentials: "include" });
-            const data: Closure[] = await res.json();
-            setRows(data.sort((a, b) => +new Date(a.date) - +new Date(b.date)));
-        } finally {
-            setLoading(false);
+    async function createFeed() {
+        if (feed?.active && !confirm("Générer un nouveau lien ? L'ancien cessera de fonctionner.")) return;
+        const res = await fetch("/api/admin/closures/feed", { method: "POST", credentials: "include" });
+        if (!res.ok) {
+            alert("Impossible de créer le lien du calendrier");
+            return;
         }
+        const { url, createdAt } = await res.json();
+        setFeed({ active: true, createdAt, url: `${window.location.origin}${url}` });
     }
-    useEffect(() => { load(); }, []);
 
     /**
-     * @brief Handles creation of a new closure via API.
-     * Resets form on success, reloads list. Shows alert on error.
+     * @brief Revokes the calendar link, after confirmation.
      * @async
      */
-    async function addClosure() {
-        if (!cDate) return;
-        setBusyId("new");
+    async function revokeFeed() {
+        if (!confirm("Révoquer le lien ? Les agendas abonnés ne recevront plus les fermetures.")) return;
+        const res = await fetch("/api/admin/closures/feed", { method: "DELETE", credentials: "include" });
+        if (!res.ok) {
+            alert("Impossible de révoquer le lien");
+            return;
+        }
+        setFeed({ active: false, createdAt: null });
+    }
+
+    /**
+     * @brief Previews the Belgian public holidays of the chosen year; the new ones are preselected.
+     * @async
+     */
+    async function previewHolidays() {
+        setBusyId("holidays");
         try {
-            const body = { date: asDateTime(cDate), slot: cSlot, note: cNote || undefined };
-            const res = await fetch("/api/admin/closures", {
+            const res = await fetch(`/api/admin/closures/import-holidays?year=${hYear}&preview=true`, {
                 method: "POST",
                 credentials: "include",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(body),
+                body: JSON.stringify({}),
             });
+            const j = await res.json().catch(() => ({}));
             if (!res.ok) {
-                const j = await res.json().catch(() => ({}));
-                alert(j.error || "Échec de l'ajout de la fermeture");
+                alert(j.error || "Échec du chargement des jours fériés");
+                return;
             }
-            setCDate(""); setCSlot("ALL"); setCNote("");
-            await load();
+            setHolidays(j.holidays);
+            setHSelected(j.holidays.filter((h: { exists: boolean }) => !h.exists).map((h: { date: string }) => h.date));
         } finally {
             setBusyId(null);
         }
     }
 
     /**
-     * @brief Deletes a closure by id after user confirmation.
-     * Reloads list after success.
-     * @param {string} id - Closure id to delete
+     * @brief Creates a full-day closure for each selected holiday, then reloads the list.
      * @async
      */
-    async function del(id: string) {
-        if (!confirm("Supprimer cette fermeture ?")) return;
-        setBusyId(id);
+    async function importHolidays() {
+        setBusyId("holidays");
         try {
-            await fetch(`/api/admin/closures/${id}`, { method: "DELETE", credentials: "include" });
+            const res = await fetch(`/api/admin/closures/import-holidays?year=${hYear}`, {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ dates: hSelected }),
+            });
+            const j = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                alert(j.error || "Échec de l'import des jours fériés");
+                return;
+            }
+            setHolidays(null);
             await load();
         } finally {
             setBusyId(null);
         }
     }
 
+    const input = "px-2 py-1 rounded border border-[#4C0C27]/30 bg-white";
+
     return (
         <section>
-            <h2 className="font-legacy text-2xl mb-3">Fermetures exceptionelles</h2>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h2 className="font-legacy text-2xl">Fermetures exceptionelles</h2>
+                <button onClick={feed ? () => setFeed(null) : showFeed} className="px-3 py-1.5 rounded border border-[#4C0C27]/30 text-sm">
+                    {feed ? "Masquer le flux iCal" : "Flux iCal (avec notes)"}
+                </button>
+            </div>
+
+            {feed && (
+                <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4 text-sm space-y-2">
+                    <div>
+                        Abonnez votre agenda à votre lien personnel pour voir les fermetures avec leurs notes internes.
+                        Ne le partagez pas : toute personne qui le possède peut lire le calendrier.
+                    </div>
+                    {feed.url ? (
+                        <>
+                            <div className="flex gap-2">
+                                <input readOnly value={feed.url} onFocus={(e) => e.target.select()} className={`${input} grow font-mono text-xs`} />
+                                <button onClick={() => navigator.clipboard.writeText(feed.url!)} className="px-3 py-1.5 rounded bg-[#4C0C27] text-white">
+                                    Copier
+                                </button>
+                            </div>
+                            <div className="text-xs text-[#4C0C27]/80">Copiez-le maintenant : il ne sera plus affiché.</div>
+                        </>
+                    ) : feed.active && feed.createdAt ? (
+                        <div className="text-xs text-[#4C0C27]/80">
+                            Lien créé le {dayjs(feed.createdAt).format("DD/MM/YYYY HH:mm")}. Il n'est affiché qu'une fois :
+                            si vous l'avez perdu, générez-en un nouveau.
+                        </div>
+                    ) : null}
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={createFeed} className="px-3 py-1.5 rounded border border-[#4C0C27]/30 hover:bg-white">
+                            {feed.active ? "Générer un nouveau lien" : "Créer le lien"}
+                        </button>
+                        {feed.active && (
+                            <button onClick={revokeFeed} className="px-3 py-1.5 rounded bg-[#C81D25] text-white">
+                                Révoquer le lien
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
 
             {/* Add closure form */}
             <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4">
                 <div className="font-semibold mb-2">Ajouter une fermeture</div>
                 <div className="grid md:grid-cols-6 gap-2 items-center">
-                    <div className="flex items-center gap-2">
-                        {/* Date input */}
-                        <input
-                            type="date"
-                            lang={EU_LANG}
-                            value={cDate}
-                            onChange={(e) => setCDate(e.target.value)}
-                            className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white"
-                        />
+                    <div className="flex flex-col gap-1 md:col-span-2">
+                        {/* Date inputs: a single day, or a range when "au" is filled */}
+                        <div className="flex items-center gap-2">
+                            <input type="date" lang={EU_LANG} value={cDate} onChange={(e) => setCDate(e.target.value)} className={input} />
+                            <span className="text-sm">au</span>
+                            <input type="date" lang={EU_LANG} min={cDate || undefined} value={cEnd} onChange={(e) => setCEnd(e.target.value)} className={input} />
+                        </div>
                         <span className="text-[11px] text-[#4C0C27]">
-                            {cDate ? fmtDate(parseYMD(cDate)) : ""}
+                            {cDate ? fmtDate(parseAPIDate(cDate)) : ""}
+                            {cDate && cEnd && cEnd !== cDate ? ` → ${fmtDate(parseAPIDate(cEnd))}` : ""}
                         </span>
                     </div>
 
                     {/* Slot select */}
-                    <select value={cSlot} onChange={(e) => setCSlot(e.target.value as Slot)} className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
+                    <select value={cSlot} onChange={(e) => setCSlot(e.target.value as Slot)} className={input}>
                         <option value="ALL">Toute la journée</option>
                         <option value="LUNCH">Midi</option>
                         <option value="DINNER">Soir</option>
                     </select>
 
                     {/* Note input */}
-                    <input type="text" placeholder="Note (facultatif)" value={cNote} onChange={(e) => setCNote(e.target.value)} className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white md:col-span-3" />
+                    <input type="text" placeholder="Note (facultatif)" value={cNote} onChange={(e) => setCNote(e.target.value)} className={`${input} md:col-span-2`} />
 
                     {/* Add button */}
                     <button onClick={addClosure} disabled={busyId === "new"} className="px-3 py-1.5 rounded bg-[#4C0C27] text-white">
                         {busyId === "new" ? "Enregistrement…" : "Ajouter"}
                     </button>
                 </div>
+                <p className="mt-2 text-xs text-[#4C0C27]">
+                    Laissez la date de fin vide pour un seul jour. Une période (vacances…) est enregistrée en une seule fois.
+                </p>
+            </div>
+
+            {/* Belgian public holidays import */}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4">
+                <div className="flex flex-wrap items-center gap-2">
+                    <div className="font-semibold mr-2">Jours fériés belges</div>
+                    <input type="number" min={2000} max={2100} value={hYear}
+                        onChange={(e) => { setHYear(Number(e.target.value)); setHolidays(null); }}
+                        className={`${input} w-24`} />
+                    <button onClick={previewHolidays} disabled={busyId === "holidays"} className="px-3 py-1.5 rounded border border-[#4C0C27]/30 text-sm">
+                        Aperçu
+                    </button>
+                </div>
+
+                {holidays && (
+                    <div className="mt-3">
+                        <ul className="grid sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                            {holidays.map(h => (
+                                <li key={h.date}>
+                                    <label className={`inline-flex items-center gap-2 ${h.exists ? "opacity-50" : ""}`}>
+                                        <input
+                                            type="checkbox"
+                                            disabled={h.exists}
+                                            checked={hSelected.includes(h.date)}
+                                            onChange={(e) => setHSelected(e.target.checked ? [...hSelected, h.date] : hSelected.filter(d => d !== h.date))}
+                                        />
+                                        <span className="w-28">{fmtDate(parseAPIDate(h.date), { weekday: "short", day: "2-digit", month: "short" })}</span>
+                                        <span>{h.name}</span>
+                                        {h.exists && <span className="text-xs">(déjà fermé)</span>}
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                        <button onClick={importHolidays} disabled={busyId === "holidays" || hSelected.length === 0}
+                            className="mt-3 px-3 py-1.5 rounded bg-[#4C0C27] text-white disabled:opacity-50">
+                            {busyId === "holidays" ? "Import…" : `Fermer ces ${hSelected.length} jour(s) toute la journée`}
+                        </button>
+                    </div>
+                )}
             </div>
 
             {/* Table of closures */}
@@ -1715,17 +4594,59 @@ function ClosuresManager() {
                                 <th className="p-2">Date</th>
                                 <th className="p-2">Créneau</th>
                                 <th className="p-2">Note</th>
-                                <th className="p-2 w-32">Actions</th>
+                                <th className="p-2 w-48">Actions</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {rows.map((c) => (
+                            {rows.map((c) => editing?.id === c.id ? (
+                                <tr key={c.id} className="border-t border-[#4C0C27]/10 bg-[#F7EBD9]/40">
+                                    <td className="p-2">
+                                        <div className="flex items-center gap-1">
+                                            <input type="date" lang={EU_LANG} value={editing.start}
+                                                onChange={(e) => setEditing({ ...editing, start: e.target.value })} className={input} />
+                                            {editing.kind === "period" && (
+                                                <>
+                                                    →
+                                                    <input type="date" lang={EU_LANG} min={editing.start} value={editing.end}
+                                                        onChange={(e) => setEditing({ ...editing, end: e.target.value })} className={input} />
+                                                </>
+                                            )}
+                                        </div>
+                                    </td>
+                                    <td className="p-2">
+                                        <select value={editing.slot} onChange={(e) => setEditing({ ...editing, slot: e.target.value as Slot })} className={input}>
+                                            <option value="ALL">Toute la journée</option>
+                                            <option value="LUNCH">Midi</option>
+                                            <option value="DINNER">Soir</option>
+                                        </select>
+                                    </td>
+                                    <td className="p-2">
+                                        <input type="text" value={editing.note} onChange={(e) => setEditing({ ...editing, note: e.target.value })}
+                                            className={`${input} w-full`} />
+                                    </td>
+                                    <td className="p-2 space-x-2">
+                                        <button onClick={saveEdit} disabled={busyId === c.id} className="px-2 py-1 rounded bg-[#4C0C27] text-white">
+                                            Enregistrer
+                                        </button>
+                                        <button onClick={() => setEditing(null)} className="px-2 py-1 rounded border border-[#4C0C27]/30">
+                                            Annuler
+                                        </button>
+                                    </td>
+                                </tr>
+                            ) : (
                                 <tr key={c.id} className="border-t border-[#4C0C27]/10">
-                                    <td className="p-2">{fmtDate(parseAPIDate(c.date))}</td>
-                                    <td className="p-2">{c.slot === "ALL" ? "Toute la journée" : c.slot === "LUNCH" ? "Midi" : "Soir"}</td>
-                                    <td className="p-2">{c.note}</td>
                                     <td className="p-2">
-                                        <button onClick={() => del(c.id)} disabled={busyId === c.id} className="px-2 py-1 rounded bg-[#C81D25] text-white">
+                                        {c.kind === "period"
+                                            ? <>Du {fmtDate(parseAPIDate(c.start))} au {fmtDate(parseAPIDate(c.end))}</>
+                                            : fmtDate(parseAPIDate(c.start))}
+                                    </td>
+                                    <td className="p-2">{slotLabel(c.slot)}</td>
+                                    <td className="p-2">{c.note}</td>
+                                    <td className="p-2 space-x-2">
+                                        <button onClick={() => setEditing({ ...c })} className="px-2 py-1 rounded border border-[#4C0C27]/30">
+                                            Modifier
+                                        </button>
+                                        <button onClick={() => del(c)} disabled={busyId === c.id} className="px-2 py-1 rounded bg-[#C81D25] text-white">
                                             Supprimer
                                         </button>
                                     </td>
@@ -1739,127 +4660,223 @@ function ClosuresManager() {
     );
 }
 
+/** ---------- Recurring closures (RRULE) ---------- */
+
+type RecurringRule = {
+    id: string;
+    rrule: string;
+    slot: "ALL" | "LUNCH" | "DINNER";
+    note?: string | null;
+    startsOn: string;
+    endsOn?: string | null;
+    exdates: string[];
+};
+
+/** How the add form builds its RRULE */
+type RuleMode = "WEEKLY" | "MONTHLY" | "YEARLY" | "CUSTOM";
+
+/** RRULE day codes, Monday-first (Mon=0) */
+const RRULE_DAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+const WEEKDAY_NAMES = ["lundi", "mardi", "mercredi", "jeudi", "vendredi", "samedi", "dimanche"];
+const MONTH_NAMES = ["janvier", "février", "mars", "avril", "mai", "juin", "juillet", "août", "septembre", "octobre", "novembre", "décembre"];
+const ORDINALS: Array<[number, string]> = [[1, "1er"], [2, "2e"], [3, "3e"], [4, "4e"], [-1, "dernier"]];
+
+/**
+ * @brief Describes the common rule shapes in French, for the list of rules.
+ * @param {string} rrule - RRULE value ("FREQ=MONTHLY;BYDAY=1MO")
+ * @returns {string | null} A sentence, or null when the rule is not one of the shapes built by the form
+ */
+function describeRRule(rrule: string): string | null {
+    const parts = Object.fromEntries(rrule.split(";").map(p => p.split("=") as [string, string]));
+    const keys = Object.keys(parts).filter(k => k !== "FREQ" && k !== "INTERVAL").sort().join(",");
+    const interval = Number(parts.INTERVAL ?? 1);
+
+    if (parts.FREQ === "WEEKLY" && keys === "BYDAY" && RRULE_DAYS.includes(parts.BYDAY)) {
+        const day = WEEKDAY_NAMES[RRULE_DAYS.indexOf(parts.BYDAY)];
+        return interval === 1 ? `Chaque ${day}` : `Un ${day} sur ${interval}`;
+    }
+    const m = /^(-?\d)(MO|TU|WE|TH|FR|SA|SU)$/.exec(parts.BYDAY ?? "");
+    if (parts.FREQ === "MONTHLY" && keys === "BYDAY" && interval === 1 && m) {
+        const ordinal = ORDINALS.find(([n]) => n === Number(m[1]))?.[1];
+        if (ordinal) return `Le ${ordinal} ${WEEKDAY_NAMES[RRULE_DAYS.indexOf(m[2])]} du mois`;
+    }
+    if (parts.FREQ === "YEARLY" && keys === "BYMONTH,BYMONTHDAY" && interval === 1) {
+        const month = MONTH_NAMES[Number(parts.BYMONTH) - 1];
+        if (month) return `Chaque année le ${parts.BYMONTHDAY.split(",").join(", ")} ${month}`;
+    }
+    return null;
+}
+
 /**
  * @brief React component for managing recurring closure rules.
- * 
- * This component provides a UI for creating, listing, and deleting recurring closure 
- * rules (such as regular weekly day closures) for the admin dashboard.
- * 
- * The rules can specify weekday, day part (ALL/LUNCH/DINNER), optional note, optional
- * start/end date ranges, and an optional recurrence interval in weeks.
- * 
+ *
+ * Rules are RFC 5545 recurrences (RRULE) with skipped days (EXDATE). The add form builds the
+ * usual shapes — every N weeks on a weekday, the Nth/last weekday of the month, given days each
+ * year — or accepts a raw RRULE, and previews the next occurrences computed by the server.
+ *
  * @component
  * @returns {JSX.Element}
  *
  * @doxygen
  * @section STATE
- * - rows: Array of current recurring closure rules loaded from the backend.
- * - loading: Boolean indicating if rules are being (re)loaded.
- * - rWeekday: Selected weekday number for new rule (0=Monday, 6=Sunday).
- * - rSlot: Selected slot ("ALL", "LUNCH", "DINNER") for new rule.
- * - rNote: Note value for new rule.
- * - rStartsOn: Start date of recurrence (YYYY-MM-DD string) for new rule.
- * - rEndsOn: End date for recurrence (YYYY-MM-DD string) for new rule.
- * - rInterval: Recurrence interval in weeks for new rule.
- * - busy: Busy flag -- the id or "new" if a request is in flight.
+ * - rows: Recurring closure rules loaded from the backend.
+ * - form: Fields of the add form (mode, weekday, interval, ordinal, month, days, raw RRULE, slot, dates, note).
+ * - exdates: Days skipped by the new rule (YYYY-MM-DD).
+ * - preview: Next occurrences of the rule being typed, or the validation error.
+ * - exFor: Date typed in the "exclude a day" input of each listed rule.
+ * - busy: The id or "new" if a request is in flight.
  *
  * @section FUNC
- * - load: Fetch all recurring closure rules from API and update state.
- * - addRule: Add a new recurring closure rule using the current form state.
+ * - load: Fetch all recurring closure rules from the API.
+ * - addRule: Create a rule from the form.
+ * - setExdates: Replace the skipped days of a listed rule.
  * - delRule: Delete a rule by id after confirmation.
+ *
+ * API endpoints:
+ *   - GET/POST/PATCH/DELETE /api/admin/recurring-closures
+ *   - POST /api/admin/recurring-closures/preview
  */
 function RecurringClosuresManager() {
-    /**
-     * @brief Array of recurring closure rule objects.
-     * @type {Array<{id: string, weekday: number, slot: "ALL"|"LUNCH"|"DINNER", note?: string|null, startsOn?: string|null, endsOn?: string|null, interval?: number}>}
-     */
-    const [rows, setRows] = useState<Array<{
-        id: string; weekday: number; slot: "ALL" | "LUNCH" | "DINNER";
-        note?: string | null; startsOn?: string | null; endsOn?: string | null; interval?: number;
-    }>>([]);
-    /**
-     * @brief Loading flag for fetch actions.
-     * @type {boolean}
-     */
+    const [rows, setRows] = useState<RecurringRule[]>([]);
     const [loading, setLoading] = useState(true);
 
-    // --- Form state for new recurring rule ---
-    /** @brief Selected weekday number (0 = Monday). */
-    const [rWeekday, setRWeekday] = useState<number>(0); // Mon
-    /** @brief Selected slot ("ALL", "LUNCH", "DINNER"). */
-    const [rSlot, setRSlot] = useState<"ALL" | "LUNCH" | "DINNER">("ALL");
-    /** @brief Note (optional). */
-    const [rNote, setRNote] = useState("");
-    /** @brief StartsOn ISO date string (yyyy-mm-dd, optional). */
-    const [rStartsOn, setRStartsOn] = useState<string>(""); // yyyy-mm-dd
-    /** @brief EndsOn ISO date string (yyyy-mm-dd, optional). */
-    const [rEndsOn, setREndsOn] = useState<string>("");     // yyyy-mm-dd
-    /** @brief Recurrence interval in weeks. */
-    const [rInterval, setRInterval] = useState<number>(1);
-
-    /** @brief Busy state: either "new" (on create), or rule id (on delete), or null. */
+    const [form, setForm] = useState({
+        mode: "WEEKLY" as RuleMode,
+        weekday: 0,
+        interval: 1,
+        ordinal: 1,
+        month: 12,
+        dayFrom: 24,
+        dayTo: 26,
+        custom: "FREQ=WEEKLY;BYDAY=MO",
+        slot: "ALL" as RecurringRule["slot"],
+        startsOn: "",
+        endsOn: "",
+        note: "",
+    });
+    const [exdates, setExdatesForm] = useState<string[]>([]);
+    const [exInput, setExInput] = useState("");
+    const [preview, setPreview] = useState<{ occurrences: string[] } | { error: string } | null>(null);
+    const [exFor, setExFor] = useState<Record<string, string>>({});
     const [busy, setBusy] = useState<string | "new" | null>(null);
 
+    /** RRULE built from the form */
+    const rrule = useMemo(() => {
+        const day = RRULE_DAYS[form.weekday];
+        switch (form.mode) {
+            case "WEEKLY":
+                return `FREQ=WEEKLY${form.interval > 1 ? `;INTERVAL=${form.interval}` : ""};BYDAY=${day}`;
+            case "MONTHLY":
+                return `FREQ=MONTHLY;BYDAY=${form.ordinal}${day}`;
+            case "YEARLY": {
+                const days: number[] = [];
+                for (let d = form.dayFrom; d <= Math.max(form.dayFrom, form.dayTo); d++) days.push(d);
+                return `FREQ=YEARLY;BYMONTH=${form.month};BYMONTHDAY=${days.join(",")}`;
+            }
+            default:
+                return form.custom.trim();
+        }
+    }, [form]);
+
     /**
-     * @brief Loads (fetches) all recurring closure rules from the backend API.
-     * Updates the `rows` state with results.
-     * @doxygen
+     * @brief Loads all recurring closure rules.
      * @async
-     * @returns {Promise<void>}
      */
     async function load() {
         setLoading(true);
         try {
             const res = await fetch("/api/admin/recurring-closures", { credentials: "include" });
-            const data = await res.json();
-            setRows(data);
+            setRows(res.ok ? await res.json() : []);
         } finally { setLoading(false); }
     }
-    // On mount, load list.
     useEffect(() => { load(); }, []);
 
+    // Preview the next occurrences while the rule is edited
+    useEffect(() => {
+        let alive = true;
+        const timer = setTimeout(async () => {
+            try {
+                const res = await fetch("/api/admin/recurring-closures/preview", {
+                    method: "POST",
+                    credentials: "include",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({
+                        rrule,
+                        startsOn: form.startsOn || undefined,
+                        endsOn: form.endsOn || null,
+                        exdates,
+                        count: 8,
+                    }),
+                });
+                const j = await res.json().catch(() => ({}));
+                if (alive) setPreview(res.ok ? { occurrences: j.occurrences ?? [] } : { error: j.error || "Règle invalide" });
+            } catch {
+                if (alive) setPreview(null);
+            }
+        }, 300);
+        return () => { alive = false; clearTimeout(timer); };
+    }, [rrule, form.startsOn, form.endsOn, exdates]);
+
     /**
-     * @brief Adds a new recurring closure rule using form state fields.
-     * Sends a POST request to the backend and updates the list after.
-     * Displays an alert on failure.
-     * @doxygen
+     * @brief Creates a rule from the form. Displays an alert on failure.
      * @async
-     * @returns {Promise<void>}
      */
     async function addRule() {
         setBusy("new");
         try {
-            const body = {
-                weekday: rWeekday,
-                slot: rSlot,
-                note: rNote || undefined,
-                startsOn: rStartsOn ? new Date(rStartsOn).toISOString() : undefined,
-                endsOn: rEndsOn ? new Date(rEndsOn).toISOString() : undefined,
-                interval: rInterval || 1,
-            };
             const res = await fetch("/api/admin/recurring-closures", {
                 method: "POST",
                 credentials: "include",
                 headers: { "Content-Type": "application/json" },
-                body: JSON.stringify(body),
+                body: JSON.stringify({
+                    rrule,
+                    slot: form.slot,
+                    note: form.note || undefined,
+                    startsOn: form.startsOn || undefined,
+                    endsOn: form.endsOn || undefined,
+                    exdates,
+                }),
             });
             if (!res.ok) {
                 const j = await res.json().catch(() => ({}));
                 alert(j.error || "Échec de l'ajout de la récurrence");
-            } else {
-                setRNote(""); setRStartsOn(""); setREndsOn(""); setRInterval(1);
-                await load();
+                return;
             }
+            setForm({ ...form, note: "", startsOn: "", endsOn: "" });
+            setExdatesForm([]);
+            await load();
         } finally { setBusy(null); }
     }
 
     /**
-     * @brief Deletes a recurring closure rule by id after confirmation.
-     * Sends a DELETE request and reloads upon success.
-     * @param {string} id - The rule id to delete.
-     * @doxygen
+     * @brief Replaces the skipped days (EXDATE) of a rule.
+     * @param {RecurringRule} r - Rule to update
+     * @param {string[]} days - Skipped days (YYYY-MM-DD)
+     * @async
+     */
+    async function setExdates(r: RecurringRule, days: string[]) {
+        setBusy(r.id);
+        try {
+            const res = await fetch(`/api/admin/recurring-closures/${r.id}`, {
+                method: "PATCH",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ exdates: days }),
+            });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(j.error || "Échec de l'enregistrement");
+                return;
+            }
+            setExFor({ ...exFor, [r.id]: "" });
+            await load();
+        } finally { setBusy(null); }
+    }
+
+    /**
+     * @brief Deletes a rule after confirmation.
+     * @param {string} id - Rule id
      * @async
-     * @returns {Promise<void>}
      */
     async function delRule(id: string) {
         if (!confirm("Supprimer cette récurrence ?")) return;
@@ -1870,46 +4887,136 @@ function RecurringClosuresManager() {
         } finally { setBusy(null); }
     }
 
-    /** @brief Array of weekday labels for display (Monday-first, French). */
-    const weekdays = ["Lun", "Mar", "Mer", "Jeu", "Ven", "Sam", "Dim"]; // Mon=0
+    const input = "px-2 py-1 rounded border border-[#4C0C27]/30 bg-white";
+    const ymd = apiDay;
+    const shortDate = (d: string) => fmtDate(parseAPIDate(d), { weekday: "short", day: "2-digit", month: "short", year: "numeric" });
 
     return (
         <section className="mt-8">
             <h2 className="font-legacy text-2xl mb-3">Fermetures récurrentes</h2>
 
-            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4">
-                <div className="font-semibold mb-2">Ajouter une fermeture récurrente</div>
-                <div className="grid md:grid-cols-7 gap-2 items-center">
-                    <select value={rWeekday} onChange={e => setRWeekday(+e.target.value)}
-                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
-                        {weekdays.map((w, i) => <option key={i} value={i}>{w}</option>)}
+            <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 mb-4 space-y-3">
+                <div className="font-semibold">Ajouter une fermeture récurrente</div>
+
+                {/* Rule builder */}
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <select value={form.mode} onChange={e => setForm({ ...form, mode: e.target.value as RuleMode })} className={input}>
+                        <option value="WEEKLY">Chaque semaine</option>
+                        <option value="MONTHLY">Chaque mois</option>
+                        <option value="YEARLY">Chaque année</option>
+                        <option value="CUSTOM">Règle RRULE</option>
                     </select>
 
-                    <select value={rSlot} onChange={e => setRSlot(e.target.value as any)}
-                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
+                    {form.mode === "WEEKLY" && (
+                        <>
+                            le
+                            <select value={form.weekday} onChange={e => setForm({ ...form, weekday: +e.target.value })} className={input}>
+                                {WEEKDAY_NAMES.map((w, i) => <option key={i} value={i}>{w}</option>)}
+                            </select>
+                            toutes les
+                            <input type="number" min={1} value={form.interval}
+                                onChange={e => setForm({ ...form, interval: Math.max(1, Number(e.target.value) || 1) })}
+                                className={`${input} w-16`} />
+                            semaine(s)
+                        </>
+                    )}
+
+                    {form.mode === "MONTHLY" && (
+                        <>
+                            le
+                            <select value={form.ordinal} onChange={e => setForm({ ...form, ordinal: +e.target.value })} className={input}>
+                                {ORDINALS.map(([n, label]) => <option key={n} value={n}>{label}</option>)}
+                            </select>
+                            <select value={form.weekday} onChange={e => setForm({ ...form, weekday: +e.target.value })} className={input}>
+                                {WEEKDAY_NAMES.map((w, i) => <option key={i} value={i}>{w}</option>)}
+                            </select>
+                            du mois
+                        </>
+                    )}
+
+                    {form.mode === "YEARLY" && (
+                        <>
+                            du
+                            <input type="number" min={1} max={31} value={form.dayFrom}
+                                onChange={e => setForm({ ...form, dayFrom: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+                                className={`${input} w-16`} />
+                            au
+                            <input type="number" min={1} max={31} value={form.dayTo}
+                                onChange={e => setForm({ ...form, dayTo: Math.min(31, Math.max(1, Number(e.target.value) || 1)) })}
+                                className={`${input} w-16`} />
+                            <select value={form.month} onChange={e => setForm({ ...form, month: +e.target.value })} className={input}>
+                                {MONTH_NAMES.map((m, i) => <option key={i} value={i + 1}>{m}</option>)}
+                            </select>
+                        </>
+                    )}
+
+                    {form.mode === "CUSTOM" && (
+                        <input type="text" value={form.custom} onChange={e => setForm({ ...form, custom: e.target.value })}
+                            className={`${input} grow font-mono`} placeholder="FREQ=MONTHLY;BYDAY=-1SU" />
+                    )}
+                </div>
+                {form.mode !== "CUSTOM" && <div className="text-xs font-mono text-[#4C0C27]/70">{rrule}</div>}
+
+                {/* Slot, validity, note */}
+                <div className="grid md:grid-cols-6 gap-2 items-center text-sm">
+                    <select value={form.slot} onChange={e => setForm({ ...form, slot: e.target.value as RecurringRule["slot"] })} className={input}>
                         <option value="ALL">Toute la journée</option>
                         <option value="LUNCH">Midi</option>
                         <option value="DINNER">Soir</option>
                     </select>
-
-                    <input type="date" value={rStartsOn} onChange={e => setRStartsOn(e.target.value)}
-                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" placeholder="Début (optionnel)" />
-
-                    <input type="date" value={rEndsOn} onChange={e => setREndsOn(e.target.value)}
-                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" placeholder="Fin (optionnel)" />
-
-                    <input type="number" min={1} value={rInterval} onChange={e => setRInterval(Math.max(1, Number(e.target.value) || 1))}
-                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" placeholder="Toutes les N semaines" />
-
-                    <input type="text" placeholder="Note (facultatif)" value={rNote}
-                        onChange={(e) => setRNote(e.target.value)}
-                        className="px-2 py-1 rounded border border-[#4C0C27]/30 bg-white md:col-span-2" />
-
-                    <button onClick={addRule} disabled={busy === "new"}
-                        className="px-3 py-1.5 rounded bg-[#4C0C27] text-white">
+                    <label className="flex items-center gap-1">
+                        Dès
+                        <input type="date" lang={EU_LANG} value={form.startsOn} onChange={e => setForm({ ...form, startsOn: e.target.value })} className={`${input} grow`} />
+                    </label>
+                    <label className="flex items-center gap-1">
+                        Jusqu'au
+                        <input type="date" lang={EU_LANG} value={form.endsOn} onChange={e => setForm({ ...form, endsOn: e.target.value })} className={`${input} grow`} />
+                    </label>
+                    <input type="text" placeholder="Note (facultatif)" value={form.note}
+                        onChange={e => setForm({ ...form, note: e.target.value })} className={`${input} md:col-span-2`} />
+                    <button onClick={addRule} disabled={busy === "new" || (preview !== null && "error" in preview)}
+                        className="px-3 py-1.5 rounded bg-[#4C0C27] text-white disabled:opacity-50">
                         {busy === "new" ? "Enregistrement…" : "Ajouter"}
                     </button>
                 </div>
+
+                {/* Skipped days */}
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span>Sauf le</span>
+                    <input type="date" lang={EU_LANG} value={exInput} onChange={e => setExInput(e.target.value)} className={input} />
+                    <button
+                        onClick={() => { if (exInput && !exdates.includes(exInput)) setExdatesForm([...exdates, exInput].sort()); setExInput(""); }}
+                        className="px-2 py-1 rounded border border-[#4C0C27]/30"
+                    >
+                        Exclure
+                    </button>
+                    {exdates.map(d => (
+                        <span key={d} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-[#F7EBD9] text-xs">
+                            {shortDate(d)}
+                            <button onClick={() => setExdatesForm(exdates.filter(x => x !== d))} aria-label="Retirer">×</button>
+                        </span>
+                    ))}
+                </div>
+
+                {/* Preview */}
+                <div className="rounded-lg bg-[#F7EBD9]/60 p-3 text-sm">
+                    {preview === null ? (
+                        <span className="text-[#4C0C27]/70">Aperçu…</span>
+                    ) : "error" in preview ? (
+                        <span className="text-[#C81D25]">{preview.error}</span>
+                    ) : preview.occurrences.length === 0 ? (
+                        <span>Cette règle ne produit aucune date à venir.</span>
+                    ) : (
+                        <>
+                            <div className="font-semibold mb-1">Prochaines dates</div>
+                            <div className="flex flex-wrap gap-1.5">
+                                {preview.occurrences.map(d => (
+                                    <span key={d} className="px-2 py-0.5 rounded bg-white border border-[#4C0C27]/20 capitalize">{shortDate(d)}</span>
+                                ))}
+                            </div>
+                        </>
+                    )}
+                </div>
             </div>
 
             <div className="rounded-xl border border-[#4C0C27]/20 bg-white/70 p-2">
@@ -1921,23 +5028,46 @@ function RecurringClosuresManager() {
                     <table className="w-full text-sm">
                         <thead>
                             <tr className="text-left text-[#4C0C27]">
-                                <th className="p-2">Jour</th>
+                                <th className="p-2">Récurrence</th>
                                 <th className="p-2">Créneau</th>
                                 <th className="p-2">Début</th>
                                 <th className="p-2">Fin</th>
-                                <th className="p-2">Toutes les</th>
+                                <th className="p-2">Sauf</th>
                                 <th className="p-2">Note</th>
                                 <th className="p-2 w-32">Actions</th>
                             </tr>
                         </thead>
                         <tbody>
                             {rows.map(r => (
-                                <tr key={r.id} className="border-t border-[#4C0C27]/10">
-                                    <td className="p-2">{weekdays[r.weekday]}</td>
+                                <tr key={r.id} className="border-t border-[#4C0C27]/10 align-top">
+                                    <td className="p-2">
+                                        <div>{describeRRule(r.rrule) ?? "Règle personnalisée"}</div>
+                                        <div className="text-[11px] font-mono text-[#4C0C27]/70 break-all">{r.rrule}</div>
+                                    </td>
                                     <td className="p-2">{r.slot === "ALL" ? "Toute la journée" : r.slot === "LUNCH" ? "Midi" : "Soir"}</td>
-                                    <td className="p-2">{r.startsOn ? new Date(r.startsOn).toLocaleDateString() : "—"}</td>
-                                    <td className="p-2">{r.endsOn ? new Date(r.endsOn).toLocaleDateString() : "—"}</td>
-                                    <td className="p-2">{r.interval ?? 1} sem.</td>
+                                    <td className="p-2">{fmtDate(parseAPIDate(r.startsOn))}</td>
+                                    <td className="p-2">{r.endsOn ? fmtDate(parseAPIDate(r.endsOn)) : "—"}</td>
+                                    <td className="p-2">
+                                        <div className="flex flex-wrap gap-1 mb-1">
+                                            {r.exdates.map(ymd).map((d, _i, all) => (
+                                                <span key={d} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-[#F7EBD9] text-xs">
+                                                    {shortDate(d)}
+                                                    <button onClick={() => setExdates(r, all.filter(x => x !== d))} disabled={busy === r.id} aria-label="Retirer">×</button>
+                                                </span>
+                                            ))}
+                                        </div>
+                                        <div className="flex items-center gap-1">
+                                            <input type="date" lang={EU_LANG} value={exFor[r.id] ?? ""}
+                                                onChange={e => setExFor({ ...exFor, [r.id]: e.target.value })} className={`${input} text-xs`} />
+                                            <button
+                                                onClick={() => exFor[r.id] && setExdates(r, [...r.exdates.map(ymd), exFor[r.id]])}
+                                                disabled={busy === r.id || !exFor[r.id]}
+                                                className="px-2 py-1 rounded border border-[#4C0C27]/30 text-xs"
+                                            >
+                                                Exclure
+                                            </button>
+                                        </div>
+                                    </td>
                                     <td className="p-2">{r.note ?? ""}</td>
                                     <td className="p-2">
                                         <button onClick={() => delRule(r.id)} disabled={busy === r.id}
@@ -1955,6 +5085,227 @@ function RecurringClosuresManager() {
     );
 }
 
+/** ---------- Closures calendar (exceptional openings) ---------- */
+
+type CalendarDay = {
+    date: string; // "YYYY-MM-DD"
+    open: boolean;
+    closures: Array<{ slot: Slot; note?: string | null; kind: "EXCEPTIONAL" | "RECURRING" }>;
+    openings: Array<{ slot: Slot; note?: string | null }>;
+};
+
+type ClosureOverride = { id: string; date: string; slot: Slot; note?: string | null };
+
+/**
+ * @brief Month calendar of the closures as the public sees them, with exceptional openings.
+ *
+ * Clicking a day shows its closures and openings. On a day closed by a recurring rule, the day
+ * (or one service) can be opened exceptionally: this creates an override that cancels the
+ * recurring occurrence for that date only.
+ *
+ * @component
+ * @param {boolean} active - Whether the tab is shown; the month is reloaded when it becomes visible
+ * @returns {JSX.Element}
+ *
+ * API endpoints:
+ *   - GET /api/availability?from=&to=                  - Closures and openings per day
+ *   - GET/POST/DELETE /api/admin/closure-overrides     - Exceptional openings
+ */
+function ClosuresCalendarManager({ active }: { active: boolean }) {
+    const [month, setMonth] = useState(dayjs(todayYMD()).startOf("month"));
+    const [days, setDays] = useState<Record<string, CalendarDay>>({});
+    const [overrides, setOverrides] = useState<ClosureOverride[]>([]);
+    const [selected, setSelected] = useState<string | null>(null);
+    const [oSlot, setOSlot] = useState<Slot>("ALL");
+    const [oNote, setONote] = useState("");
+    const [busy, setBusy] = useState<string | "new" | null>(null);
+
+    /**
+     * @brief Loads the displayed month: availability (closures in force) and overrides.
+     * @async
+     */
+    async function load() {
+        const from = month.format("YYYY-MM-DD");
+        const to = month.endOf("month").format("YYYY-MM-DD");
+        const [availRes, overridesRes] = await Promise.all([
+            fetch(`/api/availability?from=${from}&to=${to}`),
+            fetch(`/api/admin/closure-overrides?start=${from}&end=${to}`, { credentials: "include" }),
+        ]);
+        const data: { days: CalendarDay[] } = availRes.ok ? await availRes.json() : { days: [] };
+        setDays(Object.fromEntries(data.days.map(d => [d.date, d])));
+        setOverrides(overridesRes.ok ? await overridesRes.json() : []);
+    }
+    useEffect(() => { if (active) load(); }, [month, active]);
+
+    /**
+     * @brief Opens the selected day (or one service) despite its recurring closure.
+     * @async
+     */
+    async function addOpening() {
+        if (!selected) return;
+        setBusy("new");
+        try {
+            const res = await fetch("/api/admin/closure-overrides", {
+                method: "POST",
+                credentials: "include",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ date: selected, slot: oSlot, note: oNote || undefined }),
+            });
+            if (!res.ok) {
+                const j = await res.json().catch(() => ({}));
+                alert(j.error || "Échec de l'ouverture exceptionnelle");
+                return;
+            }
+            setONote("");
+            await load();
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    /**
+     * @brief Deletes an exceptional opening: the recurring closure applies again.
+     * @param {ClosureOverride} o
+     * @async
+     */
+    async function delOpening(o: ClosureOverride) {
+        if (!confirm("Supprimer cette ouverture exceptionnelle ?")) return;
+        setBusy(o.id);
+        try {
+            await fetch(`/api/admin/closure-overrides/${o.id}`, { method: "DELETE", credentials: "include" });
+            await load();
+        } finally {
+            setBusy(null);
+        }
+    }
+
+    const slotLabel = (s: Slot) => s === "ALL" ? "Toute la journée" : s === "LUNCH" ? "Midi" : "Soir";
+    const lead = (month.day() + 6) % 7; // Monday-first grid
+    const cells: Array<string | null> = [
+        ...Array.from({ length: lead }, () => null),
+        ...Array.from({ length: month.daysInMonth() }, (_, i) => month.add(i, "day").format("YYYY-MM-DD")),
+    ];
+    const day = selected ? days[selected] : undefined;
+    const dayOverrides = overrides.filter(o => selected && apiDay(o.date) === selected);
+    const hasRecurring = !!day?.closures.some(c => c.kind === "RECURRING");
+
+    return (
+        <section>
+            <h2 className="font-legacy text-2xl mb-3">Calendrier des fermetures</h2>
+
+            <div className="grid lg:grid-cols-[minmax(0,1fr)_20rem] gap-4">
+                <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-3">
+                    <div className="flex items-center gap-2 mb-2">
+                        <button onClick={() => setMonth(month.subtract(1, "month"))} className="px-2 py-1 rounded border border-[#4C0C27]/30" aria-label="Mois précédent">←</button>
+                        <div className="font-semibold capitalize w-40 text-center">{fmtDate(month.format("YYYY-MM-DD"), { month: "long", year: "numeric" })}</div>
+                        <button onClick={() => setMonth(month.add(1, "month"))} className="px-2 py-1 rounded border border-[#4C0C27]/30" aria-label="Mois suivant">→</button>
+                    </div>
+
+                    <div className="grid grid-cols-7 text-center text-xs font-semibold text-[#4C0C27]">
+                        {["Lun", "Mar", "Mer", "Jeu", "Ven", "Sam", "Dim"].map(w => <div key={w} className="py-1">{w}</div>)}
+                    </div>
+                    <div className="grid grid-cols-7 gap-1">
+                        {cells.map((iso, i) => {
+                            if (!iso) return <div key={`empty-${i}`} />;
+                            const d = days[iso];
+                            const exceptional = d?.closures.some(c => c.kind === "EXCEPTIONAL");
+                            const recurring = d?.closures.some(c => c.kind === "RECURRING");
+                            const opened = !!d?.openings.length;
+                            return (
+                                <button
+                                    key={iso}
+                                    onClick={() => setSelected(iso)}
+                                    className={[
+                                        "h-14 rounded border text-left p-1 text-xs flex flex-col justify-between transition",
+                                        selected === iso ? "ring-2 ring-[#4C0C27]" : "",
+                                        exceptional ? "bg-[#4C0C27] text-white border-transparent"
+                                            : recurring ? "bg-[#A26BF5]/80 text-white border-transparent"
+                                                : d && !d.open ? "bg-gray-200 border-transparent"
+                                                    : "bg-white border-[#4C0C27]/15 hover:bg-[#F7EBD9]",
+                                        opened ? "outline outline-2 outline-dashed outline-[#2F855A]" : "",
+                                    ].join(" ")}
+                                >
+                                    <span>{Number(iso.slice(8))}</span>
+                                    {d?.closures.length ? (
+                                        <span className="truncate">{d.closures.map(c => slotLabel(c.slot)).join(", ")}</span>
+                                    ) : opened ? (
+                                        <span className="text-[#2F855A] font-semibold">Ouvert</span>
+                                    ) : null}
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    <div className="mt-3 flex flex-wrap gap-4 text-xs text-[#4C0C27]">
+                        <span className="inline-flex items-center gap-1"><span className="h-3 w-3 rounded bg-[#4C0C27]" /> Exceptionnelle</span>
+                        <span className="inline-flex items-center gap-1"><span className="h-3 w-3 rounded bg-[#A26BF5]" /> Récurrente</span>
+                        <span className="inline-flex items-center gap-1"><span className="h-3 w-3 rounded bg-gray-200" /> Fermé (horaires)</span>
+                        <span className="inline-flex items-center gap-1"><span className="h-3 w-3 rounded border-2 border-dashed border-[#2F855A]" /> Ouverture exceptionnelle</span>
+                    </div>
+                </div>
+
+                {/* Selected day */}
+                <div className="rounded-xl border border-[#4C0C27]/20 bg-white/80 p-4 text-sm">
+                    {!selected ? (
+                        <p className="text-[#4C0C27]">Cliquez sur un jour pour voir ses fermetures ou l'ouvrir exceptionnellement.</p>
+                    ) : (
+                        <div className="space-y-3">
+                            <div className="font-semibold capitalize">{fmtDate(parseAPIDate(selected), { weekday: "long", day: "2-digit", month: "long", year: "numeric" })}</div>
+
+                            {day?.closures.length ? (
+                                <ul className="space-y-1">
+                                    {day.closures.map((c, i) => (
+                                        <li key={i}>
+                                            {c.kind === "RECURRING" ? "Récurrente" : "Exceptionnelle"} · {slotLabel(c.slot)}
+                                            {c.note && <span className="italic text-[#4C0C27]/80"> — {c.note}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            ) : (
+                                <p className="text-[#4C0C27]">{day && !day.open ? "Fermé selon les horaires." : "Aucune fermeture."}</p>
+                            )}
+
+                            {dayOverrides.length > 0 && (
+                                <div>
+                                    <div className="font-semibold text-[#2F855A] mb-1">Ouvertures exceptionnelles</div>
+                                    <ul className="space-y-1">
+                                        {dayOverrides.map(o => (
+                                            <li key={o.id} className="flex items-center justify-between gap-2">
+                                                <span>{slotLabel(o.slot)}{o.note && <span className="italic text-[#4C0C27]/80"> — {o.note}</span>}</span>
+                                                <button onClick={() => delOpening(o)} disabled={busy === o.id} className="px-2 py-0.5 rounded bg-[#C81D25] text-white">
+                                                    Supprimer
+                                                </button>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {hasRecurring && (
+                                <div className="border-t border-[#4C0C27]/10 pt-3 space-y-2">
+                                    <div className="font-semibold">Ouvrir exceptionnellement</div>
+                                    <select value={oSlot} onChange={(e) => setOSlot(e.target.value as Slot)} className="w-full px-2 py-1 rounded border border-[#4C0C27]/30 bg-white">
+                                        <option value="ALL">Toute la journée</option>
+                                        <option value="LUNCH">Midi</option>
+                                        <option value="DINNER">Soir</option>
+                                    </select>
+                                    <input type="text" placeholder="Note (facultatif)" value={oNote} onChange={(e) => setONote(e.target.value)}
+                                        className="w-full px-2 py-1 rounded border border-[#4C0C27]/30 bg-white" />
+                                    <button onClick={addOpening} disabled={busy === "new"} className="w-full px-3 py-1.5 rounded bg-[#2F855A] text-white">
+                                        {busy === "new" ? "Enregistrement…" : "Ouvrir ce jour"}
+                                    </button>
+                                    <p className="text-xs text-[#4C0C27]">
+                                        Annule la fermeture récurrente pour cette date uniquement. Les fermetures exceptionnelles restent en place.
+                                    </p>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </section>
+    );
+}
 
 /**
  * @typedef Summary
@@ -2152,18 +5503,3 @@ function Card({ title, children }: { title: string; children: React.ReactNode })
     </div>
   );
 }
-
-/** ---------- helpers ---------- */
-
-// Convert "YYYY-MM-DD" (from <input type=date>) to a local Date ISO string
-function asDateTime(ymd: string): string {
-    const [y, m, d] = ymd.split("-").map(Number);
-    const dt = new Date(y, (m ?? 1) - 1, d ?? 1, 12, 0, 0); // noon local to avoid TZ midnight issues
-    return dt.toISOString();
-}
-
-// Parse "YYYY-MM-DD" (from inputs) to Date at local noon
-function parseYMD(ymd: string): Date {
-    const [y, m, d] = ymd.split("-").map(Number);
-    return new Date(y || 0, (m || 1) - 1, d || 1, 12, 0, 0);
-}
@@ -7,9 +7,18 @@ export default function AdminLogin() {
   const [email, setEmail] = useState("");
   const [pwd, setPwd] = useState("");
   const [err, setErr] = useState<string | null>(null);
+  /** "forgot" shows the reset link request form; "sent" confirms the request */
+  const [mode, setMode] = useState<"login" | "forgot" | "sent">("login");
+  const [busy, setBusy] = useState(false);
+  /** Set when the password was right and a two-factor code is expected */
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [useRecovery, setUseRecovery] = useState(false);
   const nav = useNavigate();
   const location = useLocation() as any;
   const next = location.state?.from?.pathname || "/admin";
+  /** Set by the reset page once a new password has been chosen */
+  const passwordSet = !!location.state?.passwordSet;
 
   async function onSubmit(e: React.FormEvent) {
     e.preventDefault();
@@ -20,14 +29,151 @@ export default function AdminLogin() {
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ email, password: pwd }),
     });
-    if (res.ok) {
+    const j = await res.json().catch(() => ({}));
+    if (res.ok && j.twoFactorRequired) {
+      setChallenge(j.challenge);
+      setCode("");
+    } else if (res.ok) {
       nav(next, { replace: true });
     } else {
-      const j = await res.json().catch(() => ({}));
       setErr(j.error || "Login failed");
     }
   }
 
+  async function onCode(e: React.FormEvent) {
+    e.preventDefault();
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch("/api/auth/login/2fa", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(useRecovery ? { challenge, recoveryCode: code } : { challenge, code }),
+      });
+      const j = await res.json().catch(() => ({}));
+      if (res.ok) {
+        if (typeof j.recoveryCodesLeft === "number") {
+          alert(`Recovery code used. ${j.recoveryCodesLeft} recovery code(s) left: create new ones in the dashboard's security section.`);
+        }
+        return nav(next, { replace: true });
+      }
+      if (res.status === 401 && j.error !== "Invalid code") {
+        // challenge expired: back to the password step
+        setChallenge(null);
+        setPwd("");
+      }
+      setErr(res.status === 429 ? "Too many attempts, try again in a few minutes" : j.error || "Login failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onForgot(e: React.FormEvent) {
+    e.preventDefault();
+    setErr(null);
+    setBusy(true);
+    try {
+      const res = await fetch("/api/auth/forgot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email }),
+      });
+      if (res.ok) setMode("sent");
+      else setErr(res.status === 429 ? "Too many requests, try again later" : "Enter a valid email address");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (challenge) {
+    return (
+      <div className="min-h-screen bg-[#F7EBD9] flex items-center justify-center p-6">
+        <form onSubmit={onCode} className="w-full max-w-md bg-white/80 backdrop-blur rounded-2xl border border-[#4C0C27]/20 p-8">
+          <div className="flex items-center gap-3 mb-6">
+            <img src={Logo} className="h-10" />
+            <h1 className="font-legacy text-2xl tracking-wide">Two-factor authentication</h1>
+          </div>
+          <label className="block text-sm mb-2">
+            {useRecovery ? "Recovery code" : "Code from your authenticator app"}
+          </label>
+          <input
+            className="w-full mb-4 px-3 py-2 rounded-lg border border-[#4C0C27]/30 bg-white font-mono tracking-widest"
+            value={code} onChange={e=>setCode(e.target.value)} required autoFocus
+            autoComplete="one-time-code"
+            inputMode={useRecovery ? "text" : "numeric"}
+            placeholder={useRecovery ? "xxxxx-xxxxx" : "123456"}
+          />
+          {err && <div className="text-[#C81D25] text-sm mb-3">{err}</div>}
+          <button
+            type="submit"
+            disabled={busy}
+            className="w-full py-2.5 rounded-lg bg-[#C81D25] text-white font-semibold hover:opacity-90 disabled:opacity-60"
+          >
+            Verify
+          </button>
+          <button
+            type="button"
+            onClick={() => { setUseRecovery(!useRecovery); setCode(""); setErr(null); }}
+            className="block mx-auto mt-4 text-sm underline text-[#4C0C27]"
+          >
+            {useRecovery ? "Use a code from the app" : "Lost your device? Use a recovery code"}
+          </button>
+          <button
+            type="button"
+            onClick={() => { setChallenge(null); setErr(null); }}
+            className="block mx-auto mt-2 text-sm underline text-[#4C0C27]"
+          >
+            Back to sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  if (mode !== "login") {
+    return (
+      <div className="min-h-screen bg-[#F7EBD9] flex items-center justify-center p-6">
+        <form onSubmit={onForgot} className="w-full max-w-md bg-white/80 backdrop-blur rounded-2xl border border-[#4C0C27]/20 p-8">
+          <div className="flex items-center gap-3 mb-6">
+            <img src={Logo} className="h-10" />
+            <h1 className="font-legacy text-2xl tracking-wide">Forgot password</h1>
+          </div>
+          {mode === "sent" ? (
+            <p className="text-sm mb-4">
+              If an account exists for <b>{email}</b>, a link to choose a new password has been sent to it.
+              The link is valid for one hour.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm mb-4">Enter your email address and we will send you a link to choose a new password.</p>
+              <label className="block text-sm mb-2">Email</label>
+              <input
+                className="w-full mb-4 px-3 py-2 rounded-lg border border-[#4C0C27]/30 bg-white"
+                value={email} onChange={e=>setEmail(e.target.value)} type="email" required autoFocus
+              />
+              {err && <div className="text-[#C81D25] text-sm mb-3">{err}</div>}
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full py-2.5 rounded-lg bg-[#C81D25] text-white font-semibold hover:opacity-90 disabled:opacity-60"
+              >
+                Send link
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => { setMode("login"); setErr(null); }}
+            className="block mx-auto mt-4 text-sm underline text-[#4C0C27]"
+          >
+            Back to sign in
+          </button>
+        </form>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-[#F7EBD9] flex items-center justify-center p-6">
       <form onSubmit={onSubmit} className="w-full max-w-md bg-white/80 backdrop-blur rounded-2xl border border-[#4C0C27]/20 p-8">
@@ -45,6 +191,7 @@ export default function AdminLogin() {
           className="w-full mb-4 px-3 py-2 rounded-lg border border-[#4C0C27]/30 bg-white"
           value={pwd} onChange={e=>setPwd(e.target.value)} type="password" required
         />
+        {passwordSet && !err && <div className="text-green-700 text-sm mb-3">Your password has been set, you can sign in.</div>}
         {err && <div className="text-[#C81D25] text-sm mb-3">{err}</div>}
         <button
           type="submit"
@@ -52,6 +199,13 @@ export default function AdminLogin() {
         >
           Sign in
         </button>
+        <button
+          type="button"
+          onClick={() => { setMode("forgot"); setErr(null); }}
+          className="block mx-auto mt-4 text-sm underline text-[#4C0C27]"
+        >
+          Forgot password?
+        </button>
       </form>
     </div>
   );
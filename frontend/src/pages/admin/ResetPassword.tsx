@@ -0,0 +1,83 @@
+// src/pages/admin/ResetPassword.tsx
+import { useState } from "react";
+import Logo from "@/assets/essentials/orangerose_logo-removebg-preview.png";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+
+/**
+ * @file ResetPassword.tsx
+ * @brief Page opened from a password reset or invitation email, to choose a password.
+ * @details The token comes from the link (`?token=`). Once the password is set, the user is sent
+ * to the login page.
+ */
+export default function ResetPassword() {
+  const [params] = useSearchParams();
+  const token = params.get("token") ?? "";
+  const [pwd, setPwd] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [err, setErr] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const nav = useNavigate();
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setErr(null);
+    if (pwd !== confirm) return setErr("The passwords do not match");
+    setBusy(true);
+    try {
+      const res = await fetch("/api/auth/reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password: pwd }),
+      });
+      if (res.ok) return nav("/admin/login", { replace: true, state: { passwordSet: true } });
+      const j = await res.json().catch(() => ({}));
+      setErr(
+        res.status === 429 ? "Too many requests, try again later"
+          : j.issues?.[0]?.path?.[0] === "password" ? "The password must be 10 to 72 characters long"
+            : "This link is invalid, has already been used or has expired"
+      );
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F7EBD9] flex items-center justify-center p-6">
+      <form onSubmit={onSubmit} className="w-full max-w-md bg-white/80 backdrop-blur rounded-2xl border border-[#4C0C27]/20 p-8">
+        <div className="flex items-center gap-3 mb-6">
+          <img src={Logo} className="h-10" />
+          <h1 className="font-legacy text-2xl tracking-wide">Choose a password</h1>
+        </div>
+        {!token ? (
+          <p className="text-sm mb-4">This link is incomplete. Open the link from the email again, or request a new one.</p>
+        ) : (
+          <>
+            <label className="block text-sm mb-2">New password (at least 10 characters)</label>
+            <input
+              className="w-full mb-4 px-3 py-2 rounded-lg border border-[#4C0C27]/30 bg-white"
+              value={pwd} onChange={e=>setPwd(e.target.value)} type="password" required minLength={10} maxLength={72}
+              autoComplete="new-password" autoFocus
+            />
+            <label className="block text-sm mb-2">Confirm password</label>
+            <input
+              className="w-full mb-4 px-3 py-2 rounded-lg border border-[#4C0C27]/30 bg-white"
+              value={confirm} onChange={e=>setConfirm(e.target.value)} type="password" required
+              autoComplete="new-password"
+            />
+            {err && <div className="text-[#C81D25] text-sm mb-3">{err}</div>}
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full py-2.5 rounded-lg bg-[#C81D25] text-white font-semibold hover:opacity-90 disabled:opacity-60"
+            >
+              Save password
+            </button>
+          </>
+        )}
+        <Link to="/admin/login" className="block text-center mt-4 text-sm underline text-[#4C0C27]">
+          Back to sign in
+        </Link>
+      </form>
+    </div>
+  );
+}